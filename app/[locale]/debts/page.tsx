@@ -0,0 +1,40 @@
+import { SignedIn } from '@clerk/nextjs'
+import { getTranslations, getLocale } from 'next-intl/server'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { SettingsLayout } from '@/components/settings/settings-layout'
+import { DebtsContent } from '@/components/debts/debts-content'
+import { getDebtOverview } from '@/app/actions/debts'
+import { getCategories } from '@/app/actions/transaction'
+import { getUserProfile } from '@/app/actions/seed'
+
+export default async function DebtsPage() {
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const t = await getTranslations()
+  const locale = await getLocale()
+
+  const [overview, categories, profile] = await Promise.all([getDebtOverview(), getCategories(), getUserProfile()])
+
+  // Convert locale to full locale for number and date formatting
+  const fullLocale = locale === 'de' ? 'de-DE' : 'en-US'
+
+  return (
+    <SignedIn>
+      <SettingsLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-zinc-900">{t('debts.title')}</h1>
+            <p className="text-sm text-zinc-500 mt-1">{t('debts.description')}</p>
+          </div>
+
+          <DebtsContent overview={overview} categories={categories} currency={profile.currency} locale={fullLocale} />
+        </div>
+      </SettingsLayout>
+    </SignedIn>
+  )
+}
@@ -0,0 +1,38 @@
+import { SignedIn } from '@clerk/nextjs'
+import { getTranslations, getLocale } from 'next-intl/server'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { SettingsLayout } from '@/components/settings/settings-layout'
+import { ChangeHistory } from '@/components/history/change-history'
+import { getChangeHistory } from '@/app/actions/history'
+
+export default async function HistoryPage() {
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const t = await getTranslations()
+  const locale = await getLocale()
+
+  const changes = await getChangeHistory()
+
+  // Convert locale to full locale for date formatting
+  const fullLocale = locale === 'de' ? 'de-DE' : 'en-US'
+
+  return (
+    <SignedIn>
+      <SettingsLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-zinc-900">{t('history.title')}</h1>
+            <p className="text-sm text-zinc-500 mt-1">{t('history.description')}</p>
+          </div>
+
+          <ChangeHistory changes={changes} locale={fullLocale} />
+        </div>
+      </SettingsLayout>
+    </SignedIn>
+  )
+}
@@ -0,0 +1,39 @@
+import { SignedIn } from '@clerk/nextjs'
+import { getTranslations, getLocale } from 'next-intl/server'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { SettingsLayout } from '@/components/settings/settings-layout'
+import { NetWorthContent } from '@/components/net-worth/net-worth-content'
+import { getNetWorthOverview } from '@/app/actions/net-worth'
+import { getUserProfile } from '@/app/actions/seed'
+
+export default async function NetWorthPage() {
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const t = await getTranslations()
+  const locale = await getLocale()
+
+  const [overview, profile] = await Promise.all([getNetWorthOverview(), getUserProfile()])
+
+  // Convert locale to full locale for number and date formatting
+  const fullLocale = locale === 'de' ? 'de-DE' : 'en-US'
+
+  return (
+    <SignedIn>
+      <SettingsLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-zinc-900">{t('netWorth.title')}</h1>
+            <p className="text-sm text-zinc-500 mt-1">{t('netWorth.description')}</p>
+          </div>
+
+          <NetWorthContent overview={overview} currency={profile.currency} locale={fullLocale} />
+        </div>
+      </SettingsLayout>
+    </SignedIn>
+  )
+}
@@ -10,16 +10,23 @@ import {
   getMonthlyStatistics,
   getBillsChecklist,
   getSinkingFunds,
+  getCategoryModel,
+  searchTransactions,
 } from '@/app/actions/transaction'
-import { getMonthlyBudgets, getBudgetSummary, getAllSuggestedAmounts } from '@/app/actions/budgets'
+import { getMonthlyBudgets, getBudgetSummary, getAllSuggestedAmounts, getBudgetMoves } from '@/app/actions/budgets'
 import { seedUserDefaults, getUserProfile } from '@/app/actions/seed'
+import { getAccounts } from '@/app/actions/accounts'
+import { getUpcomingTransactions } from '@/app/actions/recurring'
+import { getPayees } from '@/app/actions/payees'
+import { getUpcomingShortfalls } from '@/app/actions/forecast'
 import { LanguageSwitcher } from '@/components/language-switcher'
 import Link from 'next/link'
-import { Settings } from 'lucide-react'
+import { BarChart3, CalendarRange, History, Landmark, Settings, TrendingDown } from 'lucide-react'
 import { startOfMonth, parse } from 'date-fns'
+import { parseTransactionFilters, hasTransactionFilters, type TransactionFilters } from '@/lib/transaction-filters'
 
 interface PageProps {
-  searchParams: Promise<{ month?: string }>
+  searchParams: Promise<Record<string, string | undefined>> // month, account and the transaction filters
 }
 
 export default async function DashboardPage({ searchParams }: PageProps) {
@@ -33,7 +40,11 @@ export default async function DashboardPage({ searchParams }: PageProps) {
       </SignedOut>
 
       <SignedIn>
-        <Dashboard monthParam={params.month} />
+        <Dashboard
+          monthParam={params.month}
+          accountParam={params.account}
+          filters={parseTransactionFilters(params)}
+        />
       </SignedIn>
     </>
   )
@@ -41,9 +52,11 @@ export default async function DashboardPage({ searchParams }: PageProps) {
 
 interface DashboardProps {
   monthParam?: string
+  accountParam?: string
+  filters: TransactionFilters
 }
 
-async function Dashboard({ monthParam }: DashboardProps) {
+async function Dashboard({ monthParam, accountParam, filters }: DashboardProps) {
   const t = await getTranslations()
   const locale = await getLocale()
 
@@ -63,6 +76,9 @@ async function Dashboard({ monthParam }: DashboardProps) {
   // Seed default categories for new users
   await seedUserDefaults()
 
+  // Due recurring transactions and elapsed month closes are written by the
+  // nightly cron job (/api/cron/recurring), not on every render
+
   // Fetch data server-side for the selected month
   const [
     transactions,
@@ -73,9 +89,16 @@ async function Dashboard({ monthParam }: DashboardProps) {
     monthlyBudgets,
     budgetSummary,
     suggestedAmounts,
+    budgetMoves,
+    accounts,
+    upcomingTransactions,
+    categoryModel,
+    payees,
+    search,
     profile,
+    shortfalls,
   ] = await Promise.all([
-    getRecentTransactions(50, currentMonth),
+    getRecentTransactions(50, currentMonth, accountParam),
     getCategories(),
     getMonthlyStatistics(currentMonth),
     getBillsChecklist(currentMonth),
@@ -83,9 +106,21 @@ async function Dashboard({ monthParam }: DashboardProps) {
     getMonthlyBudgets(currentMonth),
     getBudgetSummary(currentMonth),
     getAllSuggestedAmounts(currentMonth),
+    getBudgetMoves(currentMonth),
+    getAccounts(),
+    getUpcomingTransactions(30),
+    getCategoryModel(),
+    getPayees(),
+    // With filters the transaction list shows search results across all months
+    hasTransactionFilters(filters) ? searchTransactions({ ...filters, account_id: accountParam }) : null,
     getUserProfile(),
+    getUpcomingShortfalls(),
   ])
 
+  if (search && !search.success) {
+    console.error('Transaction search failed:', search.error)
+  }
+
   // Check trial status - redirect to /expired if trial ended and not active
   const isTrialExpired =
     profile.subscription_status !== 'active' &&
@@ -115,6 +150,41 @@ async function Dashboard({ monthParam }: DashboardProps) {
         <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
           <h1 className="text-xl font-semibold text-zinc-900">{t('app.name')}</h1>
           <div className="flex items-center gap-3">
+            <Link
+              href={`/${locale}/reports`}
+              className="text-zinc-500 hover:text-zinc-900 transition-colors"
+              title={t('reports.title')}
+            >
+              <BarChart3 className="w-5 h-5" />
+            </Link>
+            <Link
+              href={`/${locale}/forecast`}
+              className="text-zinc-500 hover:text-zinc-900 transition-colors"
+              title={t('forecast.title')}
+            >
+              <CalendarRange className="w-5 h-5" />
+            </Link>
+            <Link
+              href={`/${locale}/net-worth`}
+              className="text-zinc-500 hover:text-zinc-900 transition-colors"
+              title={t('netWorth.title')}
+            >
+              <Landmark className="w-5 h-5" />
+            </Link>
+            <Link
+              href={`/${locale}/debts`}
+              className="text-zinc-500 hover:text-zinc-900 transition-colors"
+              title={t('debts.title')}
+            >
+              <TrendingDown className="w-5 h-5" />
+            </Link>
+            <Link
+              href={`/${locale}/history`}
+              className="text-zinc-500 hover:text-zinc-900 transition-colors"
+              title={t('history.title')}
+            >
+              <History className="w-5 h-5" />
+            </Link>
             <Link
               href={`/${locale}/settings`}
               className="text-zinc-500 hover:text-zinc-900 transition-colors"
@@ -136,8 +206,16 @@ async function Dashboard({ monthParam }: DashboardProps) {
           initialSinkingFunds={sinkingFunds}
           initialBudgets={monthlyBudgets}
           initialBudgetSummary={budgetSummary}
+          budgetMoves={budgetMoves}
           suggestedAmounts={suggestedAmounts}
           categories={categories}
+          accounts={accounts}
+          upcomingTransactions={upcomingTransactions}
+          shortfalls={shortfalls}
+          categoryModel={categoryModel}
+          payees={payees}
+          searchResult={search ? (search.success ? search.data : { transactions: [], next_cursor: null }) : null}
+          selectedAccountId={accountParam}
           currency={profile.currency}
           locale={fullLocale}
           currentMonth={currentMonth.toISOString()}
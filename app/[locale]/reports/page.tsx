@@ -0,0 +1,57 @@
+import { SignedIn } from '@clerk/nextjs'
+import { getTranslations, getLocale } from 'next-intl/server'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { SettingsLayout } from '@/components/settings/settings-layout'
+import { ReportsContent } from '@/components/reports/reports-content'
+import { getBudgetVariance, getCategorySpending, getMonthlyTrends } from '@/app/actions/analytics'
+import { getUserProfile } from '@/app/actions/seed'
+import { fillMonthlyTrends, parseReportRange } from '@/lib/reports'
+
+interface PageProps {
+  searchParams: Promise<Record<string, string | undefined>> // from and to (YYYY-MM)
+}
+
+export default async function ReportsPage({ searchParams }: PageProps) {
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const t = await getTranslations()
+  const locale = await getLocale()
+  const range = parseReportRange(await searchParams)
+
+  const [trends, spending, variance, profile] = await Promise.all([
+    getMonthlyTrends(range.from, range.to),
+    getCategorySpending(range.from, range.to),
+    getBudgetVariance(range.from, range.to),
+    getUserProfile(),
+  ])
+
+  // Convert locale to full locale for number and date formatting
+  const fullLocale = locale === 'de' ? 'de-DE' : 'en-US'
+
+  return (
+    <SignedIn>
+      <SettingsLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-zinc-900">{t('reports.title')}</h1>
+            <p className="text-sm text-zinc-500 mt-1">{t('reports.description')}</p>
+          </div>
+
+          <ReportsContent
+            range={range}
+            trends={fillMonthlyTrends(trends.success ? trends.data : [], range)}
+            spending={spending.success ? spending.data : []}
+            variance={variance.success ? variance.data : null}
+            currency={profile.currency}
+            locale={fullLocale}
+          />
+        </div>
+      </SettingsLayout>
+    </SignedIn>
+  )
+}
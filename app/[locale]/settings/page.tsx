@@ -1,10 +1,15 @@
 import { SignedIn } from '@clerk/nextjs'
-import { getTranslations } from 'next-intl/server'
+import { getTranslations, getLocale } from 'next-intl/server'
 import { redirect } from 'next/navigation'
 import { auth } from '@clerk/nextjs/server'
 import { SettingsLayout } from '@/components/settings/settings-layout'
 import { SettingsTabs } from '@/components/settings/settings-tabs'
 import { getUserCategories } from '@/app/actions/categories'
+import { getAccounts } from '@/app/actions/accounts'
+import { getRecurringTransactions } from '@/app/actions/recurring'
+import { getCategoryRules } from '@/app/actions/rules'
+import { getPayees } from '@/app/actions/payees'
+import { getUserProfile } from '@/app/actions/seed'
 
 export default async function SettingsPage() {
   const { userId } = await auth()
@@ -14,9 +19,20 @@ export default async function SettingsPage() {
   }
 
   const t = await getTranslations()
+  const locale = await getLocale()
 
-  // Fetch categories server-side
-  const categories = await getUserCategories()
+  // Fetch categories, accounts, recurring transactions, rules and payees server-side
+  const [categories, accounts, recurring, rules, payees, profile] = await Promise.all([
+    getUserCategories(),
+    getAccounts(),
+    getRecurringTransactions(),
+    getCategoryRules(),
+    getPayees(),
+    getUserProfile(),
+  ])
+
+  // Convert locale to full locale for number formatting
+  const fullLocale = locale === 'de' ? 'de-DE' : 'en-US'
 
   return (
     <SignedIn>
@@ -31,7 +47,15 @@ export default async function SettingsPage() {
             </p>
           </div>
 
-          <SettingsTabs categories={categories} />
+          <SettingsTabs
+            categories={categories}
+            accounts={accounts}
+            recurring={recurring}
+            rules={rules}
+            payees={payees}
+            currency={profile.currency}
+            locale={fullLocale}
+          />
         </div>
       </SettingsLayout>
     </SignedIn>
@@ -0,0 +1,413 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import { parseAmount } from '@/lib/currency'
+import { getUserAccounts } from '@/lib/accounts-store'
+import {
+  insertAccountSchema,
+  type Account,
+  type AccountBalanceAt,
+  type AccountWithBalance,
+  type ApiResponse,
+} from '@/lib/types'
+
+export type AccountFormData = z.input<typeof insertAccountSchema>
+
+const STATEMENT_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Create or rename the CREDIT_CARD payment category of a credit card account
+ * Card spending is moved into this category so the bill is already budgeted
+ */
+async function syncPaymentCategory(userId: string, account: Account): Promise<Account> {
+  if (account.type !== 'CREDIT_CARD') return account
+
+  if (account.payment_category_id) {
+    await getServerSupabase()
+      .from('categories')
+      .update({ name: account.name, is_active: true })
+      .eq('id', account.payment_category_id)
+      .eq('user_id', userId)
+    return account
+  }
+
+  const { data: category, error } = await getServerSupabase()
+    .from('categories')
+    .insert({
+      user_id: userId,
+      name: account.name,
+      icon: 'CreditCard',
+      color: '#64748b',
+      type: 'CREDIT_CARD',
+      rollover_strategy: 'ACCUMULATE',
+      is_active: true,
+    })
+    .select('id')
+    .single()
+
+  if (error || !category) {
+    console.error('Error creating payment category:', error)
+    throw new Error('Failed to create payment category')
+  }
+
+  const { data: updated, error: linkError } = await getServerSupabase()
+    .from('accounts')
+    .update({ payment_category_id: category.id })
+    .eq('id', account.id)
+    .eq('user_id', userId)
+    .select()
+    .single()
+
+  if (linkError) {
+    console.error('Error linking payment category:', linkError)
+    throw new Error('Failed to link payment category')
+  }
+
+  return updated
+}
+
+/**
+ * Get all active accounts for the current user with their balances
+ */
+export async function getAccounts(): Promise<AccountWithBalance[]> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      throw new Error('Unauthorized')
+    }
+
+    return await getUserAccounts(userId)
+  } catch (error) {
+    console.error('Error in getAccounts:', error)
+    throw error
+  }
+}
+
+/**
+ * Create a new account
+ */
+export async function createAccount(data: AccountFormData): Promise<ApiResponse<Account>> {
+  return withChangeLog('account.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      // Validate input
+      const validated = insertAccountSchema.parse(data)
+
+      const { data: account, error } = await getServerSupabase()
+        .from('accounts')
+        .insert({
+          user_id: userId,
+          name: validated.name,
+          type: validated.type,
+          initial_balance: validated.initial_balance,
+          is_active: true,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating account:', error)
+        return { success: false, error: 'Failed to create account' }
+      }
+
+      const linkedAccount = await syncPaymentCategory(userId, account)
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: linkedAccount }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createAccount:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Update an existing account
+ */
+export async function updateAccount(id: string, data: AccountFormData): Promise<ApiResponse<Account>> {
+  return withChangeLog('account.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      // Validate input
+      const validated = insertAccountSchema.parse(data)
+
+      const { data: account, error } = await getServerSupabase()
+        .from('accounts')
+        .update({
+          name: validated.name,
+          type: validated.type,
+          initial_balance: validated.initial_balance,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating account:', error)
+        return { success: false, error: 'Failed to update account' }
+      }
+
+      const linkedAccount = await syncPaymentCategory(userId, account)
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: linkedAccount }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateAccount:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete an account (soft delete if it still has transactions)
+ */
+export async function deleteAccount(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('account.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { data: account } = await getServerSupabase()
+        .from('accounts')
+        .select('payment_category_id')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      // Check if account has transactions
+      const { data: transactions, error: checkError } = await getServerSupabase()
+        .from('transactions')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('account_id', id)
+        .limit(1)
+
+      if (checkError) {
+        console.error('Error checking account usage:', checkError)
+        return { success: false, error: 'Failed to check account usage' }
+      }
+
+      if (transactions && transactions.length > 0) {
+        // Soft delete: keep the account so transactions keep their history
+        const { error } = await getServerSupabase()
+          .from('accounts')
+          .update({ is_active: false, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', userId)
+
+        if (error) {
+          console.error('Error deactivating account:', error)
+          return { success: false, error: 'Failed to delete account' }
+        }
+      } else {
+        // Hard delete: no transactions
+        const { error } = await getServerSupabase()
+          .from('accounts')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId)
+
+        if (error) {
+          console.error('Error deleting account:', error)
+          return { success: false, error: 'Failed to delete account' }
+        }
+      }
+
+      // Hide the card's payment category together with the card
+      if (account?.payment_category_id) {
+        await getServerSupabase()
+          .from('categories')
+          .update({ is_active: false })
+          .eq('id', account.payment_category_id)
+          .eq('user_id', userId)
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deleteAccount:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Balance of an account from its transactions up to a date
+ */
+async function getBalanceAt(userId: string, account: Account, date: string): Promise<AccountBalanceAt> {
+  const rows = await fetchAllRows<{ amount: string; is_reconciled: boolean }>((from, to) =>
+    getServerSupabase()
+      .from('transactions')
+      .select('amount, is_reconciled')
+      .eq('user_id', userId)
+      .eq('account_id', account.id)
+      .lte('date', date)
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+
+  const cents = rows.reduce(
+    (sum, row) => sum + Math.round(parseFloat(row.amount) * 100),
+    Math.round(parseFloat(account.initial_balance) * 100)
+  )
+
+  return {
+    balance: (cents / 100).toFixed(2),
+    unreconciled_count: rows.filter((row) => !row.is_reconciled).length,
+  }
+}
+
+/**
+ * Account balance as of a statement date, shown before reconciling
+ */
+export async function getAccountBalanceAt(accountId: string, date: string): Promise<AccountBalanceAt> {
+  const { userId } = await auth()
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  if (!STATEMENT_DATE_REGEX.test(date)) {
+    throw new Error('Invalid statement date')
+  }
+
+  const accounts = await getAccounts()
+  const account = accounts.find((a) => a.id === accountId)
+  if (!account) {
+    throw new Error('Account not found')
+  }
+
+  return getBalanceAt(userId, account, date)
+}
+
+/**
+ * Reconcile an account against the bank's statement balance
+ *
+ * 1. Compares the statement balance with the account balance on the statement date
+ * 2. If they differ, either fails or books the difference as an adjustment on that date
+ * 3. Locks the transactions of the account up to the statement date (is_reconciled = true)
+ *
+ * Transactions after the statement date stay editable for the next statement.
+ *
+ * @param statementBalance - Balance printed on the bank statement
+ * @param statementDate - Closing date of the statement (yyyy-MM-dd)
+ * @param createAdjustment - Book the difference as an uncategorized transaction
+ * @returns The reconciled account
+ */
+export async function reconcileAccount(
+  accountId: string,
+  statementBalance: string,
+  statementDate: string,
+  createAdjustment: boolean = false
+): Promise<ApiResponse<Account>> {
+  return withChangeLog('account.reconcile', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const statement = parseAmount(statementBalance)
+      if (isNaN(statement)) {
+        return { success: false, error: 'Statement balance must be a number' }
+      }
+
+      if (!STATEMENT_DATE_REGEX.test(statementDate)) {
+        return { success: false, error: 'Invalid statement date' }
+      }
+
+      const accounts = await getAccounts()
+      const account = accounts.find((a) => a.id === accountId)
+      if (!account) {
+        return { success: false, error: 'Account not found' }
+      }
+
+      const { balance } = await getBalanceAt(userId, account, statementDate)
+      const difference = Math.round((statement - parseFloat(balance)) * 100) / 100
+
+      if (difference !== 0) {
+        if (!createAdjustment) {
+          return { success: false, error: 'Balance does not match the statement' }
+        }
+
+        const { error: adjustmentError } = await getServerSupabase()
+          .from('transactions')
+          .insert({
+            user_id: userId,
+            account_id: accountId,
+            category_id: null,
+            amount: difference.toFixed(2),
+            date: statementDate,
+            memo: 'Reconciliation adjustment',
+          })
+
+        if (adjustmentError) {
+          console.error('Error creating reconciliation adjustment:', adjustmentError)
+          return { success: false, error: 'Failed to create adjustment transaction' }
+        }
+
+        // Transactions in a closed month change its sweep transfers
+        await recloseMonthsFrom(statementDate.slice(0, 7))
+      }
+
+      // Lock every transaction that is now part of the reconciled balance
+      const { error: lockError } = await getServerSupabase()
+        .from('transactions')
+        .update({ is_reconciled: true })
+        .eq('user_id', userId)
+        .eq('account_id', accountId)
+        .eq('is_reconciled', false)
+        .lte('date', statementDate)
+
+      if (lockError) {
+        console.error('Error locking reconciled transactions:', lockError)
+        return { success: false, error: 'Failed to lock transactions' }
+      }
+
+      const { data: reconciled, error } = await getServerSupabase()
+        .from('accounts')
+        .update({
+          last_reconciled_at: new Date().toISOString(),
+          last_reconciled_balance: statement.toFixed(2),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', accountId)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating account reconciliation:', error)
+        return { success: false, error: 'Failed to reconcile account' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: reconciled }
+    } catch (error) {
+      console.error('Error in reconcileAccount:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
@@ -1,15 +1,19 @@
 'use server'
 
 import { auth } from '@clerk/nextjs/server'
-import { getServerSupabase } from '@/lib/supabase'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { buildVarianceReport, getRangeFilters, getReportMonths } from '@/lib/reports'
 import type {
   ApiResponse,
   MonthlySummary,
   MonthlyTrend,
   CategorySpending,
   Category,
+  VarianceReport,
 } from '@/lib/types'
 
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
 /**
  * Get monthly summary for a specific month
  * Falls back to real-time calculation if summary doesn't exist
@@ -86,10 +90,11 @@ export async function getMonthlyTrends(
 }
 
 /**
- * Get spending breakdown by category for a specific month
+ * Get spending breakdown by category for a month or a range of months
  */
 export async function getCategorySpending(
-  monthIso: string
+  monthIso: string, // YYYY-MM
+  endMonthIso: string = monthIso // YYYY-MM, inclusive
 ): Promise<ApiResponse<CategorySpending[]>> {
   try {
     const { userId } = await auth()
@@ -97,29 +102,28 @@ export async function getCategorySpending(
       return { success: false, error: 'Unauthorized' }
     }
 
-    // Get the monthly summary
-    const { data: summary, error: summaryError } = await getServerSupabase()
+    // Get the monthly summaries
+    const { data: summaries, error: summaryError } = await getServerSupabase()
       .from('monthly_summaries')
       .select('expenses_by_category, total_expenses')
       .eq('user_id', userId)
-      .eq('month_iso', monthIso)
-      .single()
+      .gte('month_iso', monthIso)
+      .lte('month_iso', endMonthIso)
 
-    if (summaryError && summaryError.code !== 'PGRST116') {
+    if (summaryError) {
       console.error('Error fetching summary:', summaryError)
       return { success: false, error: summaryError.message }
     }
 
-    if (!summary || !summary.expenses_by_category) {
+    if (!summaries || summaries.length === 0) {
       return { success: true, data: [] }
     }
 
-    // Get categories for names and icons
+    // Get categories for names and icons (archived ones too, they may have spending in the range)
     const { data: categories, error: catError } = await getServerSupabase()
       .from('categories')
       .select('id, name, icon, color, type')
       .eq('user_id', userId)
-      .eq('is_active', true)
 
     if (catError) {
       console.error('Error fetching categories:', catError)
@@ -129,8 +133,14 @@ export async function getCategorySpending(
     const categoryMap = new Map<string, Category>()
     categories?.forEach((cat) => categoryMap.set(cat.id, cat as Category))
 
-    const totalExpenses = parseFloat(summary.total_expenses) || 1 // avoid division by zero
-    const expensesByCategory = summary.expenses_by_category as Record<string, number>
+    const totalExpenses =
+      summaries.reduce((sum, summary) => sum + (parseFloat(summary.total_expenses) || 0), 0) || 1 // avoid division by zero
+    const expensesByCategory: Record<string, number> = {}
+    for (const summary of summaries) {
+      for (const [categoryId, amount] of Object.entries((summary.expenses_by_category || {}) as Record<string, number>)) {
+        expensesByCategory[categoryId] = (expensesByCategory[categoryId] || 0) + amount
+      }
+    }
 
     const spending: CategorySpending[] = Object.entries(expensesByCategory)
       .map(([categoryId, amount]) => {
@@ -211,6 +221,87 @@ export async function getYearToDateTotals(year: number): Promise<
   }
 }
 
+/**
+ * Get budget vs. actual per category and month for a date range
+ * Spending comes from transaction lines (split lines count for their category);
+ * sweep transfers of the month close are not spending
+ */
+export async function getBudgetVariance(
+  startMonth: string, // YYYY-MM
+  endMonth: string // YYYY-MM, inclusive
+): Promise<ApiResponse<VarianceReport>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (!MONTH_PATTERN.test(startMonth) || !MONTH_PATTERN.test(endMonth) || startMonth > endMonth) {
+      return { success: false, error: 'Invalid month range' }
+    }
+
+    const range = { from: startMonth, to: endMonth }
+    const dates = getRangeFilters(range)
+
+    const [categories, budgets, lines] = await Promise.all([
+      fetchAllRows<Pick<Category, 'id' | 'name' | 'type' | 'is_active'>>((from, to) =>
+        getServerSupabase()
+          .from('categories')
+          .select('id, name, type, is_active')
+          .eq('user_id', userId)
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllRows<{ category_id: string; month_iso: string; assigned_amount: string }>((from, to) =>
+        getServerSupabase()
+          .from('monthly_budgets')
+          .select('category_id, month_iso, assigned_amount')
+          .eq('user_id', userId)
+          .gte('month_iso', startMonth)
+          .lte('month_iso', endMonth)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllRows<{ category_id: string; date: string; amount: string }>((from, to) =>
+        getServerSupabase()
+          .from('transaction_lines')
+          .select('category_id, date, amount')
+          .eq('user_id', userId)
+          .eq('is_sweep_transaction', false)
+          .not('category_id', 'is', null)
+          .gte('date', dates.from)
+          .lte('date', dates.to)
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .order('split_id', { ascending: true })
+          .range(from, to)
+      ),
+    ])
+
+    const report = buildVarianceReport(
+      getReportMonths(range),
+      categories,
+      budgets.map((budget) => ({
+        category_id: budget.category_id,
+        month_iso: budget.month_iso,
+        amount: parseFloat(budget.assigned_amount) || 0,
+      })),
+      lines.map((line) => ({
+        category_id: line.category_id,
+        month_iso: line.date.slice(0, 7),
+        amount: parseFloat(line.amount) || 0,
+      }))
+    )
+
+    return { success: true, data: report }
+  } catch (error) {
+    console.error('Unexpected error in getBudgetVariance:', error)
+    return { success: false, error: 'Failed to fetch budget variance' }
+  }
+}
+
 /**
  * Get all monthly summaries for a user (for export or full analytics)
  */
@@ -2,21 +2,35 @@
 
 import { auth } from '@clerk/nextjs/server'
 import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
 import { getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
 import {
   insertMonthlyBudgetSchema,
+  insertBudgetMoveSchema,
   type ApiResponse,
+  type BudgetMove,
   type MonthlyBudget,
   type MonthlyBudgetWithActivity,
   type BudgetSummary,
-  type Category,
   type RolloverStrategy,
 } from '@/lib/types'
-import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import { parseAmount } from '@/lib/currency'
+import { getRolloverHistory, getUserMonthlyBudgets } from '@/lib/budgets-store'
+import { getPlannedDebtPayments } from '@/app/actions/debts'
+import {
+  getCarryover,
+  getSweepAmount,
+  getAvailableThrough,
+  getEffectiveSweepTarget,
+} from '@/lib/rollover'
+import { format, parse, startOfMonth, endOfMonth, subMonths } from 'date-fns'
 
 /**
  * Get monthly budgets for a specific month with activity calculations
- * IMPORTANT: start_balance is calculated dynamically from previous month's available balance
+ * IMPORTANT: start_balance is calculated dynamically by walking each category's full history
+ * Sweep transfers from the month close are reported separately as `swept`, not as activity
  */
 export async function getMonthlyBudgets(
   monthDate: Date = new Date()
@@ -24,149 +38,7 @@ export async function getMonthlyBudgets(
   const { userId } = await auth()
   if (!userId) throw new Error('Unauthorized')
 
-  const monthStart = startOfMonth(monthDate)
-  const monthEnd = endOfMonth(monthDate)
-  const monthIso = format(monthStart, 'yyyy-MM')
-  const startDateStr = format(monthStart, 'yyyy-MM-dd')
-  const endDateStr = format(monthEnd, 'yyyy-MM-dd')
-
-  // Previous month dates for rollover calculation
-  const prevMonthStart = startOfMonth(subMonths(monthDate, 1))
-  const prevMonthEnd = endOfMonth(subMonths(monthDate, 1))
-  const prevMonthIso = format(prevMonthStart, 'yyyy-MM')
-  const prevStartDateStr = format(prevMonthStart, 'yyyy-MM-dd')
-  const prevEndDateStr = format(prevMonthEnd, 'yyyy-MM-dd')
-
-  // Get all active categories for the user
-  const { data: categories, error: catError } = await getServerSupabase()
-    .from('categories')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('is_active', true)
-    .order('sort_order', { ascending: true })
-    .order('name', { ascending: true })
-
-  if (catError) {
-    console.error('Error fetching categories:', catError)
-    throw new Error('Failed to fetch categories')
-  }
-
-  // Get existing monthly budgets for this month
-  const { data: budgets, error: budgetError } = await getServerSupabase()
-    .from('monthly_budgets')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('month_iso', monthIso)
-
-  if (budgetError) {
-    console.error('Error fetching monthly budgets:', budgetError)
-    throw new Error('Failed to fetch monthly budgets')
-  }
-
-  // Get previous month's budgets for rollover calculation
-  const { data: prevBudgets } = await getServerSupabase()
-    .from('monthly_budgets')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('month_iso', prevMonthIso)
-
-  // Get all transactions for this month
-  const { data: transactions, error: txError } = await getServerSupabase()
-    .from('transactions')
-    .select('category_id, amount')
-    .eq('user_id', userId)
-    .gte('date', startDateStr)
-    .lte('date', endDateStr)
-
-  if (txError) {
-    console.error('Error fetching transactions:', txError)
-    throw new Error('Failed to fetch transactions')
-  }
-
-  // Get previous month's transactions for rollover calculation
-  const { data: prevTransactions } = await getServerSupabase()
-    .from('transactions')
-    .select('category_id, amount')
-    .eq('user_id', userId)
-    .gte('date', prevStartDateStr)
-    .lte('date', prevEndDateStr)
-
-  // Calculate activity per category for current month
-  const activityByCategory: Record<string, number> = {}
-  for (const tx of transactions || []) {
-    if (tx.category_id) {
-      activityByCategory[tx.category_id] =
-        (activityByCategory[tx.category_id] || 0) + parseFloat(tx.amount)
-    }
-  }
-
-  // Calculate activity per category for previous month
-  const prevActivityByCategory: Record<string, number> = {}
-  for (const tx of prevTransactions || []) {
-    if (tx.category_id) {
-      prevActivityByCategory[tx.category_id] =
-        (prevActivityByCategory[tx.category_id] || 0) + parseFloat(tx.amount)
-    }
-  }
-
-  // Map budgets by category_id
-  const budgetByCategory: Record<string, MonthlyBudget> = {}
-  for (const budget of budgets || []) {
-    budgetByCategory[budget.category_id] = budget
-  }
-
-  // Map previous budgets by category_id
-  const prevBudgetByCategory: Record<string, MonthlyBudget> = {}
-  for (const budget of prevBudgets || []) {
-    prevBudgetByCategory[budget.category_id] = budget
-  }
-
-  // Build result: one entry per category
-  const result: MonthlyBudgetWithActivity[] = []
-
-  for (const category of categories || []) {
-    const budget = budgetByCategory[category.id]
-    const activity = activityByCategory[category.id] || 0
-    const assignedAmount = budget ? parseFloat(budget.assigned_amount) : 0
-
-    // Calculate start_balance dynamically from previous month
-    let startBalance = 0
-    const strategy = (category.rollover_strategy || 'RESET') as RolloverStrategy
-
-    if (strategy !== 'RESET') {
-      const prevBudget = prevBudgetByCategory[category.id]
-      if (prevBudget) {
-        const prevStartBalance = parseFloat(prevBudget.start_balance)
-        const prevAssigned = parseFloat(prevBudget.assigned_amount)
-        const prevActivity = prevActivityByCategory[category.id] || 0
-        const prevAvailable = prevStartBalance + prevAssigned + prevActivity
-
-        if (strategy === 'ACCUMULATE') {
-          startBalance = prevAvailable
-        } else if (strategy === 'SWEEP') {
-          startBalance = prevAvailable < 0 ? prevAvailable : 0
-        }
-      }
-    }
-
-    const available = startBalance + assignedAmount + activity
-
-    result.push({
-      id: budget?.id || `virtual-${category.id}`,
-      user_id: userId,
-      category_id: category.id,
-      month_iso: monthIso,
-      assigned_amount: assignedAmount.toFixed(2),
-      start_balance: startBalance.toFixed(2),
-      created_at: budget?.created_at || new Date().toISOString(),
-      updated_at: budget?.updated_at || new Date().toISOString(),
-      activity: activity.toFixed(2),
-      available: available.toFixed(2),
-      category: category as Category,
-    })
-  }
-
-  return result
+  return getUserMonthlyBudgets(userId, monthDate)
 }
 
 /**
@@ -176,6 +48,11 @@ export async function getMonthlyBudgets(
  *
  * For RESET categories: leftover goes back to the general pool
  * For ACCUMULATE categories: leftover stays in the category (handled via start_balance)
+ * For SWEEP categories: positive leftover goes to the sweep target (via month close),
+ * or back to the general pool if no sweep target is set
+ * For CREDIT_CARD categories: card spending only moves money from the spending category
+ * into the payment category, so it leaves To Be Budgeted unchanged. Assigning to the
+ * payment category (e.g. to pay down existing debt) is counted like any other assignment.
  */
 export async function getBudgetSummary(
   monthDate: Date = new Date()
@@ -190,11 +67,7 @@ export async function getBudgetSummary(
   const endDateStr = format(monthEnd, 'yyyy-MM-dd')
 
   // Previous month for carryover calculation
-  const prevMonthStart = startOfMonth(subMonths(monthDate, 1))
-  const prevMonthEnd = endOfMonth(subMonths(monthDate, 1))
-  const prevMonthIso = format(prevMonthStart, 'yyyy-MM')
-  const prevStartDateStr = format(prevMonthStart, 'yyyy-MM-dd')
-  const prevEndDateStr = format(prevMonthEnd, 'yyyy-MM-dd')
+  const prevMonthIso = format(subMonths(monthStart, 1), 'yyyy-MM')
 
   // Get all categories
   const { data: categories } = await getServerSupabase()
@@ -215,6 +88,7 @@ export async function getBudgetSummary(
       .from('transactions')
       .select('amount')
       .eq('user_id', userId)
+      .eq('is_sweep_transaction', false)
       .in('category_id', incomeCategoryIds)
       .gte('date', startDateStr)
       .lte('date', endDateStr)
@@ -229,61 +103,28 @@ export async function getBudgetSummary(
   // This money goes back to the general pool for budgeting
   let leftoverFromReset = 0
 
-  // Get previous month's budgets
-  const { data: prevBudgets } = await getServerSupabase()
-    .from('monthly_budgets')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('month_iso', prevMonthIso)
-
-  // Get previous month's transactions
-  const { data: prevTransactions } = await getServerSupabase()
-    .from('transactions')
-    .select('category_id, amount')
-    .eq('user_id', userId)
-    .gte('date', prevStartDateStr)
-    .lte('date', prevEndDateStr)
-
-  // Calculate previous month's activity per category
-  const prevActivityByCategory: Record<string, number> = {}
-  for (const tx of prevTransactions || []) {
-    if (tx.category_id) {
-      prevActivityByCategory[tx.category_id] =
-        (prevActivityByCategory[tx.category_id] || 0) + parseFloat(tx.amount)
-    }
-  }
-
-  // Map previous budgets
-  const prevBudgetByCategory: Record<string, MonthlyBudget> = {}
-  for (const budget of prevBudgets || []) {
-    prevBudgetByCategory[budget.category_id] = budget
-  }
+  // Full history of all previous months for the rollover chain
+  const historyByCategory = await getRolloverHistory(userId, monthIso)
+  const activeCategoryIds = new Set((categories || []).map((c) => c.id))
 
   // Calculate leftover from RESET categories
   for (const category of categories || []) {
     if (category.type?.toUpperCase() === 'INCOME') continue // Skip income categories
 
     const strategy = (category.rollover_strategy || 'RESET') as RolloverStrategy
+    const history = historyByCategory[category.id] || {}
+
+    // SWEEP categories without an active target return their positive leftover to the pool
+    if (strategy === 'SWEEP' && !getEffectiveSweepTarget(category, activeCategoryIds)) {
+      const prevAvailable = getAvailableThrough(strategy, history, prevMonthIso)
+      leftoverFromReset += getSweepAmount(strategy, prevAvailable)
+      continue
+    }
 
     // Only RESET categories contribute to the pool
+    // Positive leftover goes back to pool, negative (overspent) also affects pool
     if (strategy === 'RESET') {
-      const prevBudget = prevBudgetByCategory[category.id]
-      const prevActivity = prevActivityByCategory[category.id] || 0
-
-      if (prevBudget) {
-        // Category has a budget entry - calculate full available
-        const prevStartBalance = parseFloat(prevBudget.start_balance)
-        const prevAssigned = parseFloat(prevBudget.assigned_amount)
-        const prevAvailable = prevStartBalance + prevAssigned + prevActivity
-
-        // Positive leftover goes back to pool, negative (overspent) also affects pool
-        leftoverFromReset += prevAvailable
-      } else if (prevActivity !== 0) {
-        // Category has activity but no budget entry
-        // For RESET categories, available = 0 + 0 + activity = activity
-        // Negative activity (expenses) means overspending that reduces the pool
-        leftoverFromReset += prevActivity
-      }
+      leftoverFromReset += getAvailableThrough(strategy, history, prevMonthIso)
     }
   }
 
@@ -338,99 +179,299 @@ export async function assignBudget(
   monthIso: string,
   amount: string
 ): Promise<ApiResponse<MonthlyBudget>> {
-  try {
-    const { userId } = await auth()
-    if (!userId) {
-      return { success: false, error: 'Unauthorized' }
-    }
+  return withChangeLog('budget.assign', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
 
-    // Validate input
-    const validated = insertMonthlyBudgetSchema.parse({
-      category_id: categoryId,
-      month_iso: monthIso,
-      assigned_amount: amount,
-    })
+      // Validate input
+      const validated = insertMonthlyBudgetSchema.parse({
+        category_id: categoryId,
+        month_iso: monthIso,
+        assigned_amount: amount,
+      })
 
-    // Check if budget already exists for this category/month
-    const { data: existing } = await getServerSupabase()
-      .from('monthly_budgets')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('category_id', validated.category_id)
-      .eq('month_iso', validated.month_iso)
-      .single()
+      const result = await saveAssignedAmount(
+        userId,
+        validated.category_id,
+        validated.month_iso,
+        validated.assigned_amount
+      )
 
-    if (existing) {
-      // Update existing budget
-      const { data: budget, error } = await getServerSupabase()
-        .from('monthly_budgets')
-        .update({
-          assigned_amount: validated.assigned_amount,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existing.id)
+      if (result.success) {
+        // Assignments in a closed month change its sweep transfers
+        await recloseMonthsFrom(validated.month_iso)
+
+        revalidatePath('/[locale]', 'layout')
+      }
+      return result
+    } catch (error) {
+      console.error('Error in assignBudget:', error)
+      if (error instanceof Error) {
+        return { success: false, error: error.message }
+      }
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Move money from one category to another within a month
+ * Lowers assigned_amount of the source, raises it on the target and
+ * records the move in budget_moves (audit trail), all in one database
+ * transaction (move_budget)
+ */
+export async function moveBudget(
+  fromCategoryId: string,
+  toCategoryId: string,
+  monthIso: string,
+  amount: string
+): Promise<ApiResponse<BudgetMove>> {
+  return withChangeLog('budget.move', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      // Validate input
+      const validated = insertBudgetMoveSchema.parse({
+        from_category_id: fromCategoryId,
+        to_category_id: toCategoryId,
+        month_iso: monthIso,
+        amount,
+      })
+
+      // Both categories must be active budget categories of this user
+      const { data: categories } = await getServerSupabase()
+        .from('categories')
+        .select('id, type')
         .eq('user_id', userId)
-        .select()
-        .single()
+        .eq('is_active', true)
+        .in('id', [validated.from_category_id, validated.to_category_id])
+
+      const budgetCategories = (categories || []).filter(
+        (c) => c.type?.toUpperCase() !== 'INCOME'
+      )
+      if (budgetCategories.length !== 2) {
+        return { success: false, error: 'Category not found' }
+      }
+
+      // Start balances for categories without a budget row in this month yet
+      const monthDate = parse(validated.month_iso, 'yyyy-MM', new Date())
+      const [fromStartBalance, toStartBalance] = await Promise.all([
+        calculateRollover(validated.from_category_id, userId, monthDate),
+        calculateRollover(validated.to_category_id, userId, monthDate),
+      ])
+
+      // Both assignments and the audit row in one database transaction
+      const { data: move, error } = await getServerSupabase().rpc('move_budget', {
+        p_user_id: userId,
+        p_month_iso: validated.month_iso,
+        p_from_category_id: validated.from_category_id,
+        p_to_category_id: validated.to_category_id,
+        p_amount: validated.amount,
+        p_from_start_balance: fromStartBalance.toFixed(2),
+        p_to_start_balance: toStartBalance.toFixed(2),
+      })
 
       if (error) {
-        console.error('Error updating budget:', error)
-        return { success: false, error: 'Failed to update budget' }
+        console.error('Error moving budget:', error)
+        return { success: false, error: 'Failed to move budget' }
       }
 
+      // Assignments in a closed month change its sweep transfers
+      await recloseMonthsFrom(validated.month_iso)
+
       revalidatePath('/[locale]', 'layout')
-      return { success: true, data: budget }
-    } else {
-      // Calculate start_balance from previous month rollover
-      const monthDate = new Date(`${validated.month_iso}-01`)
-      const startBalance = await calculateRollover(
-        validated.category_id,
+      return { success: true, data: move }
+    } catch (error) {
+      console.error('Error in moveBudget:', error)
+      if (error instanceof Error) {
+        return { success: false, error: error.message }
+      }
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Cover an overspent category with money from To Be Budgeted
+ * Raises assigned_amount of the category by the given amount
+ */
+export async function coverFromToBeBudgeted(
+  categoryId: string,
+  monthIso: string,
+  amount: string
+): Promise<ApiResponse<MonthlyBudget>> {
+  return withChangeLog('budget.cover', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      // Validate the month before it is used in any date or query
+      insertMonthlyBudgetSchema
+        .pick({ category_id: true, month_iso: true })
+        .parse({ category_id: categoryId, month_iso: monthIso })
+
+      const coverAmount = parseAmount(amount)
+      if (isNaN(coverAmount) || coverAmount <= 0) {
+        return { success: false, error: 'Amount must be a positive number' }
+      }
+
+      const monthDate = parse(monthIso, 'yyyy-MM', new Date())
+      const summary = await getBudgetSummary(monthDate)
+      if (coverAmount > parseFloat(summary.toBeBudgeted)) {
+        return { success: false, error: 'Not enough money in To Be Budgeted' }
+      }
+
+      const { data: existing } = await getServerSupabase()
+        .from('monthly_budgets')
+        .select('assigned_amount')
+        .eq('user_id', userId)
+        .eq('category_id', categoryId)
+        .eq('month_iso', monthIso)
+        .maybeSingle()
+
+      const validated = insertMonthlyBudgetSchema.parse({
+        category_id: categoryId,
+        month_iso: monthIso,
+        assigned_amount: (parseFloat(existing?.assigned_amount || '0') + coverAmount).toFixed(2),
+      })
+
+      const result = await saveAssignedAmount(
         userId,
-        monthDate
+        validated.category_id,
+        validated.month_iso,
+        validated.assigned_amount
       )
 
-      // Create new budget
-      const { data: budget, error } = await getServerSupabase()
-        .from('monthly_budgets')
-        .insert({
-          user_id: userId,
-          category_id: validated.category_id,
-          month_iso: validated.month_iso,
-          assigned_amount: validated.assigned_amount,
-          start_balance: startBalance.toFixed(2),
-        })
-        .select()
-        .single()
+      if (result.success) {
+        // Assignments in a closed month change its sweep transfers
+        await recloseMonthsFrom(validated.month_iso)
 
-      if (error) {
-        console.error('Error creating budget:', error)
-        return { success: false, error: 'Failed to create budget' }
+        revalidatePath('/[locale]', 'layout')
       }
-
-      revalidatePath('/[locale]', 'layout')
-      return { success: true, data: budget }
+      return result
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in coverFromToBeBudgeted:', error)
+      if (error instanceof Error) {
+        return { success: false, error: error.message }
+      }
+      return { success: false, error: 'An unexpected error occurred' }
     }
-  } catch (error) {
-    console.error('Error in assignBudget:', error)
-    if (error instanceof Error) {
-      return { success: false, error: error.message }
+  })
+}
+
+/**
+ * Get the history of budget moves for a month (newest first)
+ */
+export async function getBudgetMoves(
+  monthDate: Date = new Date()
+): Promise<BudgetMove[]> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const monthIso = format(startOfMonth(monthDate), 'yyyy-MM')
+
+  const { data: moves, error } = await getServerSupabase()
+    .from('budget_moves')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('month_iso', monthIso)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching budget moves:', error)
+    throw new Error('Failed to fetch budget moves')
+  }
+
+  return moves || []
+}
+
+/**
+ * Create or update the monthly_budgets row of a category
+ * New rows get their start_balance from the rollover chain
+ */
+async function saveAssignedAmount(
+  userId: string,
+  categoryId: string,
+  monthIso: string,
+  assignedAmount: string
+): Promise<ApiResponse<MonthlyBudget>> {
+  // Check if budget already exists for this category/month
+  const { data: existing } = await getServerSupabase()
+    .from('monthly_budgets')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('category_id', categoryId)
+    .eq('month_iso', monthIso)
+    .single()
+
+  if (existing) {
+    // Update existing budget
+    const { data: budget, error } = await getServerSupabase()
+      .from('monthly_budgets')
+      .update({
+        assigned_amount: assignedAmount,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', existing.id)
+      .eq('user_id', userId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating budget:', error)
+      return { success: false, error: 'Failed to update budget' }
     }
-    return { success: false, error: 'An unexpected error occurred' }
+
+    return { success: true, data: budget }
   }
+
+  // Calculate start_balance from previous month rollover
+  const monthDate = parse(monthIso, 'yyyy-MM', new Date())
+  const startBalance = await calculateRollover(categoryId, userId, monthDate)
+
+  // Create new budget
+  const { data: budget, error } = await getServerSupabase()
+    .from('monthly_budgets')
+    .insert({
+      user_id: userId,
+      category_id: categoryId,
+      month_iso: monthIso,
+      assigned_amount: assignedAmount,
+      start_balance: startBalance.toFixed(2),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating budget:', error)
+    return { success: false, error: 'Failed to create budget' }
+  }
+
+  return { success: true, data: budget }
 }
 
 /**
- * Calculate rollover amount from previous month based on category's rollover strategy
+ * Calculate rollover amount into a month based on category's rollover strategy
+ * Walks the category's full history, so skipped months do not reset the balance
  */
 async function calculateRollover(
   categoryId: string,
   userId: string,
   currentMonth: Date
 ): Promise<number> {
-  const prevMonth = subMonths(currentMonth, 1)
-  const prevMonthIso = format(startOfMonth(prevMonth), 'yyyy-MM')
-  const prevMonthStart = format(startOfMonth(prevMonth), 'yyyy-MM-dd')
-  const prevMonthEnd = format(endOfMonth(prevMonth), 'yyyy-MM-dd')
+  const monthIso = format(startOfMonth(currentMonth), 'yyyy-MM')
+  const prevMonthIso = format(subMonths(startOfMonth(currentMonth), 1), 'yyyy-MM')
 
   // Get category with rollover strategy
   const { data: category } = await getServerSupabase()
@@ -447,47 +488,13 @@ async function calculateRollover(
   // RESET strategy: no carryover
   if (strategy === 'RESET') return 0
 
-  // Get previous month's budget
-  const { data: prevBudget } = await getServerSupabase()
-    .from('monthly_budgets')
-    .select('assigned_amount, start_balance')
-    .eq('category_id', categoryId)
-    .eq('user_id', userId)
-    .eq('month_iso', prevMonthIso)
-    .single()
-
-  if (!prevBudget) return 0
-
-  // Get previous month's activity
-  const { data: transactions } = await getServerSupabase()
-    .from('transactions')
-    .select('amount')
-    .eq('category_id', categoryId)
-    .eq('user_id', userId)
-    .gte('date', prevMonthStart)
-    .lte('date', prevMonthEnd)
-
-  const activity = (transactions || []).reduce(
-    (sum, tx) => sum + parseFloat(tx.amount),
-    0
-  )
-
-  // Calculate previous available
-  const prevStartBalance = parseFloat(prevBudget.start_balance)
-  const prevAssignedAmount = parseFloat(prevBudget.assigned_amount)
-  const prevAvailable = prevStartBalance + prevAssignedAmount + activity
+  const historyByCategory = await getRolloverHistory(userId, monthIso, [categoryId])
 
   // Apply rollover strategy
-  switch (strategy) {
-    case 'ACCUMULATE':
-      // Carry over everything (positive or negative)
-      return prevAvailable
-    case 'SWEEP':
-      // Only carry over negative (overspending)
-      return prevAvailable < 0 ? prevAvailable : 0
-    default:
-      return 0
-  }
+  return getCarryover(
+    strategy,
+    getAvailableThrough(strategy, historyByCategory[categoryId] || {}, prevMonthIso)
+  )
 }
 
 /**
@@ -496,75 +503,81 @@ async function calculateRollover(
 export async function initializeMonth(
   monthDate: Date = new Date()
 ): Promise<ApiResponse<number>> {
-  try {
-    const { userId } = await auth()
-    if (!userId) {
-      return { success: false, error: 'Unauthorized' }
-    }
+  return withChangeLog('budget.initialize', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
 
-    const monthStart = startOfMonth(monthDate)
-    const monthIso = format(monthStart, 'yyyy-MM')
+      const monthStart = startOfMonth(monthDate)
+      const monthIso = format(monthStart, 'yyyy-MM')
 
-    // Get all expense categories (not INCOME)
-    // Handle both 'INCOME' (new ZBB) and 'income' (legacy) types
-    const { data: allCategories } = await getServerSupabase()
-      .from('categories')
-      .select('id, type')
-      .eq('user_id', userId)
-      .eq('is_active', true)
+      // Get all expense categories (not INCOME)
+      // Handle both 'INCOME' (new ZBB) and 'income' (legacy) types
+      const { data: allCategories } = await getServerSupabase()
+        .from('categories')
+        .select('id, type, rollover_strategy')
+        .eq('user_id', userId)
+        .eq('is_active', true)
 
-    // Filter out income categories (case-insensitive)
-    const categories = (allCategories || []).filter(
-      (c) => c.type?.toUpperCase() !== 'INCOME'
-    )
+      // Filter out income categories (case-insensitive)
+      const categories = (allCategories || []).filter(
+        (c) => c.type?.toUpperCase() !== 'INCOME'
+      )
 
-    if (categories.length === 0) {
-      return { success: true, data: 0 }
-    }
+      if (categories.length === 0) {
+        return { success: true, data: 0 }
+      }
 
-    let created = 0
+      // Load the rollover history once for all categories
+      const prevMonthIso = format(subMonths(monthStart, 1), 'yyyy-MM')
+      const historyByCategory = await getRolloverHistory(userId, monthIso)
 
-    for (const category of categories) {
-      // Check if budget already exists
-      const { data: existing } = await getServerSupabase()
-        .from('monthly_budgets')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('category_id', category.id)
-        .eq('month_iso', monthIso)
-        .single()
-
-      if (!existing) {
-        // Calculate start_balance from rollover
-        const startBalance = await calculateRollover(
-          category.id,
-          userId,
-          monthStart
-        )
-
-        // Create budget with start_balance only (assigned_amount = 0)
-        const { error } = await getServerSupabase()
+      let created = 0
+
+      for (const category of categories) {
+        // Check if budget already exists
+        const { data: existing } = await getServerSupabase()
           .from('monthly_budgets')
-          .insert({
-            user_id: userId,
-            category_id: category.id,
-            month_iso: monthIso,
-            assigned_amount: '0.00',
-            start_balance: startBalance.toFixed(2),
-          })
-
-        if (!error) {
-          created++
+          .select('id')
+          .eq('user_id', userId)
+          .eq('category_id', category.id)
+          .eq('month_iso', monthIso)
+          .single()
+
+        if (!existing) {
+          // Calculate start_balance from rollover
+          const strategy = (category.rollover_strategy || 'RESET') as RolloverStrategy
+          const startBalance = getCarryover(
+            strategy,
+            getAvailableThrough(strategy, historyByCategory[category.id] || {}, prevMonthIso)
+          )
+
+          // Create budget with start_balance only (assigned_amount = 0)
+          const { error } = await getServerSupabase()
+            .from('monthly_budgets')
+            .insert({
+              user_id: userId,
+              category_id: category.id,
+              month_iso: monthIso,
+              assigned_amount: '0.00',
+              start_balance: startBalance.toFixed(2),
+            })
+
+          if (!error) {
+            created++
+          }
         }
       }
-    }
 
-    revalidatePath('/[locale]', 'layout')
-    return { success: true, data: created }
-  } catch (error) {
-    console.error('Error in initializeMonth:', error)
-    return { success: false, error: 'Failed to initialize month' }
-  }
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: created }
+    } catch (error) {
+      console.error('Error in initializeMonth:', error)
+      return { success: false, error: 'Failed to initialize month' }
+    }
+  })
 }
 
 /**
@@ -574,42 +587,44 @@ export async function quickAssign(
   categoryIds: string[],
   monthDate: Date = new Date()
 ): Promise<ApiResponse<number>> {
-  try {
-    const { userId } = await auth()
-    if (!userId) {
-      return { success: false, error: 'Unauthorized' }
-    }
+  return withChangeLog('budget.quickAssign', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
 
-    if (categoryIds.length === 0) {
-      return { success: false, error: 'No categories selected' }
-    }
+      if (categoryIds.length === 0) {
+        return { success: false, error: 'No categories selected' }
+      }
 
-    // Get current budget summary
-    const summary = await getBudgetSummary(monthDate)
-    const toBeBudgeted = parseFloat(summary.toBeBudgeted)
+      // Get current budget summary
+      const summary = await getBudgetSummary(monthDate)
+      const toBeBudgeted = parseFloat(summary.toBeBudgeted)
 
-    if (toBeBudgeted <= 0) {
-      return { success: false, error: 'No funds available to assign' }
-    }
+      if (toBeBudgeted <= 0) {
+        return { success: false, error: 'No funds available to assign' }
+      }
 
-    // Distribute evenly
-    const amountPerCategory = (toBeBudgeted / categoryIds.length).toFixed(2)
-    const monthIso = format(startOfMonth(monthDate), 'yyyy-MM')
+      // Distribute evenly
+      const amountPerCategory = (toBeBudgeted / categoryIds.length).toFixed(2)
+      const monthIso = format(startOfMonth(monthDate), 'yyyy-MM')
 
-    let assigned = 0
-    for (const categoryId of categoryIds) {
-      const result = await assignBudget(categoryId, monthIso, amountPerCategory)
-      if (result.success) {
-        assigned++
+      let assigned = 0
+      for (const categoryId of categoryIds) {
+        const result = await assignBudget(categoryId, monthIso, amountPerCategory)
+        if (result.success) {
+          assigned++
+        }
       }
-    }
 
-    revalidatePath('/[locale]', 'layout')
-    return { success: true, data: assigned }
-  } catch (error) {
-    console.error('Error in quickAssign:', error)
-    return { success: false, error: 'Failed to quick assign' }
-  }
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: assigned }
+    } catch (error) {
+      console.error('Error in quickAssign:', error)
+      return { success: false, error: 'Failed to quick assign' }
+    }
+  })
 }
 
 /**
@@ -669,8 +684,8 @@ export async function getSuggestedAmount(
 
     // Calculate total spent
     const { data: transactions } = await getServerSupabase()
-      .from('transactions')
-      .select('amount')
+      .from('transaction_lines')
+      .select('amount, is_sweep_transaction')
       .eq('user_id', userId)
       .eq('category_id', categoryId)
 
@@ -679,7 +694,12 @@ export async function getSuggestedAmount(
       return amount < 0 ? sum + Math.abs(amount) : sum
     }, 0)
 
-    const savedBalance = Math.max(0, totalAssigned - totalSpent)
+    const totalSwept = (transactions || []).reduce((sum, tx) => {
+      const amount = parseFloat(tx.amount)
+      return tx.is_sweep_transaction && amount > 0 ? sum + amount : sum
+    }, 0)
+
+    const savedBalance = Math.max(0, totalAssigned + totalSwept - totalSpent)
     const remainingToSave = Math.max(0, targetAmount - savedBalance)
 
     // Monthly amount needed
@@ -696,9 +716,10 @@ export async function getSuggestedAmount(
  * Returns a map of category_id -> suggested_amount
  *
  * Priority:
- * 1. FIX with target_amount: use target_amount
- * 2. SF1 with due_date and target_amount: calculate based on remaining time
- * 3. All others: use previous month's assigned_amount as suggestion
+ * 1. Categories paying off a debt: the payment of the debt payoff plan
+ * 2. FIX with target_amount: use target_amount
+ * 3. SF1 with due_date and target_amount: calculate based on remaining time
+ * 4. All others: use previous month's assigned_amount as suggestion
  */
 export async function getAllSuggestedAmounts(
   monthDate: Date = new Date()
@@ -730,6 +751,8 @@ export async function getAllSuggestedAmounts(
     prevBudgetByCategory[budget.category_id] = budget.assigned_amount
   }
 
+  const debtPayments = await getPlannedDebtPayments(now)
+
   const suggestions: Record<string, string> = {}
 
   for (const category of categories) {
@@ -739,13 +762,19 @@ export async function getAllSuggestedAmounts(
     const targetAmount = parseFloat(category.target_amount || '0')
     const prevAssigned = parseFloat(prevBudgetByCategory[category.id] || '0')
 
-    // 1. FIX with target_amount: use target_amount
+    // 1. Debt payments: what the payoff plan pays this month (0 once paid off)
+    if (debtPayments[category.id] !== undefined) {
+      suggestions[category.id] = debtPayments[category.id]
+      continue
+    }
+
+    // 2. FIX with target_amount: use target_amount
     if (category.type === 'FIX' && targetAmount > 0) {
       suggestions[category.id] = targetAmount.toFixed(2)
       continue
     }
 
-    // 2. SF1 with due_date and target_amount: calculate based on remaining time
+    // 3. SF1 with due_date and target_amount: calculate based on remaining time
     if (category.type === 'SF1' && targetAmount > 0 && category.due_date) {
       const dueDate = new Date(category.due_date)
       const monthsDiff =
@@ -766,8 +795,8 @@ export async function getAllSuggestedAmounts(
       )
 
       const { data: transactions } = await getServerSupabase()
-        .from('transactions')
-        .select('amount')
+        .from('transaction_lines')
+        .select('amount, is_sweep_transaction')
         .eq('user_id', userId)
         .eq('category_id', category.id)
 
@@ -776,7 +805,12 @@ export async function getAllSuggestedAmounts(
         return amount < 0 ? sum + Math.abs(amount) : sum
       }, 0)
 
-      const savedBalance = Math.max(0, totalAssigned - totalSpent)
+      const totalSwept = (transactions || []).reduce((sum, tx) => {
+        const amount = parseFloat(tx.amount)
+        return tx.is_sweep_transaction && amount > 0 ? sum + amount : sum
+      }, 0)
+
+      const savedBalance = Math.max(0, totalAssigned + totalSwept - totalSpent)
       const remainingToSave = Math.max(0, targetAmount - savedBalance)
       const suggestedMonthly = remainingToSave / monthsRemaining
 
@@ -784,7 +818,7 @@ export async function getAllSuggestedAmounts(
       continue
     }
 
-    // 3. All others (VARIABLE, SF2, etc.): use previous month's assigned amount
+    // 4. All others (VARIABLE, SF2, etc.): use previous month's assigned amount
     if (prevAssigned > 0) {
       suggestions[category.id] = prevAssigned.toFixed(2)
     }
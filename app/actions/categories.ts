@@ -2,8 +2,10 @@
 
 import { auth } from '@clerk/nextjs/server'
 import { getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
 import type { Category, ApiResponse, ZBBCategoryType, RolloverStrategy } from '@/lib/types'
 
 /**
@@ -17,6 +19,7 @@ const categorySchema = z.object({
   rollover_strategy: z.enum(['ACCUMULATE', 'RESET', 'SWEEP']).optional(),
   target_amount: z.string().optional().nullable(),
   due_date: z.string().optional().nullable(),
+  sweep_target_category_id: z.string().uuid('Invalid sweep target').optional().nullable(),
 })
 
 export type CategoryFormData = z.infer<typeof categorySchema>
@@ -34,6 +37,39 @@ function getDefaultRolloverStrategy(zbbType: ZBBCategoryType): RolloverStrategy
   }
 }
 
+/**
+ * Resolve the sweep target for a category
+ * Only SWEEP categories have a target, and it must be an active SF1/SF2 category of the user
+ */
+async function resolveSweepTarget(
+  userId: string,
+  rolloverStrategy: RolloverStrategy,
+  sweepTargetId: string | null | undefined,
+  categoryId?: string
+): Promise<{ id: string | null } | { error: string }> {
+  if (rolloverStrategy !== 'SWEEP' || !sweepTargetId) {
+    return { id: null }
+  }
+
+  if (sweepTargetId === categoryId) {
+    return { error: 'A category cannot sweep into itself' }
+  }
+
+  const { data: target } = await getServerSupabase()
+    .from('categories')
+    .select('id, type')
+    .eq('id', sweepTargetId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .single()
+
+  if (!target || (target.type !== 'SF1' && target.type !== 'SF2')) {
+    return { error: 'Sweep target must be a sinking fund or savings goal' }
+  }
+
+  return { id: target.id }
+}
+
 /**
  * Get all categories for the current user
  */
@@ -68,164 +104,199 @@ export async function getUserCategories(): Promise<Category[]> {
  * Create a new category
  */
 export async function createCategory(data: CategoryFormData): Promise<ApiResponse<Category>> {
-  try {
-    const { userId } = await auth()
-    if (!userId) {
-      return { success: false, error: 'Unauthorized' }
-    }
+  return withChangeLog('category.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
 
-    // Validate input
-    const validated = categorySchema.parse(data)
+      // Validate input
+      const validated = categorySchema.parse(data)
 
-    // SF1 requires due_date
-    if (validated.type === 'SF1' && !validated.due_date) {
-      return { success: false, error: 'Due date is required for SF1 categories' }
-    }
+      // SF1 requires due_date
+      if (validated.type === 'SF1' && !validated.due_date) {
+        return { success: false, error: 'Due date is required for SF1 categories' }
+      }
 
-    // Use provided rollover_strategy or get default
-    const rolloverStrategy = validated.rollover_strategy || getDefaultRolloverStrategy(validated.type as ZBBCategoryType)
+      // Use provided rollover_strategy or get default
+      const rolloverStrategy = validated.rollover_strategy || getDefaultRolloverStrategy(validated.type as ZBBCategoryType)
 
-    // Insert category
-    const { data: category, error } = await getServerSupabase()
-      .from('categories')
-      .insert({
-        user_id: userId,
-        name: validated.name,
-        icon: validated.icon,
-        color: validated.color,
-        type: validated.type,
-        rollover_strategy: rolloverStrategy,
-        target_amount: validated.target_amount || null,
-        due_date: validated.due_date || null,
-        is_active: true,
-      })
-      .select()
-      .single()
+      const sweepTarget = await resolveSweepTarget(userId, rolloverStrategy, validated.sweep_target_category_id)
+      if ('error' in sweepTarget) {
+        return { success: false, error: sweepTarget.error }
+      }
 
-    if (error) {
-      console.error('Error creating category:', error)
-      return { success: false, error: 'Failed to create category' }
-    }
+      // Insert category
+      const { data: category, error } = await getServerSupabase()
+        .from('categories')
+        .insert({
+          user_id: userId,
+          name: validated.name,
+          icon: validated.icon,
+          color: validated.color,
+          type: validated.type,
+          rollover_strategy: rolloverStrategy,
+          target_amount: validated.target_amount || null,
+          due_date: validated.due_date || null,
+          sweep_target_category_id: sweepTarget.id,
+          is_active: true,
+        })
+        .select()
+        .single()
 
-    revalidatePath('/[locale]', 'layout')
-    return { success: true, data: category }
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return { success: false, error: error.issues[0].message }
+      if (error) {
+        console.error('Error creating category:', error)
+        return { success: false, error: 'Failed to create category' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: category }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createCategory:', error)
+      return { success: false, error: 'An unexpected error occurred' }
     }
-    console.error('Error in createCategory:', error)
-    return { success: false, error: 'An unexpected error occurred' }
-  }
+  })
 }
 
 /**
  * Update an existing category
  */
 export async function updateCategory(id: string, data: CategoryFormData): Promise<ApiResponse<Category>> {
-  try {
-    const { userId } = await auth()
-    if (!userId) {
-      return { success: false, error: 'Unauthorized' }
-    }
+  return withChangeLog('category.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
 
-    // Validate input
-    const validated = categorySchema.parse(data)
+      // Validate input
+      const validated = categorySchema.parse(data)
 
-    // SF1 requires due_date
-    if (validated.type === 'SF1' && !validated.due_date) {
-      return { success: false, error: 'Due date is required for SF1 categories' }
-    }
+      // SF1 requires due_date
+      if (validated.type === 'SF1' && !validated.due_date) {
+        return { success: false, error: 'Due date is required for SF1 categories' }
+      }
 
-    // Use provided rollover_strategy or get default
-    const rolloverStrategy = validated.rollover_strategy || getDefaultRolloverStrategy(validated.type as ZBBCategoryType)
+      // Use provided rollover_strategy or get default
+      const rolloverStrategy = validated.rollover_strategy || getDefaultRolloverStrategy(validated.type as ZBBCategoryType)
 
-    // Update category (only if it belongs to the user)
-    const { data: category, error } = await getServerSupabase()
-      .from('categories')
-      .update({
-        name: validated.name,
-        icon: validated.icon,
-        color: validated.color,
-        type: validated.type,
-        rollover_strategy: rolloverStrategy,
-        target_amount: validated.target_amount || null,
-        due_date: validated.due_date || null,
-      })
-      .eq('id', id)
-      .eq('user_id', userId)
-      .select()
-      .single()
+      const sweepTarget = await resolveSweepTarget(userId, rolloverStrategy, validated.sweep_target_category_id, id)
+      if ('error' in sweepTarget) {
+        return { success: false, error: sweepTarget.error }
+      }
 
-    if (error) {
-      console.error('Error updating category:', error)
-      return { success: false, error: 'Failed to update category' }
-    }
+      // Remember sweep settings to detect changes that affect closed months
+      const { data: previous } = await getServerSupabase()
+        .from('categories')
+        .select('rollover_strategy, sweep_target_category_id')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .single()
 
-    revalidatePath('/[locale]', 'layout')
-    return { success: true, data: category }
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return { success: false, error: error.issues[0].message }
+      // Update category (only if it belongs to the user)
+      const { data: category, error } = await getServerSupabase()
+        .from('categories')
+        .update({
+          name: validated.name,
+          icon: validated.icon,
+          color: validated.color,
+          type: validated.type,
+          rollover_strategy: rolloverStrategy,
+          target_amount: validated.target_amount || null,
+          due_date: validated.due_date || null,
+          sweep_target_category_id: sweepTarget.id,
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating category:', error)
+        return { success: false, error: 'Failed to update category' }
+      }
+
+      // Changed sweep behaviour: recreate the sweep transfers of all closed months
+      if (
+        previous &&
+        (previous.rollover_strategy !== rolloverStrategy ||
+          previous.sweep_target_category_id !== sweepTarget.id)
+      ) {
+        await recloseMonthsFrom()
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: category }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateCategory:', error)
+      return { success: false, error: 'An unexpected error occurred' }
     }
-    console.error('Error in updateCategory:', error)
-    return { success: false, error: 'An unexpected error occurred' }
-  }
+  })
 }
 
 /**
  * Delete a category (soft delete by setting is_active = false)
  */
 export async function deleteCategory(id: string) {
-  try {
-    const { userId } = await auth()
-    if (!userId) {
-      return { success: false, error: 'Unauthorized' }
-    }
-
-    // Check if category has transactions
-    const { data: transactions, error: checkError } = await getServerSupabase()
-      .from('transactions')
-      .select('id')
-      .eq('category_id', id)
-      .limit(1)
-
-    if (checkError) {
-      console.error('Error checking category usage:', checkError)
-      return { success: false, error: 'Failed to check category usage' }
-    }
+  return withChangeLog('category.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
 
-    if (transactions && transactions.length > 0) {
-      // Soft delete: set is_active = false
-      const { error } = await getServerSupabase()
-        .from('categories')
-        .update({ is_active: false })
-        .eq('id', id)
-        .eq('user_id', userId)
+      // Check if category has transactions (split lines included)
+      const { data: transactions, error: checkError } = await getServerSupabase()
+        .from('transaction_lines')
+        .select('id')
+        .eq('category_id', id)
+        .limit(1)
 
-      if (error) {
-        console.error('Error deactivating category:', error)
-        return { success: false, error: 'Failed to delete category' }
+      if (checkError) {
+        console.error('Error checking category usage:', checkError)
+        return { success: false, error: 'Failed to check category usage' }
       }
-    } else {
-      // Hard delete: no transactions
-      const { error } = await getServerSupabase()
-        .from('categories')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', userId)
 
-      if (error) {
-        console.error('Error deleting category:', error)
-        return { success: false, error: 'Failed to delete category' }
+      if (transactions && transactions.length > 0) {
+        // Soft delete: set is_active = false
+        const { error } = await getServerSupabase()
+          .from('categories')
+          .update({ is_active: false })
+          .eq('id', id)
+          .eq('user_id', userId)
+
+        if (error) {
+          console.error('Error deactivating category:', error)
+          return { success: false, error: 'Failed to delete category' }
+        }
+      } else {
+        // Hard delete: no transactions
+        const { error } = await getServerSupabase()
+          .from('categories')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId)
+
+        if (error) {
+          console.error('Error deleting category:', error)
+          return { success: false, error: 'Failed to delete category' }
+        }
       }
-    }
 
-    revalidatePath('/[locale]', 'layout')
-    return { success: true, message: 'Category deleted successfully' }
-  } catch (error) {
-    console.error('Error in deleteCategory:', error)
-    return { success: false, error: 'An unexpected error occurred' }
-  }
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, message: 'Category deleted successfully' }
+    } catch (error) {
+      console.error('Error in deleteCategory:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
 }
 
 /**
@@ -0,0 +1,271 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { PAYOFF_STRATEGIES, getPlannedCategoryPayments, simulatePayoff } from '@/lib/debt-payoff'
+import {
+  debtPlanSchema,
+  debtSchema,
+  type ApiResponse,
+  type Debt,
+  type DebtInput,
+  type DebtOverview,
+  type DebtPlan,
+  type DebtPlanInput,
+  type PayoffSchedule,
+  type PayoffStrategy,
+} from '@/lib/types'
+
+const DEFAULT_PLAN: DebtOverview['plan'] = { strategy: 'AVALANCHE', extra_payment: '0.00' }
+
+/**
+ * Verify that the category belongs to the user and can hold debt payments
+ */
+async function checkDebtCategory(userId: string, categoryId: string | null): Promise<{ error: string } | null> {
+  if (!categoryId) return null
+
+  const { data: category } = await getServerSupabase()
+    .from('categories')
+    .select('type')
+    .eq('id', categoryId)
+    .eq('user_id', userId)
+    .single()
+
+  if (!category) {
+    return { error: 'Category not found' }
+  }
+  if (category.type === 'INCOME' || category.type === 'CREDIT_CARD') {
+    return { error: 'Debt payments need an expense category' }
+  }
+
+  return null
+}
+
+/**
+ * Debts and plan of the user (the default plan when none was saved yet)
+ */
+async function getUserDebts(userId: string): Promise<{ debts: Debt[]; plan: DebtOverview['plan'] }> {
+  const [{ data: debts, error }, { data: plan }] = await Promise.all([
+    getServerSupabase()
+      .from('debts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true }),
+    getServerSupabase().from('debt_plans').select('strategy, extra_payment').eq('user_id', userId).maybeSingle(),
+  ])
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return { debts: debts || [], plan: plan || DEFAULT_PLAN }
+}
+
+/**
+ * Get the debts, the plan and the payoff schedules of both strategies
+ * Schedules start in the current month with the balances as entered
+ */
+export async function getDebtOverview(): Promise<DebtOverview> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const { debts, plan } = await getUserDebts(userId)
+  const startMonth = format(new Date(), 'yyyy-MM')
+  const extraPayment = parseFloat(plan.extra_payment)
+
+  return {
+    debts,
+    plan,
+    start_month: startMonth,
+    schedules: Object.fromEntries(
+      PAYOFF_STRATEGIES.map((strategy) => [strategy, simulatePayoff(debts, strategy, extraPayment, startMonth)])
+    ) as Record<PayoffStrategy, PayoffSchedule>,
+  }
+}
+
+/**
+ * Payments of the saved plan per budget category for a month
+ * Used as the suggested assigned amount of debt categories; months before
+ * the current one have no plan
+ *
+ * @returns category_id -> amount
+ */
+export async function getPlannedDebtPayments(monthDate: Date = new Date()): Promise<Record<string, string>> {
+  const { userId } = await auth()
+  if (!userId) return {}
+
+  const monthIso = format(monthDate, 'yyyy-MM')
+  const startMonth = format(new Date(), 'yyyy-MM')
+  if (monthIso < startMonth) return {}
+
+  try {
+    const { debts, plan } = await getUserDebts(userId)
+    if (debts.length === 0) return {}
+
+    const schedule = simulatePayoff(debts, plan.strategy, parseFloat(plan.extra_payment), startMonth)
+    return getPlannedCategoryPayments(schedule, debts, monthIso)
+  } catch (error) {
+    console.error('Error in getPlannedDebtPayments:', error)
+    return {}
+  }
+}
+
+/**
+ * Create a debt
+ */
+export async function createDebt(data: DebtInput): Promise<ApiResponse<Debt>> {
+  return withChangeLog('debt.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = debtSchema.parse(data)
+
+      const categoryError = await checkDebtCategory(userId, validated.category_id)
+      if (categoryError) {
+        return { success: false, error: categoryError.error }
+      }
+
+      const { count } = await getServerSupabase()
+        .from('debts')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+
+      const { data: debt, error } = await getServerSupabase()
+        .from('debts')
+        .insert({ user_id: userId, ...validated, sort_order: count || 0 })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating debt:', error)
+        return { success: false, error: 'Failed to create debt' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: debt }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createDebt:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Update a debt (e.g. the balance after a statement)
+ */
+export async function updateDebt(id: string, data: DebtInput): Promise<ApiResponse<Debt>> {
+  return withChangeLog('debt.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = debtSchema.parse(data)
+
+      const categoryError = await checkDebtCategory(userId, validated.category_id)
+      if (categoryError) {
+        return { success: false, error: categoryError.error }
+      }
+
+      const { data: debt, error } = await getServerSupabase()
+        .from('debts')
+        .update({ ...validated, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating debt:', error)
+        return { success: false, error: 'Failed to update debt' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: debt }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateDebt:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete a debt
+ */
+export async function deleteDebt(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('debt.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { error } = await getServerSupabase().from('debts').delete().eq('id', id).eq('user_id', userId)
+
+      if (error) {
+        console.error('Error deleting debt:', error)
+        return { success: false, error: 'Failed to delete debt' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deleteDebt:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Save the payoff strategy and the extra monthly payment
+ */
+export async function updateDebtPlan(data: DebtPlanInput): Promise<ApiResponse<DebtPlan>> {
+  return withChangeLog('debt.plan', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = debtPlanSchema.parse(data)
+
+      const { data: plan, error } = await getServerSupabase()
+        .from('debt_plans')
+        .upsert(
+          { user_id: userId, ...validated, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id' }
+        )
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error saving debt plan:', error)
+        return { success: false, error: 'Failed to save the plan' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: plan }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateDebtPlan:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
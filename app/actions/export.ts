@@ -0,0 +1,307 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { IN_FILTER_CHUNK_SIZE, fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { getExportFilename, toCsv, toJson, type ExportRow } from '@/lib/export'
+import {
+  BACKUP_FORMAT,
+  BACKUP_TABLES,
+  BACKUP_VERSION,
+  EXPORT_COLUMNS,
+  exportDataSchema,
+  type ApiResponse,
+  type BackupArchive,
+  type Category,
+  type ExportDataInput,
+  type ExportDataset,
+  type ExportFile,
+} from '@/lib/types'
+
+type Range = { from?: string; to?: string }
+
+function toNumber(value: string | number | null): number | null {
+  return value === null ? null : Number(value)
+}
+
+async function getCategoryMap(userId: string): Promise<Map<string, Category>> {
+  const categories = await fetchAllRows<Category>((from, to) =>
+    getServerSupabase()
+      .from('categories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('sort_order', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+  return new Map(categories.map((category) => [category.id, category]))
+}
+
+async function getNameMap(userId: string, table: 'accounts' | 'payees'): Promise<Map<string, string>> {
+  const rows = await fetchAllRows<{ id: string; name: string }>((from, to) =>
+    getServerSupabase().from(table).select('id, name').eq('user_id', userId).order('id').range(from, to)
+  )
+  return new Map(rows.map((row) => [row.id, row.name]))
+}
+
+async function getTransactionRows(userId: string, { from: fromDate, to: toDate }: Range): Promise<ExportRow[]> {
+  const [categories, accounts, payees] = await Promise.all([
+    getCategoryMap(userId),
+    getNameMap(userId, 'accounts'),
+    getNameMap(userId, 'payees'),
+  ])
+
+  const transactions = await fetchAllRows<{
+    id: string
+    date: string
+    amount: string
+    memo: string | null
+    category_id: string | null
+    account_id: string | null
+    payee_id: string | null
+    transfer_id: string | null
+    is_split: boolean
+    is_reconciled: boolean
+  }>((from, to) => {
+    let query = getServerSupabase()
+      .from('transactions')
+      .select('id, date, amount, memo, category_id, account_id, payee_id, transfer_id, is_split, is_reconciled')
+      .eq('user_id', userId)
+      .eq('is_sweep_transaction', false)
+    if (fromDate) query = query.gte('date', fromDate)
+    if (toDate) query = query.lte('date', toDate)
+    return query.order('date', { ascending: true }).order('id', { ascending: true }).range(from, to)
+  })
+
+  // Both legs of a transfer share the date, so the other leg is in the same range
+  const transferLegs = new Map<string, typeof transactions>()
+  for (const transaction of transactions) {
+    if (!transaction.transfer_id) continue
+    transferLegs.set(transaction.transfer_id, [...(transferLegs.get(transaction.transfer_id) || []), transaction])
+  }
+
+  const splitIds = transactions.filter((t) => t.is_split).map((t) => t.id)
+  const splitsByTransaction = new Map<string, string[]>()
+  for (let i = 0; i < splitIds.length; i += IN_FILTER_CHUNK_SIZE) {
+    const { data, error } = await getServerSupabase()
+      .from('transaction_splits')
+      .select('transaction_id, category_id, amount')
+      .eq('user_id', userId)
+      .in('transaction_id', splitIds.slice(i, i + IN_FILTER_CHUNK_SIZE))
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+    for (const split of data || []) {
+      const category = categories.get(split.category_id)
+      const line = `${category ? getCategoryDisplayName(category) : ''}: ${Number(split.amount).toFixed(2)}`
+      splitsByTransaction.set(split.transaction_id, [...(splitsByTransaction.get(split.transaction_id) || []), line])
+    }
+  }
+
+  return transactions.map((transaction) => {
+    const category = transaction.category_id ? categories.get(transaction.category_id) : undefined
+    const otherLeg = transaction.transfer_id
+      ? transferLegs.get(transaction.transfer_id)?.find((leg) => leg.id !== transaction.id)
+      : undefined
+
+    return {
+      date: transaction.date,
+      amount: toNumber(transaction.amount),
+      category: category ? getCategoryDisplayName(category) : null,
+      category_type: category?.type ?? null,
+      account: (transaction.account_id && accounts.get(transaction.account_id)) || null,
+      payee: (transaction.payee_id && payees.get(transaction.payee_id)) || null,
+      memo: transaction.memo,
+      transfer_account: (otherLeg?.account_id && accounts.get(otherLeg.account_id)) || null,
+      splits: splitsByTransaction.get(transaction.id)?.join('; ') ?? null,
+      is_reconciled: transaction.is_reconciled,
+      id: transaction.id,
+    }
+  })
+}
+
+async function getCategoryRows(userId: string): Promise<ExportRow[]> {
+  const categories = await getCategoryMap(userId)
+
+  return Array.from(categories.values()).map((category) => {
+    const sweepTarget = category.sweep_target_category_id
+      ? categories.get(category.sweep_target_category_id)
+      : undefined
+
+    return {
+      name: getCategoryDisplayName(category),
+      type: category.type,
+      rollover_strategy: category.rollover_strategy,
+      target_amount: toNumber(category.target_amount),
+      due_date: category.due_date,
+      sweep_target: sweepTarget ? getCategoryDisplayName(sweepTarget) : null,
+      sort_order: category.sort_order,
+      is_active: category.is_active,
+      id: category.id,
+    }
+  })
+}
+
+async function getMonthlyBudgetRows(userId: string, { from: fromDate, to: toDate }: Range): Promise<ExportRow[]> {
+  const categories = await getCategoryMap(userId)
+
+  const budgets = await fetchAllRows<{
+    id: string
+    category_id: string
+    month_iso: string
+    assigned_amount: string
+    start_balance: string
+  }>((from, to) => {
+    let query = getServerSupabase()
+      .from('monthly_budgets')
+      .select('id, category_id, month_iso, assigned_amount, start_balance')
+      .eq('user_id', userId)
+    if (fromDate) query = query.gte('month_iso', fromDate.slice(0, 7))
+    if (toDate) query = query.lte('month_iso', toDate.slice(0, 7))
+    return query.order('month_iso', { ascending: true }).order('id', { ascending: true }).range(from, to)
+  })
+
+  return budgets.map((budget) => {
+    const category = categories.get(budget.category_id)
+
+    return {
+      month: budget.month_iso,
+      category: category ? getCategoryDisplayName(category) : null,
+      category_type: category?.type ?? null,
+      assigned: toNumber(budget.assigned_amount),
+      start_balance: toNumber(budget.start_balance),
+      id: budget.id,
+    }
+  })
+}
+
+async function getMonthlySummaryRows(userId: string, { from: fromDate, to: toDate }: Range): Promise<ExportRow[]> {
+  let query = getServerSupabase()
+    .from('monthly_summaries')
+    .select('month_iso, total_income, total_expenses, balance, transaction_count, expenses_by_type')
+    .eq('user_id', userId)
+  if (fromDate) query = query.gte('month_iso', fromDate.slice(0, 7))
+  if (toDate) query = query.lte('month_iso', toDate.slice(0, 7))
+
+  // One row per month, far below the page size
+  const { data, error } = await query.order('month_iso', { ascending: true })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data || []).map((summary) => {
+    const byType: Record<string, number> = summary.expenses_by_type || {}
+
+    return {
+      month: summary.month_iso,
+      total_income: toNumber(summary.total_income),
+      total_expenses: toNumber(summary.total_expenses),
+      balance: toNumber(summary.balance),
+      transaction_count: summary.transaction_count,
+      expenses_fix: byType.FIX ?? 0,
+      expenses_variable: byType.VARIABLE ?? 0,
+      expenses_sf1: byType.SF1 ?? 0,
+      expenses_sf2: byType.SF2 ?? 0,
+      expenses_credit_card: byType.CREDIT_CARD ?? 0,
+    }
+  })
+}
+
+function getExportRows(userId: string, dataset: ExportDataset, range: Range): Promise<ExportRow[]> {
+  switch (dataset) {
+    case 'transactions':
+      return getTransactionRows(userId, range)
+    case 'categories':
+      return getCategoryRows(userId)
+    case 'monthly_budgets':
+      return getMonthlyBudgetRows(userId, range)
+    case 'monthly_summaries':
+      return getMonthlySummaryRows(userId, range)
+  }
+}
+
+/**
+ * Export one dataset as CSV or JSON
+ * Ids are resolved to names; columns keep the order of EXPORT_COLUMNS
+ */
+export async function exportData(input: ExportDataInput): Promise<ApiResponse<ExportFile>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = exportDataSchema.parse(input)
+    const allColumns: readonly string[] = EXPORT_COLUMNS[validated.dataset]
+    const columns = validated.columns ? allColumns.filter((c) => validated.columns!.includes(c)) : allColumns
+
+    // Categories have no dates
+    const range = validated.dataset === 'categories' ? {} : { from: validated.from, to: validated.to }
+    const rows = await getExportRows(userId, validated.dataset, range)
+    const filename = getExportFilename(validated.dataset.replace('_', '-'), validated.format, range.from, range.to)
+
+    return {
+      success: true,
+      data:
+        validated.format === 'csv'
+          ? { filename, mime_type: 'text/csv;charset=utf-8', content: toCsv(rows, columns) }
+          : { filename, mime_type: 'application/json', content: toJson(rows, columns) },
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0].message }
+    }
+    console.error('Error in exportData:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Create a versioned backup archive of all data of the user
+ */
+export async function createBackup(): Promise<ApiResponse<ExportFile>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { data: profile } = await getServerSupabase()
+      .from('profiles')
+      .select('currency')
+      .eq('user_id', userId)
+      .single()
+
+    const tables = {} as BackupArchive['tables']
+    for (const table of BACKUP_TABLES) {
+      tables[table] = await fetchAllRows<Record<string, unknown>>((from, to) =>
+        getServerSupabase().from(table).select('*').eq('user_id', userId).order('id').range(from, to)
+      )
+    }
+
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      settings: { currency: profile?.currency ?? 'EUR' },
+      tables,
+    }
+
+    return {
+      success: true,
+      data: {
+        filename: getExportFilename('backup', 'json', format(new Date(), 'yyyy-MM-dd')),
+        mime_type: 'application/json',
+        content: JSON.stringify(archive),
+      },
+    }
+  } catch (error) {
+    console.error('Error in createBackup:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
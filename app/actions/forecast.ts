@@ -0,0 +1,98 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { unstable_cache } from 'next/cache'
+import { getServerSupabase } from '@/lib/supabase'
+import {
+  buildCashFlowForecast,
+  getAverageMonths,
+  getAverageVariableSpend,
+  getForecastMonths,
+} from '@/lib/forecast'
+import { getUserAccounts } from '@/lib/accounts-store'
+import type { CashFlowForecast, ForecastMonth } from '@/lib/types'
+
+// Seconds the dashboard reuses a user's shortfall warning; the forecast page
+// itself always projects from the current data
+const SHORTFALL_CACHE_SECONDS = 15 * 60
+
+/**
+ * Project the next months from FIX targets, SF1 due dates, recurring income
+ * and the average VARIABLE spending, starting from today's account balances
+ */
+export async function getCashFlowForecast(): Promise<CashFlowForecast> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  return buildUserForecast(userId)
+}
+
+/**
+ * Forecast of any user (the forecast page and the cached dashboard warning)
+ */
+async function buildUserForecast(userId: string): Promise<CashFlowForecast> {
+  const today = new Date()
+  const averageMonths = getAverageMonths(today)
+
+  const [categoriesResult, recurringResult, summariesResult, accounts] = await Promise.all([
+    getServerSupabase()
+      .from('categories')
+      .select('id, name, type, target_amount, due_date')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .in('type', ['FIX', 'SF1']),
+    getServerSupabase()
+      .from('recurring_transactions')
+      .select('amount, frequency, start_date, end_date')
+      .eq('user_id', userId)
+      .eq('is_active', true),
+    getServerSupabase()
+      .from('monthly_summaries')
+      .select('month_iso, expenses_by_type')
+      .eq('user_id', userId)
+      .gte('month_iso', averageMonths[0])
+      .lte('month_iso', averageMonths[averageMonths.length - 1]),
+    getUserAccounts(userId),
+  ])
+
+  const error = categoriesResult.error || recurringResult.error || summariesResult.error
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const openingBalance = accounts.reduce((sum, account) => sum + (parseFloat(account.balance) || 0), 0)
+
+  return buildCashFlowForecast(
+    openingBalance,
+    getForecastMonths(today),
+    categoriesResult.data || [],
+    recurringResult.data || [],
+    getAverageVariableSpend(summariesResult.data || [], averageMonths)
+  )
+}
+
+const getCachedShortfalls = unstable_cache(
+  async (userId: string, months: number): Promise<ForecastMonth[]> => {
+    const forecast = await buildUserForecast(userId)
+    return forecast.months.slice(0, months).filter((month) => month.is_shortfall)
+  },
+  ['forecast-shortfalls'],
+  { revalidate: SHORTFALL_CACHE_SECONDS }
+)
+
+/**
+ * Forecast months with a shortfall among the next few months
+ * Shown as a warning on the dashboard; a failing forecast shows none.
+ * Cached per user for SHORTFALL_CACHE_SECONDS
+ */
+export async function getUpcomingShortfalls(months: number = 3): Promise<ForecastMonth[]> {
+  const { userId } = await auth()
+  if (!userId) return []
+
+  try {
+    return await getCachedShortfalls(userId, months)
+  } catch (error) {
+    console.error('Error in getUpcomingShortfalls:', error)
+    return []
+  }
+}
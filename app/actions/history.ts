@@ -0,0 +1,233 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { revalidatePath } from 'next/cache'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { CHANGE_HISTORY_DAYS } from '@/lib/change-log'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import type { ApiResponse, ChangeSet } from '@/lib/types'
+import { subDays } from 'date-fns'
+
+// Dates and months a change_log row touched (before and after the change)
+type ChangeLogMonths = {
+  table_name: string
+  before_date: string | null
+  after_date: string | null
+  before_month: string | null
+  after_month: string | null
+}
+
+function getHistoryCutoff(): Date {
+  return subDays(new Date(), CHANGE_HISTORY_DAYS)
+}
+
+/**
+ * Re-close the months a reverted change set touched
+ * Category changes (sweep targets, strategies) can affect every closed month
+ */
+async function recloseAfterRevert(userId: string, changeSetId: string) {
+  let rows: ChangeLogMonths[]
+  try {
+    rows = await fetchAllRows<ChangeLogMonths>((from, to) =>
+      getServerSupabase()
+        .from('change_log')
+        .select(
+          'table_name, before_date:before->>date, after_date:after->>date, before_month:before->>month_iso, after_month:after->>month_iso'
+        )
+        .eq('change_set_id', changeSetId)
+        .eq('user_id', userId)
+        .in('table_name', ['transactions', 'monthly_budgets', 'categories'])
+        .order('id', { ascending: true })
+        .range(from, to)
+    )
+  } catch (error) {
+    console.error('Error fetching change log:', error)
+    return
+  }
+
+  if (rows.some((row) => row.table_name === 'categories')) {
+    await recloseMonthsFrom()
+    return
+  }
+
+  const months: string[] = []
+  for (const row of rows) {
+    for (const value of [row.before_date, row.after_date, row.before_month, row.after_month]) {
+      if (value) months.push(value.slice(0, 7))
+    }
+  }
+
+  if (months.length > 0) {
+    await recloseMonthsFrom(months.sort()[0])
+  }
+}
+
+/**
+ * Undo or redo a change set of the user
+ */
+async function revertChangeSet(userId: string, changeSet: ChangeSet, redo: boolean): Promise<ApiResponse<ChangeSet>> {
+  if (new Date(changeSet.created_at) < getHistoryCutoff()) {
+    return { success: false, error: `Only changes from the last ${CHANGE_HISTORY_DAYS} days can be undone` }
+  }
+
+  const { error } = await getServerSupabase().rpc('revert_change_set', {
+    p_user_id: userId,
+    p_change_set_id: changeSet.id,
+    p_redo: redo,
+  })
+
+  if (error) {
+    console.error('Error reverting change set:', error)
+    return { success: false, error: `Failed to ${redo ? 'redo' : 'undo'} the change: ${error.message}` }
+  }
+
+  await recloseAfterRevert(userId, changeSet.id)
+
+  revalidatePath('/[locale]', 'layout')
+  return {
+    success: true,
+    data: { ...changeSet, undone_at: redo ? null : new Date().toISOString() },
+  }
+}
+
+/**
+ * Undo or redo one change from the history
+ * Fails when later changes touched the same rows; those have to be undone first
+ */
+async function revertChangeById(id: string, redo: boolean): Promise<ApiResponse<ChangeSet>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const { data: changeSet } = await getServerSupabase()
+    .from('change_sets')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!changeSet) {
+    return { success: false, error: 'Change not found' }
+  }
+
+  return revertChangeSet(userId, changeSet, redo)
+}
+
+/**
+ * Get the changes of the last 30 days, newest first
+ */
+export async function getChangeHistory(): Promise<ChangeSet[]> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const { data, error } = await getServerSupabase()
+    .from('change_sets')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', getHistoryCutoff().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(500)
+
+  if (error) {
+    console.error('Error fetching change history:', error)
+    throw new Error('Failed to fetch change history')
+  }
+
+  return data || []
+}
+
+/**
+ * Undo the most recent change that is still applied
+ */
+export async function undoLastChange(): Promise<ApiResponse<ChangeSet>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { data: changeSet } = await getServerSupabase()
+      .from('change_sets')
+      .select('*')
+      .eq('user_id', userId)
+      .is('undone_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!changeSet) {
+      return { success: false, error: 'Nothing to undo' }
+    }
+
+    return revertChangeSet(userId, changeSet, false)
+  } catch (error) {
+    console.error('Error in undoLastChange:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Redo the most recently undone change
+ * Only possible as long as no new change was made after the undo
+ */
+export async function redoLastChange(): Promise<ApiResponse<ChangeSet>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { data: changeSet } = await getServerSupabase()
+      .from('change_sets')
+      .select('*')
+      .eq('user_id', userId)
+      .not('undone_at', 'is', null)
+      .order('undone_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!changeSet) {
+      return { success: false, error: 'Nothing to redo' }
+    }
+
+    const { count } = await getServerSupabase()
+      .from('change_sets')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gt('created_at', changeSet.undone_at)
+
+    if (count) {
+      return { success: false, error: 'Nothing to redo' }
+    }
+
+    return revertChangeSet(userId, changeSet, true)
+  } catch (error) {
+    console.error('Error in redoLastChange:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Undo one change from the history
+ */
+export async function undoChange(id: string): Promise<ApiResponse<ChangeSet>> {
+  try {
+    return await revertChangeById(id, false)
+  } catch (error) {
+    console.error('Error in undoChange:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Redo one undone change from the history
+ */
+export async function redoChange(id: string): Promise<ApiResponse<ChangeSet>> {
+  try {
+    return await revertChangeById(id, true)
+  } catch (error) {
+    console.error('Error in redoChange:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
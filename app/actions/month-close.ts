@@ -0,0 +1,47 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { closeUserElapsedMonths, closeUserMonth, recloseUserMonthsFrom } from '@/lib/month-close'
+import type { ApiResponse, MonthClose } from '@/lib/types'
+
+/**
+ * Close a budget month of the current user (idempotent)
+ * See closeUserMonth for the steps
+ */
+export async function closeMonth(monthIso: string): Promise<ApiResponse<MonthClose>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  return closeUserMonth(userId, monthIso)
+}
+
+/**
+ * Close all elapsed months of the current user that have not been closed yet
+ * See closeUserElapsedMonths
+ */
+export async function closeElapsedMonths(): Promise<ApiResponse<number>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  return closeUserElapsedMonths(userId)
+}
+
+/**
+ * Re-run the close for every closed month from the given month onwards
+ * Called after a change to a past month (transactions, assignments, categories)
+ *
+ * @param fromMonthIso - First affected month (YYYY-MM); omit to re-close all months
+ * @returns Number of months re-closed
+ */
+export async function recloseMonthsFrom(fromMonthIso?: string): Promise<ApiResponse<number>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  return recloseUserMonthsFrom(userId, fromMonthIso)
+}
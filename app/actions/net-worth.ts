@@ -0,0 +1,349 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { format, subMonths } from 'date-fns'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { buildNetWorthHistory, getSinkingFundHistory } from '@/lib/net-worth'
+import { MAX_REPORT_MONTHS, getReportMonths } from '@/lib/reports'
+import { getSinkingFunds } from '@/app/actions/transaction'
+import {
+  netWorthItemSchema,
+  netWorthSnapshotSchema,
+  type ApiResponse,
+  type NetWorthItem,
+  type NetWorthOverview,
+  type NetWorthSnapshot,
+  type NetWorthSnapshotInput,
+} from '@/lib/types'
+
+export type NetWorthItemFormData = z.input<typeof netWorthItemSchema>
+
+/**
+ * Sinking fund totals per category and month, for the fund balances over time
+ */
+async function getSinkingFundMonths(userId: string, categoryIds: string[]) {
+  if (categoryIds.length === 0) return []
+
+  const [budgets, lines] = await Promise.all([
+    fetchAllRows<{ category_id: string; month_iso: string; assigned_amount: string }>((from, to) =>
+      getServerSupabase()
+        .from('monthly_budgets')
+        .select('category_id, month_iso, assigned_amount')
+        .eq('user_id', userId)
+        .in('category_id', categoryIds)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllRows<{ category_id: string; date: string; amount: string; is_sweep_transaction: boolean }>((from, to) =>
+      getServerSupabase()
+        .from('transaction_lines')
+        .select('category_id, date, amount, is_sweep_transaction')
+        .eq('user_id', userId)
+        .in('category_id', categoryIds)
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .order('split_id', { ascending: true })
+        .range(from, to)
+    ),
+  ])
+
+  return [
+    ...budgets.map((budget) => ({
+      category_id: budget.category_id,
+      month_iso: budget.month_iso,
+      assigned: parseFloat(budget.assigned_amount) || 0,
+      spent: 0,
+      swept: 0,
+    })),
+    ...lines.map((line) => {
+      const amount = parseFloat(line.amount) || 0
+      return {
+        category_id: line.category_id,
+        month_iso: line.date.slice(0, 7),
+        assigned: 0,
+        spent: amount < 0 ? -amount : 0,
+        swept: line.is_sweep_transaction && amount > 0 ? amount : 0,
+      }
+    }),
+  ]
+}
+
+/**
+ * Verify that the item belongs to the user
+ */
+async function checkItem(userId: string, itemId: string): Promise<boolean> {
+  const { data } = await getServerSupabase()
+    .from('net_worth_items')
+    .select('id')
+    .eq('id', itemId)
+    .eq('user_id', userId)
+    .single()
+
+  return !!data
+}
+
+/**
+ * Get the assets and liabilities with their snapshots, the sinking funds and
+ * the month-end net worth since the first recorded balance
+ */
+export async function getNetWorthOverview(): Promise<NetWorthOverview> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const [items, snapshots, sinkingFunds] = await Promise.all([
+    fetchAllRows<NetWorthItem>((from, to) =>
+      getServerSupabase()
+        .from('net_worth_items')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllRows<NetWorthSnapshot>((from, to) =>
+      getServerSupabase()
+        .from('net_worth_snapshots')
+        .select('*')
+        .eq('user_id', userId)
+        .order('date', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    getSinkingFunds(),
+  ])
+
+  const fundMonths = await getSinkingFundMonths(
+    userId,
+    sinkingFunds.map((fund) => fund.id)
+  )
+
+  // From the first recorded balance (or fund activity) up to this month
+  const currentMonth = format(new Date(), 'yyyy-MM')
+  const earliestMonth = format(subMonths(new Date(), MAX_REPORT_MONTHS - 1), 'yyyy-MM')
+  const firstMonth = [...snapshots.map((s) => s.date.slice(0, 7)), ...fundMonths.map((m) => m.month_iso)]
+    .filter((month) => month <= currentMonth)
+    .reduce((first, month) => (month < first ? month : first), currentMonth)
+  const months = getReportMonths({ from: firstMonth < earliestMonth ? earliestMonth : firstMonth, to: currentMonth })
+
+  const fundHistory = getSinkingFundHistory(months, fundMonths)
+  // The current month uses the balances the dashboard shows
+  fundHistory[currentMonth] = sinkingFunds.reduce((sum, fund) => sum + parseFloat(fund.saved_balance), 0)
+
+  return {
+    items: items.map((item) => ({ ...item, snapshots: snapshots.filter((s) => s.item_id === item.id) })),
+    sinking_funds: sinkingFunds,
+    history: buildNetWorthHistory(months, items, snapshots, fundHistory),
+  }
+}
+
+/**
+ * Create an asset or liability, optionally with its first balance
+ */
+export async function createNetWorthItem(
+  data: NetWorthItemFormData,
+  balance?: Omit<NetWorthSnapshotInput, 'item_id'>
+): Promise<ApiResponse<NetWorthItem>> {
+  return withChangeLog('netWorth.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = netWorthItemSchema.parse(data)
+
+      const { count } = await getServerSupabase()
+        .from('net_worth_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+
+      const { data: item, error } = await getServerSupabase()
+        .from('net_worth_items')
+        .insert({
+          user_id: userId,
+          name: validated.name,
+          kind: validated.kind,
+          type: validated.type,
+          sort_order: count || 0,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating net worth item:', error)
+        return { success: false, error: 'Failed to create item' }
+      }
+
+      if (balance) {
+        const snapshot = netWorthSnapshotSchema.parse({ ...balance, item_id: item.id })
+        const { error: snapshotError } = await getServerSupabase()
+          .from('net_worth_snapshots')
+          .insert({ user_id: userId, ...snapshot })
+
+        if (snapshotError) {
+          console.error('Error creating net worth snapshot:', snapshotError)
+          return { success: false, error: 'Failed to save the balance' }
+        }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: item }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createNetWorthItem:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Update an asset or liability (name, type, archived)
+ */
+export async function updateNetWorthItem(id: string, data: NetWorthItemFormData): Promise<ApiResponse<NetWorthItem>> {
+  return withChangeLog('netWorth.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = netWorthItemSchema.parse(data)
+
+      const { data: item, error } = await getServerSupabase()
+        .from('net_worth_items')
+        .update({
+          name: validated.name,
+          kind: validated.kind,
+          type: validated.type,
+          ...(validated.is_active !== undefined ? { is_active: validated.is_active } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating net worth item:', error)
+        return { success: false, error: 'Failed to update item' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: item }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateNetWorthItem:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete an asset or liability with all its snapshots
+ */
+export async function deleteNetWorthItem(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('netWorth.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { error } = await getServerSupabase()
+        .from('net_worth_items')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error deleting net worth item:', error)
+        return { success: false, error: 'Failed to delete item' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deleteNetWorthItem:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Record the balance of an item on a date
+ * A balance already recorded for that date is replaced
+ */
+export async function recordNetWorthSnapshot(data: NetWorthSnapshotInput): Promise<ApiResponse<NetWorthSnapshot>> {
+  return withChangeLog('netWorth.snapshot', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = netWorthSnapshotSchema.parse(data)
+
+      if (!(await checkItem(userId, validated.item_id))) {
+        return { success: false, error: 'Item not found' }
+      }
+
+      const { data: snapshot, error } = await getServerSupabase()
+        .from('net_worth_snapshots')
+        .upsert({ user_id: userId, ...validated }, { onConflict: 'item_id,date' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error saving net worth snapshot:', error)
+        return { success: false, error: 'Failed to save the balance' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: snapshot }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in recordNetWorthSnapshot:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete a recorded balance
+ */
+export async function deleteNetWorthSnapshot(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('netWorth.deleteSnapshot', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { error } = await getServerSupabase()
+        .from('net_worth_snapshots')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error deleting net worth snapshot:', error)
+        return { success: false, error: 'Failed to delete the balance' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deleteNetWorthSnapshot:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
@@ -0,0 +1,277 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { IN_FILTER_CHUNK_SIZE, fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { matchPayee, summarizePayeeTransactions } from '@/lib/payees'
+import { getUserPayees } from '@/lib/payees-store'
+import {
+  insertPayeeSchema,
+  type ApiResponse,
+  type InsertPayeeInput,
+  type Payee,
+  type PayeeDetails,
+} from '@/lib/types'
+
+export type PayeeFormData = z.input<typeof insertPayeeSchema>
+
+/**
+ * Verify that the default category belongs to the user and can be assigned
+ */
+async function checkDefaultCategory(
+  userId: string,
+  categoryId: string | undefined
+): Promise<{ error: string } | null> {
+  if (!categoryId) return null
+
+  const { data: category } = await getServerSupabase()
+    .from('categories')
+    .select('type')
+    .eq('id', categoryId)
+    .eq('user_id', userId)
+    .single()
+
+  if (!category) {
+    return { error: 'Category not found' }
+  }
+  // Payment categories are funded by card spending, not assigned to transactions
+  if (category.type === 'CREDIT_CARD') {
+    return { error: 'Payment categories cannot be a default' }
+  }
+
+  return null
+}
+
+function toPayeeRow(validated: InsertPayeeInput) {
+  return {
+    name: validated.name,
+    aliases: validated.aliases,
+    default_category_id: validated.default_category_id || null,
+    default_amount: validated.default_amount,
+  }
+}
+
+/**
+ * Link transactions without a payee whose memo matches this payee best
+ * Other payees with a longer (more specific) match keep their transactions
+ *
+ * @returns Number of linked transactions
+ */
+async function linkMatchingTransactions(userId: string, payee: Payee): Promise<number> {
+  const payees = await getUserPayees(userId)
+
+  // Collect first: updated rows drop out of the filter and would shift the pages
+  const candidates = await fetchAllRows<{ id: string; memo: string | null }>((from, to) =>
+    getServerSupabase()
+      .from('transactions')
+      .select('id, memo')
+      .eq('user_id', userId)
+      .is('payee_id', null)
+      .not('memo', 'is', null)
+      .is('transfer_id', null)
+      .eq('is_sweep_transaction', false)
+      .eq('is_starting_balance', false)
+      .order('id')
+      .range(from, to)
+  )
+  const ids = candidates.filter((t) => matchPayee(payees, t.memo)?.id === payee.id).map((t) => t.id)
+
+  for (let i = 0; i < ids.length; i += IN_FILTER_CHUNK_SIZE) {
+    const { error } = await getServerSupabase()
+      .from('transactions')
+      .update({ payee_id: payee.id })
+      .eq('user_id', userId)
+      .in('id', ids.slice(i, i + IN_FILTER_CHUNK_SIZE))
+
+    if (error) {
+      console.error('Error linking transactions to payee:', error)
+      throw new Error('Failed to link transactions')
+    }
+  }
+
+  return ids.length
+}
+
+/**
+ * Get all payees of the current user by name
+ */
+export async function getPayees(): Promise<Payee[]> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  return getUserPayees(userId)
+}
+
+/**
+ * Create a payee and link the existing transactions whose memo matches it
+ */
+export async function createPayee(
+  data: PayeeFormData
+): Promise<ApiResponse<{ payee: Payee; linked: number }>> {
+  return withChangeLog('payee.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = insertPayeeSchema.parse(data)
+
+      const categoryError = await checkDefaultCategory(userId, validated.default_category_id)
+      if (categoryError) {
+        return { success: false, error: categoryError.error }
+      }
+
+      const { data: payee, error } = await getServerSupabase()
+        .from('payees')
+        .insert({ user_id: userId, ...toPayeeRow(validated) })
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'A payee with this name already exists' }
+        }
+        console.error('Error creating payee:', error)
+        return { success: false, error: 'Failed to create payee' }
+      }
+
+      const linked = await linkMatchingTransactions(userId, payee)
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: { payee, linked } }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createPayee:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Update a payee
+ * New aliases link matching transactions without a payee; transactions
+ * already linked stay with this payee even if an alias is removed
+ */
+export async function updatePayee(
+  id: string,
+  data: PayeeFormData
+): Promise<ApiResponse<{ payee: Payee; linked: number }>> {
+  return withChangeLog('payee.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = insertPayeeSchema.parse(data)
+
+      const categoryError = await checkDefaultCategory(userId, validated.default_category_id)
+      if (categoryError) {
+        return { success: false, error: categoryError.error }
+      }
+
+      const { data: payee, error } = await getServerSupabase()
+        .from('payees')
+        .update({ ...toPayeeRow(validated), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'A payee with this name already exists' }
+        }
+        console.error('Error updating payee:', error)
+        return { success: false, error: 'Failed to update payee' }
+      }
+
+      const linked = await linkMatchingTransactions(userId, payee)
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: { payee, linked } }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updatePayee:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete a payee
+ * Its transactions are kept and lose the link (ON DELETE SET NULL)
+ */
+export async function deletePayee(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('payee.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { error } = await getServerSupabase()
+        .from('payees')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error deleting payee:', error)
+        return { success: false, error: 'Failed to delete payee' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deletePayee:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Spending history of a payee: totals, average, frequency and monthly trend
+ */
+export async function getPayeeDetails(id: string): Promise<ApiResponse<PayeeDetails>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { data: payee } = await getServerSupabase()
+      .from('payees')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single()
+
+    if (!payee) {
+      return { success: false, error: 'Payee not found' }
+    }
+
+    const transactions = await fetchAllRows<PayeeDetails['recent'][number]>((from, to) =>
+      getServerSupabase()
+        .from('transactions')
+        .select('id, date, amount, memo, category_id')
+        .eq('user_id', userId)
+        .eq('payee_id', id)
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to)
+    )
+
+    return { success: true, data: summarizePayeeTransactions(transactions) }
+  } catch (error) {
+    console.error('Error in getPayeeDetails:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
@@ -0,0 +1,332 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { addDays, format } from 'date-fns'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import { generateDueOccurrences } from '@/lib/recurring-generator'
+import { getOccurrencesBetween, getNextOccurrence } from '@/lib/recurring'
+import {
+  insertRecurringTransactionSchema,
+  type ApiResponse,
+  type RecurringTransaction,
+  type UpcomingTransaction,
+} from '@/lib/types'
+
+export type RecurringTransactionFormData = z.input<typeof insertRecurringTransactionSchema>
+
+/**
+ * Validate category and account of a schedule and derive the signed amount
+ * INCOME categories are positive, other categories are expenses; without a
+ * category a leading + marks income, as for transactions
+ */
+async function resolveSchedule(
+  userId: string,
+  data: z.infer<typeof insertRecurringTransactionSchema>
+): Promise<
+  { categoryId: string | null; accountId: string | null; amount: string } | { error: string }
+> {
+  let amount = Math.abs(parseFloat(data.amount))
+  if (!data.amount.startsWith('+')) {
+    amount = -amount
+  }
+
+  if (data.category_id) {
+    const { data: category } = await getServerSupabase()
+      .from('categories')
+      .select('type')
+      .eq('id', data.category_id)
+      .eq('user_id', userId)
+      .single()
+
+    if (!category) {
+      return { error: 'Category not found' }
+    }
+    amount = category.type === 'INCOME' ? Math.abs(amount) : -Math.abs(amount)
+  }
+
+  if (data.account_id) {
+    const { data: account } = await getServerSupabase()
+      .from('accounts')
+      .select('id')
+      .eq('id', data.account_id)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single()
+
+    if (!account) {
+      return { error: 'Account not found' }
+    }
+  }
+
+  return {
+    categoryId: data.category_id || null,
+    accountId: data.account_id || null,
+    amount: amount.toFixed(2),
+  }
+}
+
+/**
+ * Get all recurring transactions of the current user (active first, by next date)
+ */
+export async function getRecurringTransactions(): Promise<RecurringTransaction[]> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const { data, error } = await getServerSupabase()
+    .from('recurring_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('is_active', { ascending: false })
+    .order('next_date', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching recurring transactions:', error)
+    throw new Error('Failed to fetch recurring transactions')
+  }
+
+  return data || []
+}
+
+/**
+ * Create a recurring transaction
+ * Occurrences up to today are generated right away
+ */
+export async function createRecurringTransaction(
+  data: RecurringTransactionFormData
+): Promise<ApiResponse<RecurringTransaction>> {
+  return withChangeLog('recurring.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = insertRecurringTransactionSchema.parse(data)
+
+      const resolved = await resolveSchedule(userId, validated)
+      if ('error' in resolved) {
+        return { success: false, error: resolved.error }
+      }
+
+      const { data: recurring, error } = await getServerSupabase()
+        .from('recurring_transactions')
+        .insert({
+          user_id: userId,
+          category_id: resolved.categoryId,
+          account_id: resolved.accountId,
+          amount: resolved.amount,
+          memo: validated.memo || null,
+          frequency: validated.frequency,
+          start_date: validated.start_date,
+          next_date: validated.start_date,
+          end_date: validated.end_date || null,
+          is_active: true,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating recurring transaction:', error)
+        return { success: false, error: 'Failed to create recurring transaction' }
+      }
+
+      await generateDueTransactions()
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: recurring }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createRecurringTransaction:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Update a recurring transaction
+ * Already generated occurrences stay as they are; the schedule continues
+ * with the first occurrence after the last generated one
+ */
+export async function updateRecurringTransaction(
+  id: string,
+  data: RecurringTransactionFormData
+): Promise<ApiResponse<RecurringTransaction>> {
+  return withChangeLog('recurring.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = insertRecurringTransactionSchema.parse(data)
+
+      const resolved = await resolveSchedule(userId, validated)
+      if ('error' in resolved) {
+        return { success: false, error: resolved.error }
+      }
+
+      // Continue after the last generated occurrence, never regenerate old ones
+      const { data: lastOccurrence } = await getServerSupabase()
+        .from('transactions')
+        .select('date')
+        .eq('user_id', userId)
+        .eq('recurring_transaction_id', id)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const schedule = {
+        frequency: validated.frequency,
+        start_date: validated.start_date,
+        end_date: validated.end_date || null,
+      }
+      const nextDate = lastOccurrence
+        ? getNextOccurrence(schedule, lastOccurrence.date)
+        : validated.start_date
+
+      const { data: recurring, error } = await getServerSupabase()
+        .from('recurring_transactions')
+        .update({
+          category_id: resolved.categoryId,
+          account_id: resolved.accountId,
+          amount: resolved.amount,
+          memo: validated.memo || null,
+          frequency: validated.frequency,
+          start_date: validated.start_date,
+          next_date: nextDate ?? validated.start_date,
+          end_date: validated.end_date || null,
+          is_active: nextDate !== null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating recurring transaction:', error)
+        return { success: false, error: 'Failed to update recurring transaction' }
+      }
+
+      await generateDueTransactions()
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: recurring }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateRecurringTransaction:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete a recurring transaction
+ * Generated transactions are kept (their link is cleared by the database)
+ */
+export async function deleteRecurringTransaction(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('recurring.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { error } = await getServerSupabase()
+        .from('recurring_transactions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error deleting recurring transaction:', error)
+        return { success: false, error: 'Failed to delete recurring transaction' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deleteRecurringTransaction:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Generate the due occurrences of the current user's schedules (idempotent)
+ * Runs after a schedule is created or changed so past-due occurrences appear
+ * right away instead of with the next cron run. Like the cron route it runs
+ * outside the change log, so Undo keeps reverting the user's own last change
+ * instead of the scheduler
+ *
+ * @returns Number of users with new occurrences (0 or 1)
+ */
+export async function generateDueTransactions(): Promise<ApiResponse<number>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const earliestByUser = await generateDueOccurrences(today, userId)
+
+    // Occurrences in a closed month change its sweep transfers
+    const earliest = earliestByUser[userId]
+    if (earliest) {
+      await recloseMonthsFrom(earliest.slice(0, 7))
+    }
+
+    return { success: true, data: Object.keys(earliestByUser).length }
+  } catch (error) {
+    console.error('Error in generateDueTransactions:', error)
+    return { success: false, error: 'Failed to generate recurring transactions' }
+  }
+}
+
+/**
+ * Get scheduled occurrences of the next days that have not been generated yet
+ *
+ * @param days - Number of days to look ahead (default 30)
+ */
+export async function getUpcomingTransactions(days: number = 30): Promise<UpcomingTransaction[]> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const { data: schedules, error } = await getServerSupabase()
+    .from('recurring_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('Error fetching recurring transactions:', error)
+    throw new Error('Failed to fetch recurring transactions')
+  }
+
+  const untilDate = format(addDays(new Date(), days), 'yyyy-MM-dd')
+  const upcoming: UpcomingTransaction[] = []
+
+  for (const schedule of (schedules || []) as RecurringTransaction[]) {
+    for (const date of getOccurrencesBetween(schedule, schedule.next_date, untilDate)) {
+      upcoming.push({
+        recurring_transaction_id: schedule.id,
+        date,
+        amount: schedule.amount,
+        memo: schedule.memo,
+        category_id: schedule.category_id,
+        account_id: schedule.account_id,
+      })
+    }
+  }
+
+  return upcoming.sort((a, b) => a.date.localeCompare(b.date))
+}
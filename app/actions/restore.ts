@@ -0,0 +1,216 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { EMPTY_EXISTING_DATA, planRestore, type ExistingData, type RestorePlan } from '@/lib/backup'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import {
+  BACKUP_TABLES,
+  backupArchiveSchema,
+  restoreModeSchema,
+  type ApiResponse,
+  type BackupTable,
+  type ParsedBackup,
+  type RestoreMode,
+  type RestoreSummary,
+} from '@/lib/types'
+
+/**
+ * Load the rows a merge matches the backup against
+ */
+async function getExistingData(userId: string): Promise<ExistingData> {
+  const fetchTable = <T>(table: BackupTable, columns: string) =>
+    fetchAllRows<T>((from, to) =>
+      getServerSupabase()
+        .from(table)
+        .select(columns)
+        .eq('user_id', userId)
+        .order('id')
+        .range(from, to)
+        .returns<T[]>()
+    )
+
+  const [
+    categories,
+    accounts,
+    payees,
+    recurring_transactions,
+    category_rules,
+    transactions,
+    monthly_budgets,
+    budget_moves,
+    month_closes,
+    net_worth_items,
+    net_worth_snapshots,
+    debts,
+    debt_plans,
+  ] = await Promise.all([
+    fetchTable<ExistingData['categories'][number]>('categories', 'id, name, type'),
+    fetchTable<ExistingData['accounts'][number]>('accounts', 'id, name, type'),
+    fetchTable<ExistingData['payees'][number]>('payees', 'id, name'),
+    fetchTable<ExistingData['recurring_transactions'][number]>(
+      'recurring_transactions',
+      'id, memo, amount, frequency, start_date'
+    ),
+    fetchTable<ExistingData['category_rules'][number]>(
+      'category_rules',
+      'match_type, match_value, min_amount, max_amount, category_id'
+    ),
+    fetchTable<ExistingData['transactions'][number]>(
+      'transactions',
+      'date, amount, memo, account_id, import_id, recurring_transaction_id'
+    ),
+    fetchTable<ExistingData['monthly_budgets'][number]>('monthly_budgets', 'category_id, month_iso'),
+    fetchTable<ExistingData['budget_moves'][number]>(
+      'budget_moves',
+      'month_iso, from_category_id, to_category_id, amount, created_at'
+    ),
+    fetchTable<ExistingData['month_closes'][number]>('month_closes', 'month_iso'),
+    fetchTable<ExistingData['net_worth_items'][number]>('net_worth_items', 'id, name, kind'),
+    fetchTable<ExistingData['net_worth_snapshots'][number]>('net_worth_snapshots', 'item_id, date'),
+    fetchTable<ExistingData['debts'][number]>('debts', 'id, name'),
+    fetchTable<ExistingData['debt_plans'][number]>('debt_plans', 'id'),
+  ])
+
+  return {
+    categories,
+    accounts,
+    payees,
+    recurring_transactions,
+    category_rules,
+    transactions,
+    monthly_budgets,
+    budget_moves,
+    month_closes,
+    net_worth_items,
+    net_worth_snapshots,
+    debts,
+    debt_plans,
+  }
+}
+
+/**
+ * Count the rows a replace deletes
+ * Sweep transfers are not counted; they are created again when the months are re-closed
+ */
+async function countExistingRows(userId: string): Promise<Record<BackupTable, number>> {
+  const counts = await Promise.all(
+    BACKUP_TABLES.map(async (table) => {
+      let query = getServerSupabase().from(table).select('id', { count: 'exact', head: true }).eq('user_id', userId)
+      if (table === 'transactions') {
+        query = query.eq('is_sweep_transaction', false)
+      }
+
+      const { count, error } = await query
+      if (error) {
+        throw new Error(error.message)
+      }
+      return [table, count || 0] as const
+    })
+  )
+
+  return Object.fromEntries(counts) as Record<BackupTable, number>
+}
+
+/**
+ * Validate the archive and work out what restoring it would write
+ */
+async function prepareRestore(
+  userId: string,
+  archive: unknown,
+  mode: RestoreMode
+): Promise<{ backup: ParsedBackup; plan: RestorePlan; summary: RestoreSummary }> {
+  const backup = backupArchiveSchema.parse(archive)
+  const existing = mode === 'merge' ? await getExistingData(userId) : EMPTY_EXISTING_DATA
+  const plan = planRestore(backup, existing, userId)
+
+  if (mode === 'replace') {
+    const counts = await countExistingRows(userId)
+    for (const table of BACKUP_TABLES) {
+      plan.tables[table].removed = counts[table]
+    }
+  }
+
+  return { backup, plan, summary: { mode, exported_at: backup.exported_at, tables: plan.tables } }
+}
+
+/**
+ * Dry run of a restore: validates the archive and reports what would change
+ * Nothing is written
+ */
+export async function previewRestore(archive: unknown, mode: RestoreMode): Promise<ApiResponse<RestoreSummary>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { summary } = await prepareRestore(userId, archive, restoreModeSchema.parse(mode))
+    return { success: true, data: summary }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0].message }
+    }
+    console.error('Error in previewRestore:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Restore a backup archive
+ *
+ * merge: keeps the existing data and adds what is missing from the backup
+ * replace: deletes all budget data first, then restores the backup
+ *
+ * All rows are written in one database transaction; afterwards the closed
+ * months are re-closed so sweep transfers match the restored budgets.
+ */
+export async function restoreBackup(archive: unknown, mode: RestoreMode): Promise<ApiResponse<RestoreSummary>> {
+  return withChangeLog('backup.restore', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validatedMode = restoreModeSchema.parse(mode)
+      const { backup, plan, summary } = await prepareRestore(userId, archive, validatedMode)
+
+      const { error } = await getServerSupabase().rpc('restore_backup', {
+        p_user_id: userId,
+        p_replace: validatedMode === 'replace',
+        p_tables: plan.rows,
+      })
+
+      if (error) {
+        console.error('Error restoring backup:', error)
+        return { success: false, error: `Failed to restore the backup: ${error.message}` }
+      }
+
+      if (validatedMode === 'replace') {
+        const { error: profileError } = await getServerSupabase()
+          .from('profiles')
+          .update({ currency: backup.settings.currency })
+          .eq('user_id', userId)
+
+        if (profileError) {
+          console.error('Error restoring currency:', profileError)
+        }
+      }
+
+      await recloseMonthsFrom()
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: summary }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in restoreBackup:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
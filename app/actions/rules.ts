@@ -0,0 +1,368 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import { applyCategoryRules } from '@/lib/category-rules'
+import { getActiveCategoryRules } from '@/lib/category-rules-store'
+import { getAssignableCategory } from '@/lib/categories-store'
+import {
+  insertCategoryRuleSchema,
+  applyCategoryRulesSchema,
+  type ApiResponse,
+  type ApplyCategoryRulesInput,
+  type CategoryRule,
+  type CategoryRuleChange,
+} from '@/lib/types'
+
+export type CategoryRuleFormData = z.input<typeof insertCategoryRuleSchema>
+
+/**
+ * Compute what the active rules would change in a date range
+ * Transfers, sweep transfers, starting balances, split and reconciled
+ * transactions are never touched
+ */
+async function computeRuleChanges(
+  userId: string,
+  input: ApplyCategoryRulesInput
+): Promise<CategoryRuleChange[]> {
+  const rules = await getActiveCategoryRules(userId)
+  if (rules.length === 0) return []
+
+  const onlyIds = input.transaction_ids ? new Set(input.transaction_ids) : null
+  const changes: CategoryRuleChange[] = []
+
+  const transactions = await fetchAllRows<
+    Pick<CategoryRuleChange, 'date' | 'amount' | 'memo' | 'category_id'> & { id: string }
+  >((from, to) => {
+    let query = getServerSupabase()
+      .from('transactions')
+      .select('id, date, amount, memo, category_id')
+      .eq('user_id', userId)
+      .gte('date', input.from)
+      .lte('date', input.to)
+      .is('transfer_id', null)
+      .eq('is_sweep_transaction', false)
+      .eq('is_starting_balance', false)
+      .eq('is_reconciled', false)
+      .eq('is_split', false)
+
+    if (input.only_uncategorized) {
+      query = query.is('category_id', null)
+    }
+
+    return query.order('date', { ascending: false }).order('id').range(from, to)
+  })
+
+  for (const t of transactions) {
+    if (onlyIds && !onlyIds.has(t.id)) continue
+
+    const match = applyCategoryRules(rules, { memo: t.memo, amount: parseFloat(t.amount) })
+    if (!match || (match.category_id === t.category_id && match.memo === t.memo)) continue
+
+    changes.push({
+      transaction_id: t.id,
+      rule_id: match.rule_id,
+      date: t.date,
+      amount: t.amount,
+      memo: t.memo,
+      category_id: t.category_id,
+      new_category_id: match.category_id,
+      new_memo: match.memo,
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Get all category rules of the current user in evaluation order
+ */
+export async function getCategoryRules(): Promise<CategoryRule[]> {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const { data, error } = await getServerSupabase()
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching category rules:', error)
+    throw new Error('Failed to fetch category rules')
+  }
+
+  return data || []
+}
+
+/**
+ * Create a category rule (evaluated after all existing rules)
+ */
+export async function createCategoryRule(
+  data: CategoryRuleFormData
+): Promise<ApiResponse<CategoryRule>> {
+  return withChangeLog('rule.create', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = insertCategoryRuleSchema.parse(data)
+
+      const category = await getAssignableCategory(userId, validated.category_id)
+      if ('error' in category) {
+        return { success: false, error: category.error }
+      }
+
+      const { data: lastRule } = await getServerSupabase()
+        .from('category_rules')
+        .select('sort_order')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const { data: rule, error } = await getServerSupabase()
+        .from('category_rules')
+        .insert({
+          user_id: userId,
+          match_type: validated.match_type,
+          match_value: validated.match_value?.trim() || null,
+          min_amount: validated.min_amount,
+          max_amount: validated.max_amount,
+          category_id: validated.category_id,
+          set_memo: validated.set_memo?.trim() || null,
+          sort_order: (lastRule?.sort_order ?? -1) + 1,
+          is_active: validated.is_active ?? true,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating category rule:', error)
+        return { success: false, error: 'Failed to create rule' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: rule }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in createCategoryRule:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Update a category rule
+ * Existing transactions are only changed by applying the rules to a date range
+ */
+export async function updateCategoryRule(
+  id: string,
+  data: CategoryRuleFormData
+): Promise<ApiResponse<CategoryRule>> {
+  return withChangeLog('rule.update', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = insertCategoryRuleSchema.parse(data)
+
+      const category = await getAssignableCategory(userId, validated.category_id)
+      if ('error' in category) {
+        return { success: false, error: category.error }
+      }
+
+      const { data: rule, error } = await getServerSupabase()
+        .from('category_rules')
+        .update({
+          match_type: validated.match_type,
+          match_value: validated.match_value?.trim() || null,
+          min_amount: validated.min_amount,
+          max_amount: validated.max_amount,
+          category_id: validated.category_id,
+          set_memo: validated.set_memo?.trim() || null,
+          ...(validated.is_active !== undefined && { is_active: validated.is_active }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating category rule:', error)
+        return { success: false, error: 'Failed to update rule' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: rule }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in updateCategoryRule:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Delete a category rule
+ */
+export async function deleteCategoryRule(id: string): Promise<ApiResponse<null>> {
+  return withChangeLog('rule.delete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { error } = await getServerSupabase()
+        .from('category_rules')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error deleting category rule:', error)
+        return { success: false, error: 'Failed to delete rule' }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      console.error('Error in deleteCategoryRule:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Save the evaluation order of the rules (first matching rule wins)
+ *
+ * @param ruleIds - All rule ids in the new order
+ */
+export async function reorderCategoryRules(ruleIds: string[]): Promise<ApiResponse<null>> {
+  return withChangeLog('rule.reorder', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const ids = z.array(z.string().uuid()).parse(ruleIds)
+
+      for (let index = 0; index < ids.length; index++) {
+        const { error } = await getServerSupabase()
+          .from('category_rules')
+          .update({ sort_order: index })
+          .eq('id', ids[index])
+          .eq('user_id', userId)
+
+        if (error) {
+          console.error('Error reordering category rules:', error)
+          return { success: false, error: 'Failed to reorder rules' }
+        }
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: null }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in reorderCategoryRules:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+/**
+ * Preview which transactions in a date range the rules would change
+ */
+export async function previewCategoryRules(
+  input: ApplyCategoryRulesInput
+): Promise<ApiResponse<CategoryRuleChange[]>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = applyCategoryRulesSchema.parse(input)
+    const changes = await computeRuleChanges(userId, validated)
+
+    return { success: true, data: changes }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0].message }
+    }
+    console.error('Error in previewCategoryRules:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Apply the rules to existing transactions in a date range
+ * Changes are recomputed on the server; transaction_ids limits them to the
+ * rows the user kept selected in the preview. Amounts keep their sign.
+ *
+ * @returns Number of changed transactions
+ */
+export async function applyCategoryRulesToRange(
+  input: ApplyCategoryRulesInput
+): Promise<ApiResponse<number>> {
+  return withChangeLog('rule.apply', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = applyCategoryRulesSchema.parse(input)
+      const changes = await computeRuleChanges(userId, validated)
+
+      let updated = 0
+      for (const change of changes) {
+        const { error } = await getServerSupabase()
+          .from('transactions')
+          .update({ category_id: change.new_category_id, memo: change.new_memo })
+          .eq('id', change.transaction_id)
+          .eq('user_id', userId)
+          .eq('is_reconciled', false)
+          .eq('is_split', false)
+
+        if (error) {
+          console.error('Error applying category rule:', error)
+          continue
+        }
+        updated++
+      }
+
+      // Category changes in a closed month change its sweep transfers
+      if (updated > 0) {
+        await recloseMonthsFrom(validated.from.slice(0, 7))
+      }
+
+      revalidatePath('/[locale]', 'layout')
+      return { success: true, data: updated }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in applyCategoryRulesToRange:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
@@ -1,18 +1,284 @@
 'use server'
 
 import { auth } from '@clerk/nextjs/server'
-import { revalidatePath } from 'next/cache'
-import { getServerSupabase } from '@/lib/supabase'
+import { revalidatePath, unstable_cache } from 'next/cache'
+import { IN_FILTER_CHUNK_SIZE, fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { withChangeLog } from '@/lib/change-log'
 import {
   insertTransactionSchema,
+  insertTransferSchema,
+  importTransactionRowSchema,
+  importTransactionsSchema,
+  transactionSearchSchema,
+  bulkUpdateTransactionsSchema,
+  bulkDeleteTransactionsSchema,
   type ApiResponse,
+  type BulkDeleteResult,
+  type BulkTransactionFailure,
+  type BulkUpdateResult,
+  type CategoryRule,
+  type ImportTransactionRow,
+  type Payee,
   type Transaction,
+  type TransactionListItem,
+  type TransactionSearchInput,
+  type TransactionSearchResult,
+  type TransactionSplitInput,
   type MonthlyStatistics,
   type BillItem,
   type SinkingFundItem,
   type SafeToSpendData,
 } from '@/lib/types'
+import { recloseMonthsFrom } from '@/app/actions/month-close'
+import { applyCategoryRules } from '@/lib/category-rules'
+import { getActiveCategoryRules } from '@/lib/category-rules-store'
+import { getAssignableCategory } from '@/lib/categories-store'
+import { matchPayee } from '@/lib/payees'
+import { getUserPayees } from '@/lib/payees-store'
+import { buildMemoSearchQuery } from '@/lib/transaction-filters'
+import { buildCategoryModel, type CategoryModel, type TrainingSample } from '@/lib/category-prediction'
 import { format } from 'date-fns'
+import { z } from 'zod'
+
+/**
+ * Verify that an account belongs to the user
+ * Returns null for "no account"
+ */
+async function resolveAccountId(
+  userId: string,
+  accountId: string | undefined
+): Promise<{ id: string | null } | { error: string }> {
+  if (!accountId) return { id: null }
+
+  const { data: account } = await getServerSupabase()
+    .from('accounts')
+    .select('id')
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .single()
+
+  if (!account) {
+    return { error: 'Account not found' }
+  }
+
+  return { id: account.id }
+}
+
+/**
+ * Verify that all split categories belong to the user and are expense categories
+ */
+async function checkSplitCategories(
+  userId: string,
+  splits: TransactionSplitInput[]
+): Promise<{ error: string } | null> {
+  const categoryIds = Array.from(new Set(splits.map((split) => split.category_id)))
+
+  const { data: categories } = await getServerSupabase()
+    .from('categories')
+    .select('id, type')
+    .eq('user_id', userId)
+    .in('id', categoryIds)
+
+  if (!categories || categories.length !== categoryIds.length) {
+    return { error: 'Category not found' }
+  }
+
+  if (categories.some((c) => c.type === 'INCOME' || c.type === 'CREDIT_CARD')) {
+    return { error: 'Splits can only use expense categories' }
+  }
+
+  return null
+}
+
+/**
+ * Replace the lines of a split transaction
+ * Lines get the sign of the parent; an empty list removes the split
+ */
+async function replaceTransactionSplits(
+  userId: string,
+  transactionId: string,
+  splits: TransactionSplitInput[],
+  sign: 1 | -1
+): Promise<{ error: string } | null> {
+  const { error: deleteError } = await getServerSupabase()
+    .from('transaction_splits')
+    .delete()
+    .eq('transaction_id', transactionId)
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    console.error('Supabase delete error:', deleteError)
+    return { error: `Failed to update splits: ${deleteError.message}` }
+  }
+
+  if (splits.length === 0) return null
+
+  const { error: insertError } = await getServerSupabase()
+    .from('transaction_splits')
+    .insert(
+      splits.map((split, index) => ({
+        user_id: userId,
+        transaction_id: transactionId,
+        category_id: split.category_id,
+        amount: (sign * parseFloat(split.amount)).toFixed(2),
+        memo: split.memo?.trim() || null,
+        sort_order: index,
+      }))
+    )
+
+  if (insertError) {
+    console.error('Supabase insert error:', insertError)
+    return { error: `Failed to save splits: ${insertError.message}` }
+  }
+
+  return null
+}
+
+interface InsertTransactionOptions {
+  importId?: string // bank transaction id of an imported statement row
+  rules?: CategoryRule[] // auto-categorisation rules for transactions without category
+  payees?: Payee[] // payees matched against the memo and checked for payee_id
+  keepSign?: boolean // the +/- prefix wins over the category type (bank statements)
+}
+
+/**
+ * Validates and inserts a single transaction for the user
+ * Shared by createTransaction and importTransactions; the callers re-close
+ * affected months and revalidate once
+ */
+async function insertTransaction(
+  userId: string,
+  data: unknown,
+  options: InsertTransactionOptions = {}
+): Promise<ApiResponse<Transaction>> {
+  const validationResult = insertTransactionSchema.safeParse(data)
+
+  if (!validationResult.success) {
+    const errorMessages = validationResult.error.issues
+      .map((err) => err.message)
+      .join(', ')
+
+    return {
+      success: false,
+      error: `Validation failed: ${errorMessages}`,
+    }
+  }
+
+  const validatedData = validationResult.data
+  const splits = validatedData.splits || []
+  const isSplit = splits.length > 0
+
+  const account = await resolveAccountId(userId, validatedData.account_id)
+  if ('error' in account) {
+    return { success: false, error: account.error }
+  }
+
+  if (isSplit) {
+    const splitError = await checkSplitCategories(userId, splits)
+    if (splitError) {
+      return { success: false, error: splitError.error }
+    }
+  }
+
+  // Rules only fill in what was left open: they never replace a chosen category
+  let categoryId = isSplit ? null : validatedData.category_id || null
+  let memo = validatedData.memo || null
+
+  if (!categoryId && !isSplit && options.rules?.length) {
+    const match = applyCategoryRules(options.rules, { memo, amount: parseFloat(validatedData.amount) })
+    if (match) {
+      categoryId = match.category_id
+      memo = match.memo
+    }
+  }
+
+  // A chosen payee must be the user's; otherwise the memo (cleaned up by a rule or not) picks one
+  const payees = options.payees || []
+  let payee: Payee | null = null
+  if (validatedData.payee_id) {
+    payee = payees.find((p) => p.id === validatedData.payee_id) || null
+    if (!payee) {
+      return { success: false, error: 'Payee not found' }
+    }
+  } else {
+    payee = matchPayee(payees, memo) || matchPayee(payees, validatedData.memo)
+  }
+
+  // The payee's default category comes last, after the rules
+  if (!categoryId && !isSplit && payee?.default_category_id) {
+    categoryId = payee.default_category_id
+  }
+
+  // Determine transaction type and normalize amount with sign
+  let finalAmount = Math.abs(parseFloat(validatedData.amount))
+
+  if (isSplit) {
+    // Splits are expense-only
+    finalAmount = -finalAmount
+  } else if (options.keepSign) {
+    if (!validatedData.amount.startsWith('+')) {
+      finalAmount = -finalAmount
+    }
+  } else if (categoryId) {
+    // If category is selected, determine type from category
+    const { data: category } = await getServerSupabase()
+      .from('categories')
+      .select('type')
+      .eq('id', categoryId)
+      .single()
+
+    // INCOME = positive, all others = negative
+    // Handle both 'INCOME' (new ZBB) and 'income' (legacy) types
+    if (category?.type?.toUpperCase() !== 'INCOME') {
+      finalAmount = -finalAmount
+    }
+  } else {
+    // No category: check if amount starts with + (income) or treat as expense
+    const amountStr = validatedData.amount.toString()
+    if (!amountStr.startsWith('+')) {
+      finalAmount = -finalAmount
+    }
+  }
+
+  const { data: transaction, error: insertError } = await getServerSupabase()
+    .from('transactions')
+    .insert({
+      user_id: userId,
+      category_id: categoryId,
+      account_id: account.id,
+      amount: finalAmount.toString(),
+      date: validatedData.date && /^\d{4}-\d{2}-\d{2}$/.test(validatedData.date) ? validatedData.date : format(new Date(), 'yyyy-MM-dd'),
+      memo,
+      is_split: isSplit,
+      payee_id: payee?.id ?? null,
+      ...(options.importId && { import_id: options.importId }),
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Supabase insert error:', insertError)
+    return {
+      success: false,
+      error: `Failed to create transaction: ${insertError.message}`,
+    }
+  }
+
+  if (isSplit) {
+    const splitError = await replaceTransactionSplits(userId, transaction.id, splits, -1)
+    if (splitError) {
+      // Do not leave a split parent without lines behind
+      await getServerSupabase().from('transactions').delete().eq('id', transaction.id).eq('user_id', userId)
+      return { success: false, error: splitError.error }
+    }
+  }
+
+  return {
+    success: true,
+    data: transaction as Transaction,
+  }
+}
 
 /**
  * Creates a new transaction in the database
@@ -20,94 +286,351 @@ import { format } from 'date-fns'
 export async function createTransaction(
   data: unknown
 ): Promise<ApiResponse<Transaction>> {
-  try {
-    const { userId } = await auth()
+  return withChangeLog('transaction.create', async () => {
+    try {
+      const { userId } = await auth()
+
+      if (!userId) {
+        return {
+          success: false,
+          error: 'Unauthorized. Please sign in to create transactions.',
+        }
+      }
 
-    if (!userId) {
-      return {
-        success: false,
-        error: 'Unauthorized. Please sign in to create transactions.',
+      const [rules, payees] = await Promise.all([getActiveCategoryRules(userId), getUserPayees(userId)])
+      const result = await insertTransaction(userId, data, { rules, payees })
+      if (!result.success) {
+        return result
       }
-    }
 
-    const validationResult = insertTransactionSchema.safeParse(data)
+      // Transactions in a closed month change its sweep transfers
+      await recloseMonthsFrom(result.data.date.slice(0, 7))
 
-    if (!validationResult.success) {
-      const errorMessages = validationResult.error.issues
-        .map((err) => err.message)
-        .join(', ')
+      revalidatePath('/')
 
+      return result
+    } catch (error) {
+      console.error('Unexpected error in createTransaction:', error)
       return {
         success: false,
-        error: `Validation failed: ${errorMessages}`,
+        error: 'An unexpected error occurred. Please try again.',
       }
     }
+  })
+}
 
-    const validatedData = validationResult.data
+/**
+ * Creates a transfer between two accounts
+ * Stored as two uncategorized legs sharing one transfer_id, so it is neither income nor expense
+ */
+export async function createTransfer(
+  data: unknown
+): Promise<ApiResponse<Transaction[]>> {
+  return withChangeLog('transaction.transfer', async () => {
+    try {
+      const { userId } = await auth()
+
+      if (!userId) {
+        return {
+          success: false,
+          error: 'Unauthorized. Please sign in to create transfers.',
+        }
+      }
 
-    // Determine transaction type and normalize amount with sign
-    let finalAmount = Math.abs(parseFloat(validatedData.amount))
+      const validationResult = insertTransferSchema.safeParse(data)
 
-    if (validatedData.category_id) {
-      // If category is selected, determine type from category
-      const { data: category } = await getServerSupabase()
-        .from('categories')
-        .select('type')
-        .eq('id', validatedData.category_id)
-        .single()
+      if (!validationResult.success) {
+        const errorMessages = validationResult.error.issues
+          .map((err) => err.message)
+          .join(', ')
 
-      // INCOME = positive, all others = negative
-      // Handle both 'INCOME' (new ZBB) and 'income' (legacy) types
-      if (category?.type?.toUpperCase() !== 'INCOME') {
-        finalAmount = -finalAmount
+        return {
+          success: false,
+          error: `Validation failed: ${errorMessages}`,
+        }
       }
-    } else {
-      // No category: check if amount starts with + (income) or treat as expense
-      const amountStr = validatedData.amount.toString()
-      if (!amountStr.startsWith('+')) {
-        finalAmount = -finalAmount
+
+      const validatedData = validationResult.data
+
+      const fromAccount = await resolveAccountId(userId, validatedData.from_account_id)
+      if ('error' in fromAccount) {
+        return { success: false, error: fromAccount.error }
       }
-    }
 
-    const { data: transaction, error: insertError } = await getServerSupabase()
-      .from('transactions')
-      .insert({
+      const toAccount = await resolveAccountId(userId, validatedData.to_account_id)
+      if ('error' in toAccount) {
+        return { success: false, error: toAccount.error }
+      }
+
+      const transferId = crypto.randomUUID()
+      const date = validatedData.date || format(new Date(), 'yyyy-MM-dd')
+      const leg = {
         user_id: userId,
-        category_id: validatedData.category_id || null,
-        amount: finalAmount.toString(),
-        date: validatedData.date && /^\d{4}-\d{2}-\d{2}$/.test(validatedData.date) ? validatedData.date : format(new Date(), 'yyyy-MM-dd'),
+        category_id: null,
+        date,
         memo: validatedData.memo || null,
-      })
-      .select()
-      .single()
+        transfer_id: transferId,
+      }
+
+      const { data: legs, error: insertError } = await getServerSupabase()
+        .from('transactions')
+        .insert([
+          { ...leg, account_id: fromAccount.id, amount: `-${validatedData.amount}` },
+          { ...leg, account_id: toAccount.id, amount: validatedData.amount },
+        ])
+        .select()
+
+      if (insertError) {
+        console.error('Supabase insert error:', insertError)
+        return {
+          success: false,
+          error: `Failed to create transfer: ${insertError.message}`,
+        }
+      }
+
+      // Card payments change the payment category and with it the month's sweeps
+      await recloseMonthsFrom(date.slice(0, 7))
 
-    if (insertError) {
-      console.error('Supabase insert error:', insertError)
+      revalidatePath('/')
+
+      return {
+        success: true,
+        data: (legs || []) as Transaction[],
+      }
+    } catch (error) {
+      console.error('Unexpected error in createTransfer:', error)
       return {
         success: false,
-        error: `Failed to create transaction: ${insertError.message}`,
+        error: 'An unexpected error occurred. Please try again.',
       }
     }
+  })
+}
 
-    revalidatePath('/')
+function getDuplicateKey(date: string, amount: number, memo: string | null | undefined): string {
+  const normalizedMemo = (memo || '').toLowerCase().replace(/\s+/g, ' ').trim()
+  return `${date}|${amount.toFixed(2)}|${normalizedMemo}`
+}
 
-    return {
-      success: true,
-      data: transaction as Transaction,
+/**
+ * Import ids of the given rows that were imported before
+ */
+async function getExistingImportIds(userId: string, rows: ImportTransactionRow[]): Promise<Set<string>> {
+  const importIds = rows.flatMap((row) => (row.import_id ? [row.import_id] : []))
+  const existing = new Set<string>()
+
+  for (let i = 0; i < importIds.length; i += IN_FILTER_CHUNK_SIZE) {
+    const { data, error } = await getServerSupabase()
+      .from('transactions')
+      .select('import_id')
+      .eq('user_id', userId)
+      .in('import_id', importIds.slice(i, i + IN_FILTER_CHUNK_SIZE))
+
+    if (error) {
+      console.error('Error fetching import ids:', error)
+      throw new Error('Failed to fetch import ids')
     }
+
+    for (const t of data || []) existing.add(t.import_id)
+  }
+
+  return existing
+}
+
+/**
+ * Flags import rows that probably exist already
+ * Rows with a bank id that was imported before are always duplicates; other
+ * rows match on date, amount and memo. Each existing transaction matches at
+ * most one row, so two identical purchases on the same day are only flagged
+ * if both were booked before
+ *
+ * @returns Indexes of the likely duplicate rows
+ */
+export async function findDuplicateTransactions(
+  rows: ImportTransactionRow[]
+): Promise<ApiResponse<number[]>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = z.array(importTransactionRowSchema).parse(rows)
+    if (validated.length === 0) {
+      return { success: true, data: [] }
+    }
+
+    const dates = validated.map((row) => row.date).sort()
+    const existingImportIds = await getExistingImportIds(userId, validated)
+    const existingCounts = new Map<string, number>()
+
+    let existing: Pick<Transaction, 'date' | 'amount' | 'memo'>[]
+    try {
+      existing = await fetchAllRows<Pick<Transaction, 'date' | 'amount' | 'memo'>>((from, to) =>
+        getServerSupabase()
+          .from('transactions')
+          .select('date, amount, memo')
+          .eq('user_id', userId)
+          .is('transfer_id', null)
+          .gte('date', dates[0])
+          .lte('date', dates[dates.length - 1])
+          .order('id')
+          .range(from, to)
+      )
+    } catch (error) {
+      console.error('Error fetching transactions for duplicate check:', error)
+      return { success: false, error: 'Failed to check for duplicates' }
+    }
+
+    for (const t of existing) {
+      const key = getDuplicateKey(t.date, parseFloat(t.amount), t.memo)
+      existingCounts.set(key, (existingCounts.get(key) || 0) + 1)
+    }
+
+    const duplicates: number[] = []
+    validated.forEach((row, index) => {
+      if (row.import_id && existingImportIds.has(row.import_id)) {
+        duplicates.push(index)
+        return
+      }
+
+      const key = getDuplicateKey(row.date, row.amount, row.memo)
+      const count = existingCounts.get(key) || 0
+      if (count > 0) {
+        duplicates.push(index)
+        existingCounts.set(key, count - 1)
+      }
+    })
+
+    return { success: true, data: duplicates }
   } catch (error) {
-    console.error('Unexpected error in createTransaction:', error)
-    return {
-      success: false,
-      error: 'An unexpected error occurred. Please try again.',
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0].message }
     }
+    console.error('Error in findDuplicateTransactions:', error)
+    return { success: false, error: 'An unexpected error occurred' }
   }
 }
 
 /**
- * Fetches transactions for the current user, optionally for a specific month
+ * Imports bank statement rows, categorised by the user's rules
+ * Every row goes through the same validation as createTransaction; affected
+ * months are re-closed once at the end instead of once per row. Rows whose
+ * bank id was imported before are skipped.
  */
-export async function getRecentTransactions(limit: number = 50, monthDate?: Date) {
+export async function importTransactions(
+  data: unknown
+): Promise<ApiResponse<{ imported: number; skipped: number; failed: number }>> {
+  return withChangeLog('transaction.import', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = importTransactionsSchema.parse(data)
+      const existingImportIds = await getExistingImportIds(userId, validated.rows)
+      const [rules, payees] = await Promise.all([getActiveCategoryRules(userId), getUserPayees(userId)])
+
+      let imported = 0
+      let skipped = 0
+      let failed = 0
+      let earliestDate: string | null = null
+
+      for (const row of validated.rows) {
+        if (row.import_id && existingImportIds.has(row.import_id)) {
+          skipped++
+          continue
+        }
+
+        const result = await insertTransaction(
+          userId,
+          {
+            amount: `${row.amount > 0 ? '+' : '-'}${Math.abs(row.amount).toFixed(2)}`,
+            date: row.date,
+            memo: row.memo,
+            account_id: validated.account_id || undefined,
+          },
+          // The statement's sign wins, even if a rule picks an expense category for a refund
+          { importId: row.import_id, rules, payees, keepSign: true }
+        )
+
+        if (!result.success) {
+          console.error('Error importing row:', result.error)
+          failed++
+          continue
+        }
+
+        imported++
+        if (!earliestDate || row.date < earliestDate) {
+          earliestDate = row.date
+        }
+      }
+
+      // Transactions in a closed month change its sweep transfers
+      if (earliestDate) {
+        await recloseMonthsFrom(earliestDate.slice(0, 7))
+      }
+
+      revalidatePath('/')
+
+      return { success: true, data: { imported, skipped, failed } }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in importTransactions:', error)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  })
+}
+
+// Transaction columns and relations shown in the transaction list
+const TRANSACTION_LIST_SELECT = `
+  *,
+  category:categories(*),
+  splits:transaction_splits(id, category_id, amount, memo, sort_order)
+`
+
+/**
+ * Attach the account on the other side of each transfer
+ */
+async function attachTransferAccounts<T extends { id: string; transfer_id: string | null }>(
+  userId: string,
+  transactions: T[]
+): Promise<(T & { transfer_account_id?: string | null })[]> {
+  const transferIds = transactions
+    .map((tx) => tx.transfer_id)
+    .filter((id): id is string => !!id)
+
+  if (transferIds.length === 0) {
+    return transactions
+  }
+
+  const { data: counterLegs, error } = await getServerSupabase()
+    .from('transactions')
+    .select('id, transfer_id, account_id')
+    .eq('user_id', userId)
+    .in('transfer_id', transferIds)
+
+  if (error) {
+    console.error('Supabase fetch error:', error)
+    throw new Error(`Failed to fetch transfers: ${error.message}`)
+  }
+
+  return transactions.map((tx) => {
+    if (!tx.transfer_id) return tx
+    const counterLeg = (counterLegs || []).find(
+      (leg) => leg.transfer_id === tx.transfer_id && leg.id !== tx.id
+    )
+    return { ...tx, transfer_account_id: counterLeg?.account_id ?? null }
+  })
+}
+
+/**
+ * Fetches transactions for the current user, optionally for a specific month and account
+ */
+export async function getRecentTransactions(limit: number = 50, monthDate?: Date, accountId?: string) {
   try {
     const { userId } = await auth()
 
@@ -117,13 +640,12 @@ export async function getRecentTransactions(limit: number = 50, monthDate?: Date
 
     let query = getServerSupabase()
       .from('transactions')
-      .select(`
-        *,
-        category:categories(*)
-      `)
+      .select(TRANSACTION_LIST_SELECT)
       .eq('user_id', userId)
+      .eq('is_sweep_transaction', false)
       .order('date', { ascending: false })
       .order('created_at', { ascending: false })
+      .order('sort_order', { referencedTable: 'transaction_splits', ascending: true })
       .limit(limit)
 
     // If monthDate is provided, filter to that month only
@@ -133,6 +655,14 @@ export async function getRecentTransactions(limit: number = 50, monthDate?: Date
       query = query.gte('date', startOfMonth).lte('date', endOfMonth)
     }
 
+    // If accountId is provided, only show that account's transactions
+    // Otherwise show each transfer once (its outgoing leg)
+    if (accountId) {
+      query = query.eq('account_id', accountId)
+    } else {
+      query = query.or('transfer_id.is.null,amount.lt.0')
+    }
+
     const { data, error } = await query
 
     if (error) {
@@ -140,13 +670,173 @@ export async function getRecentTransactions(limit: number = 50, monthDate?: Date
       throw new Error(`Failed to fetch transactions: ${error.message}`)
     }
 
-    return data || []
+    return attachTransferAccounts(userId, data || [])
   } catch (error) {
     console.error('Error in getRecentTransactions:', error)
     throw error
   }
 }
 
+const DEFAULT_SEARCH_LIMIT = 50
+
+interface SearchCursor {
+  date: string
+  created_at: string
+  id: string
+}
+
+function encodeSearchCursor(transaction: SearchCursor): string {
+  const { date, created_at, id } = transaction
+  return Buffer.from(JSON.stringify({ date, created_at, id })).toString('base64url')
+}
+
+function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    const valid =
+      /^\d{4}-\d{2}-\d{2}$/.test(value?.date) &&
+      /^[\d\-T:.+Z ]+$/.test(value?.created_at) &&
+      /^[0-9a-f-]{36}$/i.test(value?.id)
+    return valid ? value : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Searches the user's transactions with filters and cursor pagination
+ * The memo is searched word by word with prefix matching (full-text index);
+ * amount ranges compare the absolute amount. A category matches split
+ * transactions through their lines. Without an account filter each transfer
+ * shows once (its outgoing leg), like the month list.
+ *
+ * @returns One page, newest first, and the cursor of the next page
+ */
+export async function searchTransactions(
+  input: TransactionSearchInput
+): Promise<ApiResponse<TransactionSearchResult>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const filters = transactionSearchSchema.parse(input)
+    const limit = filters.limit || DEFAULT_SEARCH_LIMIT
+
+    let query = getServerSupabase()
+      .from('transactions')
+      .select(TRANSACTION_LIST_SELECT)
+      .eq('user_id', userId)
+      .eq('is_sweep_transaction', false)
+
+    const memoQuery = buildMemoSearchQuery(filters.query)
+    if (memoQuery) {
+      query = query.textSearch('memo_search', memoQuery, { config: 'simple' })
+    }
+
+    if (filters.type === 'income') {
+      query = query.is('transfer_id', null).gt('amount', 0)
+    } else if (filters.type === 'expense') {
+      query = query.is('transfer_id', null).lt('amount', 0)
+    } else if (filters.type === 'transfer') {
+      query = query.not('transfer_id', 'is', null)
+    }
+
+    if (filters.category_id === 'uncategorized') {
+      query = query.is('category_id', null).eq('is_split', false).is('transfer_id', null)
+    } else if (filters.category_id) {
+      // Split parents have no category; their lines do
+      const { data: lines, error: linesError } = await getServerSupabase()
+        .from('transaction_splits')
+        .select('transaction_id')
+        .eq('user_id', userId)
+        .eq('category_id', filters.category_id)
+
+      if (linesError) {
+        console.error('Error fetching split lines:', linesError)
+        return { success: false, error: 'Failed to search transactions' }
+      }
+
+      const splitIds = Array.from(new Set((lines || []).map((line) => line.transaction_id)))
+      query =
+        splitIds.length > 0
+          ? query.or(`category_id.eq.${filters.category_id},id.in.(${splitIds.join(',')})`)
+          : query.eq('category_id', filters.category_id)
+    }
+
+    if (filters.payee_id) {
+      query = query.eq('payee_id', filters.payee_id)
+    }
+
+    if (filters.account_id) {
+      query = query.eq('account_id', filters.account_id)
+    } else {
+      query = query.or('transfer_id.is.null,amount.lt.0')
+    }
+
+    if (filters.from) {
+      query = query.gte('date', filters.from)
+    }
+    if (filters.to) {
+      query = query.lte('date', filters.to)
+    }
+
+    // Absolute amounts: match incoming and outgoing money alike
+    const { min_amount: min, max_amount: max } = filters
+    if (min !== null && max !== null) {
+      query = query.or(`and(amount.gte.${min},amount.lte.${max}),and(amount.gte.-${max},amount.lte.-${min})`)
+    } else if (min !== null) {
+      query = query.or(`amount.gte.${min},amount.lte.-${min}`)
+    } else if (max !== null) {
+      query = query.gte('amount', `-${max}`).lte('amount', max)
+    }
+
+    if (filters.cursor) {
+      const cursor = decodeSearchCursor(filters.cursor)
+      if (!cursor) {
+        return { success: false, error: 'Invalid cursor' }
+      }
+      query = query.or(
+        `date.lt.${cursor.date},` +
+          `and(date.eq.${cursor.date},created_at.lt."${cursor.created_at}"),` +
+          `and(date.eq.${cursor.date},created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      )
+    }
+
+    // One extra row tells whether there is another page
+    const { data, error } = await query
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .order('sort_order', { referencedTable: 'transaction_splits', ascending: true })
+      .limit(limit + 1)
+
+    if (error) {
+      console.error('Error searching transactions:', error)
+      return { success: false, error: 'Failed to search transactions' }
+    }
+
+    const rows = data || []
+    const page = rows.slice(0, limit)
+    const transactions = await attachTransferAccounts(userId, page)
+
+    return {
+      success: true,
+      data: {
+        transactions: transactions as TransactionListItem[],
+        next_cursor: rows.length > limit ? encodeSearchCursor(page[page.length - 1]) : null,
+      },
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0].message }
+    }
+    console.error('Error in searchTransactions:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
 /**
  * Fetches all active categories for the current user
  */
@@ -178,6 +868,59 @@ export async function getCategories() {
   }
 }
 
+// Most recent categorised transactions the prediction model learns from
+const PREDICTION_TRAINING_LIMIT = 3000
+
+// Seconds a user's prediction model is reused before it is rebuilt; a few new
+// transactions barely move the predictions, so the dashboard does not need to
+// read the training history on every render
+const CATEGORY_MODEL_CACHE_SECONDS = 60 * 60
+
+const getCachedCategoryModel = unstable_cache(
+  async (userId: string): Promise<CategoryModel> => {
+    const samples = await fetchAllRows<TrainingSample>(
+      (from, to) =>
+        getServerSupabase()
+          .from('transactions')
+          .select('memo, category_id')
+          .eq('user_id', userId)
+          .not('category_id', 'is', null)
+          .not('memo', 'is', null)
+          .is('transfer_id', null)
+          .eq('is_sweep_transaction', false)
+          .eq('is_starting_balance', false)
+          .order('date', { ascending: false })
+          .order('id')
+          .range(from, to),
+      PREDICTION_TRAINING_LIMIT
+    )
+
+    return buildCategoryModel(samples)
+  },
+  ['category-model'],
+  { revalidate: CATEGORY_MODEL_CACHE_SECONDS }
+)
+
+/**
+ * Builds the category prediction model from the user's categorised history
+ * Transfers, sweeps and starting balances carry no spending category and are skipped
+ * The model is cached per user for CATEGORY_MODEL_CACHE_SECONDS
+ */
+export async function getCategoryModel(): Promise<CategoryModel> {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      throw new Error('Unauthorized')
+    }
+
+    return await getCachedCategoryModel(userId)
+  } catch (error) {
+    console.error('Error in getCategoryModel:', error)
+    throw error
+  }
+}
+
 /**
  * Calculates monthly statistics (income, expenses, balance) for a specific month
  * Reads from pre-aggregated monthly_summaries table (updated via triggers)
@@ -221,6 +964,8 @@ export async function getMonthlyStatistics(monthDate: Date = new Date()): Promis
         category:categories(type)
       `)
       .eq('user_id', userId)
+      .eq('is_sweep_transaction', false)
+      .is('transfer_id', null)
       .gte('date', startOfMonth)
       .lte('date', endOfMonth)
 
@@ -265,85 +1010,166 @@ export async function updateTransaction(
   transactionId: string,
   data: unknown
 ): Promise<ApiResponse<Transaction>> {
-  try {
-    const { userId } = await auth()
+  return withChangeLog('transaction.update', async () => {
+    try {
+      const { userId } = await auth()
+
+      if (!userId) {
+        return {
+          success: false,
+          error: 'Unauthorized. Please sign in to update transactions.',
+        }
+      }
 
-    if (!userId) {
-      return {
-        success: false,
-        error: 'Unauthorized. Please sign in to update transactions.',
+      const validationResult = insertTransactionSchema.safeParse(data)
+
+      if (!validationResult.success) {
+        const errorMessages = validationResult.error.issues
+          .map((err) => err.message)
+          .join(', ')
+
+        return {
+          success: false,
+          error: `Validation failed: ${errorMessages}`,
+        }
       }
-    }
 
-    const validationResult = insertTransactionSchema.safeParse(data)
+      const validatedData = validationResult.data
+      const splits = validatedData.splits || []
+      const isSplit = splits.length > 0
 
-    if (!validationResult.success) {
-      const errorMessages = validationResult.error.issues
-        .map((err) => err.message)
-        .join(', ')
+      // Remember the original date: moving a transaction affects both months
+      const { data: existing } = await getServerSupabase()
+        .from('transactions')
+        .select('date, is_reconciled, transfer_id, is_split')
+        .eq('id', transactionId)
+        .eq('user_id', userId)
+        .single()
 
-      return {
-        success: false,
-        error: `Validation failed: ${errorMessages}`,
+      if (existing?.is_reconciled) {
+        return { success: false, error: 'Reconciled transactions cannot be changed' }
       }
-    }
 
-    const validatedData = validationResult.data
+      if (existing?.transfer_id) {
+        return { success: false, error: 'Transfers cannot be changed. Delete and recreate the transfer instead.' }
+      }
 
-    let finalAmount = Math.abs(parseFloat(validatedData.amount))
+      // Keep the current account when the form does not send one
+      const account =
+        validatedData.account_id === undefined
+          ? undefined
+          : await resolveAccountId(userId, validatedData.account_id)
+      if (account && 'error' in account) {
+        return { success: false, error: account.error }
+      }
 
-    if (validatedData.category_id) {
-      const { data: category } = await getServerSupabase()
-        .from('categories')
-        .select('type')
-        .eq('id', validatedData.category_id)
-        .single()
+      if (isSplit) {
+        const splitError = await checkSplitCategories(userId, splits)
+        if (splitError) {
+          return { success: false, error: splitError.error }
+        }
+      }
 
-      // Handle both 'INCOME' (new ZBB) and 'income' (legacy) types
-      if (category?.type?.toUpperCase() !== 'INCOME') {
-        finalAmount = -finalAmount
+      // Keep the current payee when the form does not send one; empty unlinks it
+      if (validatedData.payee_id) {
+        const { data: payee } = await getServerSupabase()
+          .from('payees')
+          .select('id')
+          .eq('id', validatedData.payee_id)
+          .eq('user_id', userId)
+          .single()
+
+        if (!payee) {
+          return { success: false, error: 'Payee not found' }
+        }
       }
-    } else {
-      const amountStr = validatedData.amount.toString()
-      if (!amountStr.startsWith('+')) {
+
+      let finalAmount = Math.abs(parseFloat(validatedData.amount))
+
+      if (isSplit) {
+        // Splits are expense-only
         finalAmount = -finalAmount
+      } else if (validatedData.category_id) {
+        const category = await getAssignableCategory(userId, validatedData.category_id)
+        if ('error' in category) {
+          return { success: false, error: category.error }
+        }
+
+        if (category.type !== 'INCOME') {
+          finalAmount = -finalAmount
+        }
+      } else {
+        const amountStr = validatedData.amount.toString()
+        if (!amountStr.startsWith('+')) {
+          finalAmount = -finalAmount
+        }
       }
-    }
 
-    const { data: transaction, error: updateError } = await getServerSupabase()
-      .from('transactions')
-      .update({
-        category_id: validatedData.category_id || null,
+      const values = {
+        category_id: isSplit ? null : validatedData.category_id || null,
         amount: finalAmount.toString(),
         date: validatedData.date && /^\d{4}-\d{2}-\d{2}$/.test(validatedData.date) ? validatedData.date : format(new Date(), 'yyyy-MM-dd'),
         memo: validatedData.memo || null,
-      })
-      .eq('id', transactionId)
-      .eq('user_id', userId)
-      .select()
-      .single()
+      }
 
-    if (updateError) {
-      console.error('Supabase update error:', updateError)
-      return {
-        success: false,
-        error: `Failed to update transaction: ${updateError.message}`,
+      // Parent and lines (or dropping them when the split was removed) in one database transaction
+      const { data: transaction, error: updateError } =
+        isSplit || existing?.is_split
+          ? await getServerSupabase().rpc('update_split_transaction', {
+              p_user_id: userId,
+              p_transaction_id: transactionId,
+              p_account_id: account ? account.id : null,
+              p_category_id: values.category_id,
+              p_amount: values.amount,
+              p_date: values.date,
+              p_memo: values.memo,
+              p_set_payee: validatedData.payee_id !== undefined,
+              p_payee_id: validatedData.payee_id || null,
+              p_splits: splits.map((split) => ({
+                category_id: split.category_id,
+                amount: (-parseFloat(split.amount)).toFixed(2),
+                memo: split.memo,
+              })),
+            })
+          : await getServerSupabase()
+              .from('transactions')
+              .update({
+                ...values,
+                ...(account && { account_id: account.id }),
+                is_split: false,
+                ...(validatedData.payee_id !== undefined && { payee_id: validatedData.payee_id || null }),
+              })
+              .eq('id', transactionId)
+              .eq('user_id', userId)
+              .select()
+              .single()
+
+      if (updateError) {
+        console.error('Supabase update error:', updateError)
+        return {
+          success: false,
+          error: `Failed to update transaction: ${updateError.message}`,
+        }
       }
-    }
 
-    revalidatePath('/')
+      const affectedMonths = [transaction.date.slice(0, 7)]
+      if (existing) affectedMonths.push(existing.date.slice(0, 7))
+      await recloseMonthsFrom(affectedMonths.sort()[0])
 
-    return {
-      success: true,
-      data: transaction as Transaction,
-    }
-  } catch (error) {
-    console.error('Unexpected error in updateTransaction:', error)
-    return {
-      success: false,
-      error: 'An unexpected error occurred. Please try again.',
+      revalidatePath('/')
+
+      return {
+        success: true,
+        data: transaction as Transaction,
+      }
+    } catch (error) {
+      console.error('Unexpected error in updateTransaction:', error)
+      return {
+        success: false,
+        error: 'An unexpected error occurred. Please try again.',
+      }
     }
-  }
+  })
 }
 
 /**
@@ -352,43 +1178,304 @@ export async function updateTransaction(
 export async function deleteTransaction(
   transactionId: string
 ): Promise<ApiResponse<null>> {
-  try {
-    const { userId } = await auth()
+  return withChangeLog('transaction.delete', async () => {
+    try {
+      const { userId } = await auth()
+
+      if (!userId) {
+        return {
+          success: false,
+          error: 'Unauthorized. Please sign in to delete transactions.',
+        }
+      }
 
-    if (!userId) {
+      const { data: existing } = await getServerSupabase()
+        .from('transactions')
+        .select('is_reconciled, transfer_id')
+        .eq('id', transactionId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (existing?.is_reconciled) {
+        return { success: false, error: 'Reconciled transactions cannot be deleted' }
+      }
+
+      // Deleting one leg of a transfer deletes the whole transfer
+      if (existing?.transfer_id) {
+        const { data: legs } = await getServerSupabase()
+          .from('transactions')
+          .select('is_reconciled')
+          .eq('transfer_id', existing.transfer_id)
+          .eq('user_id', userId)
+
+        if ((legs || []).some((leg) => leg.is_reconciled)) {
+          return { success: false, error: 'Reconciled transactions cannot be deleted' }
+        }
+
+        const { data: deletedLegs, error: deleteError } = await getServerSupabase()
+          .from('transactions')
+          .delete()
+          .eq('transfer_id', existing.transfer_id)
+          .eq('user_id', userId)
+          .select('date')
+
+        if (deleteError) {
+          console.error('Supabase delete error:', deleteError)
+          return {
+            success: false,
+            error: `Failed to delete transfer: ${deleteError.message}`,
+          }
+        }
+
+        if (deletedLegs && deletedLegs.length > 0) {
+          await recloseMonthsFrom(deletedLegs.map((leg) => leg.date.slice(0, 7)).sort()[0])
+        }
+
+        revalidatePath('/')
+
+        return {
+          success: true,
+          data: null,
+        }
+      }
+
+      const { data: deleted, error: deleteError } = await getServerSupabase()
+        .from('transactions')
+        .delete()
+        .eq('id', transactionId)
+        .eq('user_id', userId)
+        .select('date')
+        .maybeSingle()
+
+      if (deleteError) {
+        console.error('Supabase delete error:', deleteError)
+        return {
+          success: false,
+          error: `Failed to delete transaction: ${deleteError.message}`,
+        }
+      }
+
+      if (deleted) {
+        await recloseMonthsFrom(deleted.date.slice(0, 7))
+      }
+
+      revalidatePath('/')
+
+      return {
+        success: true,
+        data: null,
+      }
+    } catch (error) {
+      console.error('Unexpected error in deleteTransaction:', error)
       return {
         success: false,
-        error: 'Unauthorized. Please sign in to delete transactions.',
+        error: 'An unexpected error occurred. Please try again.',
       }
     }
+  })
+}
 
-    const { error: deleteError } = await getServerSupabase()
+interface BulkRow {
+  id: string
+  date: string
+  is_reconciled: boolean
+  transfer_id: string | null
+  is_split: boolean
+}
+
+/**
+ * The selected transactions of the user, keyed by id
+ */
+async function getBulkRows(userId: string, ids: string[]): Promise<Map<string, BulkRow>> {
+  const rows = new Map<string, BulkRow>()
+
+  for (let i = 0; i < ids.length; i += IN_FILTER_CHUNK_SIZE) {
+    const { data, error } = await getServerSupabase()
       .from('transactions')
-      .delete()
-      .eq('id', transactionId)
+      .select('id, date, is_reconciled, transfer_id, is_split')
       .eq('user_id', userId)
+      .in('id', ids.slice(i, i + IN_FILTER_CHUNK_SIZE))
 
-    if (deleteError) {
-      console.error('Supabase delete error:', deleteError)
-      return {
-        success: false,
-        error: `Failed to delete transaction: ${deleteError.message}`,
-      }
+    if (error) {
+      console.error('Error fetching transactions:', error)
+      throw new Error('Failed to fetch transactions')
     }
 
-    revalidatePath('/')
+    for (const row of data || []) rows.set(row.id, row as BulkRow)
+  }
 
-    return {
-      success: true,
-      data: null,
+  return rows
+}
+
+/**
+ * Re-close closed months from the earliest of the given dates on
+ */
+async function recloseFromEarliest(dates: string[]) {
+  if (dates.length === 0) return
+  await recloseMonthsFrom(dates.map((date) => date.slice(0, 7)).sort()[0])
+}
+
+/**
+ * Changes category, date and/or memo of several transactions at once
+ * Rows that cannot be changed (reconciled, transfers, or splits when the
+ * category changes) are reported in `failed`; all others are updated in one
+ * database transaction, so a batch never ends up half applied
+ */
+export async function bulkUpdateTransactions(data: unknown): Promise<ApiResponse<BulkUpdateResult>> {
+  return withChangeLog('transaction.bulkUpdate', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const validated = bulkUpdateTransactionsSchema.parse(data)
+      const setCategory = validated.category_id !== undefined
+
+      if (validated.category_id) {
+        const category = await getAssignableCategory(userId, validated.category_id)
+        if ('error' in category) {
+          return { success: false, error: category.error }
+        }
+      }
+
+      const rows = await getBulkRows(userId, validated.ids)
+      const failed: BulkTransactionFailure[] = []
+      const eligible: BulkRow[] = []
+
+      for (const id of validated.ids) {
+        const row = rows.get(id)
+        if (!row) {
+          failed.push({ id, error: 'Transaction not found' })
+        } else if (row.is_reconciled) {
+          failed.push({ id, error: 'Reconciled transactions cannot be changed' })
+        } else if (row.transfer_id) {
+          failed.push({ id, error: 'Transfers cannot be changed. Delete and recreate the transfer instead.' })
+        } else if (setCategory && row.is_split) {
+          failed.push({ id, error: 'Split transactions keep their categories on the split lines' })
+        } else {
+          eligible.push(row)
+        }
+      }
+
+      if (eligible.length === 0) {
+        return { success: true, data: { transactions: [], failed } }
+      }
+
+      const { data: updated, error } = await getServerSupabase().rpc('bulk_update_transactions', {
+        p_user_id: userId,
+        p_ids: eligible.map((row) => row.id),
+        p_set_category: setCategory,
+        p_category_id: validated.category_id ?? null,
+        p_shift_days: validated.shift_days || 0,
+        p_memo_suffix: validated.memo_suffix || null,
+      })
+
+      if (error) {
+        console.error('Supabase bulk update error:', error)
+        return { success: false, error: `Failed to update transactions: ${error.message}` }
+      }
+
+      const transactions = (updated || []) as Transaction[]
+      await recloseFromEarliest([...eligible.map((row) => row.date), ...transactions.map((t) => t.date)])
+
+      revalidatePath('/')
+
+      return { success: true, data: { transactions, failed } }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in bulkUpdateTransactions:', error)
+      return { success: false, error: 'An unexpected error occurred' }
     }
-  } catch (error) {
-    console.error('Unexpected error in deleteTransaction:', error)
-    return {
-      success: false,
-      error: 'An unexpected error occurred. Please try again.',
+  })
+}
+
+/**
+ * Deletes several transactions at once
+ * Transfers are deleted with both legs. Reconciled rows are reported in
+ * `failed`; all others are deleted in one database transaction
+ */
+export async function bulkDeleteTransactions(data: unknown): Promise<ApiResponse<BulkDeleteResult>> {
+  return withChangeLog('transaction.bulkDelete', async () => {
+    try {
+      const { userId } = await auth()
+      if (!userId) {
+        return { success: false, error: 'Unauthorized' }
+      }
+
+      const { ids } = bulkDeleteTransactionsSchema.parse(data)
+      const rows = await getBulkRows(userId, ids)
+
+      // A transfer can only go when neither leg is reconciled
+      const transferIds = Array.from(
+        new Set(Array.from(rows.values()).flatMap((row) => (row.transfer_id ? [row.transfer_id] : [])))
+      )
+      const lockedTransfers = new Set<string>()
+      for (let i = 0; i < transferIds.length; i += IN_FILTER_CHUNK_SIZE) {
+        const { data: legs, error } = await getServerSupabase()
+          .from('transactions')
+          .select('transfer_id')
+          .eq('user_id', userId)
+          .eq('is_reconciled', true)
+          .in('transfer_id', transferIds.slice(i, i + IN_FILTER_CHUNK_SIZE))
+
+        if (error) {
+          console.error('Error fetching transfer legs:', error)
+          return { success: false, error: 'Failed to fetch transfers' }
+        }
+
+        for (const leg of legs || []) lockedTransfers.add(leg.transfer_id)
+      }
+
+      const failed: BulkTransactionFailure[] = []
+      const eligible: BulkRow[] = []
+
+      for (const id of ids) {
+        const row = rows.get(id)
+        if (!row) {
+          failed.push({ id, error: 'Transaction not found' })
+        } else if (row.is_reconciled || (row.transfer_id && lockedTransfers.has(row.transfer_id))) {
+          failed.push({ id, error: 'Reconciled transactions cannot be deleted' })
+        } else {
+          eligible.push(row)
+        }
+      }
+
+      if (eligible.length === 0) {
+        return { success: true, data: { deleted_ids: [], failed } }
+      }
+
+      const { data: deleted, error } = await getServerSupabase().rpc('bulk_delete_transactions', {
+        p_user_id: userId,
+        p_ids: eligible.map((row) => row.id),
+      })
+
+      if (error) {
+        console.error('Supabase bulk delete error:', error)
+        return { success: false, error: `Failed to delete transactions: ${error.message}` }
+      }
+
+      await recloseFromEarliest(eligible.map((row) => row.date))
+
+      revalidatePath('/')
+
+      return {
+        success: true,
+        data: {
+          deleted_ids: ((deleted || []) as { deleted_id: string }[]).map((row) => row.deleted_id),
+          failed,
+        },
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { success: false, error: error.issues[0].message }
+      }
+      console.error('Error in bulkDeleteTransactions:', error)
+      return { success: false, error: 'An unexpected error occurred' }
     }
-  }
+  })
 }
 
 /**
@@ -420,12 +1507,13 @@ export async function getBillsChecklist(monthDate: Date = new Date()): Promise<B
   const bills: BillItem[] = []
 
   for (const category of categories || []) {
-    // Check if there's a transaction this month for this category
+    // Check if there's a transaction (or split line) this month for this category
     const { data: transactions } = await getServerSupabase()
-      .from('transactions')
+      .from('transaction_lines')
       .select('id')
       .eq('user_id', userId)
       .eq('category_id', category.id)
+      .eq('is_sweep_transaction', false)
       .gte('date', startOfMonth)
       .lte('date', endOfMonth)
       .limit(1)
@@ -449,6 +1537,7 @@ export async function getBillsChecklist(monthDate: Date = new Date()): Promise<B
  *
  * Saved balance calculation:
  * - Sum only assigned_amount from all months (NOT start_balance, which already contains carryover)
+ * - Add sweep transfers received from SWEEP categories
  * - Subtract total spent (negative transactions)
  */
 export async function getSinkingFunds(): Promise<SinkingFundItem[]> {
@@ -488,8 +1577,8 @@ export async function getSinkingFunds(): Promise<SinkingFundItem[]> {
 
     // Calculate total spent (all time) - expenses are negative amounts
     const { data: transactions } = await getServerSupabase()
-      .from('transactions')
-      .select('amount')
+      .from('transaction_lines')
+      .select('amount, is_sweep_transaction')
       .eq('user_id', userId)
       .eq('category_id', category.id)
 
@@ -499,8 +1588,14 @@ export async function getSinkingFunds(): Promise<SinkingFundItem[]> {
       return amount < 0 ? sum + Math.abs(amount) : sum
     }, 0)
 
-    // Saved balance = what was assigned minus what was spent
-    const savedBalance = Math.max(0, totalAssigned - totalSpent)
+    // Leftovers swept in from SWEEP categories at month close
+    const totalSwept = (transactions || []).reduce((sum, tx) => {
+      const amount = parseFloat(tx.amount)
+      return tx.is_sweep_transaction && amount > 0 ? sum + amount : sum
+    }, 0)
+
+    // Saved balance = what was assigned (or swept in) minus what was spent
+    const savedBalance = Math.max(0, totalAssigned + totalSwept - totalSpent)
 
     const targetAmount = parseFloat(category.target_amount || '0')
     const progressPercentage = targetAmount > 0
@@ -539,6 +1634,8 @@ export async function getSafeToSpend(monthDate: Date = new Date()): Promise<Safe
     .from('transactions')
     .select('amount, category:categories!inner(type)')
     .eq('user_id', userId)
+    .eq('is_sweep_transaction', false)
+    .is('transfer_id', null)
     .gte('date', startOfMonth)
     .lte('date', endOfMonth)
 
@@ -574,42 +1671,44 @@ export async function getSafeToSpend(monthDate: Date = new Date()): Promise<Safe
  * Mark a bill as paid by creating a transaction
  */
 export async function markBillPaid(categoryId: string): Promise<ApiResponse<Transaction>> {
-  const { userId } = await auth()
-  if (!userId) {
-    return { success: false, error: 'Unauthorized' }
-  }
+  return withChangeLog('transaction.markPaid', async () => {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
 
-  // Get category details
-  const { data: category, error: categoryError } = await getServerSupabase()
-    .from('categories')
-    .select('id, target_amount, name')
-    .eq('id', categoryId)
-    .eq('user_id', userId)
-    .single()
+    // Get category details
+    const { data: category, error: categoryError } = await getServerSupabase()
+      .from('categories')
+      .select('id, target_amount, name')
+      .eq('id', categoryId)
+      .eq('user_id', userId)
+      .single()
 
-  if (categoryError || !category) {
-    return { success: false, error: 'Category not found' }
-  }
+    if (categoryError || !category) {
+      return { success: false, error: 'Category not found' }
+    }
 
-  // Create transaction (negative amount for expense)
-  const amount = -Math.abs(parseFloat(category.target_amount || '0'))
+    // Create transaction (negative amount for expense)
+    const amount = -Math.abs(parseFloat(category.target_amount || '0'))
 
-  const { data: transaction, error: txError } = await getServerSupabase()
-    .from('transactions')
-    .insert({
-      user_id: userId,
-      category_id: category.id,
-      amount: amount.toString(),
-      date: format(new Date(), 'yyyy-MM-dd'),
-      memo: `Bill payment: ${category.name}`,
-    })
-    .select()
-    .single()
+    const { data: transaction, error: txError } = await getServerSupabase()
+      .from('transactions')
+      .insert({
+        user_id: userId,
+        category_id: category.id,
+        amount: amount.toString(),
+        date: format(new Date(), 'yyyy-MM-dd'),
+        memo: `Bill payment: ${category.name}`,
+      })
+      .select()
+      .single()
 
-  if (txError) {
-    return { success: false, error: 'Failed to create transaction' }
-  }
+    if (txError) {
+      return { success: false, error: 'Failed to create transaction' }
+    }
 
-  revalidatePath('/')
-  return { success: true, data: transaction as Transaction }
+    revalidatePath('/')
+    return { success: true, data: transaction as Transaction }
+  })
 }
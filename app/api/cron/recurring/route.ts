@@ -0,0 +1,57 @@
+import { headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { generateDueOccurrences } from '@/lib/recurring-generator'
+import { closeUserElapsedMonths, recloseUserMonthsFrom } from '@/lib/month-close'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+
+/**
+ * Recurring Transactions Cron Job
+ * Creates all due occurrences of every user's recurring transactions, then
+ * closes every user's elapsed months so SWEEP leftovers reach their targets
+ *
+ * Security: Requires `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron)
+ * Idempotency: Occurrences are unique per schedule and date, so re-runs are safe
+ * Occurrences in an already closed month (catch-up runs) re-close it and the
+ * months after it. Occurrences are generated first so a month is never closed
+ * without them
+ */
+export async function GET() {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured')
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 500 })
+  }
+
+  const headersList = await headers()
+  if (headersList.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const earliestByUser = await generateDueOccurrences(today)
+
+    for (const [userId, earliest] of Object.entries(earliestByUser)) {
+      const result = await recloseUserMonthsFrom(userId, earliest.slice(0, 7))
+      if (!result.success) {
+        console.error(`Failed to re-close months of user ${userId}:`, result.error)
+      }
+    }
+
+    const profiles = await fetchAllRows<{ user_id: string }>((from, to) =>
+      getServerSupabase().from('profiles').select('user_id').order('user_id').range(from, to)
+    )
+    for (const { user_id: userId } of profiles) {
+      const result = await closeUserElapsedMonths(userId)
+      if (!result.success) {
+        console.error(`Failed to close elapsed months of user ${userId}:`, result.error)
+      }
+    }
+
+    return NextResponse.json({ users: Object.keys(earliestByUser).length })
+  } catch (error) {
+    console.error('Recurring cron error:', error)
+    return NextResponse.json({ error: 'Failed to generate recurring transactions' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { ArrowRight, History } from 'lucide-react'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency } from '@/lib/currency'
+import type { BudgetMove, Category } from '@/lib/types'
+
+interface BudgetMoveHistoryProps {
+  moves: BudgetMove[]
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+export function BudgetMoveHistory({ moves, categories, currency, locale }: BudgetMoveHistoryProps) {
+  const t = useTranslations()
+  const dateLocale = locale === 'de-DE' ? de : enUS
+
+  const categoryName = (categoryId: string | null) => {
+    const category = categories.find((c) => c.id === categoryId)
+    return category ? getCategoryDisplayName(category, t) : t('budget.moveMoney.deletedCategory')
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-xs text-zinc-500 hover:text-zinc-900">
+          <History className="w-3.5 h-3.5 mr-1" />
+          {t('budget.moveMoney.history', { count: moves.length })}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('budget.moveMoney.historyTitle')}</DialogTitle>
+        </DialogHeader>
+        {moves.length === 0 ? (
+          <p className="text-sm text-zinc-500">{t('budget.moveMoney.historyEmpty')}</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto divide-y divide-zinc-100">
+            {moves.map((move) => (
+              <div key={move.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1 text-sm text-zinc-900">
+                    <span className="truncate">{categoryName(move.from_category_id)}</span>
+                    <ArrowRight className="w-3 h-3 flex-shrink-0 text-zinc-400" />
+                    <span className="truncate">{categoryName(move.to_category_id)}</span>
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {format(new Date(move.created_at), 'PPp', { locale: dateLocale })}
+                  </div>
+                </div>
+                <span className="text-sm font-medium tabular-nums text-zinc-700">
+                  {formatCurrency(parseFloat(move.amount), currency, '', locale)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,29 +8,47 @@ import { Button } from '@/components/ui/button'
 import { getCategoryIcon } from '@/lib/icon-mapper'
 import { getCategoryDisplayName } from '@/lib/i18n-helpers'
 import { formatCurrency } from '@/lib/currency'
-import { assignBudget } from '@/app/actions/budgets'
+import { assignBudget, moveBudget } from '@/app/actions/budgets'
+import { MoveMoneyDialog } from '@/components/dashboard/move-money-dialog'
+import { BudgetMoveHistory } from '@/components/dashboard/budget-move-history'
 import { toast } from 'sonner'
-import { Sparkles, Calendar } from 'lucide-react'
+import { Sparkles, Calendar, ArrowRightLeft } from 'lucide-react'
 import { format } from 'date-fns'
 import { de, enUS } from 'date-fns/locale'
-import type { MonthlyBudgetWithActivity, ZBBCategoryType } from '@/lib/types'
+import type { BudgetMove, MonthlyBudgetWithActivity, ZBBCategoryType } from '@/lib/types'
 
 interface BudgetTableProps {
   budgets: MonthlyBudgetWithActivity[]
+  moves?: BudgetMove[] // history of money moved between categories this month
   suggestedAmounts?: Record<string, string> // category_id -> suggested amount
   currency: string
   locale: string
   month: string // YYYY-MM-DD
 }
 
-export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale, month }: BudgetTableProps) {
+export function BudgetTable({ budgets, moves = [], suggestedAmounts = {}, currency, locale, month }: BudgetTableProps) {
   const t = useTranslations()
   const [isPending, startTransition] = useTransition()
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editValue, setEditValue] = useState('')
+  const [moveTarget, setMoveTarget] = useState<MonthlyBudgetWithActivity | null>(null)
 
   type BudgetAction =
     | { type: 'update'; categoryId: string; assigned_amount: string }
+    | { type: 'move'; fromCategoryId: string; toCategoryId: string; amount: string }
+
+  // Recompute available after assigned_amount changed
+  const withAssigned = (b: MonthlyBudgetWithActivity, newAssigned: number): MonthlyBudgetWithActivity => {
+    const startBalance = parseFloat(b.start_balance)
+    const activity = parseFloat(b.activity)
+    const swept = parseFloat(b.swept)
+    const newAvailable = startBalance + newAssigned + activity + swept
+    return {
+      ...b,
+      assigned_amount: newAssigned.toFixed(2),
+      available: newAvailable.toFixed(2),
+    }
+  }
 
   const [optimisticBudgets, updateOptimisticBudgets] = useOptimistic(
     budgets,
@@ -38,15 +56,19 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
       if (action.type === 'update') {
         return state.map((b) => {
           if (b.category_id === action.categoryId) {
-            const newAssigned = parseFloat(action.assigned_amount)
-            const startBalance = parseFloat(b.start_balance)
-            const activity = parseFloat(b.activity)
-            const newAvailable = startBalance + newAssigned + activity
-            return {
-              ...b,
-              assigned_amount: newAssigned.toFixed(2),
-              available: newAvailable.toFixed(2),
-            }
+            return withAssigned(b, parseFloat(action.assigned_amount))
+          }
+          return b
+        })
+      }
+      if (action.type === 'move') {
+        const amount = parseFloat(action.amount)
+        return state.map((b) => {
+          if (b.category_id === action.fromCategoryId) {
+            return withAssigned(b, parseFloat(b.assigned_amount) - amount)
+          }
+          if (b.category_id === action.toCategoryId) {
+            return withAssigned(b, parseFloat(b.assigned_amount) + amount)
           }
           return b
         })
@@ -62,6 +84,7 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
     VARIABLE: [],
     SF1: [],
     SF2: [],
+    CREDIT_CARD: [],
   }
 
   for (const budget of optimisticBudgets) {
@@ -143,6 +166,23 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
     })
   }
 
+  const handleMoveConfirm = (fromCategoryId: string, amount: string) => {
+    if (!moveTarget) return
+    const toCategoryId = moveTarget.category_id
+
+    startTransition(async () => {
+      // Optimistic update
+      updateOptimisticBudgets({ type: 'move', fromCategoryId, toCategoryId, amount })
+
+      const result = await moveBudget(fromCategoryId, toCategoryId, month, amount)
+      if (result.success) {
+        toast.success(t('budget.moveMoney.success'))
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
   // Render row for Sinking Fund categories (SF1/SF2) with simplified columns
   const renderSinkingFundRow = (budget: MonthlyBudgetWithActivity) => {
     const { category } = budget
@@ -306,6 +346,7 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
     const assigned = parseFloat(budget.assigned_amount)
     const activity = parseFloat(budget.activity)
     const available = parseFloat(budget.available)
+    const swept = parseFloat(budget.swept)
     const isOverspent = available < 0
     const isEditing = editingId === budget.category_id
     const isSinkingFund = category.type === 'SF1' || category.type === 'SF2'
@@ -398,6 +439,18 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
 
         {/* Available / Total Saved for SF */}
         <div className="w-24 text-right">
+          {isOverspent && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setMoveTarget(budget)}
+              disabled={isPending}
+              className="h-6 w-6 p-0 mr-1 text-red-500 hover:text-red-600 hover:bg-red-50"
+              title={t('budget.moveMoney.cover')}
+            >
+              <ArrowRightLeft className="w-3.5 h-3.5" />
+            </Button>
+          )}
           <span
             className={`text-sm font-semibold tabular-nums ${
               isOverspent ? 'text-red-600' : available > 0 ? (isSinkingFund ? 'text-blue-600' : 'text-emerald-600') : 'text-zinc-500'
@@ -405,6 +458,14 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
           >
             {formatCurrency(Math.abs(available), currency, isOverspent ? '-' : '', locale)}
           </span>
+          {/* Month-close sweep transfers (SWEEP out, SF1/SF2 in) */}
+          {swept !== 0 && (
+            <div className="text-[10px] text-zinc-400 tabular-nums">
+              {swept < 0
+                ? t('budget.sweptOut', { amount: formatCurrency(Math.abs(swept), currency, '', locale) })
+                : t('budget.sweptIn', { amount: formatCurrency(swept, currency, '', locale) })}
+            </div>
+          )}
         </div>
       </div>
     )
@@ -461,6 +522,18 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
 
   return (
     <div className="space-y-2">
+      {/* Move history for this month */}
+      {moves.length > 0 && (
+        <div className="flex justify-end">
+          <BudgetMoveHistory
+            moves={moves}
+            categories={budgets.map((b) => b.category)}
+            currency={currency}
+            locale={locale}
+          />
+        </div>
+      )}
+
       {/* Column Headers */}
       <div className="flex items-center gap-3 py-2 px-3 text-xs text-zinc-500 font-medium">
         <div className="w-8 flex-shrink-0" />
@@ -472,10 +545,23 @@ export function BudgetTable({ budgets, suggestedAmounts = {}, currency, locale,
       </div>
 
       {/* Budget Groups */}
+      {renderGroup(t('budget.zbbTypes.CREDIT_CARD'), groupedBudgets.CREDIT_CARD, 'CREDIT_CARD')}
       {renderGroup(t('budget.zbbTypes.FIX'), groupedBudgets.FIX, 'FIX')}
       {renderGroup(t('budget.zbbTypes.VARIABLE'), groupedBudgets.VARIABLE, 'VARIABLE')}
       {renderSinkingFundGroup(t('budget.zbbTypes.SF1'), groupedBudgets.SF1, 'SF1')}
       {renderSinkingFundGroup(t('budget.zbbTypes.SF2'), groupedBudgets.SF2, 'SF2')}
+
+      {moveTarget && (
+        <MoveMoneyDialog
+          open={!!moveTarget}
+          onOpenChange={(open) => !open && setMoveTarget(null)}
+          target={moveTarget}
+          budgets={optimisticBudgets}
+          currency={currency}
+          locale={locale}
+          onConfirm={handleMoveConfirm}
+        />
+      )}
     </div>
   )
 }
@@ -1,17 +1,31 @@
 'use client'
 
 import { useState, useOptimistic, useTransition } from 'react'
-import { useRouter, usePathname } from 'next/navigation'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
 import { SummaryCards } from '@/components/dashboard/summary-cards'
 import { TransactionList } from '@/components/dashboard/transaction-list'
+import { TransactionSearchResults } from '@/components/dashboard/transaction-search-results'
 import { BillsChecklist } from '@/components/dashboard/bills-checklist'
 import { SinkingFundsProgress } from '@/components/dashboard/sinking-funds-progress'
 import { BudgetTable } from '@/components/dashboard/budget-table'
+import { UpcomingTransactions } from '@/components/dashboard/upcoming-transactions'
+import { ResolveOverspendingDialog } from '@/components/dashboard/resolve-overspending-dialog'
+import { ShortfallWarning } from '@/components/forecast/shortfall-warning'
 import { QuickAddDialog } from '@/components/transactions/quick-add-dialog'
 import { InlineQuickAdd } from '@/components/transactions/inline-quick-add'
+import { TransferDialog } from '@/components/transactions/transfer-dialog'
+import { ImportDialog } from '@/components/transactions/import-dialog'
+import { TransactionFilterBar } from '@/components/transactions/transaction-filter-bar'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { useTranslations } from 'next-intl'
 import { ChevronLeft, ChevronRight, Calendar, Play, Wallet } from 'lucide-react'
 import { format, addMonths, subMonths, startOfMonth } from 'date-fns'
@@ -19,7 +33,9 @@ import { de, enUS } from 'date-fns/locale'
 import { initializeMonth } from '@/app/actions/budgets'
 import { formatCurrency } from '@/lib/currency'
 import { toast } from 'sonner'
-import type { MonthlyStatistics, BillItem, SinkingFundItem, MonthlyBudgetWithActivity, BudgetSummary } from '@/lib/types'
+import type { CategoryModel } from '@/lib/category-prediction'
+import { parseTransactionFilters } from '@/lib/transaction-filters'
+import type { MonthlyStatistics, BillItem, SinkingFundItem, MonthlyBudgetWithActivity, BudgetSummary, BudgetMove, AccountWithBalance, UpcomingTransaction, Payee, TransactionSearchResult, ForecastMonth } from '@/lib/types'
 
 interface Transaction {
   id: string
@@ -27,6 +43,12 @@ interface Transaction {
   date: string
   memo: string | null
   category_id: string | null
+  account_id?: string | null
+  is_reconciled?: boolean
+  transfer_id?: string | null
+  transfer_account_id?: string | null
+  is_split?: boolean
+  splits?: { id?: string; category_id: string; amount: string; memo: string | null }[]
   category?: {
     id: string
     name: string | null
@@ -43,8 +65,16 @@ interface DashboardContentProps {
   initialSinkingFunds: SinkingFundItem[]
   initialBudgets: MonthlyBudgetWithActivity[]
   initialBudgetSummary: BudgetSummary
+  budgetMoves?: BudgetMove[]
   suggestedAmounts?: Record<string, string>
   categories: any[]
+  accounts?: AccountWithBalance[]
+  upcomingTransactions?: UpcomingTransaction[]
+  shortfalls?: ForecastMonth[] // forecast months with planned expenses above expected income
+  categoryModel?: CategoryModel // learned from the user's history for category suggestions
+  payees?: Payee[] // autocomplete and defaults in quick-add
+  searchResult?: TransactionSearchResult | null // first page when the URL has transaction filters
+  selectedAccountId?: string // account filter for the transaction list
   currency: string
   locale: string
   currentMonth: string // ISO string
@@ -62,8 +92,16 @@ export function DashboardContent({
   initialSinkingFunds,
   initialBudgets,
   initialBudgetSummary,
+  budgetMoves,
   suggestedAmounts,
   categories,
+  accounts = [],
+  upcomingTransactions = [],
+  shortfalls = [],
+  categoryModel,
+  payees = [],
+  searchResult = null,
+  selectedAccountId,
   currency,
   locale,
   currentMonth,
@@ -71,14 +109,19 @@ export function DashboardContent({
   const t = useTranslations()
   const router = useRouter()
   const pathname = usePathname()
+  const searchParams = useSearchParams()
   const [isPending, startTransition] = useTransition()
   const [activeTab, setActiveTab] = useState<string>('overview')
+  const filters = parseTransactionFilters(Object.fromEntries(searchParams.entries()))
 
   const monthDate = new Date(currentMonth)
   const dateLocale = locale === 'de-DE' ? de : enUS
   const monthLabel = format(monthDate, 'MMMM yyyy', { locale: dateLocale })
   const monthIso = format(monthDate, 'yyyy-MM')
 
+  // Card payments are transfers to the card account, never a categorized expense
+  const transactionCategories = categories.filter((c) => c.type !== 'CREDIT_CARD')
+
   // Budget summary values
   const toBeBudgeted = parseFloat(initialBudgetSummary.toBeBudgeted)
   const isOverBudgeted = toBeBudgeted < 0
@@ -109,6 +152,9 @@ export function DashboardContent({
     let totalExpenses = 0
 
     transactions.forEach((transaction) => {
+      // Transfers only move money between accounts
+      if (transaction.transfer_id) return
+
       const transactionDate = new Date(transaction.date)
       if (transactionDate >= monthStart && transactionDate <= monthEnd) {
         const amount = Math.abs(parseFloat(transaction.amount))
@@ -147,10 +193,23 @@ export function DashboardContent({
     updateOptimisticTransactions({ type: 'delete', id })
   }
 
+  // Update URL params while keeping the others (month, account)
+  const updateSearchParams = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        params.set(key, value)
+      } else {
+        params.delete(key)
+      }
+    }
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname)
+  }
+
   // Month navigation handlers
   const navigateToMonth = (newMonth: Date) => {
-    const monthParam = format(newMonth, 'yyyy-MM')
-    router.push(`${pathname}?month=${monthParam}`)
+    updateSearchParams({ month: format(newMonth, 'yyyy-MM') })
   }
 
   const handlePrevMonth = () => {
@@ -162,7 +221,11 @@ export function DashboardContent({
   }
 
   const handleToday = () => {
-    router.push(pathname)
+    updateSearchParams({ month: null })
+  }
+
+  const handleAccountFilterChange = (value: string) => {
+    updateSearchParams({ account: value === 'all' ? null : value })
   }
 
   const isCurrentMonth = format(monthDate, 'yyyy-MM') === format(new Date(), 'yyyy-MM')
@@ -300,6 +363,15 @@ export function DashboardContent({
         </CardContent>
       </Card>
 
+      {/* Overspending flag (stays until every category is back at zero) */}
+      <ResolveOverspendingDialog
+        budgets={initialBudgets}
+        summary={initialBudgetSummary}
+        currency={currency}
+        locale={locale}
+        month={monthIso}
+      />
+
       {/* Tabs: Overview / Budget */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-6">
         <TabsList>
@@ -308,6 +380,8 @@ export function DashboardContent({
         </TabsList>
 
         <TabsContent value="overview" className="mt-4">
+          <ShortfallWarning shortfalls={shortfalls} currency={currency} locale={locale} />
+
           {/* Summary Cards */}
           <div className="mb-6">
             <SummaryCards
@@ -330,12 +404,21 @@ export function DashboardContent({
               locale={locale}
             />
           </div>
+
+          {/* Scheduled recurring transactions */}
+          <UpcomingTransactions
+            upcoming={upcomingTransactions}
+            categories={categories}
+            currency={currency}
+            locale={locale}
+          />
         </TabsContent>
 
         <TabsContent value="budget" className="mt-4">
           {/* Budget Table for assigning money to categories */}
           <BudgetTable
             budgets={initialBudgets}
+            moves={budgetMoves}
             suggestedAmounts={suggestedAmounts}
             currency={currency}
             locale={locale}
@@ -348,30 +431,77 @@ export function DashboardContent({
       <div className="mb-4">
         <div className="flex items-center justify-between mb-3">
           <h2 className="text-lg font-medium text-zinc-900">{t('dashboard.transactions')}</h2>
-          <QuickAddDialog
-            categories={categories}
-            currency={currency}
-            locale={locale}
-            onOptimisticCreate={handleOptimisticCreate}
-          />
+          <div className="flex items-center gap-2">
+            {accounts.length > 0 && (
+              <Select value={selectedAccountId || 'all'} onValueChange={handleAccountFilterChange}>
+                <SelectTrigger className="h-9 w-[180px] bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('settings.accounts.filterAll')}</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({formatCurrency(parseFloat(account.balance), currency, '', locale)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {accounts.length >= 2 && <TransferDialog accounts={accounts} />}
+            <ImportDialog accounts={accounts} currency={currency} locale={locale} />
+            <QuickAddDialog
+              categories={transactionCategories}
+              accounts={accounts}
+              currency={currency}
+              locale={locale}
+              categoryModel={categoryModel}
+              payees={payees}
+              onOptimisticCreate={handleOptimisticCreate}
+            />
+          </div>
         </div>
         <InlineQuickAdd
-          categories={categories}
+          categories={transactionCategories}
           currency={currency}
           locale={locale}
+          categoryModel={categoryModel}
+          payees={payees}
           onOptimisticCreate={handleOptimisticCreate}
         />
       </div>
 
-      {/* Transaction List with Optimistic Updates */}
-      <TransactionList
-        initialTransactions={optimisticTransactions}
-        categories={categories}
-        currency={currency}
-        locale={locale}
-        onOptimisticUpdate={handleOptimisticUpdate}
-        onOptimisticDelete={handleOptimisticDelete}
+      {/* Search and filters (kept in the URL) */}
+      <TransactionFilterBar
+        filters={filters}
+        categories={transactionCategories}
+        payees={payees}
+        onChange={updateSearchParams}
       />
+
+      {searchResult ? (
+        // Remount on a new search so loaded pages do not mix
+        <TransactionSearchResults
+          key={searchParams.toString()}
+          initialResult={searchResult}
+          filters={filters}
+          accountId={selectedAccountId}
+          categories={transactionCategories}
+          accounts={accounts}
+          currency={currency}
+          locale={locale}
+        />
+      ) : (
+        /* Transaction List with Optimistic Updates */
+        <TransactionList
+          initialTransactions={optimisticTransactions}
+          categories={transactionCategories}
+          accounts={accounts}
+          currency={currency}
+          locale={locale}
+          onOptimisticUpdate={handleOptimisticUpdate}
+          onOptimisticDelete={handleOptimisticDelete}
+        />
+      )}
     </>
   )
 }
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { ArrowRight } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency, parseAmount } from '@/lib/currency'
+import type { MonthlyBudgetWithActivity } from '@/lib/types'
+
+interface MoveMoneyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  target: MonthlyBudgetWithActivity // Row receiving the money (usually overspent)
+  budgets: MonthlyBudgetWithActivity[]
+  currency: string
+  locale: string
+  onConfirm: (fromCategoryId: string, amount: string) => void
+}
+
+export function MoveMoneyDialog({
+  open,
+  onOpenChange,
+  target,
+  budgets,
+  currency,
+  locale,
+  onConfirm,
+}: MoveMoneyDialogProps) {
+  const t = useTranslations()
+  const [fromCategoryId, setFromCategoryId] = useState('')
+  const [amount, setAmount] = useState('')
+
+  const targetAvailable = parseFloat(target.available)
+  const overspent = targetAvailable < 0 ? Math.abs(targetAvailable) : 0
+
+  // Only categories with money left can cover another category
+  const sources = budgets
+    .filter(
+      (b) =>
+        b.category_id !== target.category_id &&
+        b.category.type !== 'INCOME' &&
+        parseFloat(b.available) > 0
+    )
+    .sort((a, b) => parseFloat(b.available) - parseFloat(a.available))
+
+  const source = sources.find((b) => b.category_id === fromCategoryId)
+
+  // Suggest covering the full overspending (limited by what the source has)
+  const suggestAmount = (categoryId: string) => {
+    const available = parseFloat(sources.find((b) => b.category_id === categoryId)?.available || '0')
+    const suggested = overspent > 0 ? Math.min(overspent, available) : available
+    return suggested.toFixed(2)
+  }
+
+  // Reset the form whenever the dialog opens for a row
+  useEffect(() => {
+    if (open) {
+      const firstSource = sources[0]?.category_id || ''
+      setFromCategoryId(firstSource)
+      setAmount(firstSource ? suggestAmount(firstSource) : '')
+    }
+  }, [open, target.category_id])
+
+  const handleSourceChange = (categoryId: string) => {
+    setFromCategoryId(categoryId)
+    setAmount(suggestAmount(categoryId))
+  }
+
+  const parsedAmount = parseAmount(amount)
+  const isValid = !!source && !isNaN(parsedAmount) && parsedAmount > 0
+
+  const handleConfirm = () => {
+    if (!isValid) return
+    onConfirm(fromCategoryId, parsedAmount.toFixed(2))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('budget.moveMoney.title')}</DialogTitle>
+          <DialogDescription>
+            {overspent > 0
+              ? t('budget.moveMoney.coverDescription', {
+                  name: getCategoryDisplayName(target.category, t),
+                  amount: formatCurrency(overspent, currency, '', locale),
+                })
+              : t('budget.moveMoney.description', {
+                  name: getCategoryDisplayName(target.category, t),
+                })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sources.length === 0 ? (
+          <p className="text-sm text-zinc-500">{t('budget.moveMoney.noSources')}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('budget.moveMoney.from')}</Label>
+              <Select value={fromCategoryId} onValueChange={handleSourceChange}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue placeholder={t('budget.moveMoney.selectSource')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {sources.map((b) => (
+                    <SelectItem key={b.category_id} value={b.category_id}>
+                      {getCategoryDisplayName(b.category, t)} (
+                      {formatCurrency(parseFloat(b.available), currency, '', locale)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm text-zinc-500">
+              <ArrowRight className="w-4 h-4" />
+              {getCategoryDisplayName(target.category, t)}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('budget.moveMoney.amount')}</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="tabular-nums"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('transaction.cancel')}
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isValid}>
+            {t('budget.moveMoney.confirm')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useTranslations } from 'next-intl'
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency } from '@/lib/currency'
+import { getOverspentCategories, type FundingSuggestion } from '@/lib/overspending'
+import { coverFromToBeBudgeted, moveBudget } from '@/app/actions/budgets'
+import { toast } from 'sonner'
+import type { BudgetSummary, MonthlyBudgetWithActivity } from '@/lib/types'
+
+interface ResolveOverspendingDialogProps {
+  budgets: MonthlyBudgetWithActivity[]
+  summary: BudgetSummary
+  currency: string
+  locale: string
+  month: string // YYYY-MM
+}
+
+/**
+ * Banner + guided workflow for covering overspent categories
+ * The month stays flagged until every category is back at zero or above
+ */
+export function ResolveOverspendingDialog({
+  budgets,
+  summary,
+  currency,
+  locale,
+  month,
+}: ResolveOverspendingDialogProps) {
+  const t = useTranslations()
+  const [isPending, startTransition] = useTransition()
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+
+  const overspentCategories = getOverspentCategories(budgets, parseFloat(summary.toBeBudgeted))
+  const totalOverspent = parseFloat(summary.overspent)
+
+  if (totalOverspent <= 0 && overspentCategories.length === 0) return null
+
+  const categoryName = (categoryId: string | null) => {
+    const budget = budgets.find((b) => b.category_id === categoryId)
+    return budget ? getCategoryDisplayName(budget.category, t) : ''
+  }
+
+  const suggestionLabel = (suggestion: FundingSuggestion) => {
+    const amount = formatCurrency(suggestion.amount, currency, '', locale)
+    switch (suggestion.type) {
+      case 'TO_BE_BUDGETED':
+        return t('budget.overspending.fromToBeBudgeted', { amount })
+      case 'SAVINGS':
+        return t('budget.overspending.fromSavings', { amount, name: categoryName(suggestion.categoryId) })
+      default:
+        return t('budget.overspending.fromCategory', { amount, name: categoryName(suggestion.categoryId) })
+    }
+  }
+
+  const handleApply = (targetCategoryId: string, suggestion: FundingSuggestion) => {
+    const key = `${targetCategoryId}-${suggestion.type}-${suggestion.categoryId}`
+    setPendingKey(key)
+
+    startTransition(async () => {
+      const amount = suggestion.amount.toFixed(2)
+      const result =
+        suggestion.type === 'TO_BE_BUDGETED'
+          ? await coverFromToBeBudgeted(targetCategoryId, month, amount)
+          : await moveBudget(suggestion.categoryId!, targetCategoryId, month, amount)
+
+      if (result.success) {
+        toast.success(t('budget.overspending.covered', { name: categoryName(targetCategoryId) }))
+      } else {
+        toast.error(result.error)
+      }
+      setPendingKey(null)
+    })
+  }
+
+  return (
+    <Dialog>
+      <Card className="mb-6 bg-red-50 border-red-200">
+        <CardContent className="py-3 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {t('budget.overspending.banner', {
+              count: overspentCategories.length,
+              amount: formatCurrency(totalOverspent, currency, '', locale),
+            })}
+          </div>
+          <DialogTrigger asChild>
+            <Button size="sm" variant="outline" className="border-red-300 text-red-700 hover:bg-red-100">
+              {t('budget.overspending.resolve')}
+            </Button>
+          </DialogTrigger>
+        </CardContent>
+      </Card>
+
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('budget.overspending.title')}</DialogTitle>
+          <DialogDescription>{t('budget.overspending.description')}</DialogDescription>
+        </DialogHeader>
+
+        {overspentCategories.length === 0 ? (
+          <div className="flex items-center gap-2 py-4 text-sm text-emerald-700">
+            <CheckCircle2 className="h-4 w-4" />
+            {t('budget.overspending.allCovered')}
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto divide-y divide-zinc-100">
+            {overspentCategories.map(({ budget, overspent, suggestions }) => {
+              const CategoryIcon = getCategoryIcon(budget.category.icon)
+              return (
+                <div key={budget.category_id} className="py-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <CategoryIcon
+                        className="w-4 h-4 flex-shrink-0"
+                        style={{ color: budget.category.color || '#71717a' }}
+                      />
+                      <span className="text-sm font-medium text-zinc-900 truncate">
+                        {getCategoryDisplayName(budget.category, t)}
+                      </span>
+                    </div>
+                    <span className="text-sm font-semibold tabular-nums text-red-600">
+                      {formatCurrency(overspent, currency, '-', locale)}
+                    </span>
+                  </div>
+
+                  {suggestions.length === 0 ? (
+                    <p className="text-xs text-zinc-500">{t('budget.overspending.noSources')}</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {suggestions.map((suggestion) => {
+                        const key = `${budget.category_id}-${suggestion.type}-${suggestion.categoryId}`
+                        return (
+                          <Button
+                            key={key}
+                            size="sm"
+                            variant="outline"
+                            disabled={isPending}
+                            onClick={() => handleApply(budget.category_id, suggestion)}
+                            className="h-7 text-xs"
+                          >
+                            {pendingKey === key && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                            {suggestionLabel(suggestion)}
+                          </Button>
+                        )
+                      })}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
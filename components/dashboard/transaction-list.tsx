@@ -1,13 +1,17 @@
 'use client'
 
+import { useState } from 'react'
 import { format } from 'date-fns'
 import { de, enUS } from 'date-fns/locale'
 import { useTranslations } from 'next-intl'
 import { EditTransactionDialog } from '@/components/transactions/edit-transaction-dialog'
 import { DeleteTransactionDialog } from '@/components/transactions/delete-transaction-dialog'
+import { BulkActionBar, type BulkActionChanges } from '@/components/transactions/bulk-action-bar'
 import { getCategoryIcon } from '@/lib/icon-mapper'
 import { getCategoryDisplayName } from '@/lib/i18n-helpers'
 import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import { ArrowLeftRight, Lock, Split } from 'lucide-react'
+import type { Account } from '@/lib/types'
 
 interface Transaction {
   id: string
@@ -15,6 +19,17 @@ interface Transaction {
   date: string
   memo: string | null
   category_id: string | null
+  account_id?: string | null
+  is_reconciled?: boolean
+  transfer_id?: string | null
+  transfer_account_id?: string | null // account on the other side of a transfer
+  is_split?: boolean
+  splits?: {
+    id?: string
+    category_id: string
+    amount: string
+    memo: string | null
+  }[]
   category?: {
     id: string
     name: string | null
@@ -27,6 +42,7 @@ interface Transaction {
 interface TransactionListProps {
   initialTransactions: Transaction[]
   categories: any[]
+  accounts?: Account[]
   currency: string
   locale: string
   onOptimisticUpdate?: (transaction: Transaction) => void
@@ -36,12 +52,49 @@ interface TransactionListProps {
 export function TransactionList({
   initialTransactions,
   categories,
+  accounts = [],
   currency,
   locale,
   onOptimisticUpdate,
   onOptimisticDelete,
 }: TransactionListProps) {
   const t = useTranslations()
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  // Reconciled transactions are locked, so they cannot be selected either
+  const selectableIds = initialTransactions.filter((tx) => !tx.is_reconciled).map((tx) => tx.id)
+  // Rows can disappear (deleted, other month), so only count the visible ones
+  const visibleSelectedIds = selectableIds.filter((id) => selectedIds.has(id))
+  const allSelected = selectableIds.length > 0 && visibleSelectedIds.length === selectableIds.length
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleBulkDone = ({ updated, deletedIds, failedIds }: BulkActionChanges) => {
+    for (const row of updated) {
+      const transaction = initialTransactions.find((tx) => tx.id === row.id)
+      if (transaction && onOptimisticUpdate) {
+        onOptimisticUpdate({
+          ...transaction,
+          ...row,
+          category: row.category_id ? categories.find((c) => c.id === row.category_id) || null : null,
+        })
+      }
+    }
+    if (onOptimisticDelete) {
+      deletedIds.forEach(onOptimisticDelete)
+    }
+    setSelectedIds(new Set(failedIds))
+  }
 
   if (initialTransactions.length === 0) {
     return (
@@ -59,10 +112,27 @@ export function TransactionList({
 
   return (
     <div className="space-y-2">
+      {selectableIds.length > 0 && (
+        <label className="flex items-center gap-2 px-4 text-xs text-zinc-500 cursor-pointer w-fit">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-zinc-900"
+            checked={allSelected}
+            onChange={() => setSelectedIds(new Set(allSelected ? [] : selectableIds))}
+          />
+          {t('transaction.bulk.selectAll')}
+        </label>
+      )}
+
       {initialTransactions.map((transaction) => {
         const isIncome = transaction.category?.type === 'INCOME'
         const amount = parseFloat(transaction.amount)
         const CategoryIcon = getCategoryIcon(transaction.category?.icon || 'HelpCircle')
+        const account = accounts.find((a) => a.id === transaction.account_id)
+        const isTransfer = !!transaction.transfer_id
+        const splits = transaction.is_split ? transaction.splits || [] : []
+        const accountName = (id: string | null | undefined) =>
+          accounts.find((a) => a.id === id)?.name || t('transaction.transfer.unknownAccount')
 
         return (
           <div
@@ -70,6 +140,16 @@ export function TransactionList({
             className="group bg-white rounded-xl border border-zinc-200 p-4 hover:bg-zinc-50/50 transition-colors shadow-sm"
           >
             <div className="flex items-center gap-4">
+              {/* Selection for bulk actions */}
+              <input
+                type="checkbox"
+                className="h-4 w-4 flex-shrink-0 accent-zinc-900 disabled:opacity-30"
+                checked={selectedIds.has(transaction.id)}
+                disabled={transaction.is_reconciled}
+                onChange={() => toggleSelected(transaction.id)}
+                aria-label={t('transaction.bulk.select')}
+              />
+
               {/* Icon */}
               <div className="flex-shrink-0">
                 <div
@@ -80,30 +160,62 @@ export function TransactionList({
                       : '#f4f4f5',
                   }}
                 >
-                  <CategoryIcon
-                    className="w-5 h-5"
-                    style={{
-                      color: transaction.category?.color || '#71717a',
-                    }}
-                  />
+                  {isTransfer ? (
+                    <ArrowLeftRight className="w-5 h-5 text-zinc-500" />
+                  ) : splits.length > 0 ? (
+                    <Split className="w-5 h-5 text-zinc-500" />
+                  ) : (
+                    <CategoryIcon
+                      className="w-5 h-5"
+                      style={{
+                        color: transaction.category?.color || '#71717a',
+                      }}
+                    />
+                  )}
                 </div>
               </div>
 
               {/* Middle: Category and Date */}
               <div className="flex-1 min-w-0">
                 <div className="font-medium text-zinc-900">
-                  {transaction.category
+                  {isTransfer
+                    ? t('transaction.transfer.label', {
+                        from: accountName(amount < 0 ? transaction.account_id : transaction.transfer_account_id),
+                        to: accountName(amount < 0 ? transaction.transfer_account_id : transaction.account_id),
+                      })
+                    : splits.length > 0
+                    ? t('transaction.split.label', { count: splits.length })
+                    : transaction.category
                     ? getCategoryDisplayName(transaction.category, t)
                     : t('transaction.uncategorized')}
                 </div>
                 <div className="text-sm text-zinc-500">
                   {format(parseLocalDate(transaction.date), 'PP', { locale: locale === 'de-DE' ? de : enUS })}
+                  {account && !isTransfer && ` · ${account.name}`}
                 </div>
                 {transaction.memo && (
                   <div className="text-sm text-zinc-500 mt-1 truncate">
                     {transaction.memo}
                   </div>
                 )}
+                {splits.length > 0 && (
+                  <div className="mt-1 space-y-0.5">
+                    {splits.map((split, index) => {
+                      const splitCategory = categories.find((c) => c.id === split.category_id)
+                      return (
+                        <div key={split.id || index} className="flex items-center justify-between gap-3 text-xs text-zinc-500">
+                          <span className="truncate">
+                            {splitCategory ? getCategoryDisplayName(splitCategory, t) : t('transaction.uncategorized')}
+                            {split.memo && ` · ${split.memo}`}
+                          </span>
+                          <span className="tabular-nums">
+                            {formatCurrency(parseFloat(split.amount), currency, '', locale)}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
               </div>
 
               {/* Right: Amount and Actions */}
@@ -111,39 +223,58 @@ export function TransactionList({
                 <div className="text-right">
                   <div
                     className={`text-lg font-semibold tabular-nums ${
-                      isIncome ? 'text-emerald-600' : 'text-zinc-900'
+                      isTransfer ? 'text-zinc-500' : isIncome ? 'text-emerald-600' : 'text-zinc-900'
                     }`}
                   >
                     {formatCurrency(
                       amount,
                       currency,
-                      isIncome ? '+' : '-',
+                      isTransfer ? '' : isIncome ? '+' : '-',
                       locale
                     )}
                   </div>
                 </div>
 
-                {/* Edit and Delete Buttons */}
-                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <EditTransactionDialog
-                    transaction={transaction}
-                    categories={categories}
-                    currency={currency}
-                    locale={locale}
-                    onOptimisticUpdate={onOptimisticUpdate}
-                  />
-                  <DeleteTransactionDialog
-                    transaction={transaction}
-                    currency={currency}
-                    locale={locale}
-                    onOptimisticDelete={onOptimisticDelete}
-                  />
-                </div>
+                {/* Edit and Delete Buttons (reconciled transactions are locked) */}
+                {transaction.is_reconciled ? (
+                  <div className="w-8 flex justify-center" title={t('settings.accounts.reconcile.locked')}>
+                    <Lock className="w-4 h-4 text-zinc-400" />
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {/* Transfers can only be deleted (both legs together) */}
+                    {!isTransfer && (
+                      <EditTransactionDialog
+                        transaction={transaction}
+                        categories={categories}
+                        accounts={accounts}
+                        currency={currency}
+                        locale={locale}
+                        onOptimisticUpdate={onOptimisticUpdate}
+                      />
+                    )}
+                    <DeleteTransactionDialog
+                      transaction={transaction}
+                      currency={currency}
+                      locale={locale}
+                      onOptimisticDelete={onOptimisticDelete}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </div>
         )
       })}
+
+      {visibleSelectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={visibleSelectedIds}
+          categories={categories}
+          onDone={handleBulkDone}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,101 @@
+'use client'
+
+import { useState, type ComponentProps } from 'react'
+import { useTranslations } from 'next-intl'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { TransactionList } from '@/components/dashboard/transaction-list'
+import { searchTransactions } from '@/app/actions/transaction'
+import { toast } from 'sonner'
+import type { TransactionFilters } from '@/lib/transaction-filters'
+import type { Account, TransactionSearchResult } from '@/lib/types'
+
+type ListTransaction = ComponentProps<typeof TransactionList>['initialTransactions'][number]
+
+interface TransactionSearchResultsProps {
+  initialResult: TransactionSearchResult
+  filters: TransactionFilters
+  accountId?: string
+  categories: any[]
+  accounts?: Account[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Filtered transactions across all months, loaded page by page
+ * Edits and deletes are applied locally; a new filter remounts the list
+ */
+export function TransactionSearchResults({
+  initialResult,
+  filters,
+  accountId,
+  categories,
+  accounts = [],
+  currency,
+  locale,
+}: TransactionSearchResultsProps) {
+  const t = useTranslations()
+  const [transactions, setTransactions] = useState<ListTransaction[]>(initialResult.transactions)
+  const [nextCursor, setNextCursor] = useState(initialResult.next_cursor)
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function handleLoadMore() {
+    if (!nextCursor) return
+    setIsLoading(true)
+
+    try {
+      const result = await searchTransactions({ ...filters, account_id: accountId, cursor: nextCursor })
+      if (result.success) {
+        setTransactions((prev) => [...prev, ...result.data.transactions])
+        setNextCursor(result.data.next_cursor)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Load more error:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (transactions.length === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-zinc-200 p-12 text-center text-sm text-zinc-500 shadow-sm">
+        {t('transaction.filters.noResults')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500">
+        {nextCursor
+          ? t('transaction.filters.resultsMore', { count: transactions.length })
+          : t('transaction.filters.results', { count: transactions.length })}
+      </p>
+
+      <TransactionList
+        initialTransactions={transactions}
+        categories={categories}
+        accounts={accounts}
+        currency={currency}
+        locale={locale}
+        onOptimisticUpdate={(updated) =>
+          setTransactions((prev) => prev.map((tx) => (tx.id === updated.id ? { ...tx, ...updated } : tx)))
+        }
+        onOptimisticDelete={(id) => setTransactions((prev) => prev.filter((tx) => tx.id !== id))}
+      />
+
+      {nextCursor && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={handleLoadMore} disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('transaction.filters.loadMore')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import { CalendarClock, ChevronDown, ChevronUp } from 'lucide-react'
+import type { Category, UpcomingTransaction } from '@/lib/types'
+
+const MAX_VISIBLE_ITEMS = 5
+
+interface UpcomingTransactionsProps {
+  upcoming: UpcomingTransaction[]
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Scheduled occurrences of recurring transactions for the next 30 days
+ */
+export function UpcomingTransactions({
+  upcoming,
+  categories,
+  currency,
+  locale,
+}: UpcomingTransactionsProps) {
+  const t = useTranslations()
+  const [showAll, setShowAll] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const visibleItems = showAll ? upcoming : upcoming.slice(0, MAX_VISIBLE_ITEMS)
+  const hasMoreItems = upcoming.length > MAX_VISIBLE_ITEMS
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <CalendarClock className="w-4 h-4" />
+          {t('recurring.upcoming')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {upcoming.length === 0 ? (
+          <div className="text-center py-6 text-zinc-500 text-sm">{t('recurring.noUpcoming')}</div>
+        ) : (
+          <>
+            {visibleItems.map((item) => {
+              const category = categories.find((c) => c.id === item.category_id)
+              const CategoryIcon = getCategoryIcon(category?.icon || 'HelpCircle')
+              const color = category?.color || '#71717a'
+              const amount = parseFloat(item.amount)
+
+              return (
+                <div
+                  key={`${item.recurring_transaction_id}-${item.date}`}
+                  className="flex items-center gap-3 p-2.5 rounded-lg border border-zinc-200 bg-white"
+                >
+                  <div
+                    className="w-7 h-7 rounded-md flex items-center justify-center flex-shrink-0"
+                    style={{ backgroundColor: `${color}15` }}
+                  >
+                    <CategoryIcon className="w-3.5 h-3.5" style={{ color }} />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-zinc-900 truncate">
+                      {item.memo ||
+                        (category ? getCategoryDisplayName(category, t) : t('transaction.uncategorized'))}
+                    </div>
+                    <div className="text-xs text-zinc-500">
+                      {format(parseLocalDate(item.date), 'EEE, PP', { locale: dateLocale })}
+                    </div>
+                  </div>
+
+                  <div
+                    className={`text-sm font-semibold tabular-nums ${
+                      amount > 0 ? 'text-emerald-600' : 'text-zinc-900'
+                    }`}
+                  >
+                    {formatCurrency(amount, currency, amount > 0 ? '+' : '-', locale)}
+                  </div>
+                </div>
+              )
+            })}
+
+            {hasMoreItems && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-zinc-500 hover:text-zinc-700 h-8"
+                onClick={() => setShowAll(!showAll)}
+              >
+                {showAll ? (
+                  <>
+                    <ChevronUp className="w-4 h-4 mr-1" />
+                    {t('budget.showLess')}
+                  </>
+                ) : (
+                  <>
+                    <ChevronDown className="w-4 h-4 mr-1" />
+                    {t('budget.showMore', { count: upcoming.length - MAX_VISIBLE_ITEMS })}
+                  </>
+                )}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
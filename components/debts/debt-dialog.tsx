@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createDebt, updateDebt } from '@/app/actions/debts'
+import { parseAmount } from '@/lib/currency'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import type { Category, Debt } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+// Radix Select does not allow an empty string as item value
+const NO_CATEGORY = '__none__'
+
+const amount = (message: string) =>
+  z.string().refine((val) => !isNaN(parseAmount(val)) && parseAmount(val) >= 0, message)
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  principal: amount('Balance must be a number'),
+  interest_rate: amount('Interest rate must be a number'),
+  minimum_payment: amount('Minimum payment must be a number'),
+  category_id: z.string(),
+})
+
+type FormData = z.infer<typeof formSchema>
+
+interface DebtDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  debt?: Debt
+  categories: Category[]
+  onSuccess: () => void
+}
+
+function getDefaultValues(debt?: Debt): FormData {
+  return {
+    name: debt?.name || '',
+    principal: debt?.principal || '',
+    interest_rate: debt?.interest_rate || '',
+    minimum_payment: debt?.minimum_payment || '',
+    category_id: debt?.category_id || '',
+  }
+}
+
+/**
+ * Create or edit a debt
+ */
+export function DebtDialog({ open, onOpenChange, debt, categories, onSuccess }: DebtDialogProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditing = !!debt
+
+  // Payments are budgeted in expense categories; payment categories are funded by card spending
+  const selectableCategories = categories.filter((c) => c.type !== 'INCOME' && c.type !== 'CREDIT_CARD')
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaultValues(debt),
+  })
+
+  // Reset form when dialog opens with a different debt
+  useEffect(() => {
+    form.reset(getDefaultValues(debt))
+  }, [debt, open, form])
+
+  async function onSubmit(data: FormData) {
+    setIsSubmitting(true)
+
+    try {
+      const input = { ...data, category_id: data.category_id || null }
+      const result = isEditing ? await updateDebt(debt.id, input) : await createDebt(input)
+
+      if (result.success) {
+        showUndoToast(isEditing ? t('debts.updateSuccess') : t('debts.createSuccess'))
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Form submission error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? t('debts.editTitle') : t('debts.createTitle')}</DialogTitle>
+          <DialogDescription>{t('debts.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('debts.name')}</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={t('debts.namePlaceholder')} autoFocus className="bg-white" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="principal"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('debts.principal')}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="interest_rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('debts.interestRate')}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="minimum_payment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('debts.minimumPayment')}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="category_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('debts.category')}</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === NO_CATEGORY ? '' : value)}
+                    value={field.value || NO_CATEGORY}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_CATEGORY}>{t('debts.noCategory')}</SelectItem>
+                      {selectableCategories.map((category) => {
+                        const CategoryIcon = getCategoryIcon(category.icon)
+                        return (
+                          <SelectItem key={category.id} value={category.id}>
+                            <div className="flex items-center gap-2">
+                              <CategoryIcon className="w-4 h-4" style={{ color: category.color || '#71717a' }} />
+                              {getCategoryDisplayName(category, t)}
+                            </div>
+                          </SelectItem>
+                        )
+                      })}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>{t('debts.categoryHint')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                {t('transaction.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? t('debts.save') : t('debts.create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,327 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { AlertTriangle, Check, Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { DebtDialog } from '@/components/debts/debt-dialog'
+import { PayoffScheduleTable } from '@/components/debts/payoff-schedule-table'
+import { deleteDebt, updateDebtPlan } from '@/app/actions/debts'
+import { formatCurrency } from '@/lib/currency'
+import { PAYOFF_STRATEGIES } from '@/lib/debt-payoff'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { Category, Debt, DebtOverview, PayoffStrategy } from '@/lib/types'
+
+interface DebtsContentProps {
+  overview: DebtOverview
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Debt payoff planner: the debts, snowball vs. avalanche and the payoff
+ * schedule of the chosen strategy
+ */
+export function DebtsContent({ overview, categories, currency, locale }: DebtsContentProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [editingDebt, setEditingDebt] = useState<Debt | null>(null)
+  const [deletingDebt, setDeletingDebt] = useState<Debt | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [extraPayment, setExtraPayment] = useState(overview.plan.extra_payment)
+  const [isSavingPlan, setIsSavingPlan] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const money = (amount: number) => formatCurrency(amount, currency, '', locale)
+  const monthLabel = (month: string) => format(parse(month, 'yyyy-MM', new Date()), 'MMMM yyyy', { locale: dateLocale })
+
+  const { debts, plan, schedules } = overview
+  const schedule = schedules[plan.strategy]
+  const minimums = debts.reduce((sum, debt) => sum + parseFloat(debt.minimum_payment), 0)
+  const totalOwed = debts.reduce((sum, debt) => sum + parseFloat(debt.principal), 0)
+  const categoryName = (id: string | null) => categories.find((category) => category.id === id)?.name
+
+  async function savePlan(strategy: PayoffStrategy) {
+    setIsSavingPlan(true)
+
+    try {
+      const result = await updateDebtPlan({ strategy, extra_payment: extraPayment || '0' })
+      if (result.success) {
+        showUndoToast(t('debts.planSaved'))
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Plan error:', error)
+    } finally {
+      setIsSavingPlan(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!deletingDebt) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteDebt(deletingDebt.id)
+      if (result.success) {
+        showUndoToast(t('debts.deleteSuccess'))
+        setDeletingDebt(null)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Delete error:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  // Compare the strategies: interest and months saved by the cheaper / faster one
+  const { SNOWBALL: snowball, AVALANCHE: avalanche } = schedules
+  const interestSaved = Math.abs(snowball.total_interest - avalanche.total_interest)
+  const cheaper: PayoffStrategy = avalanche.total_interest <= snowball.total_interest ? 'AVALANCHE' : 'SNOWBALL'
+  const monthsSaved = Math.abs(snowball.months.length - avalanche.months.length)
+  const faster: PayoffStrategy = avalanche.months.length <= snowball.months.length ? 'AVALANCHE' : 'SNOWBALL'
+
+  return (
+    <div className="space-y-8">
+      {/* Debts */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-zinc-900">{t('debts.listTitle')}</h2>
+            <p className="text-sm text-zinc-500 mt-0.5">{t('debts.listDescription')}</p>
+          </div>
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('debts.addNew')}
+          </Button>
+        </div>
+
+        <div className="rounded-xl border border-zinc-200 bg-white p-2">
+          {debts.length === 0 ? (
+            <div className="text-center py-6 text-zinc-400 text-sm">{t('debts.noDebts')}</div>
+          ) : (
+            <>
+              <div className="divide-y divide-zinc-100">
+                {debts.map((debt) => {
+                  const payoffMonth = schedule.debts[debt.id]?.payoff_month
+                  return (
+                    <div key={debt.id} className="flex items-center gap-3 py-3 px-3 group">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-zinc-900 truncate">{debt.name}</div>
+                        <div className="text-xs text-zinc-500">
+                          {t('debts.terms', {
+                            rate: parseFloat(debt.interest_rate).toLocaleString(locale),
+                            minimum: money(parseFloat(debt.minimum_payment)),
+                          })}
+                          {' · '}
+                          {categoryName(debt.category_id) ?? t('debts.noCategory')}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-sm font-semibold tabular-nums text-zinc-900">
+                          {money(parseFloat(debt.principal))}
+                        </div>
+                        <div className="text-xs text-zinc-400">
+                          {parseFloat(debt.principal) === 0
+                            ? t('debts.schedule.paidOff')
+                            : payoffMonth
+                              ? t('debts.paidOffIn', { month: monthLabel(payoffMonth) })
+                              : t('debts.notPaidOff')}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingDebt(debt)} className="h-7 w-7 p-0">
+                          <Pencil className="w-3.5 h-3.5" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeletingDebt(debt)}
+                          className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="flex justify-between px-3 pt-3 pb-1 mt-1 border-t border-zinc-200 text-sm">
+                <span className="text-zinc-500">{t('debts.totalOwed')}</span>
+                <span className="font-semibold tabular-nums">{money(totalOwed)}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </section>
+
+      {debts.length > 0 && (
+        <>
+          {/* Plan */}
+          <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+            <div>
+              <h2 className="text-sm font-medium text-zinc-900">{t('debts.planTitle')}</h2>
+              <p className="text-xs text-zinc-500 mt-0.5">
+                {t('debts.planDescription', { minimums: money(minimums) })}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="space-y-1">
+                <span className="text-xs text-zinc-500">{t('debts.extraPayment')}</span>
+                <Input
+                  value={extraPayment}
+                  onChange={(e) => setExtraPayment(e.target.value)}
+                  inputMode="decimal"
+                  className="h-9 w-36 bg-white tabular-nums"
+                />
+              </label>
+              <Button
+                variant="outline"
+                onClick={() => savePlan(plan.strategy)}
+                disabled={isSavingPlan || extraPayment === plan.extra_payment}
+              >
+                {isSavingPlan && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('debts.savePlan')}
+              </Button>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {PAYOFF_STRATEGIES.map((strategy) => {
+                const result = schedules[strategy]
+                const isSelected = strategy === plan.strategy
+                return (
+                  <button
+                    key={strategy}
+                    type="button"
+                    onClick={() => !isSelected && savePlan(strategy)}
+                    disabled={isSavingPlan}
+                    className={`rounded-lg border p-4 text-left transition-colors ${
+                      isSelected ? 'border-zinc-900 bg-zinc-50' : 'border-zinc-200 hover:border-zinc-400'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-zinc-900">{t(`debts.strategies.${strategy}.title`)}</span>
+                      {isSelected && <Check className="w-4 h-4 text-zinc-900" />}
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-0.5">{t(`debts.strategies.${strategy}.description`)}</p>
+                    <dl className="mt-3 grid grid-cols-2 gap-2 text-sm">
+                      <div>
+                        <dt className="text-xs text-zinc-500">{t('debts.debtFree')}</dt>
+                        <dd className="font-semibold text-zinc-900">
+                          {result.debt_free_month ? monthLabel(result.debt_free_month) : '–'}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-xs text-zinc-500">{t('debts.totalInterest')}</dt>
+                        <dd className="font-semibold tabular-nums text-zinc-900">{money(result.total_interest)}</dd>
+                      </div>
+                    </dl>
+                  </button>
+                )
+              })}
+            </div>
+
+            {schedule.debt_free_month === null ? (
+              <p className="flex items-center gap-1.5 text-sm text-rose-600">
+                <AlertTriangle className="w-4 h-4" />
+                {t('debts.neverPaidOff')}
+              </p>
+            ) : (
+              <p className="text-sm text-zinc-600">
+                {interestSaved >= 0.01
+                  ? t('debts.comparison.cheaper', {
+                      strategy: t(`debts.strategies.${cheaper}.title`),
+                      amount: money(interestSaved),
+                    })
+                  : t('debts.comparison.same')}
+                {monthsSaved > 0 &&
+                  ` ${t('debts.comparison.faster', {
+                    strategy: t(`debts.strategies.${faster}.title`),
+                    count: monthsSaved,
+                  })}`}
+              </p>
+            )}
+            <p className="text-xs text-zinc-500">{t('debts.budgetHint')}</p>
+          </section>
+
+          {/* Schedule */}
+          <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+            <div>
+              <h2 className="text-sm font-medium text-zinc-900">{t('debts.schedule.title')}</h2>
+              <p className="text-xs text-zinc-500 mt-0.5">
+                {t('debts.schedule.description', { strategy: t(`debts.strategies.${plan.strategy}.title`) })}
+              </p>
+            </div>
+            <PayoffScheduleTable schedule={schedule} debts={debts} currency={currency} locale={locale} />
+          </section>
+        </>
+      )}
+
+      {/* Create Dialog */}
+      <DebtDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        categories={categories}
+        onSuccess={() => setIsCreateDialogOpen(false)}
+      />
+
+      {/* Edit Dialog */}
+      {editingDebt && (
+        <DebtDialog
+          open={!!editingDebt}
+          onOpenChange={(open) => !open && setEditingDebt(null)}
+          debt={editingDebt}
+          categories={categories}
+          onSuccess={() => setEditingDebt(null)}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      <AlertDialog open={!!deletingDebt} onOpenChange={(open) => !open && setDeletingDebt(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('debts.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('debts.deleteDescription', { name: deletingDebt?.name || '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>{t('transaction.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('debts.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
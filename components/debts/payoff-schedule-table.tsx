@@ -0,0 +1,95 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { Button } from '@/components/ui/button'
+import { formatCurrency } from '@/lib/currency'
+import type { Debt, PayoffSchedule } from '@/lib/types'
+
+// Months shown before "Show all"
+const COLLAPSED_MONTHS = 12
+
+interface PayoffScheduleTableProps {
+  schedule: PayoffSchedule
+  debts: Debt[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Amortisation table: payment and remaining balance of every debt per month,
+ * with the interest paid and the total still owed
+ */
+export function PayoffScheduleTable({ schedule, debts, currency, locale }: PayoffScheduleTableProps) {
+  const t = useTranslations()
+  const [showAll, setShowAll] = useState(false)
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const money = (amount: number) => formatCurrency(amount, currency, '', locale)
+
+  // Columns in payoff order
+  const columns = schedule.order.map((id) => debts.find((debt) => debt.id === id)!).filter(Boolean)
+  const months = showAll ? schedule.months : schedule.months.slice(0, COLLAPSED_MONTHS)
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-zinc-500">
+              <th className="py-2 pr-3 text-left font-normal">{t('debts.schedule.month')}</th>
+              {columns.map((debt) => (
+                <th key={debt.id} className="py-2 pl-3 text-right font-normal">
+                  {debt.name}
+                </th>
+              ))}
+              <th className="py-2 pl-3 text-right font-normal">{t('debts.schedule.interest')}</th>
+              <th className="py-2 pl-3 text-right font-normal">{t('debts.schedule.remaining')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {months.map((month) => (
+              <tr key={month.month_iso}>
+                <td className="py-2 pr-3 text-zinc-700 whitespace-nowrap">
+                  {format(parse(month.month_iso, 'yyyy-MM', new Date()), 'MMM yyyy', { locale: dateLocale })}
+                </td>
+                {columns.map((debt) => {
+                  const payment = month.payments.find((p) => p.debt_id === debt.id)
+                  if (!payment) {
+                    return <td key={debt.id} className="py-2 pl-3 text-right text-zinc-300">–</td>
+                  }
+                  return (
+                    <td
+                      key={debt.id}
+                      className={`py-2 pl-3 text-right tabular-nums ${payment.balance === 0 ? 'bg-emerald-50' : ''}`}
+                      title={t('debts.schedule.cellTitle', {
+                        interest: money(payment.interest),
+                        principal: money(payment.principal),
+                      })}
+                    >
+                      <div className="text-zinc-900">{money(payment.payment)}</div>
+                      <div className="text-xs text-zinc-400">
+                        {payment.balance === 0 ? t('debts.schedule.paidOff') : money(payment.balance)}
+                      </div>
+                    </td>
+                  )
+                })}
+                <td className="py-2 pl-3 text-right tabular-nums text-zinc-500">{money(month.total_interest)}</td>
+                <td className="py-2 pl-3 text-right tabular-nums font-medium text-zinc-900">
+                  {money(month.remaining)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {schedule.months.length > COLLAPSED_MONTHS && (
+        <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+          {showAll ? t('debts.schedule.showLess') : t('debts.schedule.showAll', { count: schedule.months.length })}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { formatCurrency } from '@/lib/currency'
+import { getAxisTicks } from '@/lib/reports'
+import type { ForecastMonth } from '@/lib/types'
+import { CHART_HEIGHT, CHART_WIDTH, ChartGrid, getChartScale, getMonthX } from '@/components/reports/chart-grid'
+
+interface ForecastChartProps {
+  months: ForecastMonth[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Projected balance per month as a line; shortfall months are marked red
+ */
+export function ForecastChart({ months, currency, locale }: ForecastChartProps) {
+  const t = useTranslations()
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const money = (amount: number) => formatCurrency(amount, currency, amount < 0 ? '-' : '', locale)
+
+  const balances = months.map((month) => month.balance)
+  const ticks = getAxisTicks(Math.min(0, ...balances), Math.max(0, ...balances))
+  const y = getChartScale(ticks)
+  const x = (i: number) => getMonthX(i, months.length)
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      <ChartGrid ticks={ticks} months={months.map((month) => month.month_iso)} locale={locale} />
+      <polyline
+        points={months.map((month, i) => `${x(i)},${y(month.balance)}`).join(' ')}
+        fill="none"
+        strokeWidth="2"
+        strokeLinejoin="round"
+        strokeDasharray="6 4"
+        className="stroke-zinc-900"
+      />
+      {months.map((month, i) => (
+        <circle
+          key={month.month_iso}
+          cx={x(i)}
+          cy={y(month.balance)}
+          r="4"
+          strokeWidth="2"
+          className={`fill-white ${month.is_shortfall || month.balance < 0 ? 'stroke-rose-500' : 'stroke-emerald-600'}`}
+        >
+          <title>
+            {[
+              format(parse(month.month_iso, 'yyyy-MM', new Date()), 'MMMM yyyy', { locale: dateLocale }),
+              `${t('forecast.income')}: ${money(month.income)}`,
+              `${t('forecast.expenses')}: ${money(month.expenses)}`,
+              `${t('forecast.balance')}: ${money(month.balance)}`,
+            ].join('\n')}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { ForecastChart } from '@/components/forecast/forecast-chart'
+import { formatCurrency } from '@/lib/currency'
+import type { CashFlowForecast } from '@/lib/types'
+
+interface ForecastContentProps {
+  forecast: CashFlowForecast
+  currency: string
+  locale: string
+}
+
+/**
+ * Cash-flow forecast: projected balance, months where planned expenses
+ * exceed expected income and the breakdown of every month
+ */
+export function ForecastContent({ forecast, currency, locale }: ForecastContentProps) {
+  const t = useTranslations()
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const money = (amount: number) => formatCurrency(amount, currency, amount < 0 ? '-' : '', locale)
+  const monthLabel = (month: string) => format(parse(month, 'yyyy-MM', new Date()), 'MMMM yyyy', { locale: dateLocale })
+
+  const { months } = forecast
+  const shortfalls = months.filter((month) => month.is_shortfall)
+  const lowest = months.reduce((min, month) => (month.balance < min.balance ? month : min), months[0])
+  const hasIncome = months.some((month) => month.income > 0)
+
+  const cards = [
+    { label: t('forecast.openingBalance'), value: forecast.opening_balance },
+    { label: t('forecast.endBalance', { month: monthLabel(months[months.length - 1].month_iso) }), value: months[months.length - 1].balance },
+    { label: t('forecast.lowestBalance', { month: monthLabel(lowest.month_iso) }), value: lowest.balance },
+  ]
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-3 sm:grid-cols-3">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-xl border border-zinc-200 bg-white p-4">
+            <div className="text-xs text-zinc-500">{card.label}</div>
+            <div className={`mt-1 text-lg font-semibold tabular-nums ${card.value < 0 ? 'text-rose-600' : 'text-zinc-900'}`}>
+              {money(card.value)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Warnings */}
+      {shortfalls.length > 0 ? (
+        <section className="rounded-xl border border-amber-200 bg-amber-50 p-4 space-y-3">
+          <h2 className="flex items-center gap-1.5 text-sm font-medium text-amber-900">
+            <AlertTriangle className="w-4 h-4" />
+            {t('forecast.shortfallTitle', { count: shortfalls.length })}
+          </h2>
+          <ul className="space-y-2">
+            {shortfalls.map((month) => (
+              <li key={month.month_iso} className="text-sm text-amber-900">
+                <span className="font-medium">{monthLabel(month.month_iso)}</span>
+                {': '}
+                {t('forecast.shortfall', { amount: money(month.expenses - month.income) })}
+                {month.due.length > 0 && (
+                  <span className="block text-xs text-amber-800">
+                    {t('forecast.dueItems', {
+                      items: month.due.map((item) => `${item.name} (${money(item.amount)})`).join(', '),
+                    })}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : (
+        <p className="flex items-center gap-1.5 text-sm text-emerald-700">
+          <CheckCircle2 className="w-4 h-4" />
+          {t('forecast.noShortfall')}
+        </p>
+      )}
+
+      <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-900">{t('forecast.balanceTitle')}</h2>
+          <p className="text-xs text-zinc-500 mt-0.5">
+            {forecast.variable_months > 0
+              ? t('forecast.assumptions', {
+                  average: money(forecast.variable_average),
+                  count: forecast.variable_months,
+                })
+              : t('forecast.assumptionsNoHistory')}
+          </p>
+          {!hasIncome && <p className="text-xs text-amber-700 mt-1">{t('forecast.noIncome')}</p>}
+        </div>
+        <ForecastChart months={months} currency={currency} locale={locale} />
+      </section>
+
+      {/* Months */}
+      <section className="rounded-xl border border-zinc-200 bg-white p-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-zinc-500">
+                <th className="py-2 pr-3 text-left font-normal">{t('forecast.month')}</th>
+                <th className="py-2 pl-3 text-right font-normal">{t('forecast.income')}</th>
+                <th className="py-2 pl-3 text-right font-normal">{t('forecast.fixed')}</th>
+                <th className="py-2 pl-3 text-right font-normal">{t('forecast.sinkingFunds')}</th>
+                <th className="py-2 pl-3 text-right font-normal">{t('forecast.variable')}</th>
+                <th className="py-2 pl-3 text-right font-normal">{t('forecast.net')}</th>
+                <th className="py-2 pl-3 text-right font-normal">{t('forecast.balance')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-100">
+              {months.map((month) => (
+                <tr key={month.month_iso} className={month.is_shortfall ? 'bg-rose-50' : ''}>
+                  <td className="py-2 pr-3 text-zinc-700 whitespace-nowrap">
+                    {format(parse(month.month_iso, 'yyyy-MM', new Date()), 'MMM yyyy', { locale: dateLocale })}
+                  </td>
+                  <td className="py-2 pl-3 text-right tabular-nums text-zinc-900">{money(month.income)}</td>
+                  <td className="py-2 pl-3 text-right tabular-nums text-zinc-500">{money(month.fixed)}</td>
+                  <td
+                    className="py-2 pl-3 text-right tabular-nums text-zinc-500"
+                    title={month.due.map((item) => item.name).join(', ') || undefined}
+                  >
+                    {month.sinking_funds > 0 ? money(month.sinking_funds) : '–'}
+                  </td>
+                  <td className="py-2 pl-3 text-right tabular-nums text-zinc-500">{money(month.variable)}</td>
+                  <td
+                    className={`py-2 pl-3 text-right tabular-nums ${month.net < 0 ? 'text-rose-600' : 'text-emerald-600'}`}
+                  >
+                    {formatCurrency(month.net, currency, month.net < 0 ? '-' : '+', locale)}
+                  </td>
+                  <td
+                    className={`py-2 pl-3 text-right tabular-nums font-medium ${month.balance < 0 ? 'text-rose-600' : 'text-zinc-900'}`}
+                  >
+                    {money(month.balance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  )
+}
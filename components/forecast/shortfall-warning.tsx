@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+import { useLocale, useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { AlertTriangle } from 'lucide-react'
+import { formatCurrency } from '@/lib/currency'
+import type { ForecastMonth } from '@/lib/types'
+
+interface ShortfallWarningProps {
+  shortfalls: ForecastMonth[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Dashboard warning about upcoming months where planned expenses exceed expected income
+ */
+export function ShortfallWarning({ shortfalls, currency, locale }: ShortfallWarningProps) {
+  const t = useTranslations()
+  const routeLocale = useLocale()
+  const dateLocale = locale === 'de-DE' ? de : enUS
+
+  if (shortfalls.length === 0) return null
+
+  return (
+    <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-start gap-2 text-sm text-amber-900">
+        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+        <div className="space-y-1">
+          {shortfalls.map((month) => (
+            <p key={month.month_iso}>
+              <span className="font-medium">
+                {format(parse(month.month_iso, 'yyyy-MM', new Date()), 'MMMM yyyy', { locale: dateLocale })}
+              </span>
+              {': '}
+              {t('forecast.shortfall', { amount: formatCurrency(month.expenses - month.income, currency, '', locale) })}
+              {month.due.length > 0 && ` (${month.due.map((item) => item.name).join(', ')})`}
+            </p>
+          ))}
+          <Link href={`/${routeLocale}/forecast`} className="text-xs font-medium underline underline-offset-2">
+            {t('forecast.viewForecast')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
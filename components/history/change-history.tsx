@@ -0,0 +1,115 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { Loader2, Redo2, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { redoChange, undoChange } from '@/app/actions/history'
+import { toast } from 'sonner'
+import type { ChangeSet } from '@/lib/types'
+
+interface ChangeHistoryProps {
+  changes: ChangeSet[]
+  locale: string
+}
+
+/**
+ * Recorded changes grouped by day, each of which can be undone or redone
+ */
+export function ChangeHistory({ changes: initialChanges, locale }: ChangeHistoryProps) {
+  const t = useTranslations()
+  const [changes, setChanges] = useState(initialChanges)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const dateLocale = locale === 'de-DE' ? de : enUS
+
+  async function handleToggle(change: ChangeSet) {
+    setPendingId(change.id)
+
+    try {
+      const isUndone = change.undone_at !== null
+      const result = isUndone ? await redoChange(change.id) : await undoChange(change.id)
+      if (result.success) {
+        setChanges((prev) => prev.map((c) => (c.id === change.id ? result.data : c)))
+        toast.success(isUndone ? t('history.redone') : t('history.undone'))
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Undo error:', error)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  if (changes.length === 0) {
+    return (
+      <div className="rounded-xl border border-zinc-200 bg-white p-12 text-center text-sm text-zinc-400">
+        {t('history.empty')}
+      </div>
+    )
+  }
+
+  // Newest day first; changes arrive newest first already
+  const days: { day: string; changes: ChangeSet[] }[] = []
+  for (const change of changes) {
+    const day = format(new Date(change.created_at), 'yyyy-MM-dd')
+    if (days.length === 0 || days[days.length - 1].day !== day) {
+      days.push({ day, changes: [] })
+    }
+    days[days.length - 1].changes.push(change)
+  }
+
+  return (
+    <div className="space-y-6">
+      {days.map(({ day, changes: dayChanges }) => (
+        <div key={day} className="space-y-2">
+          <h2 className="text-xs font-medium uppercase tracking-wide text-zinc-500">
+            {format(new Date(`${day}T00:00:00`), 'PPPP', { locale: dateLocale })}
+          </h2>
+          <div className="rounded-xl border border-zinc-200 bg-white divide-y divide-zinc-100">
+            {dayChanges.map((change) => {
+              const isUndone = change.undone_at !== null
+              const isPending = pendingId === change.id
+
+              return (
+                <div key={change.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="w-12 text-xs text-zinc-400 tabular-nums">
+                    {format(new Date(change.created_at), 'p', { locale: dateLocale })}
+                  </div>
+                  <div className={`flex-1 min-w-0 ${isUndone ? 'opacity-50' : ''}`}>
+                    <div className={`text-sm font-medium text-zinc-900 ${isUndone ? 'line-through' : ''}`}>
+                      {t(`history.actions.${change.action}`)}
+                    </div>
+                    <div className="text-xs text-zinc-500 truncate">
+                      {change.label && `${change.label} · `}
+                      {t('history.rows', { count: change.row_count })}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1.5"
+                    disabled={pendingId !== null}
+                    onClick={() => handleToggle(change)}
+                  >
+                    {isPending ? (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    ) : isUndone ? (
+                      <Redo2 className="w-3.5 h-3.5" />
+                    ) : (
+                      <Undo2 className="w-3.5 h-3.5" />
+                    )}
+                    {isUndone ? t('history.redo') : t('history.undo')}
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
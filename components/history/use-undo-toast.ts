@@ -0,0 +1,39 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { redoLastChange, undoLastChange } from '@/app/actions/history'
+
+/**
+ * Success toast with an "Undo" button that reverts the last recorded change
+ * After undoing, the toast offers "Redo" in turn
+ */
+export function useUndoToast() {
+  const t = useTranslations()
+
+  return useCallback(
+    (message: string) => {
+      const redo = async () => {
+        const result = await redoLastChange()
+        if (result.success) {
+          toast.success(t('history.redone'))
+        } else {
+          toast.error(result.error)
+        }
+      }
+
+      const undo = async () => {
+        const result = await undoLastChange()
+        if (result.success) {
+          toast.success(t('history.undone'), { action: { label: t('history.redo'), onClick: redo } })
+        } else {
+          toast.error(result.error)
+        }
+      }
+
+      toast.success(message, { action: { label: t('history.undo'), onClick: undo } })
+    },
+    [t]
+  )
+}
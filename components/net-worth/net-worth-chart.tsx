@@ -0,0 +1,99 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { formatCurrency } from '@/lib/currency'
+import { getAxisTicks } from '@/lib/reports'
+import type { NetWorthPoint } from '@/lib/types'
+import { CHART_HEIGHT, CHART_WIDTH, ChartGrid, getChartScale, getMonthX } from '@/components/reports/chart-grid'
+
+interface NetWorthChartProps {
+  history: NetWorthPoint[] // one per month
+  currency: string
+  locale: string
+}
+
+/**
+ * Net worth per month as a line, with assets (including sinking funds) and liabilities behind it
+ */
+export function NetWorthChart({ history, currency, locale }: NetWorthChartProps) {
+  const t = useTranslations()
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const money = (amount: number) => formatCurrency(amount, currency, amount < 0 ? '-' : '', locale)
+
+  const lines = [
+    {
+      key: 'assets',
+      label: t('netWorth.assetsAndFunds'),
+      className: 'stroke-emerald-500',
+      value: (point: NetWorthPoint) => point.assets + point.sinking_funds,
+    },
+    {
+      key: 'liabilities',
+      label: t('netWorth.liabilities'),
+      className: 'stroke-rose-500',
+      value: (point: NetWorthPoint) => point.liabilities,
+    },
+    {
+      key: 'net',
+      label: t('netWorth.title'),
+      className: 'stroke-zinc-900',
+      value: (point: NetWorthPoint) => point.net_worth,
+    },
+  ]
+
+  const values = history.flatMap((point) => lines.map((line) => line.value(point)))
+  const ticks = getAxisTicks(Math.min(0, ...values), Math.max(0, ...values))
+  const y = getChartScale(ticks)
+  const x = (i: number) => getMonthX(i, history.length)
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+        <ChartGrid ticks={ticks} months={history.map((point) => point.month_iso)} locale={locale} />
+        {lines.map((line) => (
+          <polyline
+            key={line.key}
+            points={history.map((point, i) => `${x(i)},${y(line.value(point))}`).join(' ')}
+            fill="none"
+            strokeWidth={line.key === 'net' ? 2 : 1.5}
+            strokeLinejoin="round"
+            className={line.className}
+          />
+        ))}
+        {history.map((point, i) => (
+          <circle
+            key={point.month_iso}
+            cx={x(i)}
+            cy={y(point.net_worth)}
+            r="3.5"
+            strokeWidth="2"
+            className="fill-white stroke-zinc-900"
+          >
+            <title>
+              {[
+                format(parse(point.month_iso, 'yyyy-MM', new Date()), 'MMMM yyyy', { locale: dateLocale }),
+                `${t('netWorth.assets')}: ${money(point.assets)}`,
+                `${t('netWorth.sinkingFunds')}: ${money(point.sinking_funds)}`,
+                `${t('netWorth.liabilities')}: ${money(point.liabilities)}`,
+                `${t('netWorth.title')}: ${money(point.net_worth)}`,
+              ].join('\n')}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-zinc-500">
+        {lines.map((line) => (
+          <span key={line.key} className="flex items-center gap-1.5">
+            <svg className="h-2.5 w-4">
+              <line x1="0" x2="16" y1="5" y2="5" strokeWidth="2" className={line.className} />
+            </svg>
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
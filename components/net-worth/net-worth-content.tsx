@@ -0,0 +1,211 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Loader2, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { NetWorthChart } from '@/components/net-worth/net-worth-chart'
+import { NetWorthItemDialog } from '@/components/net-worth/net-worth-item-dialog'
+import { NetWorthItemRow } from '@/components/net-worth/net-worth-item-row'
+import { deleteNetWorthItem } from '@/app/actions/net-worth'
+import { formatCurrency } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { NetWorthItem, NetWorthItemKind, NetWorthOverview } from '@/lib/types'
+
+interface NetWorthContentProps {
+  overview: NetWorthOverview
+  currency: string
+  locale: string
+}
+
+/**
+ * Net worth today and over time, the assets and liabilities with their balances
+ * and the sinking funds that count towards it
+ */
+export function NetWorthContent({ overview, currency, locale }: NetWorthContentProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [dialogKind, setDialogKind] = useState<NetWorthItemKind | null>(null)
+  const [editingItem, setEditingItem] = useState<NetWorthItem | null>(null)
+  const [deletingItem, setDeletingItem] = useState<NetWorthItem | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const money = (amount: number) => formatCurrency(amount, currency, amount < 0 ? '-' : '', locale)
+  const current = overview.history[overview.history.length - 1]
+  const hasData = overview.items.length > 0 || overview.sinking_funds.length > 0
+
+  const cards = [
+    { label: t('netWorth.assets'), value: current.assets, className: 'text-emerald-600' },
+    { label: t('netWorth.sinkingFunds'), value: current.sinking_funds, className: 'text-emerald-600' },
+    { label: t('netWorth.liabilities'), value: current.liabilities, className: 'text-rose-600' },
+    {
+      label: t('netWorth.title'),
+      value: current.net_worth,
+      className: current.net_worth < 0 ? 'text-rose-600' : 'text-zinc-900',
+    },
+  ]
+
+  async function handleDelete() {
+    if (!deletingItem) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteNetWorthItem(deletingItem.id)
+      if (result.success) {
+        showUndoToast(t('netWorth.deleteSuccess'))
+        setDeletingItem(null)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Delete error:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const renderSection = (kind: NetWorthItemKind) => {
+    // Archived items last; their last balance still counts until it is set to 0
+    const items = overview.items
+      .filter((item) => item.kind === kind)
+      .sort((a, b) => Number(b.is_active) - Number(a.is_active))
+
+    return (
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-zinc-900">
+            {kind === 'ASSET' ? t('netWorth.assets') : t('netWorth.liabilities')}
+          </h2>
+          <Button variant="outline" size="sm" onClick={() => setDialogKind(kind)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {kind === 'ASSET' ? t('netWorth.addAsset') : t('netWorth.addLiability')}
+          </Button>
+        </div>
+        <div className="rounded-xl border border-zinc-200 bg-white p-2">
+          {items.length === 0 ? (
+            <div className="text-center py-6 text-zinc-400 text-sm">
+              {kind === 'ASSET' ? t('netWorth.noAssets') : t('netWorth.noLiabilities')}
+            </div>
+          ) : (
+            <div className="divide-y divide-zinc-100">
+              {items.map((item) => (
+                <NetWorthItemRow
+                  key={item.id}
+                  item={item}
+                  currency={currency}
+                  locale={locale}
+                  onEdit={() => setEditingItem(item)}
+                  onDelete={() => setDeletingItem(item)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-xl border border-zinc-200 bg-white p-4">
+            <div className="text-xs text-zinc-500">{card.label}</div>
+            <div className={`mt-1 text-lg font-semibold tabular-nums ${card.className}`}>{money(card.value)}</div>
+          </div>
+        ))}
+      </div>
+
+      <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-900">{t('netWorth.overTime')}</h2>
+          <p className="text-xs text-zinc-500 mt-0.5">{t('netWorth.overTimeHint')}</p>
+        </div>
+        {hasData ? (
+          <NetWorthChart history={overview.history} currency={currency} locale={locale} />
+        ) : (
+          <p className="py-8 text-center text-sm text-zinc-500">{t('netWorth.empty')}</p>
+        )}
+      </section>
+
+      {renderSection('ASSET')}
+      {renderSection('LIABILITY')}
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('netWorth.sinkingFunds')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('netWorth.sinkingFundsHint')}</p>
+        </div>
+        <div className="rounded-xl border border-zinc-200 bg-white p-2">
+          {overview.sinking_funds.length === 0 ? (
+            <div className="text-center py-6 text-zinc-400 text-sm">{t('netWorth.noSinkingFunds')}</div>
+          ) : (
+            <div className="divide-y divide-zinc-100">
+              {overview.sinking_funds.map((fund) => (
+                <div key={fund.id} className="flex items-center gap-3 py-2.5 px-3 text-sm">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: fund.color }} />
+                  <span className="flex-1 truncate text-zinc-900">{fund.name}</span>
+                  <span className="tabular-nums text-zinc-900">{money(parseFloat(fund.saved_balance))}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Create Dialog */}
+      <NetWorthItemDialog
+        open={dialogKind !== null}
+        onOpenChange={(open) => !open && setDialogKind(null)}
+        kind={dialogKind || 'ASSET'}
+        onSuccess={() => setDialogKind(null)}
+      />
+
+      {/* Edit Dialog */}
+      {editingItem && (
+        <NetWorthItemDialog
+          open={!!editingItem}
+          onOpenChange={(open) => !open && setEditingItem(null)}
+          kind={editingItem.kind}
+          item={editingItem}
+          onSuccess={() => setEditingItem(null)}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      <AlertDialog open={!!deletingItem} onOpenChange={(open) => !open && setDeletingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('netWorth.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('netWorth.deleteDescription', { name: deletingItem?.name || '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>{t('transaction.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('netWorth.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
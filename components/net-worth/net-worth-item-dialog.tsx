@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { createNetWorthItem, updateNetWorthItem } from '@/app/actions/net-worth'
+import { parseAmount } from '@/lib/currency'
+import { NET_WORTH_ITEM_TYPES, type NetWorthItem, type NetWorthItemKind } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.string().min(1),
+  balance: z
+    .string()
+    .refine((val) => val === '' || (!isNaN(parseAmount(val)) && parseAmount(val) >= 0), 'Balance must not be negative'),
+  date: z.string(),
+})
+
+type FormData = z.infer<typeof formSchema>
+
+interface NetWorthItemDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  kind: NetWorthItemKind
+  item?: NetWorthItem
+  onSuccess: () => void
+}
+
+function getDefaultValues(kind: NetWorthItemKind, item?: NetWorthItem): FormData {
+  return {
+    name: item?.name || '',
+    type: item?.type || NET_WORTH_ITEM_TYPES[kind][0],
+    balance: '',
+    date: format(new Date(), 'yyyy-MM-dd'),
+  }
+}
+
+/**
+ * Create or edit an asset or liability
+ * New items can get their current balance right away
+ */
+export function NetWorthItemDialog({ open, onOpenChange, kind, item, onSuccess }: NetWorthItemDialogProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditing = !!item
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaultValues(kind, item),
+  })
+
+  // Reset form when dialog opens with a different item
+  useEffect(() => {
+    form.reset(getDefaultValues(kind, item))
+  }, [kind, item, open, form])
+
+  async function onSubmit(data: FormData) {
+    setIsSubmitting(true)
+
+    try {
+      const input = {
+        name: data.name,
+        kind,
+        type: data.type as NetWorthItem['type'],
+      }
+      const result = isEditing
+        ? await updateNetWorthItem(item.id, input)
+        : await createNetWorthItem(input, data.balance ? { date: data.date, balance: data.balance } : undefined)
+
+      if (result.success) {
+        showUndoToast(isEditing ? t('netWorth.updateSuccess') : t('netWorth.createSuccess'))
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Form submission error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? t('netWorth.editTitle') : t(kind === 'ASSET' ? 'netWorth.addAsset' : 'netWorth.addLiability')}
+          </DialogTitle>
+          <DialogDescription>
+            {t(kind === 'ASSET' ? 'netWorth.assetDescription' : 'netWorth.liabilityDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('netWorth.name')}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder={t(kind === 'ASSET' ? 'netWorth.assetPlaceholder' : 'netWorth.liabilityPlaceholder')}
+                      autoFocus
+                      className="bg-white"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('netWorth.type')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {NET_WORTH_ITEM_TYPES[kind].map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {t(`netWorth.types.${type}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!isEditing && (
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="balance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t(kind === 'ASSET' ? 'netWorth.value' : 'netWorth.owed')}{' '}
+                        <span className="text-zinc-400">({t('transaction.optional')})</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('netWorth.date')}</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="date" className="bg-white" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <p className="col-span-2 text-sm text-zinc-500">{t('netWorth.balanceHint')}</p>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                {t('transaction.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? t('netWorth.save') : t('netWorth.create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
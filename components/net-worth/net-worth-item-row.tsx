@@ -0,0 +1,213 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format, parseISO } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import {
+  Archive,
+  ArchiveRestore,
+  Banknote,
+  Building2,
+  Car,
+  ChevronDown,
+  ChevronUp,
+  CreditCard,
+  Gem,
+  HandCoins,
+  Home,
+  Loader2,
+  Pencil,
+  PiggyBank,
+  Receipt,
+  Trash2,
+  TrendingUp,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { deleteNetWorthSnapshot, recordNetWorthSnapshot, updateNetWorthItem } from '@/app/actions/net-worth'
+import { formatCurrency } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { ApiResponse, NetWorthItemType, NetWorthOverview } from '@/lib/types'
+
+const ITEM_TYPE_ICONS: Record<NetWorthItemType, typeof PiggyBank> = {
+  SAVINGS: PiggyBank,
+  INVESTMENT: TrendingUp,
+  PROPERTY: Home,
+  VEHICLE: Car,
+  OTHER_ASSET: Gem,
+  LOAN: HandCoins,
+  MORTGAGE: Building2,
+  CREDIT: CreditCard,
+  OTHER_LIABILITY: Receipt,
+}
+
+interface NetWorthItemRowProps {
+  item: NetWorthOverview['items'][number]
+  currency: string
+  locale: string
+  onEdit: () => void
+  onDelete: () => void
+}
+
+/**
+ * Asset or liability with its latest balance
+ * Expands to record a new balance and to show the recorded ones
+ */
+export function NetWorthItemRow({ item, currency, locale, onEdit, onDelete }: NetWorthItemRowProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [balance, setBalance] = useState('')
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const TypeIcon = ITEM_TYPE_ICONS[item.type] || Banknote
+  const latest = item.snapshots[0]
+  const money = (amount: string) => formatCurrency(parseFloat(amount), currency, '', locale)
+
+  async function run(action: () => Promise<ApiResponse<unknown>>, message: string) {
+    try {
+      const result = await action()
+      if (result.success) {
+        showUndoToast(message)
+        return true
+      }
+      toast.error(result.error)
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Net worth error:', error)
+    }
+    return false
+  }
+
+  async function handleRecord(e: React.FormEvent) {
+    e.preventDefault()
+    setIsSaving(true)
+    const saved = await run(
+      () => recordNetWorthSnapshot({ item_id: item.id, date, balance }),
+      t('netWorth.snapshotSuccess')
+    )
+    if (saved) setBalance('')
+    setIsSaving(false)
+  }
+
+  return (
+    <div className={`py-3 px-3 group ${item.is_active ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-3">
+        <div className="w-9 h-9 rounded-md flex items-center justify-center flex-shrink-0 bg-zinc-100">
+          <TypeIcon className="w-4 h-4 text-zinc-600" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-zinc-900 truncate">{item.name}</div>
+          <div className="text-xs text-zinc-500">
+            {t(`netWorth.types.${item.type}`)}
+            {' · '}
+            {latest
+              ? t('netWorth.asOf', { date: format(parseISO(latest.date), 'PP', { locale: dateLocale }) })
+              : t('netWorth.noBalance')}
+            {!item.is_active && ` · ${t('netWorth.archived')}`}
+          </div>
+        </div>
+
+        <div className="text-sm font-semibold tabular-nums text-zinc-900">{latest ? money(latest.balance) : '–'}</div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setIsExpanded(!isExpanded)} className="h-7 px-2 text-xs">
+            {isExpanded ? <ChevronUp className="w-3.5 h-3.5 mr-1" /> : <ChevronDown className="w-3.5 h-3.5 mr-1" />}
+            {t('netWorth.updateBalance')}
+          </Button>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button variant="ghost" size="sm" onClick={onEdit} className="h-7 w-7 p-0">
+              <Pencil className="w-3.5 h-3.5" />
+              <span className="sr-only">Edit</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                run(
+                  () =>
+                    updateNetWorthItem(item.id, {
+                      name: item.name,
+                      kind: item.kind,
+                      type: item.type,
+                      is_active: !item.is_active,
+                    }),
+                  item.is_active ? t('netWorth.archiveSuccess') : t('netWorth.restoreSuccess')
+                )
+              }
+              className="h-7 w-7 p-0"
+              title={item.is_active ? t('netWorth.archive') : t('netWorth.restore')}
+            >
+              {item.is_active ? <Archive className="w-3.5 h-3.5" /> : <ArchiveRestore className="w-3.5 h-3.5" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              <span className="sr-only">Delete</span>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-3 ml-12 space-y-3">
+          <form onSubmit={handleRecord} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={balance}
+              onChange={(e) => setBalance(e.target.value)}
+              placeholder={t(item.kind === 'ASSET' ? 'netWorth.value' : 'netWorth.owed')}
+              inputMode="decimal"
+              className="h-8 w-32 bg-white tabular-nums"
+              autoFocus
+            />
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="h-8 w-40 bg-white"
+            />
+            <Button type="submit" size="sm" disabled={isSaving || !balance || !date}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('netWorth.saveBalance')}
+            </Button>
+          </form>
+          <p className="text-xs text-zinc-500">
+            {t(item.kind === 'ASSET' ? 'netWorth.assetBalanceHint' : 'netWorth.liabilityBalanceHint')}
+          </p>
+
+          {item.snapshots.length > 0 && (
+            <div className="divide-y divide-zinc-100 rounded-lg border border-zinc-100">
+              {item.snapshots.map((snapshot) => (
+                <div key={snapshot.id} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                  <span className="flex-1 text-zinc-500">
+                    {format(parseISO(snapshot.date), 'PP', { locale: dateLocale })}
+                  </span>
+                  <span className="tabular-nums text-zinc-900">{money(snapshot.balance)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => run(() => deleteNetWorthSnapshot(snapshot.id), t('netWorth.snapshotDeleted'))}
+                    className="h-6 w-6 p-0 text-zinc-400 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { AlertTriangle, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { formatCurrency } from '@/lib/currency'
+import { downloadFile, getExportFilename, toCsv } from '@/lib/export'
+import { VARIANCE_COLUMNS, getVarianceExportRows, type ReportRange } from '@/lib/reports'
+import type { BudgetVariance, VarianceReport } from '@/lib/types'
+
+interface BudgetVarianceTableProps {
+  report: VarianceReport | null
+  range: ReportRange
+  currency: string
+  locale: string
+  getHref: (categoryId: string, month: string | null) => string // null: whole range
+}
+
+/**
+ * Budget vs. actual per category: one cell per month (red when over budget)
+ * and the totals of the range; categories over budget again and again are highlighted
+ */
+export function BudgetVarianceTable({ report, range, currency, locale, getHref }: BudgetVarianceTableProps) {
+  const t = useTranslations()
+  const [onlyOver, setOnlyOver] = useState(false)
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const money = (amount: number, signed = false) =>
+    formatCurrency(amount, currency, amount < 0 ? '-' : signed && amount > 0 ? '+' : '', locale)
+  const monthLabel = (month: string) => format(parse(month, 'yyyy-MM', new Date()), 'MMM yyyy', { locale: dateLocale })
+  const percent = (variance: BudgetVariance) =>
+    variance.variance_percent === null ? '–' : `${variance.variance_percent > 0 ? '+' : ''}${variance.variance_percent.toFixed(0)}%`
+
+  const cellClassName = (variance: BudgetVariance) => {
+    if (variance.is_over) return 'bg-rose-500'
+    if (variance.assigned !== 0 || variance.spent !== 0) return 'bg-emerald-400'
+    return 'bg-zinc-100'
+  }
+
+  if (!report || report.categories.length === 0) {
+    return <p className="py-8 text-center text-sm text-zinc-500">{t('reports.variance.empty')}</p>
+  }
+
+  const categories = onlyOver ? report.categories.filter((category) => category.over_months > 0) : report.categories
+
+  function handleExport() {
+    if (!report) return
+    const csv = toCsv(getVarianceExportRows(report, t('reports.variance.total')), VARIANCE_COLUMNS)
+    downloadFile(getExportFilename('budget-variance', 'csv', range.from, range.to), 'text/csv;charset=utf-8', csv)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-zinc-600">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-zinc-900"
+            checked={onlyOver}
+            onChange={(e) => setOnlyOver(e.target.checked)}
+          />
+          {t('reports.variance.onlyOver')}
+        </label>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-2" />
+          {t('reports.variance.exportCsv')}
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-zinc-500">
+              <th className="py-2 pr-3 text-left font-normal">{t('reports.variance.category')}</th>
+              <th className="py-2 pr-3 text-left font-normal">{t('reports.variance.months')}</th>
+              <th className="py-2 pl-3 text-right font-normal">{t('reports.variance.assigned')}</th>
+              <th className="py-2 pl-3 text-right font-normal">{t('reports.variance.spent')}</th>
+              <th className="py-2 pl-3 text-right font-normal">{t('reports.variance.variance')}</th>
+              <th className="py-2 pl-3 text-right font-normal">%</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {categories.map((category) => (
+              <tr key={category.category_id} className={category.is_repeatedly_over ? 'bg-rose-50' : undefined}>
+                <td className="py-2 pr-3">
+                  <Link href={getHref(category.category_id, null)} className="text-zinc-900 hover:underline">
+                    {category.category_name}
+                  </Link>
+                  <div className="text-xs text-zinc-500">{t(`budget.zbbTypes.${category.category_type}`)}</div>
+                  {category.is_repeatedly_over && (
+                    <div className="mt-0.5 flex items-center gap-1 text-xs text-rose-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      {t('reports.variance.repeatedlyOver', {
+                        count: category.over_months,
+                        total: report.months.length,
+                      })}
+                    </div>
+                  )}
+                </td>
+                <td className="py-2 pr-3">
+                  <div className="flex gap-0.5">
+                    {report.months.map((month) => {
+                      const variance = category.months[month]
+                      return (
+                        <Link
+                          key={month}
+                          href={getHref(category.category_id, month)}
+                          className={`h-4 w-2.5 rounded-sm hover:opacity-70 ${cellClassName(variance)}`}
+                          title={`${monthLabel(month)}: ${t('reports.variance.cellTitle', {
+                            assigned: money(variance.assigned),
+                            spent: money(variance.spent),
+                            variance: money(variance.variance, true),
+                          })}`}
+                        />
+                      )
+                    })}
+                  </div>
+                </td>
+                <td className="py-2 pl-3 text-right tabular-nums text-zinc-700">{money(category.total.assigned)}</td>
+                <td className="py-2 pl-3 text-right tabular-nums text-zinc-700">{money(category.total.spent)}</td>
+                <td
+                  className={`py-2 pl-3 text-right tabular-nums ${
+                    category.total.is_over ? 'text-rose-600' : 'text-emerald-600'
+                  }`}
+                >
+                  {money(category.total.variance, true)}
+                </td>
+                <td className="py-2 pl-3 text-right tabular-nums text-zinc-500">{percent(category.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-zinc-200 font-medium">
+              <td className="py-2 pr-3 text-zinc-900" colSpan={2}>
+                {t('reports.variance.total')}
+              </td>
+              <td className="py-2 pl-3 text-right tabular-nums text-zinc-900">{money(report.total.assigned)}</td>
+              <td className="py-2 pl-3 text-right tabular-nums text-zinc-900">{money(report.total.spent)}</td>
+              <td
+                className={`py-2 pl-3 text-right tabular-nums ${
+                  report.total.is_over ? 'text-rose-600' : 'text-emerald-600'
+                }`}
+              >
+                {money(report.total.variance, true)}
+              </td>
+              <td className="py-2 pl-3 text-right tabular-nums text-zinc-500">{percent(report.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-zinc-500">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-emerald-400" />
+          {t('reports.variance.legendWithin')}
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-rose-500" />
+          {t('reports.variance.legendOver')}
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-zinc-100" />
+          {t('reports.variance.legendUnused')}
+        </span>
+      </div>
+    </div>
+  )
+}
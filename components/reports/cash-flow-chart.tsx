@@ -0,0 +1,58 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { formatCurrency } from '@/lib/currency'
+import { getAxisTicks } from '@/lib/reports'
+import type { MonthlyTrend } from '@/lib/types'
+import { CHART_HEIGHT, CHART_WIDTH, ChartGrid, getChartScale, getMonthX } from '@/components/reports/chart-grid'
+
+interface CashFlowChartProps {
+  trends: MonthlyTrend[] // one per month of the range
+  currency: string
+  locale: string
+  getHref: (month: string) => string
+}
+
+/**
+ * Net cash flow (income - expenses) per month as a line; points link to the month's transactions
+ */
+export function CashFlowChart({ trends, currency, locale, getHref }: CashFlowChartProps) {
+  const router = useRouter()
+  const t = useTranslations()
+  const balances = trends.map((trend) => trend.balance)
+  const ticks = getAxisTicks(Math.min(...balances), Math.max(...balances))
+  const y = getChartScale(ticks)
+  const points = trends.map((trend, i) => ({
+    month: trend.month_iso,
+    balance: trend.balance,
+    x: getMonthX(i, trends.length),
+    y: y(trend.balance),
+  }))
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      <ChartGrid ticks={ticks} months={points.map((point) => point.month)} locale={locale} />
+      <polyline
+        points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        strokeWidth="2"
+        strokeLinejoin="round"
+        className="stroke-zinc-900"
+      />
+      {points.map((point) => (
+        <circle
+          key={point.month}
+          cx={point.x}
+          cy={point.y}
+          r="4"
+          strokeWidth="2"
+          className={`cursor-pointer fill-white ${point.balance < 0 ? 'stroke-rose-500' : 'stroke-emerald-600'}`}
+          onClick={() => router.push(getHref(point.month))}
+        >
+          <title>{`${t('reports.net')}: ${formatCurrency(point.balance, currency, point.balance < 0 ? '-' : '+', locale)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
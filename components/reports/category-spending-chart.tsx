@@ -0,0 +1,119 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { formatCurrency } from '@/lib/currency'
+import type { CategorySpending } from '@/lib/types'
+
+// Categories shown on their own; the rest is grouped as "other"
+const MAX_SEGMENTS = 7
+const OTHER_COLOR = '#d4d4d8'
+const RADIUS = 70
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS
+
+interface Segment {
+  key: string
+  label: string
+  color: string
+  amount: number
+  percentage: number
+  href: string
+}
+
+interface CategorySpendingChartProps {
+  spending: CategorySpending[]
+  currency: string
+  locale: string
+  getHref: (categoryId: string | null) => string // null: all expenses
+}
+
+/**
+ * Donut of the spending per category; segments link to the transactions
+ */
+export function CategorySpendingChart({ spending, currency, locale, getHref }: CategorySpendingChartProps) {
+  const t = useTranslations()
+  const router = useRouter()
+  const total = spending.reduce((sum, item) => sum + item.total_amount, 0)
+
+  if (total <= 0) {
+    return <p className="py-12 text-center text-sm text-zinc-500">{t('reports.noSpending')}</p>
+  }
+
+  const segments: Segment[] = spending.slice(0, MAX_SEGMENTS).map((item) => ({
+    key: item.category_id,
+    label: item.category_id === 'uncategorized' ? t('reports.uncategorized') : item.category_name,
+    color: item.category_color,
+    amount: item.total_amount,
+    percentage: (item.total_amount / total) * 100,
+    href: getHref(item.category_id),
+  }))
+  const otherAmount = spending.slice(MAX_SEGMENTS).reduce((sum, item) => sum + item.total_amount, 0)
+  if (otherAmount > 0) {
+    segments.push({
+      key: 'other',
+      label: t('reports.otherCategories'),
+      color: OTHER_COLOR,
+      amount: otherAmount,
+      percentage: (otherAmount / total) * 100,
+      href: getHref(null),
+    })
+  }
+
+  let offset = 0
+
+  return (
+    <div className="flex flex-col items-center gap-6 sm:flex-row sm:items-start">
+      <div className="relative h-48 w-48 shrink-0">
+        <svg viewBox="0 0 180 180" className="h-full w-full -rotate-90">
+          {segments.map((segment) => {
+            const length = (segment.percentage / 100) * CIRCUMFERENCE
+            const dashOffset = -offset
+            offset += length
+            return (
+              <circle
+                key={segment.key}
+                cx="90"
+                cy="90"
+                r={RADIUS}
+                fill="none"
+                stroke={segment.color}
+                strokeWidth="22"
+                strokeDasharray={`${length} ${CIRCUMFERENCE - length}`}
+                strokeDashoffset={dashOffset}
+                className="cursor-pointer transition-opacity hover:opacity-80"
+                onClick={() => router.push(segment.href)}
+              >
+                <title>{`${segment.label}: ${formatCurrency(segment.amount, currency, '', locale)}`}</title>
+              </circle>
+            )
+          })}
+        </svg>
+        <div className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center">
+          <span className="text-xs text-zinc-500">{t('reports.totalSpending')}</span>
+          <span className="text-sm font-semibold tabular-nums text-zinc-900">
+            {formatCurrency(total, currency, '', locale)}
+          </span>
+        </div>
+      </div>
+
+      <ul className="w-full space-y-1">
+        {segments.map((segment) => (
+          <li key={segment.key}>
+            <Link
+              href={segment.href}
+              className="flex items-center gap-3 rounded-md px-2 py-1.5 text-sm hover:bg-zinc-50"
+            >
+              <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: segment.color }} />
+              <span className="min-w-0 flex-1 truncate text-zinc-700">{segment.label}</span>
+              <span className="tabular-nums text-zinc-500">{segment.percentage.toFixed(1)}%</span>
+              <span className="w-28 text-right tabular-nums text-zinc-900">
+                {formatCurrency(segment.amount, currency, '', locale)}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
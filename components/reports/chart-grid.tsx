@@ -0,0 +1,77 @@
+'use client'
+
+import { format, parse } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+
+export const CHART_WIDTH = 640
+export const CHART_HEIGHT = 240
+export const CHART_PADDING = { top: 12, right: 8, bottom: 28, left: 56 }
+
+// Most month labels on the x axis; longer ranges label every n-th month
+const MAX_MONTH_LABELS = 12
+
+/**
+ * Vertical scale of a chart: value -> y coordinate
+ */
+export function getChartScale(ticks: number[]): (value: number) => number {
+  const min = ticks[0]
+  const max = ticks[ticks.length - 1]
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  return (value) => CHART_PADDING.top + (max === min ? plotHeight : ((max - value) / (max - min)) * plotHeight)
+}
+
+/**
+ * Horizontal center of the n-th of `count` months
+ */
+export function getMonthX(index: number, count: number): number {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  return CHART_PADDING.left + ((index + 0.5) / count) * plotWidth
+}
+
+interface ChartGridProps {
+  ticks: number[]
+  months: string[] // YYYY-MM
+  locale: string
+}
+
+/**
+ * Grid lines, y axis labels (compact amounts) and month labels
+ */
+export function ChartGrid({ ticks, months, locale }: ChartGridProps) {
+  const y = getChartScale(ticks)
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const compact = new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 })
+  const labelStep = Math.ceil(months.length / MAX_MONTH_LABELS)
+
+  return (
+    <g className="text-[10px]">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className={tick === 0 ? 'stroke-zinc-300' : 'stroke-zinc-100'}
+          />
+          <text x={CHART_PADDING.left - 8} y={y(tick)} dy="0.32em" textAnchor="end" className="fill-zinc-400">
+            {compact.format(tick)}
+          </text>
+        </g>
+      ))}
+      {months.map((month, i) =>
+        i % labelStep === 0 ? (
+          <text
+            key={month}
+            x={getMonthX(i, months.length)}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-zinc-400"
+          >
+            {format(parse(month, 'yyyy-MM', new Date()), 'MMM yy', { locale: dateLocale })}
+          </text>
+        ) : null
+      )}
+    </g>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { formatCurrency } from '@/lib/currency'
+import { getAxisTicks } from '@/lib/reports'
+import type { MonthlyTrend } from '@/lib/types'
+import {
+  CHART_HEIGHT,
+  CHART_PADDING,
+  CHART_WIDTH,
+  ChartGrid,
+  getChartScale,
+  getMonthX,
+} from '@/components/reports/chart-grid'
+
+interface IncomeExpenseChartProps {
+  trends: MonthlyTrend[] // one per month of the range
+  currency: string
+  locale: string
+  getHref: (month: string, type: 'income' | 'expense') => string
+}
+
+/**
+ * Income and expense bars per month; bars link to the month's transactions
+ */
+export function IncomeExpenseChart({ trends, currency, locale, getHref }: IncomeExpenseChartProps) {
+  const t = useTranslations()
+  const router = useRouter()
+  const ticks = getAxisTicks(0, Math.max(...trends.map((trend) => Math.max(trend.total_income, trend.total_expenses))))
+  const y = getChartScale(ticks)
+  const slot = (CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right) / trends.length
+  const barWidth = Math.min(24, slot * 0.35)
+
+  const bars = trends.flatMap((trend, i) => {
+    const center = getMonthX(i, trends.length)
+    return [
+      { type: 'income' as const, amount: trend.total_income, x: center - barWidth - 1, className: 'fill-emerald-500' },
+      { type: 'expense' as const, amount: trend.total_expenses, x: center + 1, className: 'fill-rose-400' },
+    ].map((bar) => ({ ...bar, month: trend.month_iso }))
+  })
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+        <ChartGrid ticks={ticks} months={trends.map((trend) => trend.month_iso)} locale={locale} />
+        {bars.map((bar) =>
+          bar.amount > 0 ? (
+            <rect
+              key={`${bar.month}-${bar.type}`}
+              x={bar.x}
+              y={y(bar.amount)}
+              width={barWidth}
+              height={y(0) - y(bar.amount)}
+              rx="2"
+              className={`${bar.className} cursor-pointer transition-opacity hover:opacity-80`}
+              onClick={() => router.push(getHref(bar.month, bar.type))}
+            >
+              <title>{`${t(`reports.${bar.type}`)}: ${formatCurrency(bar.amount, currency, '', locale)}`}</title>
+            </rect>
+          ) : null
+        )}
+      </svg>
+
+      <div className="flex justify-center gap-4 text-xs text-zinc-500">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-emerald-500" />
+          {t('reports.income')}
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-rose-400" />
+          {t('reports.expense')}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getRecentReportRange, type ReportRange } from '@/lib/reports'
+
+const PRESET_MONTHS = [3, 6, 12, 24] as const
+
+interface ReportRangePickerProps {
+  range: ReportRange
+  onChange: (range: ReportRange) => void
+}
+
+/**
+ * Month range of the reports: two month inputs and presets for recent months
+ */
+export function ReportRangePicker({ range, onChange }: ReportRangePickerProps) {
+  const t = useTranslations()
+  const thisYear = String(new Date().getFullYear())
+  const presets = [
+    ...PRESET_MONTHS.map((months) => ({
+      label: t('reports.range.lastMonths', { count: months }),
+      range: getRecentReportRange(months),
+    })),
+    {
+      label: t('reports.range.thisYear'),
+      range: { from: `${thisYear}-01`, to: getRecentReportRange(1).to },
+    },
+  ]
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="report-from" className="text-xs text-zinc-500">
+            {t('reports.range.from')}
+          </Label>
+          <Input
+            id="report-from"
+            type="month"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && onChange({ ...range, from: e.target.value })}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="report-to" className="text-xs text-zinc-500">
+            {t('reports.range.to')}
+          </Label>
+          <Input
+            id="report-to"
+            type="month"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && onChange({ ...range, to: e.target.value })}
+            className="w-40"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {presets.map((preset) => {
+          const isActive = preset.range.from === range.from && preset.range.to === range.to
+          return (
+            <Button
+              key={preset.label}
+              variant={isActive ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onChange(preset.range)}
+            >
+              {preset.label}
+            </Button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { usePathname, useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { formatCurrency } from '@/lib/currency'
+import { getRangeFilters, type ReportRange } from '@/lib/reports'
+import { buildTransactionFilterQuery, type TransactionFilters } from '@/lib/transaction-filters'
+import { ReportRangePicker } from '@/components/reports/report-range-picker'
+import { CategorySpendingChart } from '@/components/reports/category-spending-chart'
+import { IncomeExpenseChart } from '@/components/reports/income-expense-chart'
+import { CashFlowChart } from '@/components/reports/cash-flow-chart'
+import { BudgetVarianceTable } from '@/components/reports/budget-variance-table'
+import type { CategorySpending, MonthlyTrend, VarianceReport } from '@/lib/types'
+
+interface ReportsContentProps {
+  range: ReportRange
+  trends: MonthlyTrend[] // one per month of the range
+  spending: CategorySpending[]
+  variance: VarianceReport | null
+  currency: string
+  locale: string
+}
+
+/**
+ * Reports for a month range: totals, spending by category, income vs. expenses,
+ * net cash flow and budget vs. actual
+ * Every chart links to the matching transactions on the dashboard
+ */
+export function ReportsContent({ range, trends, spending, variance, currency, locale }: ReportsContentProps) {
+  const t = useTranslations()
+  const router = useRouter()
+  const pathname = usePathname()
+
+  // Extract locale from pathname
+  const localePrefix = pathname.split('/')[1]
+
+  const totals = trends.reduce(
+    (acc, trend) => ({ income: acc.income + trend.total_income, expenses: acc.expenses + trend.total_expenses }),
+    { income: 0, expenses: 0 }
+  )
+  const net = totals.income - totals.expenses
+
+  const transactionsHref = (filters: TransactionFilters) =>
+    `/${localePrefix}?${buildTransactionFilterQuery(filters)}`
+  const monthFilters = (month: string) => getRangeFilters({ from: month, to: month })
+
+  const cards = [
+    { label: t('reports.income'), value: formatCurrency(totals.income, currency, '', locale), className: 'text-emerald-600' },
+    { label: t('reports.expense'), value: formatCurrency(totals.expenses, currency, '', locale), className: 'text-zinc-900' },
+    {
+      label: t('reports.net'),
+      value: formatCurrency(net, currency, net < 0 ? '-' : '+', locale),
+      className: net < 0 ? 'text-rose-600' : 'text-emerald-600',
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <ReportRangePicker range={range} onChange={({ from, to }) => router.push(`${pathname}?from=${from}&to=${to}`)} />
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-xl border border-zinc-200 bg-white p-4">
+            <div className="text-xs text-zinc-500">{card.label}</div>
+            <div className={`mt-1 text-lg font-semibold tabular-nums ${card.className}`}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+        <h2 className="text-sm font-medium text-zinc-900">{t('reports.spendingByCategory')}</h2>
+        <CategorySpendingChart
+          spending={spending}
+          currency={currency}
+          locale={locale}
+          getHref={(categoryId) =>
+            transactionsHref({
+              type: 'expense',
+              ...(categoryId ? { category_id: categoryId } : {}),
+              ...getRangeFilters(range),
+            })
+          }
+        />
+      </section>
+
+      <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+        <h2 className="text-sm font-medium text-zinc-900">{t('reports.incomeVsExpenses')}</h2>
+        <IncomeExpenseChart
+          trends={trends}
+          currency={currency}
+          locale={locale}
+          getHref={(month, type) => transactionsHref({ type, ...monthFilters(month) })}
+        />
+      </section>
+
+      <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-900">{t('reports.cashFlow')}</h2>
+          <p className="text-xs text-zinc-500 mt-0.5">{t('reports.cashFlowHint')}</p>
+        </div>
+        <CashFlowChart
+          trends={trends}
+          currency={currency}
+          locale={locale}
+          getHref={(month) => transactionsHref(monthFilters(month))}
+        />
+      </section>
+
+      <section className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-900">{t('reports.variance.title')}</h2>
+          <p className="text-xs text-zinc-500 mt-0.5">{t('reports.variance.description')}</p>
+        </div>
+        <BudgetVarianceTable
+          report={variance}
+          range={range}
+          currency={currency}
+          locale={locale}
+          getHref={(categoryId, month) =>
+            transactionsHref({ category_id: categoryId, ...(month ? monthFilters(month) : getRangeFilters(range)) })
+          }
+        />
+      </section>
+    </div>
+  )
+}
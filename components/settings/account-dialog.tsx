@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createAccount, updateAccount } from '@/app/actions/accounts'
+import { parseAmount } from '@/lib/currency'
+import type { Account, AccountType } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export const ACCOUNT_TYPES: AccountType[] = ['CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD']
+
+const formSchema = z.object({
+  name: z.string().min(1, 'Account name is required').max(100, 'Name too long'),
+  type: z.enum(['CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD']),
+  initial_balance: z
+    .string()
+    .refine((val) => !isNaN(parseAmount(val)), 'Balance must be a number'),
+})
+
+type FormData = z.infer<typeof formSchema>
+
+interface AccountDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  account?: Account
+  onSuccess: (account: Account) => void
+}
+
+export function AccountDialog({ open, onOpenChange, account, onSuccess }: AccountDialogProps) {
+  const t = useTranslations()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditing = !!account
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: account?.name || '',
+      type: account?.type || 'CHECKING',
+      initial_balance: account?.initial_balance || '0',
+    },
+  })
+
+  // Reset form when dialog opens with a different account
+  useEffect(() => {
+    form.reset({
+      name: account?.name || '',
+      type: account?.type || 'CHECKING',
+      initial_balance: account?.initial_balance || '0',
+    })
+  }, [account, form])
+
+  async function onSubmit(data: FormData) {
+    setIsSubmitting(true)
+
+    try {
+      const result = isEditing
+        ? await updateAccount(account.id, data)
+        : await createAccount(data)
+
+      if (result.success) {
+        toast.success(
+          isEditing
+            ? t('settings.accounts.updateSuccess')
+            : t('settings.accounts.createSuccess')
+        )
+        onSuccess(result.data)
+        form.reset()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Form submission error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? t('settings.accounts.editAccount') : t('settings.accounts.createAccount')}
+          </DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? t('settings.accounts.editDescription')
+              : t('settings.accounts.createDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Account Name */}
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('settings.accounts.name')}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder={t('settings.accounts.namePlaceholder')}
+                      autoFocus
+                      className="bg-white"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Account Type */}
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('settings.accounts.type')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ACCOUNT_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {t(`settings.accounts.types.${type}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {field.value === 'CREDIT_CARD' && (
+                    <FormDescription>{t('settings.accounts.creditCardHint')}</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Initial Balance */}
+            <FormField
+              control={form.control}
+              name="initial_balance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('settings.accounts.initialBalance')}</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                  </FormControl>
+                  <FormDescription>{t('settings.accounts.initialBalanceHint')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                {t('transaction.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? t('settings.accounts.save') : t('settings.accounts.create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
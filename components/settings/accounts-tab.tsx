@@ -0,0 +1,250 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  Landmark,
+  PiggyBank,
+  Wallet,
+  CreditCard,
+  CheckCircle2,
+  Loader2,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { AccountDialog } from '@/components/settings/account-dialog'
+import { ReconcileAccountDialog } from '@/components/settings/reconcile-account-dialog'
+import { deleteAccount } from '@/app/actions/accounts'
+import { formatCurrency } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { AccountType, AccountWithBalance } from '@/lib/types'
+
+const ACCOUNT_TYPE_ICONS: Record<AccountType, typeof Landmark> = {
+  CHECKING: Landmark,
+  SAVINGS: PiggyBank,
+  CASH: Wallet,
+  CREDIT_CARD: CreditCard,
+}
+
+interface AccountsTabProps {
+  accounts: AccountWithBalance[]
+  currency: string
+  locale: string
+}
+
+export function AccountsTab({ accounts, currency, locale }: AccountsTabProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [selectedAccount, setSelectedAccount] = useState<AccountWithBalance | null>(null)
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isReconcileDialogOpen, setIsReconcileDialogOpen] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const totalBalance = accounts.reduce((sum, a) => sum + parseFloat(a.balance), 0)
+
+  const openDialog = (account: AccountWithBalance, setOpen: (open: boolean) => void) => {
+    setSelectedAccount(account)
+    setOpen(true)
+  }
+
+  async function handleDelete() {
+    if (!selectedAccount) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteAccount(selectedAccount.id)
+      if (result.success) {
+        showUndoToast(t('settings.accounts.deleteSuccess'))
+        setIsDeleteDialogOpen(false)
+        setSelectedAccount(null)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Delete error:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const renderAccountRow = (account: AccountWithBalance) => {
+    const TypeIcon = ACCOUNT_TYPE_ICONS[account.type] || Landmark
+    const balance = parseFloat(account.balance)
+
+    return (
+      <div
+        key={account.id}
+        className="flex items-center gap-3 py-3 px-3 rounded-lg hover:bg-zinc-50 transition-colors group"
+      >
+        <div className="w-9 h-9 rounded-md flex items-center justify-center flex-shrink-0 bg-zinc-100">
+          <TypeIcon className="w-4 h-4 text-zinc-600" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-zinc-900 truncate">{account.name}</div>
+          <div className="text-xs text-zinc-500">
+            {t(`settings.accounts.types.${account.type}`)}
+            {' · '}
+            {account.last_reconciled_at
+              ? t('settings.accounts.reconcile.lastReconciled', {
+                  date: format(new Date(account.last_reconciled_at), 'PP', { locale: dateLocale }),
+                })
+              : t('settings.accounts.reconcile.neverReconciled')}
+          </div>
+        </div>
+
+        <div className="text-right">
+          <div className={`text-sm font-semibold tabular-nums ${balance < 0 ? 'text-red-600' : 'text-zinc-900'}`}>
+            {formatCurrency(Math.abs(balance), currency, balance < 0 ? '-' : '', locale)}
+          </div>
+          {account.unreconciled_count > 0 && (
+            <div className="text-xs text-zinc-400">
+              {t('settings.accounts.reconcile.unreconciled', { count: account.unreconciled_count })}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(account, setIsReconcileDialogOpen)}
+            className="h-7 px-2 text-xs"
+          >
+            <CheckCircle2 className="w-3.5 h-3.5 mr-1" />
+            {t('settings.accounts.reconcile.action')}
+          </Button>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => openDialog(account, setIsEditDialogOpen)}
+              className="h-7 w-7 p-0"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+              <span className="sr-only">Edit</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => openDialog(account, setIsDeleteDialogOpen)}
+              className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              <span className="sr-only">Delete</span>
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('settings.accounts.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('settings.accounts.description')}</p>
+        </div>
+        <Button onClick={() => setIsCreateDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('settings.accounts.addNew')}
+        </Button>
+      </div>
+
+      {/* Account List */}
+      <div className="rounded-xl border border-zinc-200 bg-white p-2">
+        {accounts.length === 0 ? (
+          <div className="text-center py-6 text-zinc-400 text-sm">{t('settings.accounts.noAccounts')}</div>
+        ) : (
+          <>
+            <div className="divide-y divide-zinc-100">{accounts.map(renderAccountRow)}</div>
+            <div className="flex justify-between px-3 pt-3 pb-1 mt-1 border-t border-zinc-200 text-sm">
+              <span className="text-zinc-500">{t('settings.accounts.totalBalance')}</span>
+              <span className="font-semibold tabular-nums">
+                {formatCurrency(Math.abs(totalBalance), currency, totalBalance < 0 ? '-' : '', locale)}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Create Dialog */}
+      <AccountDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        onSuccess={() => setIsCreateDialogOpen(false)}
+      />
+
+      {/* Edit Dialog */}
+      {selectedAccount && (
+        <AccountDialog
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          account={selectedAccount}
+          onSuccess={() => {
+            setIsEditDialogOpen(false)
+            setSelectedAccount(null)
+          }}
+        />
+      )}
+
+      {/* Reconcile Dialog */}
+      {selectedAccount && (
+        <ReconcileAccountDialog
+          open={isReconcileDialogOpen}
+          onOpenChange={setIsReconcileDialogOpen}
+          account={selectedAccount}
+          currency={currency}
+          locale={locale}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      {selectedAccount && (
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('settings.accounts.deleteTitle')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('settings.accounts.deleteDescription', { name: selectedAccount.name })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>{t('transaction.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+              >
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('settings.accounts.delete')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format, startOfMonth } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { ArrowRight, Loader2 } from 'lucide-react'
+import { applyCategoryRulesToRange, previewCategoryRules } from '@/app/actions/rules'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import type { Category, CategoryRuleChange } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+
+interface ApplyRulesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Apply the rules to existing transactions of a date range
+ * Shows a preview first; unchecked rows are left alone
+ */
+export function ApplyRulesDialog({ open, onOpenChange, categories, currency, locale }: ApplyRulesDialogProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [onlyUncategorized, setOnlyUncategorized] = useState(true)
+  const [changes, setChanges] = useState<CategoryRuleChange[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isWorking, setIsWorking] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+
+  const getCategoryName = (categoryId: string | null) => {
+    const category = categories.find((c) => c.id === categoryId)
+    return category ? getCategoryDisplayName(category, t) : t('transaction.uncategorized')
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next)
+    if (!next) setChanges(null)
+  }
+
+  async function handlePreview() {
+    setIsWorking(true)
+    try {
+      const result = await previewCategoryRules({ from, to, only_uncategorized: onlyUncategorized })
+      if (result.success) {
+        setChanges(result.data)
+        setSelected(new Set(result.data.map((c) => c.transaction_id)))
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Rule preview error:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  async function handleApply() {
+    setIsWorking(true)
+    try {
+      const result = await applyCategoryRulesToRange({
+        from,
+        to,
+        only_uncategorized: onlyUncategorized,
+        transaction_ids: Array.from(selected),
+      })
+      if (result.success) {
+        showUndoToast(t('rules.apply.success', { count: result.data }))
+        handleOpenChange(false)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Rule apply error:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const toggleRow = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('rules.apply.title')}</DialogTitle>
+          <DialogDescription>{t('rules.apply.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{t('rules.apply.from')}</Label>
+              <Input
+                type="date"
+                value={from}
+                onChange={(e) => {
+                  setFrom(e.target.value)
+                  setChanges(null)
+                }}
+                className="bg-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('rules.apply.to')}</Label>
+              <Input
+                type="date"
+                value={to}
+                onChange={(e) => {
+                  setTo(e.target.value)
+                  setChanges(null)
+                }}
+                className="bg-white"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-zinc-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-zinc-900"
+              checked={onlyUncategorized}
+              onChange={(e) => {
+                setOnlyUncategorized(e.target.checked)
+                setChanges(null)
+              }}
+            />
+            {t('rules.apply.onlyUncategorized')}
+          </label>
+
+          {changes !== null &&
+            (changes.length === 0 ? (
+              <div className="text-center py-6 text-zinc-400 text-sm">{t('rules.apply.noChanges')}</div>
+            ) : (
+              <ScrollArea className="h-72 rounded-lg border border-zinc-200">
+                <div className="divide-y divide-zinc-100">
+                  {changes.map((change) => {
+                    const amount = parseFloat(change.amount)
+                    return (
+                      <label
+                        key={change.transaction_id}
+                        className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-zinc-50"
+                      >
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-zinc-900"
+                          checked={selected.has(change.transaction_id)}
+                          onChange={() => toggleRow(change.transaction_id)}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="truncate text-zinc-900">
+                            {change.new_memo !== change.memo ? (
+                              <>
+                                <span className="line-through text-zinc-400">{change.memo}</span> {change.new_memo}
+                              </>
+                            ) : (
+                              change.memo || '—'
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-zinc-500">
+                            {format(parseLocalDate(change.date), 'PP', { locale: dateLocale })}
+                            {' · '}
+                            {getCategoryName(change.category_id)}
+                            <ArrowRight className="w-3 h-3" />
+                            <span className="font-medium text-zinc-700">{getCategoryName(change.new_category_id)}</span>
+                          </div>
+                        </div>
+                        <div className="font-semibold tabular-nums text-zinc-900">
+                          {formatCurrency(amount, currency, amount > 0 ? '+' : '-', locale)}
+                        </div>
+                      </label>
+                    )
+                  })}
+                </div>
+              </ScrollArea>
+            ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isWorking}>
+            {t('transaction.cancel')}
+          </Button>
+          {changes === null || changes.length === 0 ? (
+            <Button onClick={handlePreview} disabled={isWorking || !from || !to}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('rules.apply.preview')}
+            </Button>
+          ) : (
+            <Button onClick={handleApply} disabled={isWorking || selected.size === 0}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('rules.apply.confirm', { count: selected.size })}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -111,6 +111,9 @@ export function CategoriesTab({ initialCategories }: CategoriesTabProps) {
     })
 
     filteredCategories.forEach((category) => {
+      // Card payment categories are managed through their credit card account
+      if (category.type === 'CREDIT_CARD') return
+
       const type = category.type || 'VARIABLE'
       if (groups[type]) {
         groups[type].push(category)
@@ -314,6 +317,7 @@ export function CategoriesTab({ initialCategories }: CategoriesTabProps) {
       <CategoryDialog
         open={isCreateDialogOpen}
         onOpenChange={setIsCreateDialogOpen}
+        categories={optimisticCategories}
         onSuccess={handleCategoryCreated}
       />
 
@@ -323,6 +327,7 @@ export function CategoriesTab({ initialCategories }: CategoriesTabProps) {
           open={isEditDialogOpen}
           onOpenChange={setIsEditDialogOpen}
           category={selectedCategory}
+          categories={optimisticCategories}
           onSuccess={handleCategoryUpdated}
         />
       )}
@@ -38,6 +38,7 @@ import { ColorPicker } from '@/components/settings/color-picker'
 import { Loader2 } from 'lucide-react'
 import { toast } from 'sonner'
 import { getCategorySuggestion } from '@/lib/category-suggestions'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
 
 const formSchema = z.object({
   name: z.string().min(1, 'Category name is required').max(50, 'Name too long'),
@@ -46,6 +47,8 @@ const formSchema = z.object({
   type: z.enum(['FIX', 'VARIABLE', 'SF1', 'SF2', 'INCOME']),
   target_amount: z.string().optional(),
   due_date: z.string().optional(),
+  rollover_strategy: z.enum(['ACCUMULATE', 'RESET', 'SWEEP']),
+  sweep_target_category_id: z.string().optional(),
 })
 
 // Automatically determine rollover strategy based on category type
@@ -62,12 +65,18 @@ function getRolloverStrategyForType(type: ZBBCategoryType): RolloverStrategy {
   }
 }
 
+// Only spending categories can choose between RESET and SWEEP
+function canChooseRolloverStrategy(type: ZBBCategoryType): boolean {
+  return type === 'FIX' || type === 'VARIABLE'
+}
+
 type FormData = z.infer<typeof formSchema>
 
 interface CategoryDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   category?: Category
+  categories?: Category[] // used to offer SF1/SF2 sweep targets
   onSuccess: (category: Category) => void
 }
 
@@ -75,6 +84,7 @@ export function CategoryDialog({
   open,
   onOpenChange,
   category,
+  categories = [],
   onSuccess,
 }: CategoryDialogProps) {
   const t = useTranslations()
@@ -87,16 +97,26 @@ export function CategoryDialog({
       name: category?.name || '',
       icon: category?.icon || 'ShoppingCart',
       color: category?.color || '#10b981',
-      type: (category?.type as ZBBCategoryType) || 'VARIABLE',
+      type: (category?.type as FormData['type']) || 'VARIABLE',
       target_amount: category?.target_amount || '',
       due_date: category?.due_date || '',
+      rollover_strategy: category?.rollover_strategy || 'RESET',
+      sweep_target_category_id: category?.sweep_target_category_id || '',
     },
   })
 
   // Watch type to conditionally show/hide fields
   const categoryType = form.watch('type')
+  const rolloverStrategy = form.watch('rollover_strategy')
   const showTargetAmount = categoryType === 'FIX' || categoryType === 'SF1' || categoryType === 'SF2'
   const showDueDate = categoryType === 'SF1'
+  const showRolloverStrategy = canChooseRolloverStrategy(categoryType)
+  const showSweepTarget = showRolloverStrategy && rolloverStrategy === 'SWEEP'
+
+  // Sinking funds and savings goals can receive swept leftovers
+  const sweepTargets = categories.filter(
+    (c) => (c.type === 'SF1' || c.type === 'SF2') && c.id !== category?.id
+  )
 
   // Apply smart suggestions for icon and color based on name
   const applySuggestions = (name: string) => {
@@ -113,9 +133,11 @@ export function CategoryDialog({
         name: category.name || '',
         icon: category.icon || 'ShoppingCart',
         color: category.color || '#10b981',
-        type: (category.type as ZBBCategoryType) || 'VARIABLE',
+        type: (category.type as FormData['type']) || 'VARIABLE',
         target_amount: category.target_amount || '',
         due_date: category.due_date || '',
+        rollover_strategy: category.rollover_strategy || 'RESET',
+        sweep_target_category_id: category.sweep_target_category_id || '',
       })
     } else {
       form.reset({
@@ -125,6 +147,8 @@ export function CategoryDialog({
         type: 'VARIABLE',
         target_amount: '',
         due_date: '',
+        rollover_strategy: 'RESET',
+        sweep_target_category_id: '',
       })
     }
   }, [category, form])
@@ -133,14 +157,22 @@ export function CategoryDialog({
     setIsSubmitting(true)
 
     try {
+      // FIX/VARIABLE may sweep; everything else follows its type
+      const rolloverStrategy =
+        canChooseRolloverStrategy(data.type) && data.rollover_strategy === 'SWEEP'
+          ? 'SWEEP'
+          : getRolloverStrategyForType(data.type)
+
       const formData: CategoryFormData = {
         name: data.name,
         icon: data.icon,
         color: data.color,
         type: data.type,
-        rollover_strategy: getRolloverStrategyForType(data.type),
+        rollover_strategy: rolloverStrategy,
         target_amount: data.target_amount || null,
         due_date: data.due_date || null,
+        sweep_target_category_id:
+          rolloverStrategy === 'SWEEP' ? data.sweep_target_category_id || null : null,
       }
 
       const result = isEditing
@@ -237,6 +269,70 @@ export function CategoryDialog({
               )}
             />
 
+            {/* Rollover Strategy (conditional - only for FIX/VARIABLE) */}
+            {showRolloverStrategy && (
+              <FormField
+                control={form.control}
+                name="rollover_strategy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('budget.rolloverStrategy')}</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value === 'SWEEP' ? 'SWEEP' : 'RESET'}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="RESET">{t('budget.rolloverStrategies.RESET')}</SelectItem>
+                        <SelectItem value="SWEEP">{t('budget.rolloverStrategies.SWEEP')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {t(`budget.rolloverDescriptions.${field.value === 'SWEEP' ? 'SWEEP' : 'RESET'}`)}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Sweep Target (conditional - only for SWEEP) */}
+            {showSweepTarget && (
+              <FormField
+                control={form.control}
+                name="sweep_target_category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('budget.sweepTarget')}</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === '__pool__' ? '' : value)}
+                      value={field.value || '__pool__'}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="__pool__">{t('budget.sweepToPool')}</SelectItem>
+                        {sweepTargets.map((target) => (
+                          <SelectItem key={target.id} value={target.id}>
+                            {getCategoryDisplayName(target, t)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{t('budget.sweepTargetDescription')}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Icon Picker */}
             <FormField
               control={form.control}
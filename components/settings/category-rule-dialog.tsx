@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createCategoryRule, updateCategoryRule } from '@/app/actions/rules'
+import { CATEGORY_RULE_MATCH_TYPES } from '@/lib/category-rules'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import type { Category, CategoryRule } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const formSchema = z.object({
+  match_type: z.enum(['contains', 'equals', 'regex']),
+  match_value: z.string().max(200).optional(),
+  min_amount: z.string().optional(),
+  max_amount: z.string().optional(),
+  category_id: z.string().min(1, 'Please select a category'),
+  set_memo: z.string().max(200).optional(),
+})
+
+type FormData = z.infer<typeof formSchema>
+
+interface CategoryRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rule?: CategoryRule
+  categories: Category[]
+  onSuccess: (rule: CategoryRule) => void
+}
+
+function getDefaultValues(rule?: CategoryRule): FormData {
+  return {
+    match_type: rule?.match_type || 'contains',
+    match_value: rule?.match_value || '',
+    min_amount: rule?.min_amount || '',
+    max_amount: rule?.max_amount || '',
+    category_id: rule?.category_id || '',
+    set_memo: rule?.set_memo || '',
+  }
+}
+
+export function CategoryRuleDialog({
+  open,
+  onOpenChange,
+  rule,
+  categories,
+  onSuccess,
+}: CategoryRuleDialogProps) {
+  const t = useTranslations()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditing = !!rule
+
+  // Payment categories are funded by card spending, not assigned by rules
+  const selectableCategories = categories.filter((c) => c.type !== 'CREDIT_CARD')
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaultValues(rule),
+  })
+
+  // Reset form when dialog opens with a different rule
+  useEffect(() => {
+    form.reset(getDefaultValues(rule))
+  }, [rule, form])
+
+  async function onSubmit(data: FormData) {
+    setIsSubmitting(true)
+
+    try {
+      const result = isEditing ? await updateCategoryRule(rule.id, data) : await createCategoryRule(data)
+
+      if (result.success) {
+        toast.success(isEditing ? t('rules.updateSuccess') : t('rules.createSuccess'))
+        onSuccess(result.data)
+        form.reset(getDefaultValues())
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Form submission error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? t('rules.editTitle') : t('rules.createTitle')}</DialogTitle>
+          <DialogDescription>{t('rules.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Memo condition */}
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="match_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('rules.memo')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CATEGORY_RULE_MATCH_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {t(`rules.matchTypes.${type}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="match_value"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>{t('rules.text')}</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder={t('rules.textPlaceholder')} autoFocus className="bg-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Amount range */}
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="min_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t('rules.minAmount')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="max_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t('rules.maxAmount')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Category to set */}
+            <FormField
+              control={form.control}
+              name="category_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('rules.setCategory')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white">
+                        <SelectValue placeholder={t('transaction.selectCategoryShort')} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {selectableCategories.map((category) => {
+                        const CategoryIcon = getCategoryIcon(category.icon)
+                        return (
+                          <SelectItem key={category.id} value={category.id}>
+                            <div className="flex items-center gap-2">
+                              <CategoryIcon className="w-4 h-4" style={{ color: category.color || '#71717a' }} />
+                              {getCategoryDisplayName(category, t)}
+                            </div>
+                          </SelectItem>
+                        )
+                      })}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Cleaned-up memo */}
+            <FormField
+              control={form.control}
+              name="set_memo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t('rules.setMemo')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={t('rules.setMemoPlaceholder')} className="bg-white" />
+                  </FormControl>
+                  <FormDescription>{t('rules.setMemoHint')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                {t('transaction.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? t('rules.save') : t('rules.create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Archive, Download, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RestoreBackup } from '@/components/settings/restore-backup'
+import { createBackup, exportData } from '@/app/actions/export'
+import { downloadFile } from '@/lib/export'
+import { toast } from 'sonner'
+import { EXPORT_COLUMNS, type ApiResponse, type ExportDataset, type ExportFile } from '@/lib/types'
+
+const DATASETS = Object.keys(EXPORT_COLUMNS) as ExportDataset[]
+
+interface DataTabProps {
+  currency: string
+  locale: string
+}
+
+/**
+ * Export of single datasets, the full backup archive and its restore,
+ * and the import from other budgeting apps
+ */
+export function DataTab({ currency, locale }: DataTabProps) {
+  const t = useTranslations()
+  const [dataset, setDataset] = useState<ExportDataset>('transactions')
+  const [fileFormat, setFileFormat] = useState<'csv' | 'json'>('csv')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [columns, setColumns] = useState<string[]>([...EXPORT_COLUMNS.transactions])
+  const [pending, setPending] = useState<'export' | 'backup' | null>(null)
+
+  const allColumns: readonly string[] = EXPORT_COLUMNS[dataset]
+  const hasDates = dataset !== 'categories'
+
+  const handleDatasetChange = (value: ExportDataset) => {
+    setDataset(value)
+    setColumns([...EXPORT_COLUMNS[value]])
+  }
+
+  const toggleColumn = (column: string, checked: boolean) => {
+    setColumns((prev) => (checked ? [...prev, column] : prev.filter((c) => c !== column)))
+  }
+
+  async function download(kind: 'export' | 'backup', run: () => Promise<ApiResponse<ExportFile>>) {
+    setPending(kind)
+
+    try {
+      const result = await run()
+      if (result.success) {
+        downloadFile(result.data.filename, result.data.mime_type, result.data.content)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Export error:', error)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleExport = () =>
+    download('export', () =>
+      exportData({
+        dataset,
+        format: fileFormat,
+        from: hasDates && from ? from : undefined,
+        to: hasDates && to ? to : undefined,
+        columns,
+      })
+    )
+
+  return (
+    <div className="space-y-8">
+      {/* Export */}
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('export.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('export.description')}</p>
+        </div>
+
+        <div className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label>{t('export.dataset')}</Label>
+              <Select value={dataset} onValueChange={(value) => handleDatasetChange(value as ExportDataset)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATASETS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {t(`export.datasets.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>{t('export.format')}</Label>
+              <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as 'csv' | 'json')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasDates && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="export-from">{t('export.from')}</Label>
+                  <Input
+                    id="export-from"
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => setFrom(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="export-to">{t('export.to')}</Label>
+                  <Input
+                    id="export-to"
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => setTo(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {hasDates && <p className="text-xs text-zinc-500">{t(`export.rangeHints.${dataset}`)}</p>}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('export.columns')}</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setColumns(columns.length === allColumns.length ? [] : [...allColumns])}
+              >
+                {columns.length === allColumns.length ? t('export.selectNone') : t('export.selectAll')}
+              </Button>
+            </div>
+            <div className="grid gap-2 grid-cols-2 sm:grid-cols-3">
+              {allColumns.map((column) => (
+                <label key={column} className="flex items-center gap-2 text-sm text-zinc-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-zinc-900"
+                    checked={columns.includes(column)}
+                    onChange={(e) => toggleColumn(column, e.target.checked)}
+                  />
+                  {t(`export.columnNames.${column}`)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleExport} disabled={pending !== null || columns.length === 0}>
+              {pending === 'export' ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              {t('export.download')}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Backup */}
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('export.backup.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('export.backup.description')}</p>
+        </div>
+
+        <div className="rounded-xl border border-zinc-200 bg-white p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-zinc-600">{t('export.backup.contents')}</p>
+          <Button variant="outline" onClick={() => download('backup', createBackup)} disabled={pending !== null}>
+            {pending === 'backup' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Archive className="w-4 h-4 mr-2" />
+            )}
+            {t('export.backup.download')}
+          </Button>
+        </div>
+
+        <RestoreBackup locale={locale} currency={currency} />
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('export.switch.heading')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('export.switch.intro')}</p>
+        </div>
+
+        <RestoreBackup locale={locale} currency={currency} source="budgetApp" />
+      </div>
+    </div>
+  )
+}
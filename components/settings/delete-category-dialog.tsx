@@ -16,6 +16,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { Loader2 } from 'lucide-react'
+import { useUndoToast } from '@/components/history/use-undo-toast'
 import { toast } from 'sonner'
 
 interface DeleteCategoryDialogProps {
@@ -32,6 +33,7 @@ export function DeleteCategoryDialog({
   onSuccess,
 }: DeleteCategoryDialogProps) {
   const t = useTranslations()
+  const showUndoToast = useUndoToast()
   const [isDeleting, setIsDeleting] = useState(false)
 
   async function handleDelete() {
@@ -41,7 +43,7 @@ export function DeleteCategoryDialog({
       const result = await deleteCategory(category.id)
 
       if (result.success) {
-        toast.success(t('settings.categories.deleteSuccess'))
+        showUndoToast(t('settings.categories.deleteSuccess'))
         onSuccess(category.id)
       } else {
         toast.error(result.error)
@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { Loader2 } from 'lucide-react'
+import { getPayeeDetails } from '@/app/actions/payees'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import type { Category, Payee, PayeeDetails } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { toast } from 'sonner'
+
+interface PayeeDetailsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  payee: Payee
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Spending history of a payee: totals, frequency and the last 12 months
+ */
+export function PayeeDetailsDialog({ open, onOpenChange, payee, categories, currency, locale }: PayeeDetailsDialogProps) {
+  const t = useTranslations()
+  const [details, setDetails] = useState<PayeeDetails | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    setIsLoading(true)
+    setDetails(null)
+    getPayeeDetails(payee.id)
+      .then((result) => {
+        if (cancelled) return
+        if (result.success) {
+          setDetails(result.data)
+        } else {
+          toast.error(result.error)
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(t('common.unexpectedError'))
+        console.error('Payee details error:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, payee.id, t])
+
+  const formatSpent = (amount: string) => {
+    const value = parseFloat(amount)
+    // Negative spending means the payee paid the user (refunds, income)
+    return formatCurrency(value, currency, value < 0 ? '+' : '', locale)
+  }
+
+  const getCategoryName = (categoryId: string | null) => {
+    const category = categories.find((c) => c.id === categoryId)
+    return category ? getCategoryDisplayName(category, t) : t('transaction.uncategorized')
+  }
+
+  const maxMonthly = details ? Math.max(...details.monthly.map((m) => Math.abs(parseFloat(m.total))), 0) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{payee.name}</DialogTitle>
+          <DialogDescription>
+            {payee.aliases.length > 0 ? t('payees.alsoKnownAs', { aliases: payee.aliases.join(', ') }) : t('payees.detailsDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !details ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-5 w-5 animate-spin text-zinc-400" />
+          </div>
+        ) : details.transaction_count === 0 ? (
+          <div className="text-center py-6 text-zinc-400 text-sm">{t('payees.details.noTransactions')}</div>
+        ) : (
+          <div className="space-y-5">
+            {/* Key figures */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border border-zinc-200 p-3">
+                <div className="text-xs text-zinc-500">{t('payees.details.totalSpent')}</div>
+                <div className="text-lg font-semibold tabular-nums text-zinc-900">{formatSpent(details.total_spent)}</div>
+              </div>
+              <div className="rounded-lg border border-zinc-200 p-3">
+                <div className="text-xs text-zinc-500">{t('payees.details.average')}</div>
+                <div className="text-lg font-semibold tabular-nums text-zinc-900">{formatSpent(details.average_amount)}</div>
+              </div>
+              <div className="rounded-lg border border-zinc-200 p-3">
+                <div className="text-xs text-zinc-500">{t('payees.details.transactions')}</div>
+                <div className="text-lg font-semibold tabular-nums text-zinc-900">{details.transaction_count}</div>
+              </div>
+            </div>
+
+            <div className="text-sm text-zinc-600">
+              {details.average_interval_days !== null && (
+                <>{t('payees.details.frequency', { days: details.average_interval_days })} · </>
+              )}
+              {t('payees.details.range', {
+                first: format(parseLocalDate(details.first_date!), 'PP', { locale: dateLocale }),
+                last: format(parseLocalDate(details.last_date!), 'PP', { locale: dateLocale }),
+              })}
+            </div>
+
+            {/* Monthly spending, last 12 months */}
+            <div>
+              <div className="text-xs font-medium text-zinc-500 mb-2">{t('payees.details.monthly')}</div>
+              <div className="flex items-end gap-1 h-24">
+                {details.monthly.map((month) => {
+                  const total = parseFloat(month.total)
+                  const height = maxMonthly > 0 ? Math.round((Math.abs(total) / maxMonthly) * 100) : 0
+                  return (
+                    <div
+                      key={month.month_iso}
+                      className="flex-1 h-full flex items-end"
+                      title={`${format(parseLocalDate(`${month.month_iso}-01`), 'MMMM yyyy', { locale: dateLocale })}: ${formatSpent(month.total)} (${month.count})`}
+                    >
+                      <div
+                        className={`w-full rounded-t ${total < 0 ? 'bg-emerald-400' : 'bg-zinc-800'}`}
+                        style={{ height: `${Math.max(height, month.count > 0 ? 4 : 0)}%` }}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {details.monthly.map((month) => (
+                  <div key={month.month_iso} className="flex-1 text-center text-[10px] text-zinc-400">
+                    {format(parseLocalDate(`${month.month_iso}-01`), 'MMMMM', { locale: dateLocale })}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Latest transactions */}
+            <div>
+              <div className="text-xs font-medium text-zinc-500 mb-1">{t('payees.details.recent')}</div>
+              <div className="divide-y divide-zinc-100">
+                {details.recent.map((transaction) => {
+                  const amount = parseFloat(transaction.amount)
+                  return (
+                    <div key={transaction.id} className="flex items-center gap-3 py-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-zinc-900">{transaction.memo || '—'}</div>
+                        <div className="text-xs text-zinc-500">
+                          {format(parseLocalDate(transaction.date), 'PP', { locale: dateLocale })}
+                          {' · '}
+                          {getCategoryName(transaction.category_id)}
+                        </div>
+                      </div>
+                      <div className={`font-semibold tabular-nums ${amount > 0 ? 'text-emerald-600' : 'text-zinc-900'}`}>
+                        {formatCurrency(amount, currency, amount > 0 ? '+' : '-', locale)}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createPayee, updatePayee } from '@/app/actions/payees'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import type { Category, Payee } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+// Radix Select does not allow an empty string as item value
+const NO_CATEGORY = '__none__'
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Payee name is required').max(100),
+  aliases: z.string().optional(), // comma-separated
+  default_category_id: z.string().optional(),
+  default_amount: z.string().optional(),
+})
+
+type FormData = z.infer<typeof formSchema>
+
+interface PayeeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  payee?: Payee
+  categories: Category[]
+  onSuccess: (payee: Payee) => void
+}
+
+function getDefaultValues(payee?: Payee): FormData {
+  return {
+    name: payee?.name || '',
+    aliases: payee?.aliases.join(', ') || '',
+    default_category_id: payee?.default_category_id || '',
+    default_amount: payee?.default_amount || '',
+  }
+}
+
+export function PayeeDialog({ open, onOpenChange, payee, categories, onSuccess }: PayeeDialogProps) {
+  const t = useTranslations()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditing = !!payee
+
+  // Payment categories are funded by card spending, not assigned to transactions
+  const selectableCategories = categories.filter((c) => c.type !== 'CREDIT_CARD')
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaultValues(payee),
+  })
+
+  // Reset form when dialog opens with a different payee
+  useEffect(() => {
+    form.reset(getDefaultValues(payee))
+  }, [payee, form])
+
+  async function onSubmit(data: FormData) {
+    setIsSubmitting(true)
+
+    try {
+      const input = {
+        ...data,
+        aliases: (data.aliases || '').split(','),
+      }
+      const result = isEditing ? await updatePayee(payee.id, input) : await createPayee(input)
+
+      if (result.success) {
+        toast.success(isEditing ? t('payees.updateSuccess') : t('payees.createSuccess'))
+        if (result.data.linked > 0) {
+          toast.success(t('payees.linked', { count: result.data.linked }))
+        }
+        onSuccess(result.data.payee)
+        form.reset(getDefaultValues())
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Form submission error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? t('payees.editTitle') : t('payees.createTitle')}</DialogTitle>
+          <DialogDescription>{t('payees.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('payees.name')}</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={t('payees.namePlaceholder')} autoFocus className="bg-white" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="aliases"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t('payees.aliases')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={t('payees.aliasesPlaceholder')} className="bg-white" />
+                  </FormControl>
+                  <FormDescription>{t('payees.aliasesHint')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="default_category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('payees.defaultCategory')}</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_CATEGORY ? '' : value)}
+                      value={field.value || NO_CATEGORY}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>{t('payees.noDefault')}</SelectItem>
+                        {selectableCategories.map((category) => {
+                          const CategoryIcon = getCategoryIcon(category.icon)
+                          return (
+                            <SelectItem key={category.id} value={category.id}>
+                              <div className="flex items-center gap-2">
+                                <CategoryIcon className="w-4 h-4" style={{ color: category.color || '#71717a' }} />
+                                {getCategoryDisplayName(category, t)}
+                              </div>
+                            </SelectItem>
+                          )
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="default_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t('payees.defaultAmount')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input {...field} type="text" inputMode="decimal" className="bg-white tabular-nums" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                {t('transaction.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? t('payees.save') : t('payees.create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,239 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Plus, Pencil, Trash2, BarChart3, Store, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { PayeeDialog } from '@/components/settings/payee-dialog'
+import { PayeeDetailsDialog } from '@/components/settings/payee-details-dialog'
+import { deletePayee } from '@/app/actions/payees'
+import { searchPayees } from '@/lib/payees'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { Category, Payee } from '@/lib/types'
+
+interface PayeesTabProps {
+  payees: Payee[]
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+export function PayeesTab({ payees, categories, currency, locale }: PayeesTabProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [query, setQuery] = useState('')
+  const [selectedPayee, setSelectedPayee] = useState<Payee | null>(null)
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const visiblePayees = query.trim() ? searchPayees(payees, query, payees.length) : payees
+
+  const openDialog = (payee: Payee, setOpen: (open: boolean) => void) => {
+    setSelectedPayee(payee)
+    setOpen(true)
+  }
+
+  const describeDefaults = (payee: Payee) => {
+    const parts: string[] = []
+    const category = categories.find((c) => c.id === payee.default_category_id)
+    if (category) {
+      parts.push(getCategoryDisplayName(category, t))
+    }
+    if (payee.default_amount) {
+      parts.push(formatCurrency(parseFloat(payee.default_amount), currency, '', locale))
+    }
+    return parts.join(' · ')
+  }
+
+  async function handleDelete() {
+    if (!selectedPayee) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deletePayee(selectedPayee.id)
+      if (result.success) {
+        showUndoToast(t('payees.deleteSuccess'))
+        setIsDeleteDialogOpen(false)
+        setSelectedPayee(null)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Delete error:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const renderPayeeRow = (payee: Payee) => {
+    const defaults = describeDefaults(payee)
+
+    return (
+      <div
+        key={payee.id}
+        className="flex items-center gap-3 py-3 px-3 rounded-lg hover:bg-zinc-50 transition-colors group"
+      >
+        <div className="w-9 h-9 rounded-md flex items-center justify-center flex-shrink-0 bg-zinc-100">
+          <Store className="w-4 h-4 text-zinc-500" />
+        </div>
+
+        <button
+          type="button"
+          onClick={() => openDialog(payee, setIsDetailsDialogOpen)}
+          className="flex-1 min-w-0 text-left"
+        >
+          <div className="text-sm font-medium text-zinc-900 truncate">{payee.name}</div>
+          {(payee.aliases.length > 0 || defaults) && (
+            <div className="text-xs text-zinc-500 truncate">
+              {payee.aliases.join(', ')}
+              {payee.aliases.length > 0 && defaults && ' · '}
+              {defaults && `→ ${defaults}`}
+            </div>
+          )}
+        </button>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(payee, setIsDetailsDialogOpen)}
+            className="h-7 w-7 p-0"
+          >
+            <BarChart3 className="w-3.5 h-3.5" />
+            <span className="sr-only">Details</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(payee, setIsEditDialogOpen)}
+            className="h-7 w-7 p-0"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            <span className="sr-only">Edit</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(payee, setIsDeleteDialogOpen)}
+            className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('payees.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('payees.description')}</p>
+        </div>
+        <Button onClick={() => setIsCreateDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('payees.addNew')}
+        </Button>
+      </div>
+
+      {payees.length > 0 && (
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('payees.search')}
+          className="bg-white"
+        />
+      )}
+
+      {/* Payee List */}
+      <div className="rounded-xl border border-zinc-200 bg-white p-2">
+        {visiblePayees.length === 0 ? (
+          <div className="text-center py-6 text-zinc-400 text-sm">
+            {payees.length === 0 ? t('payees.noPayees') : t('payees.noMatches')}
+          </div>
+        ) : (
+          <div className="divide-y divide-zinc-100">{visiblePayees.map(renderPayeeRow)}</div>
+        )}
+      </div>
+
+      {/* Create Dialog */}
+      <PayeeDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        categories={categories}
+        onSuccess={() => setIsCreateDialogOpen(false)}
+      />
+
+      {/* Edit Dialog */}
+      {selectedPayee && (
+        <PayeeDialog
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          payee={selectedPayee}
+          categories={categories}
+          onSuccess={() => {
+            setIsEditDialogOpen(false)
+            setSelectedPayee(null)
+          }}
+        />
+      )}
+
+      {/* Details Dialog */}
+      {selectedPayee && (
+        <PayeeDetailsDialog
+          open={isDetailsDialogOpen}
+          onOpenChange={setIsDetailsDialogOpen}
+          payee={selectedPayee}
+          categories={categories}
+          currency={currency}
+          locale={locale}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      {selectedPayee && (
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('payees.deleteTitle', { name: selectedPayee.name })}</AlertDialogTitle>
+              <AlertDialogDescription>{t('payees.deleteDescription')}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>{t('transaction.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+              >
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('payees.delete')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  )
+}
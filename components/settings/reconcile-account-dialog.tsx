@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { getAccountBalanceAt, reconcileAccount } from '@/app/actions/accounts'
+import { formatCurrency, parseAmount } from '@/lib/currency'
+import type { AccountBalanceAt, AccountWithBalance } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Loader2, Lock } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface ReconcileAccountDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  account: AccountWithBalance
+  currency: string
+  locale: string
+}
+
+/**
+ * Reconcile flow: enter the statement date and balance, see the difference,
+ * then lock the transactions of the account up to that date
+ */
+export function ReconcileAccountDialog({
+  open,
+  onOpenChange,
+  account,
+  currency,
+  locale,
+}: ReconcileAccountDialogProps) {
+  const t = useTranslations()
+  const [statementBalance, setStatementBalance] = useState('')
+  const [statementDate, setStatementDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [balanceAt, setBalanceAt] = useState<AccountBalanceAt | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setStatementBalance(account.balance)
+      setStatementDate(format(new Date(), 'yyyy-MM-dd'))
+    }
+  }, [open, account.balance])
+
+  // Balance the statement is compared with: transactions up to the statement date
+  useEffect(() => {
+    if (!open || !statementDate) return
+
+    let cancelled = false
+    setBalanceAt(null)
+    getAccountBalanceAt(account.id, statementDate)
+      .then((result) => {
+        if (!cancelled) setBalanceAt(result)
+      })
+      .catch((error) => console.error('Error loading balance for reconcile:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, account.id, statementDate])
+
+  const balance = parseFloat(balanceAt?.balance ?? account.balance)
+  const statement = parseAmount(statementBalance)
+  const isValid = !isNaN(statement) && balanceAt !== null
+  const difference = isValid ? Math.round((statement - balance) * 100) / 100 : 0
+  const matches = isValid && difference === 0
+
+  async function handleReconcile(createAdjustment: boolean) {
+    setIsSubmitting(true)
+
+    try {
+      const result = await reconcileAccount(account.id, statementBalance, statementDate, createAdjustment)
+
+      if (result.success) {
+        toast.success(t('settings.accounts.reconcile.success'))
+        onOpenChange(false)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Reconcile error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('settings.accounts.reconcile.title', { name: account.name })}</DialogTitle>
+          <DialogDescription>{t('settings.accounts.reconcile.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('settings.accounts.reconcile.statementDate')}</Label>
+            <Input
+              type="date"
+              value={statementDate}
+              onChange={(e) => setStatementDate(e.target.value)}
+              className="bg-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('settings.accounts.reconcile.statementBalance')}</Label>
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={statementBalance}
+              onChange={(e) => setStatementBalance(e.target.value)}
+              autoFocus
+              className="bg-white tabular-nums"
+            />
+          </div>
+
+          <div className="rounded-lg border border-zinc-200 divide-y divide-zinc-100 text-sm">
+            <div className="flex justify-between px-3 py-2">
+              <span className="text-zinc-500">{t('settings.accounts.reconcile.appBalance')}</span>
+              <span className="tabular-nums">
+                {formatCurrency(Math.abs(balance), currency, balance < 0 ? '-' : '', locale)}
+              </span>
+            </div>
+            <div className="flex justify-between px-3 py-2">
+              <span className="text-zinc-500">{t('settings.accounts.reconcile.difference')}</span>
+              <span
+                className={`font-semibold tabular-nums ${matches ? 'text-emerald-600' : 'text-red-600'}`}
+              >
+                {isValid
+                  ? formatCurrency(Math.abs(difference), currency, difference < 0 ? '-' : difference > 0 ? '+' : '', locale)
+                  : '—'}
+              </span>
+            </div>
+          </div>
+
+          <p className="text-xs text-zinc-500 flex items-center gap-1">
+            <Lock className="w-3 h-3" />
+            {t('settings.accounts.reconcile.lockHint', { count: balanceAt?.unreconciled_count ?? 0 })}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            {t('transaction.cancel')}
+          </Button>
+          {matches ? (
+            <Button onClick={() => handleReconcile(false)} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('settings.accounts.reconcile.confirm')}
+            </Button>
+          ) : (
+            <Button onClick={() => handleReconcile(true)} disabled={isSubmitting || !isValid}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('settings.accounts.reconcile.confirmWithAdjustment')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { Plus, Pencil, Trash2, Repeat, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { RecurringTransactionDialog } from '@/components/settings/recurring-transaction-dialog'
+import { deleteRecurringTransaction } from '@/app/actions/recurring'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { Account, Category, RecurringTransaction } from '@/lib/types'
+
+interface RecurringTabProps {
+  recurring: RecurringTransaction[]
+  categories: Category[]
+  accounts: Account[]
+  currency: string
+  locale: string
+}
+
+export function RecurringTab({ recurring, categories, accounts, currency, locale }: RecurringTabProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [selectedRecurring, setSelectedRecurring] = useState<RecurringTransaction | null>(null)
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+
+  const openDialog = (item: RecurringTransaction, setOpen: (open: boolean) => void) => {
+    setSelectedRecurring(item)
+    setOpen(true)
+  }
+
+  const getLabel = (item: RecurringTransaction) => {
+    const category = categories.find((c) => c.id === item.category_id)
+    return item.memo || (category ? getCategoryDisplayName(category, t) : t('transaction.uncategorized'))
+  }
+
+  async function handleDelete() {
+    if (!selectedRecurring) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteRecurringTransaction(selectedRecurring.id)
+      if (result.success) {
+        showUndoToast(t('recurring.deleteSuccess'))
+        setIsDeleteDialogOpen(false)
+        setSelectedRecurring(null)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Delete error:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const renderRecurringRow = (item: RecurringTransaction) => {
+    const category = categories.find((c) => c.id === item.category_id)
+    const CategoryIcon = category ? getCategoryIcon(category.icon) : Repeat
+    const color = category?.color || '#71717a'
+    const amount = parseFloat(item.amount)
+
+    return (
+      <div
+        key={item.id}
+        className={`flex items-center gap-3 py-3 px-3 rounded-lg hover:bg-zinc-50 transition-colors group ${
+          item.is_active ? '' : 'opacity-60'
+        }`}
+      >
+        <div
+          className="w-9 h-9 rounded-md flex items-center justify-center flex-shrink-0"
+          style={{ backgroundColor: `${color}15` }}
+        >
+          <CategoryIcon className="w-4 h-4" style={{ color }} />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-zinc-900 truncate">{getLabel(item)}</div>
+          <div className="text-xs text-zinc-500">
+            {t(`recurring.frequencies.${item.frequency}`)}
+            {' · '}
+            {item.is_active
+              ? t('recurring.nextDate', {
+                  date: format(parseLocalDate(item.next_date), 'PP', { locale: dateLocale }),
+                })
+              : t('recurring.ended')}
+          </div>
+        </div>
+
+        <div className={`text-sm font-semibold tabular-nums ${amount > 0 ? 'text-emerald-600' : 'text-zinc-900'}`}>
+          {formatCurrency(amount, currency, amount > 0 ? '+' : '-', locale)}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(item, setIsEditDialogOpen)}
+            className="h-7 w-7 p-0"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            <span className="sr-only">Edit</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(item, setIsDeleteDialogOpen)}
+            className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('recurring.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('recurring.description')}</p>
+        </div>
+        <Button onClick={() => setIsCreateDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('recurring.addNew')}
+        </Button>
+      </div>
+
+      {/* Schedule List */}
+      <div className="rounded-xl border border-zinc-200 bg-white p-2">
+        {recurring.length === 0 ? (
+          <div className="text-center py-6 text-zinc-400 text-sm">{t('recurring.noRecurring')}</div>
+        ) : (
+          <div className="divide-y divide-zinc-100">{recurring.map(renderRecurringRow)}</div>
+        )}
+      </div>
+
+      {/* Create Dialog */}
+      <RecurringTransactionDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        categories={categories}
+        accounts={accounts}
+        onSuccess={() => setIsCreateDialogOpen(false)}
+      />
+
+      {/* Edit Dialog */}
+      {selectedRecurring && (
+        <RecurringTransactionDialog
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          recurring={selectedRecurring}
+          categories={categories}
+          accounts={accounts}
+          onSuccess={() => {
+            setIsEditDialogOpen(false)
+            setSelectedRecurring(null)
+          }}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      {selectedRecurring && (
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('recurring.deleteTitle')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('recurring.deleteDescription', { name: getLabel(selectedRecurring) })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>{t('transaction.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+              >
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('recurring.delete')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  )
+}
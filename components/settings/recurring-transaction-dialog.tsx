@@ -0,0 +1,315 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { createRecurringTransaction, updateRecurringTransaction } from '@/app/actions/recurring'
+import { AccountSelect } from '@/components/transactions/account-select'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { RECURRING_FREQUENCIES } from '@/lib/recurring'
+import type { Account, Category, RecurringTransaction } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const formSchema = z
+  .object({
+    category_id: z.string().min(1, 'Please select a category'),
+    account_id: z.string().optional(),
+    amount: z
+      .string()
+      .min(1, 'Amount is required')
+      .refine((val) => parseFloat(val.replace(',', '.')) > 0, 'Amount must be greater than 0'),
+    memo: z.string().optional(),
+    frequency: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'semi_annual', 'annual']),
+    start_date: z.string().min(1, 'Start date is required'),
+    end_date: z.string().optional(),
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: 'End date must be after the start date',
+    path: ['end_date'],
+  })
+
+type FormData = z.infer<typeof formSchema>
+
+interface RecurringTransactionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  recurring?: RecurringTransaction
+  categories: Category[]
+  accounts: Account[]
+  onSuccess: (recurring: RecurringTransaction) => void
+}
+
+function getDefaultValues(recurring?: RecurringTransaction): FormData {
+  return {
+    category_id: recurring?.category_id || '',
+    account_id: recurring?.account_id || '',
+    amount: recurring ? Math.abs(parseFloat(recurring.amount)).toFixed(2) : '',
+    memo: recurring?.memo || '',
+    frequency: recurring?.frequency || 'monthly',
+    start_date: recurring?.start_date || format(new Date(), 'yyyy-MM-dd'),
+    end_date: recurring?.end_date || '',
+  }
+}
+
+export function RecurringTransactionDialog({
+  open,
+  onOpenChange,
+  recurring,
+  categories,
+  accounts,
+  onSuccess,
+}: RecurringTransactionDialogProps) {
+  const t = useTranslations()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditing = !!recurring
+
+  // Payment categories are funded by card spending, not scheduled directly
+  const selectableCategories = categories.filter((c) => c.type !== 'CREDIT_CARD')
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaultValues(recurring),
+  })
+
+  // Reset form when dialog opens with a different schedule
+  useEffect(() => {
+    form.reset(getDefaultValues(recurring))
+  }, [recurring, form])
+
+  async function onSubmit(data: FormData) {
+    setIsSubmitting(true)
+
+    try {
+      const result = isEditing
+        ? await updateRecurringTransaction(recurring.id, data)
+        : await createRecurringTransaction(data)
+
+      if (result.success) {
+        toast.success(isEditing ? t('recurring.updateSuccess') : t('recurring.createSuccess'))
+        onSuccess(result.data)
+        form.reset(getDefaultValues())
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Form submission error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? t('recurring.editTitle') : t('recurring.createTitle')}
+          </DialogTitle>
+          <DialogDescription>
+            {isEditing ? t('recurring.editDescription') : t('recurring.createDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Category */}
+            <FormField
+              control={form.control}
+              name="category_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('transaction.category')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-white">
+                        <SelectValue placeholder={t('transaction.selectCategoryShort')} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {selectableCategories.map((category) => {
+                        const CategoryIcon = getCategoryIcon(category.icon)
+                        return (
+                          <SelectItem key={category.id} value={category.id}>
+                            <div className="flex items-center gap-2">
+                              <CategoryIcon
+                                className="w-4 h-4"
+                                style={{ color: category.color || '#71717a' }}
+                              />
+                              {getCategoryDisplayName(category, t)}
+                            </div>
+                          </SelectItem>
+                        )
+                      })}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>{t('recurring.categoryHint')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Amount and Frequency in a row */}
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('transaction.amount')}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        className="bg-white tabular-nums"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('recurring.frequency')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECURRING_FREQUENCIES.map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>
+                            {t(`recurring.frequencies.${frequency}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Account (only when accounts exist) */}
+            {accounts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('transaction.account')}</FormLabel>
+                    <AccountSelect accounts={accounts} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Start and End Date in a row */}
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('recurring.startDate')}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="bg-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t('recurring.endDate')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="bg-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Memo */}
+            <FormField
+              control={form.control}
+              name="memo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t('transaction.memo')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={t('transaction.memoPlaceholder')} className="bg-white" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                {t('transaction.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? t('recurring.save') : t('recurring.create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
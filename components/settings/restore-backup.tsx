@@ -0,0 +1,260 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { FileSearch, Loader2, RotateCcw, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { previewRestore, restoreBackup } from '@/app/actions/restore'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import { convertBudgetAppExport } from '@/lib/budget-app-import'
+import { BACKUP_TABLES, type RestoreMode, type RestoreSummary } from '@/lib/types'
+
+const RESTORE_MODES: RestoreMode[] = ['merge', 'replace']
+
+interface RestoreBackupProps {
+  locale: string
+  currency: string
+  source?: 'backup' | 'budgetApp' // budgetApp: YNAB, Actual Budget or Finanzguru CSV files
+}
+
+/**
+ * Restore a backup archive: pick a file and mode, check the dry run, then restore
+ * Exports of other budgeting apps are converted to an archive first
+ */
+export function RestoreBackup({ locale, currency, source = 'backup' }: RestoreBackupProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [archive, setArchive] = useState<unknown>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [summary, setSummary] = useState<RestoreSummary | null>(null)
+  const [pending, setPending] = useState<'preview' | 'restore' | null>(null)
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const copy = source === 'backup' ? 'export.restore' : 'export.switch'
+
+  const reset = () => {
+    setFileName(null)
+    setArchive(null)
+    setSummary(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  async function handleFileChange(files: File[]) {
+    setSummary(null)
+    if (files.length === 0) return
+
+    if (source === 'budgetApp') {
+      const texts = await Promise.all(files.map(async (file) => ({ name: file.name, text: await file.text() })))
+      const result = convertBudgetAppExport(texts, currency)
+      if (!result) {
+        reset()
+        toast.error(t('export.switch.invalidFile'))
+        return
+      }
+
+      if (result.invalid_rows > 0) {
+        toast.warning(t('export.switch.invalidRows', { count: result.invalid_rows }))
+      }
+      setArchive(result.archive)
+      setFileName(`${t(`export.switch.sources.${result.source}`)} · ${files.map((file) => file.name).join(', ')}`)
+      return
+    }
+
+    try {
+      setArchive(JSON.parse(await files[0].text()))
+      setFileName(files[0].name)
+    } catch {
+      reset()
+      toast.error(t('export.restore.invalidFile'))
+    }
+  }
+
+  async function handlePreview() {
+    setPending('preview')
+
+    try {
+      const result = await previewRestore(archive, mode)
+      if (result.success) {
+        setSummary(result.data)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Restore preview error:', error)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  async function handleRestore() {
+    setPending('restore')
+
+    try {
+      const result = await restoreBackup(archive, mode)
+      if (result.success) {
+        showUndoToast(t(`${copy}.success`))
+        setIsConfirmOpen(false)
+        reset()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Restore error:', error)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-zinc-900">{t(`${copy}.title`)}</div>
+          <p className="text-sm text-zinc-500 truncate">{fileName || t(`${copy}.description`)}</p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={source === 'backup' ? 'application/json,.json' : 'text/csv,.csv'}
+          multiple={source === 'budgetApp'}
+          className="hidden"
+          onChange={(e) => handleFileChange(Array.from(e.target.files || []))}
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={pending !== null}>
+          <Upload className="w-4 h-4 mr-2" />
+          {t(`${copy}.chooseFile`)}
+        </Button>
+      </div>
+
+      {archive !== null && (
+        <>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {RESTORE_MODES.map((value) => (
+              <label
+                key={value}
+                className={`flex gap-3 rounded-lg border p-3 cursor-pointer ${
+                  mode === value ? 'border-zinc-900' : 'border-zinc-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name={`restore-mode-${source}`}
+                  className="mt-0.5 h-4 w-4 accent-zinc-900"
+                  checked={mode === value}
+                  onChange={() => {
+                    setMode(value)
+                    setSummary(null)
+                  }}
+                />
+                <div>
+                  <div className="text-sm font-medium text-zinc-900">{t(`export.restore.modes.${value}`)}</div>
+                  <p className="text-xs text-zinc-500">{t(`export.restore.modeHints.${value}`)}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {summary && (
+            <div className="space-y-2">
+              {source === 'backup' && (
+                <p className="text-xs text-zinc-500">
+                  {t('export.restore.backupFrom', {
+                    date: format(new Date(summary.exported_at), 'PPp', { locale: dateLocale }),
+                  })}
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-zinc-500">
+                    <th className="py-1 text-left font-normal"></th>
+                    <th className="py-1 text-right font-normal">{t(`${copy}.added`)}</th>
+                    <th className="py-1 text-right font-normal">{t('export.restore.skipped')}</th>
+                    {summary.mode === 'replace' && (
+                      <th className="py-1 text-right font-normal">{t('export.restore.removed')}</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100">
+                  {BACKUP_TABLES.map((table) => {
+                    const counts = summary.tables[table]
+                    return (
+                      <tr key={table}>
+                        <td className="py-1.5 text-zinc-700">{t(`export.restore.tables.${table}`)}</td>
+                        <td className="py-1.5 text-right tabular-nums text-zinc-900">{counts.added}</td>
+                        <td className="py-1.5 text-right tabular-nums text-zinc-500">{counts.skipped}</td>
+                        {summary.mode === 'replace' && (
+                          <td className="py-1.5 text-right tabular-nums text-red-600">{counts.removed}</td>
+                        )}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={reset} disabled={pending !== null}>
+              {t('transaction.cancel')}
+            </Button>
+            {summary ? (
+              <Button onClick={() => setIsConfirmOpen(true)} disabled={pending !== null}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {t(`${copy}.restore`)}
+              </Button>
+            ) : (
+              <Button onClick={handlePreview} disabled={pending !== null}>
+                {pending === 'preview' ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <FileSearch className="w-4 h-4 mr-2" />
+                )}
+                {t('export.restore.check')}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t(`${copy}.confirmTitle`)}</AlertDialogTitle>
+            <AlertDialogDescription>{t(`${copy}.confirm.${mode}`)}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={pending !== null}>{t('transaction.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleRestore()
+              }}
+              disabled={pending !== null}
+              className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700 focus:ring-red-600' : undefined}
+            >
+              {pending === 'restore' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t(`${copy}.restore`)}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
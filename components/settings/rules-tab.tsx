@@ -0,0 +1,277 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Plus, Pencil, Trash2, ArrowUp, ArrowDown, Wand2, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { CategoryRuleDialog } from '@/components/settings/category-rule-dialog'
+import { ApplyRulesDialog } from '@/components/settings/apply-rules-dialog'
+import { deleteCategoryRule, reorderCategoryRules, updateCategoryRule } from '@/app/actions/rules'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { formatCurrency } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { Category, CategoryRule } from '@/lib/types'
+
+interface RulesTabProps {
+  rules: CategoryRule[]
+  categories: Category[]
+  currency: string
+  locale: string
+}
+
+export function RulesTab({ rules, categories, currency, locale }: RulesTabProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [selectedRule, setSelectedRule] = useState<CategoryRule | null>(null)
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isApplyDialogOpen, setIsApplyDialogOpen] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const openDialog = (rule: CategoryRule, setOpen: (open: boolean) => void) => {
+    setSelectedRule(rule)
+    setOpen(true)
+  }
+
+  const describeCondition = (rule: CategoryRule) => {
+    const parts: string[] = []
+    if (rule.match_value) {
+      parts.push(t(`rules.conditions.${rule.match_type}`, { value: rule.match_value }))
+    }
+    if (rule.min_amount !== null && rule.max_amount !== null) {
+      parts.push(
+        t('rules.conditions.between', {
+          min: formatCurrency(parseFloat(rule.min_amount), currency, '', locale),
+          max: formatCurrency(parseFloat(rule.max_amount), currency, '', locale),
+        })
+      )
+    } else if (rule.min_amount !== null) {
+      parts.push(t('rules.conditions.atLeast', { min: formatCurrency(parseFloat(rule.min_amount), currency, '', locale) }))
+    } else if (rule.max_amount !== null) {
+      parts.push(t('rules.conditions.atMost', { max: formatCurrency(parseFloat(rule.max_amount), currency, '', locale) }))
+    }
+    return parts.join(` ${t('rules.conditions.and')} `)
+  }
+
+  async function handleMove(index: number, direction: -1 | 1) {
+    const ids = rules.map((r) => r.id)
+    const target = index + direction
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+
+    const result = await reorderCategoryRules(ids)
+    if (!result.success) {
+      toast.error(result.error)
+    }
+  }
+
+  async function handleToggleActive(rule: CategoryRule) {
+    const result = await updateCategoryRule(rule.id, {
+      match_type: rule.match_type,
+      match_value: rule.match_value || '',
+      min_amount: rule.min_amount || '',
+      max_amount: rule.max_amount || '',
+      category_id: rule.category_id,
+      set_memo: rule.set_memo || '',
+      is_active: !rule.is_active,
+    })
+    if (!result.success) {
+      toast.error(result.error)
+    }
+  }
+
+  async function handleDelete() {
+    if (!selectedRule) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteCategoryRule(selectedRule.id)
+      if (result.success) {
+        showUndoToast(t('rules.deleteSuccess'))
+        setIsDeleteDialogOpen(false)
+        setSelectedRule(null)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Delete error:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const renderRuleRow = (rule: CategoryRule, index: number) => {
+    const category = categories.find((c) => c.id === rule.category_id)
+    const CategoryIcon = getCategoryIcon(category?.icon || 'HelpCircle')
+    const color = category?.color || '#71717a'
+
+    return (
+      <div
+        key={rule.id}
+        className={`flex items-center gap-3 py-3 px-3 rounded-lg hover:bg-zinc-50 transition-colors group ${
+          rule.is_active ? '' : 'opacity-60'
+        }`}
+      >
+        <div
+          className="w-9 h-9 rounded-md flex items-center justify-center flex-shrink-0"
+          style={{ backgroundColor: `${color}15` }}
+        >
+          <CategoryIcon className="w-4 h-4" style={{ color }} />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-zinc-900 truncate">{describeCondition(rule)}</div>
+          <div className="text-xs text-zinc-500 truncate">
+            → {category ? getCategoryDisplayName(category, t) : t('transaction.uncategorized')}
+            {rule.set_memo && ` · ${t('rules.memoBecomes', { memo: rule.set_memo })}`}
+          </div>
+        </div>
+
+        <Button variant="ghost" size="sm" onClick={() => handleToggleActive(rule)} className="h-7 px-2 text-xs">
+          {rule.is_active ? t('rules.disable') : t('rules.enable')}
+        </Button>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleMove(index, -1)}
+            disabled={index === 0}
+            className="h-7 w-7 p-0"
+          >
+            <ArrowUp className="w-3.5 h-3.5" />
+            <span className="sr-only">Move up</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleMove(index, 1)}
+            disabled={index === rules.length - 1}
+            className="h-7 w-7 p-0"
+          >
+            <ArrowDown className="w-3.5 h-3.5" />
+            <span className="sr-only">Move down</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(rule, setIsEditDialogOpen)}
+            className="h-7 w-7 p-0"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            <span className="sr-only">Edit</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDialog(rule, setIsDeleteDialogOpen)}
+            className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-zinc-900">{t('rules.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-0.5">{t('rules.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsApplyDialogOpen(true)} disabled={rules.length === 0}>
+            <Wand2 className="w-4 h-4 mr-2" />
+            {t('rules.apply.button')}
+          </Button>
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('rules.addNew')}
+          </Button>
+        </div>
+      </div>
+
+      {/* Rule List (evaluation order) */}
+      <div className="rounded-xl border border-zinc-200 bg-white p-2">
+        {rules.length === 0 ? (
+          <div className="text-center py-6 text-zinc-400 text-sm">{t('rules.noRules')}</div>
+        ) : (
+          <div className="divide-y divide-zinc-100">{rules.map(renderRuleRow)}</div>
+        )}
+      </div>
+      {rules.length > 1 && <p className="text-xs text-zinc-500">{t('rules.orderHint')}</p>}
+
+      {/* Create Dialog */}
+      <CategoryRuleDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        categories={categories}
+        onSuccess={() => setIsCreateDialogOpen(false)}
+      />
+
+      {/* Edit Dialog */}
+      {selectedRule && (
+        <CategoryRuleDialog
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          rule={selectedRule}
+          categories={categories}
+          onSuccess={() => {
+            setIsEditDialogOpen(false)
+            setSelectedRule(null)
+          }}
+        />
+      )}
+
+      {/* Apply Dialog */}
+      <ApplyRulesDialog
+        open={isApplyDialogOpen}
+        onOpenChange={setIsApplyDialogOpen}
+        categories={categories}
+        currency={currency}
+        locale={locale}
+      />
+
+      {/* Delete Dialog */}
+      {selectedRule && (
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('rules.deleteTitle')}</AlertDialogTitle>
+              <AlertDialogDescription>{t('rules.deleteDescription')}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>{t('transaction.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+              >
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('rules.delete')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { UserButton } from '@clerk/nextjs'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { LanguageSwitcher } from '@/components/language-switcher'
-import { Home, Settings } from 'lucide-react'
+import { BarChart3, CalendarRange, History, Home, Landmark, Settings, TrendingDown } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 
 export function SettingsLayout({ children }: { children: React.ReactNode }) {
@@ -13,6 +13,14 @@ export function SettingsLayout({ children }: { children: React.ReactNode }) {
 
   // Extract locale from pathname
   const locale = pathname.split('/')[1]
+  const pages = [
+    { path: 'reports', icon: BarChart3, title: t('reports.title') },
+    { path: 'forecast', icon: CalendarRange, title: t('forecast.title') },
+    { path: 'net-worth', icon: Landmark, title: t('netWorth.title') },
+    { path: 'debts', icon: TrendingDown, title: t('debts.title') },
+    { path: 'history', icon: History, title: t('history.title') },
+    { path: 'settings', icon: Settings, title: t('settings.title') },
+  ]
 
   return (
     <div className="min-h-screen bg-zinc-50">
@@ -30,9 +38,22 @@ export function SettingsLayout({ children }: { children: React.ReactNode }) {
             >
               <Home className="w-5 h-5" />
             </Link>
-            <div className="text-zinc-300 cursor-not-allowed" title="Settings (current page)">
-              <Settings className="w-5 h-5" />
-            </div>
+            {pages.map(({ path, icon: Icon, title }) =>
+              pathname.endsWith(`/${path}`) ? (
+                <div key={path} className="text-zinc-300 cursor-not-allowed" title={title}>
+                  <Icon className="w-5 h-5" />
+                </div>
+              ) : (
+                <Link
+                  key={path}
+                  href={`/${locale}/${path}`}
+                  className="text-zinc-500 hover:text-zinc-900 transition-colors"
+                  title={title}
+                >
+                  <Icon className="w-5 h-5" />
+                </Link>
+              )
+            )}
             <LanguageSwitcher />
             <UserButton afterSignOutUrl={`/${locale}`} />
           </div>
@@ -1,20 +1,62 @@
 'use client'
 
 import { useTranslations } from 'next-intl'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { CategoriesTab } from '@/components/settings/categories-tab'
-import type { Category } from '@/lib/types'
+import { AccountsTab } from '@/components/settings/accounts-tab'
+import { RecurringTab } from '@/components/settings/recurring-tab'
+import { RulesTab } from '@/components/settings/rules-tab'
+import { PayeesTab } from '@/components/settings/payees-tab'
+import { DataTab } from '@/components/settings/data-tab'
+import type { AccountWithBalance, Category, CategoryRule, Payee, RecurringTransaction } from '@/lib/types'
 
 interface SettingsTabsProps {
   categories: Category[]
+  accounts: AccountWithBalance[]
+  recurring: RecurringTransaction[]
+  rules: CategoryRule[]
+  payees: Payee[]
+  currency: string
+  locale: string
 }
 
-export function SettingsTabs({ categories }: SettingsTabsProps) {
+export function SettingsTabs({ categories, accounts, recurring, rules, payees, currency, locale }: SettingsTabsProps) {
   const t = useTranslations()
 
   return (
-    <div className="w-full">
-      <h2 className="text-lg font-semibold mb-6">{t('settings.categories.title')}</h2>
-      <CategoriesTab initialCategories={categories} />
-    </div>
+    <Tabs defaultValue="categories" className="w-full">
+      <TabsList className="mb-6">
+        <TabsTrigger value="categories">{t('settings.categories.title')}</TabsTrigger>
+        <TabsTrigger value="accounts">{t('settings.accounts.title')}</TabsTrigger>
+        <TabsTrigger value="recurring">{t('recurring.title')}</TabsTrigger>
+        <TabsTrigger value="rules">{t('rules.title')}</TabsTrigger>
+        <TabsTrigger value="payees">{t('payees.title')}</TabsTrigger>
+        <TabsTrigger value="data">{t('export.tab')}</TabsTrigger>
+      </TabsList>
+      <TabsContent value="categories">
+        <CategoriesTab initialCategories={categories} />
+      </TabsContent>
+      <TabsContent value="accounts">
+        <AccountsTab accounts={accounts} currency={currency} locale={locale} />
+      </TabsContent>
+      <TabsContent value="recurring">
+        <RecurringTab
+          recurring={recurring}
+          categories={categories}
+          accounts={accounts}
+          currency={currency}
+          locale={locale}
+        />
+      </TabsContent>
+      <TabsContent value="rules">
+        <RulesTab rules={rules} categories={categories} currency={currency} locale={locale} />
+      </TabsContent>
+      <TabsContent value="payees">
+        <PayeesTab payees={payees} categories={categories} currency={currency} locale={locale} />
+      </TabsContent>
+      <TabsContent value="data">
+        <DataTab currency={currency} locale={locale} />
+      </TabsContent>
+    </Tabs>
   )
 }
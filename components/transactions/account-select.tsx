@@ -0,0 +1,48 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Account } from '@/lib/types'
+
+// Radix Select does not allow an empty string as item value
+const NO_ACCOUNT = '__none__'
+
+interface AccountSelectProps {
+  accounts: Account[]
+  value: string | undefined
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Account picker for transaction forms ('' = no account)
+ */
+export function AccountSelect({ accounts, value, onChange, disabled }: AccountSelectProps) {
+  const t = useTranslations()
+
+  return (
+    <Select
+      value={value || NO_ACCOUNT}
+      onValueChange={(next) => onChange(next === NO_ACCOUNT ? '' : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ACCOUNT}>{t('settings.accounts.noAccount')}</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { CalendarClock, Loader2, MessageSquarePlus, Tag, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { bulkDeleteTransactions, bulkUpdateTransactions } from '@/app/actions/transaction'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import { useUndoToast } from '@/components/history/use-undo-toast'
+import { toast } from 'sonner'
+import type { BulkTransactionFailure, BulkUpdateTransactionsInput, Category, Transaction } from '@/lib/types'
+
+// Radix Select does not allow an empty string as item value
+const UNCATEGORIZED = '__none__'
+
+export interface BulkActionChanges {
+  updated: Transaction[]
+  deletedIds: string[]
+  failedIds: string[] // stay selected so they can be looked at
+}
+
+interface BulkActionBarProps {
+  selectedIds: string[]
+  categories: Category[]
+  onDone: (changes: BulkActionChanges) => void
+  onClear: () => void
+}
+
+/**
+ * Actions for the selected transactions of a TransactionList
+ */
+export function BulkActionBar({ selectedIds, categories, onDone, onClear }: BulkActionBarProps) {
+  const t = useTranslations()
+  const showUndoToast = useUndoToast()
+  const [isWorking, setIsWorking] = useState(false)
+  const [shiftDays, setShiftDays] = useState('')
+  const [memoSuffix, setMemoSuffix] = useState('')
+  const [openPopover, setOpenPopover] = useState<'date' | 'memo' | null>(null)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+
+  const reportFailures = (failed: BulkTransactionFailure[]) => {
+    if (failed.length > 0) {
+      toast.error(t('transaction.bulk.failed', { count: failed.length }), { description: failed[0].error })
+    }
+  }
+
+  async function handleUpdate(changes: Omit<BulkUpdateTransactionsInput, 'ids'>) {
+    setIsWorking(true)
+
+    try {
+      const result = await bulkUpdateTransactions({ ids: selectedIds, ...changes })
+      if (result.success) {
+        const { transactions, failed } = result.data
+        if (transactions.length > 0) {
+          showUndoToast(t('transaction.bulk.updated', { count: transactions.length }))
+        }
+        reportFailures(failed)
+        onDone({ updated: transactions, deletedIds: [], failedIds: failed.map((f) => f.id) })
+        setOpenPopover(null)
+        setShiftDays('')
+        setMemoSuffix('')
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Bulk update error:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  async function handleDelete() {
+    setIsWorking(true)
+
+    try {
+      const result = await bulkDeleteTransactions({ ids: selectedIds })
+      if (result.success) {
+        const { deleted_ids, failed } = result.data
+        const deletedSelected = selectedIds.filter((id) => deleted_ids.includes(id)).length
+        if (deletedSelected > 0) {
+          showUndoToast(t('transaction.bulk.deleted', { count: deletedSelected }))
+        }
+        reportFailures(failed)
+        onDone({ updated: [], deletedIds: deleted_ids, failedIds: failed.map((f) => f.id) })
+        setIsDeleteDialogOpen(false)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Bulk delete error:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const days = parseInt(shiftDays, 10)
+
+  return (
+    <div className="sticky bottom-4 z-10 flex flex-wrap items-center gap-2 rounded-xl border border-zinc-200 bg-white p-2 shadow-lg">
+      <span className="px-2 text-sm font-medium text-zinc-900 tabular-nums">
+        {t('transaction.bulk.selected', { count: selectedIds.length })}
+      </span>
+
+      <Select
+        value=""
+        onValueChange={(value) => handleUpdate({ category_id: value === UNCATEGORIZED ? null : value })}
+        disabled={isWorking}
+      >
+        <SelectTrigger className="h-8 w-auto gap-2">
+          <Tag className="w-3.5 h-3.5" />
+          <SelectValue placeholder={t('transaction.bulk.category')} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNCATEGORIZED}>{t('transaction.uncategorized')}</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category.id} value={category.id}>
+              {getCategoryDisplayName(category, t)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={openPopover === 'date'} onOpenChange={(open) => setOpenPopover(open ? 'date' : null)}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={isWorking}>
+            <CalendarClock className="w-3.5 h-3.5" />
+            {t('transaction.bulk.shiftDate')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.bulk.shiftDays')}</Label>
+            <Input
+              type="number"
+              value={shiftDays}
+              onChange={(e) => setShiftDays(e.target.value)}
+              placeholder="-1, 7, …"
+              className="h-9 tabular-nums"
+            />
+            <p className="text-xs text-zinc-500">{t('transaction.bulk.shiftHint')}</p>
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={isWorking || !days}
+            onClick={() => handleUpdate({ shift_days: days })}
+          >
+            {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('transaction.bulk.apply')}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={openPopover === 'memo'} onOpenChange={(open) => setOpenPopover(open ? 'memo' : null)}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={isWorking}>
+            <MessageSquarePlus className="w-3.5 h-3.5" />
+            {t('transaction.bulk.appendMemo')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.bulk.memoText')}</Label>
+            <Input
+              value={memoSuffix}
+              onChange={(e) => setMemoSuffix(e.target.value)}
+              maxLength={200}
+              className="h-9"
+            />
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={isWorking || !memoSuffix.trim()}
+            onClick={() => handleUpdate({ memo_suffix: memoSuffix })}
+          >
+            {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('transaction.bulk.apply')}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+        disabled={isWorking}
+        onClick={() => setIsDeleteDialogOpen(true)}
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+        {t('transaction.bulk.delete')}
+      </Button>
+
+      <Button variant="ghost" size="sm" className="ml-auto h-8 w-8 p-0" onClick={onClear} disabled={isWorking}>
+        <X className="w-4 h-4" />
+        <span className="sr-only">{t('transaction.bulk.clearSelection')}</span>
+      </Button>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('transaction.bulk.deleteTitle', { count: selectedIds.length })}</AlertDialogTitle>
+            <AlertDialogDescription>{t('transaction.bulk.deleteDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>{t('transaction.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleDelete()
+              }}
+              disabled={isWorking}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('transaction.bulk.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
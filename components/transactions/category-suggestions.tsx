@@ -0,0 +1,64 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { Sparkles } from 'lucide-react'
+import { getCategoryIcon } from '@/lib/icon-mapper'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import type { CategoryPrediction } from '@/lib/category-prediction'
+
+interface CategorySuggestionsProps {
+  predictions: CategoryPrediction[]
+  categories: { id: string; name: string | null; icon: string | null; color: string | null; type: string }[]
+  selectedId?: string
+  onSelect: (categoryId: string) => void
+  className?: string
+}
+
+/**
+ * Ranked category suggestions for the memo being typed
+ */
+export function CategorySuggestions({
+  predictions,
+  categories,
+  selectedId,
+  onSelect,
+  className = '',
+}: CategorySuggestionsProps) {
+  const t = useTranslations()
+
+  if (predictions.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 text-xs ${className}`}>
+      <span className="flex items-center gap-1 text-zinc-500">
+        <Sparkles className="w-3 h-3" />
+        {t('transaction.suggested')}
+      </span>
+      {predictions.map((prediction) => {
+        const category = categories.find((c) => c.id === prediction.category_id)
+        if (!category) return null
+        const Icon = getCategoryIcon(category.icon)
+        const isSelected = category.id === selectedId
+
+        return (
+          <button
+            key={category.id}
+            type="button"
+            onClick={() => onSelect(category.id)}
+            className={`flex items-center gap-1 rounded-full border px-2 py-0.5 transition-colors ${
+              isSelected
+                ? 'border-zinc-900 bg-zinc-900 text-white'
+                : 'border-zinc-200 bg-white text-zinc-700 hover:bg-zinc-50'
+            }`}
+          >
+            <Icon className="w-3 h-3" style={isSelected ? undefined : { color: category.color || '#71717a' }} />
+            {getCategoryDisplayName(category, t)}
+            <span className={`tabular-nums ${isSelected ? 'text-zinc-300' : 'text-zinc-400'}`}>
+              {Math.round(prediction.confidence * 100)}%
+            </span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
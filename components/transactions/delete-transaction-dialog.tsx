@@ -20,6 +20,7 @@ import { Button } from '@/components/ui/button'
 import { deleteTransaction } from '@/app/actions/transaction'
 import { getCategoryDisplayName } from '@/lib/i18n-helpers'
 import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import { useUndoToast } from '@/components/history/use-undo-toast'
 import { toast } from 'sonner'
 
 interface DeleteTransactionDialogProps {
@@ -31,6 +32,7 @@ interface DeleteTransactionDialogProps {
 
 export function DeleteTransactionDialog({ transaction, currency, locale, onOptimisticDelete }: DeleteTransactionDialogProps) {
   const t = useTranslations()
+  const showUndoToast = useUndoToast()
   const [open, setOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
 
@@ -48,6 +50,7 @@ export function DeleteTransactionDialog({ transaction, currency, locale, onOptim
       const result = await deleteTransaction(transaction.id)
 
       if (result.success) {
+        showUndoToast(t('transaction.deleteSuccess'))
         // Dialog already closed if optimistic delete was used
         if (!onOptimisticDelete) {
           setOpen(false)
@@ -87,6 +90,7 @@ export function DeleteTransactionDialog({ transaction, currency, locale, onOptim
           <AlertDialogTitle>{t('transaction.deleteTransaction')}</AlertDialogTitle>
           <AlertDialogDescription>
             {t('transaction.deleteWarning')}
+            {transaction.transfer_id && ` ${t('transaction.transfer.deleteHint')}`}
           </AlertDialogDescription>
         </AlertDialogHeader>
 
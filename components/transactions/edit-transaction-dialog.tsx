@@ -1,10 +1,10 @@
 'use client'
 
 import { useCallback, useEffect, useRef, useState, useTransition } from 'react'
-import { useForm } from 'react-hook-form'
+import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { format } from 'date-fns'
-import { Pencil, Loader2, ArrowRightLeft, ChevronDown, ChevronUp } from 'lucide-react'
+import { Pencil, Loader2, ArrowRightLeft, ChevronDown, ChevronUp, Split, Plus, X } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import { getCategoryIcon } from '@/lib/icon-mapper'
 import { getCategoryDisplayName } from '@/lib/i18n-helpers'
@@ -34,19 +34,21 @@ import {
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { updateTransaction } from '@/app/actions/transaction'
-import { insertTransactionSchema, type InsertTransactionInput, type Category } from '@/lib/types'
-import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import { insertTransactionSchema, type InsertTransactionInput, type Category, type Account, type TransactionListItem } from '@/lib/types'
+import { AccountSelect } from '@/components/transactions/account-select'
+import { formatCurrency, parseAmount as parseAmountInput, parseLocalDate } from '@/lib/currency'
 import { toast } from 'sonner'
 
 interface EditTransactionDialogProps {
   transaction: any // Full transaction object with category data
   categories: Category[]
+  accounts?: Account[]
   currency: string
   locale: string
   onOptimisticUpdate?: (transaction: any) => void
 }
 
-export function EditTransactionDialog({ transaction, categories, currency, locale, onOptimisticUpdate }: EditTransactionDialogProps) {
+export function EditTransactionDialog({ transaction, categories, accounts = [], currency, locale, onOptimisticUpdate }: EditTransactionDialogProps) {
   const t = useTranslations()
   const [open, setOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -80,9 +82,48 @@ export function EditTransactionDialog({ transaction, categories, currency, local
       amount: parseAmount(transaction.amount),
       date: format(parseLocalDate(transaction.date), 'yyyy-MM-dd'),
       memo: transaction.memo || '',
+      // Only sent when accounts exist, so the server keeps the current account otherwise
+      account_id: accounts.length > 0 ? transaction.account_id || '' : undefined,
+      splits: transaction.is_split
+        ? [...((transaction.splits || []) as TransactionListItem['splits'])]
+            .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+            .map((split) => ({
+              category_id: split.category_id,
+              amount: parseAmount(split.amount),
+              memo: split.memo || '',
+            }))
+        : [],
     },
   })
 
+  // Split lines (empty = the transaction has a single category)
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({
+    control: form.control,
+    name: 'splits',
+  })
+  const isSplit = splitFields.length > 0
+
+  // Amount still to distribute across the split lines
+  const watchedAmount = form.watch('amount')
+  const watchedSplits = form.watch('splits') || []
+  const splitRemaining = isSplit
+    ? (parseAmountInput(watchedAmount || '0') || 0) -
+      watchedSplits.reduce((sum, split) => sum + (parseAmountInput(split.amount || '0') || 0), 0)
+    : 0
+
+  // Start a split with the current category and amount on the first line
+  const handleStartSplit = () => {
+    replaceSplits([
+      { category_id: form.getValues('category_id') || '', amount: parseAmount(form.getValues('amount') || ''), memo: '' },
+      { category_id: '', amount: '', memo: '' },
+    ])
+  }
+
+  const handleRemoveSplit = () => {
+    form.setValue('category_id', form.getValues('splits')?.[0]?.category_id || '')
+    replaceSplits([])
+  }
+
   // Determine transaction type based on amount input
   const updateTransactionType = (value: string) => {
     const newType = value.startsWith('+') ? 'income' : 'expense'
@@ -239,7 +280,9 @@ export function EditTransactionDialog({ transaction, categories, currency, local
       const normalizedData = {
         ...data,
         amount: data.amount.replace(',', '.'),
+        splits: (data.splits || []).map((split) => ({ ...split, amount: split.amount.replace(',', '.') })),
       }
+      const hasSplits = normalizedData.splits.length > 0
 
       // Find the selected category to get full category info
       const selectedCategory = categories.find(cat => cat.id === normalizedData.category_id)
@@ -249,7 +292,10 @@ export function EditTransactionDialog({ transaction, categories, currency, local
         // Calculate signed amount based on category type or + prefix
         let finalAmount = Math.abs(parseFloat(normalizedData.amount))
 
-        if (selectedCategory) {
+        if (hasSplits) {
+          // Splits are expense-only
+          finalAmount = -finalAmount
+        } else if (selectedCategory) {
           // Income (INCOME type) = positive, Expense (FIX, VARIABLE, SF1, SF2) = negative
           if (selectedCategory.type !== 'INCOME') {
             finalAmount = -finalAmount
@@ -267,7 +313,14 @@ export function EditTransactionDialog({ transaction, categories, currency, local
           ...transaction,
           ...normalizedData,
           amount: finalAmount.toString(),
-          category: selectedCategory || null,
+          category_id: hasSplits ? null : normalizedData.category_id,
+          category: hasSplits ? null : selectedCategory || null,
+          is_split: hasSplits,
+          splits: normalizedData.splits.map((split) => ({
+            ...split,
+            amount: (-Math.abs(parseFloat(split.amount))).toString(),
+            memo: split.memo || null,
+          })),
         }
         onOptimisticUpdate(optimisticTransaction)
         // Close dialog immediately for better UX
@@ -310,6 +363,22 @@ export function EditTransactionDialog({ transaction, categories, currency, local
     transactionType === 'income' ? cat.type === 'INCOME' : cat.type !== 'INCOME'
   )
 
+  const renderCategoryOptions = (options: Category[]) =>
+    options.map((category) => {
+      const CategoryIcon = getCategoryIcon(category.icon)
+      return (
+        <SelectItem key={category.id} value={category.id}>
+          <div className="flex items-center gap-2">
+            <CategoryIcon
+              className="w-4 h-4"
+              style={{ color: category.color || '#71717a' }}
+            />
+            {getCategoryDisplayName(category, t)}
+          </div>
+        </SelectItem>
+      )
+    })
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -458,44 +527,140 @@ export function EditTransactionDialog({ transaction, categories, currency, local
               )}
             </div>
 
-            {/* Category Selector */}
-            <FormField
-              control={form.control}
-              name="category_id"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>{t('transaction.category')}</FormLabel>
-                  <Select
-                    onValueChange={field.onChange}
-                    value={field.value}
-                    disabled={isSubmitting}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder={t('transaction.selectCategoryShort')} />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {filteredCategories.map((category) => {
-                        const CategoryIcon = getCategoryIcon(category.icon)
-                        return (
-                          <SelectItem key={category.id} value={category.id}>
-                            <div className="flex items-center gap-2">
-                              <CategoryIcon
-                                className="w-4 h-4"
-                                style={{ color: category.color || '#71717a' }}
-                              />
-                              {getCategoryDisplayName(category, t)}
-                            </div>
-                          </SelectItem>
-                        )
-                      })}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {/* Category Selector (or split lines) */}
+            {isSplit ? (
+              <FormField
+                control={form.control}
+                name="splits"
+                render={() => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>{t('transaction.split.title')}</FormLabel>
+                      <button
+                        type="button"
+                        onClick={handleRemoveSplit}
+                        disabled={isSubmitting}
+                        className="text-xs text-zinc-500 hover:text-zinc-700 transition-colors"
+                      >
+                        {t('transaction.split.remove')}
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      {splitFields.map((splitField, index) => (
+                        <div key={splitField.id} className="flex items-center gap-2">
+                          <Select
+                            value={watchedSplits[index]?.category_id || ''}
+                            onValueChange={(value) => form.setValue(`splits.${index}.category_id`, value)}
+                            disabled={isSubmitting}
+                          >
+                            <SelectTrigger className="flex-1 min-w-0">
+                              <SelectValue placeholder={t('transaction.selectCategoryShort')} />
+                            </SelectTrigger>
+                            <SelectContent>{renderCategoryOptions(filteredCategories)}</SelectContent>
+                          </Select>
+                          <Input
+                            {...form.register(`splits.${index}.amount`)}
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="0,00"
+                            disabled={isSubmitting}
+                            className="w-28 text-right tabular-nums"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeSplit(index)}
+                            disabled={isSubmitting || splitFields.length <= 2}
+                            className="h-8 w-8 p-0 flex-shrink-0"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <button
+                        type="button"
+                        onClick={() => appendSplit({ category_id: '', amount: '', memo: '' })}
+                        disabled={isSubmitting}
+                        className="flex items-center gap-1 text-sm text-zinc-500 hover:text-zinc-700 transition-colors"
+                      >
+                        <Plus className="h-4 w-4" />
+                        {t('transaction.split.addLine')}
+                      </button>
+                      <span
+                        className={`text-xs tabular-nums ${
+                          Math.abs(splitRemaining) < 0.005 ? 'text-emerald-600' : 'text-red-600'
+                        }`}
+                      >
+                        {t('transaction.split.remaining', {
+                          amount: formatCurrency(splitRemaining, currency, splitRemaining < 0 ? '-' : '', locale),
+                        })}
+                      </span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>{t('transaction.category')}</FormLabel>
+                      {/* Only expenses can be split */}
+                      {transactionType === 'expense' && (
+                        <button
+                          type="button"
+                          onClick={handleStartSplit}
+                          disabled={isSubmitting}
+                          className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-700 transition-colors"
+                        >
+                          <Split className="h-3.5 w-3.5" />
+                          {t('transaction.split.button')}
+                        </button>
+                      )}
+                    </div>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={isSubmitting}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={t('transaction.selectCategoryShort')} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>{renderCategoryOptions(filteredCategories)}</SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Account Selector (only when accounts exist) */}
+            {accounts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('transaction.account')}</FormLabel>
+                    <AccountSelect
+                      accounts={accounts}
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={isSubmitting}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             {/* Date and Memo in a row */}
             <div className="grid grid-cols-2 gap-3">
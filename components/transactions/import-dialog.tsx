@@ -0,0 +1,427 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { AlertTriangle, FileUp, Loader2, Upload } from 'lucide-react'
+import { findDuplicateTransactions, importTransactions } from '@/app/actions/transaction'
+import { AccountSelect } from '@/components/transactions/account-select'
+import {
+  CSV_DATE_FORMATS,
+  buildImportRows,
+  detectDateFormat,
+  findHeaderRow,
+  guessColumnMapping,
+  parseCsv,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type ImportRow,
+} from '@/lib/csv-import'
+import { detectStatementFormat, parseStatement, type StatementFormat } from '@/lib/statement-formats'
+import { formatCurrency, parseLocalDate } from '@/lib/currency'
+import type { Account } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+
+type Step = 'upload' | 'map' | 'review'
+
+// Radix Select does not allow an empty string as item value
+const NOT_MAPPED = '-1'
+
+const MAPPING_FIELDS: (keyof CsvColumnMapping)[] = ['date', 'amount', 'payee', 'memo']
+
+interface ImportDialogProps {
+  accounts: Account[]
+  currency: string
+  locale: string
+}
+
+/**
+ * Decode a bank export: UTF-8 first, then Windows-1252 (used by many German banks)
+ */
+async function readStatementFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer()
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+/**
+ * Bank statement import wizard (CSV, OFX/QFX, QIF, CAMT.053)
+ * Upload -> map columns (CSV only) -> review (duplicates unchecked) -> import
+ */
+export function ImportDialog({ accounts, currency, locale }: ImportDialogProps) {
+  const t = useTranslations()
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [statementFormat, setStatementFormat] = useState<StatementFormat>('csv')
+  const [statementRows, setStatementRows] = useState<ImportRow[]>([])
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [firstLine, setFirstLine] = useState(2)
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ date: -1, amount: -1, payee: -1, memo: -1 })
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>(CSV_DATE_FORMATS[0])
+  const [accountId, setAccountId] = useState('')
+  const [importRows, setImportRows] = useState<ImportRow[]>([])
+  const [duplicates, setDuplicates] = useState<Set<number>>(new Set())
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [isWorking, setIsWorking] = useState(false)
+
+  const dateLocale = locale === 'de-DE' ? de : enUS
+  const canReview = statementFormat !== 'csv' || (mapping.date >= 0 && mapping.amount >= 0)
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) {
+      setStep('upload')
+      setFileName('')
+      setAccountId(accounts[0]?.id || '')
+      setImportRows([])
+      setSelected(new Set())
+    }
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return
+
+    try {
+      const text = await readStatementFile(file)
+      const detectedFormat = detectStatementFormat(text)
+
+      // Structured formats need no column mapping
+      if (detectedFormat !== 'csv') {
+        const parsed = parseStatement(text, detectedFormat)
+        if (parsed.length === 0) {
+          toast.error(t('import.emptyFile'))
+          return
+        }
+        setFileName(file.name)
+        setStatementFormat(detectedFormat)
+        setStatementRows(parsed)
+        setStep('map')
+        return
+      }
+
+      const rows = parseCsv(text)
+      const headerIndex = findHeaderRow(rows)
+      const body = rows.slice(headerIndex + 1)
+
+      if (body.length === 0) {
+        toast.error(t('import.emptyFile'))
+        return
+      }
+
+      const guessed = guessColumnMapping(rows[headerIndex])
+      setFileName(file.name)
+      setStatementFormat('csv')
+      setHeaders(rows[headerIndex])
+      setDataRows(body)
+      setFirstLine(headerIndex + 2)
+      setMapping(guessed)
+      setDateFormat(guessed.date >= 0 ? detectDateFormat(body.map((row) => row[guessed.date] || '')) : CSV_DATE_FORMATS[0])
+      setStep('map')
+    } catch (error) {
+      toast.error(t('import.readError'))
+      console.error('Statement read error:', error)
+    }
+  }
+
+  const handleMappingChange = (field: keyof CsvColumnMapping, value: string) => {
+    const column = parseInt(value, 10)
+    setMapping((prev) => ({ ...prev, [field]: column }))
+    if (field === 'date' && column >= 0) {
+      setDateFormat(detectDateFormat(dataRows.map((row) => row[column] || '')))
+    }
+  }
+
+  async function handleReview() {
+    const rows =
+      statementFormat === 'csv' ? buildImportRows(dataRows, mapping, dateFormat, firstLine) : statementRows
+    const validIndexes = rows.flatMap((row, index) => (row.error ? [] : [index]))
+
+    setIsWorking(true)
+    try {
+      const result = await findDuplicateTransactions(
+        validIndexes.map((index) => ({
+          date: rows[index].date!,
+          amount: rows[index].amount,
+          memo: rows[index].memo,
+          import_id: rows[index].import_id,
+        }))
+      )
+
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+
+      const duplicateIndexes = new Set(result.data.map((i) => validIndexes[i]))
+      setImportRows(rows)
+      setDuplicates(duplicateIndexes)
+      setSelected(new Set(validIndexes.filter((index) => !duplicateIndexes.has(index))))
+      setStep('review')
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Duplicate check error:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const toggleRow = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  async function handleImport() {
+    const rows = importRows.filter((_, index) => selected.has(index))
+    if (rows.length === 0) return
+
+    setIsWorking(true)
+    try {
+      const result = await importTransactions({
+        account_id: accountId || undefined,
+        rows: rows.map((row) => ({
+          date: row.date!,
+          amount: row.amount,
+          memo: row.memo,
+          import_id: row.import_id,
+        })),
+      })
+
+      if (result.success) {
+        toast.success(t('import.success', { count: result.data.imported }))
+        if (result.data.skipped > 0) {
+          toast.info(t('import.skipped', { count: result.data.skipped }))
+        }
+        if (result.data.failed > 0) {
+          toast.error(t('import.failed', { count: result.data.failed }))
+        }
+        setOpen(false)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Import error:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const renderUploadStep = () => (
+    <label className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-zinc-200 py-10 cursor-pointer hover:bg-zinc-50 transition-colors">
+      <FileUp className="w-8 h-8 text-zinc-400" />
+      <span className="text-sm font-medium text-zinc-700">{t('import.chooseFile')}</span>
+      <span className="text-xs text-zinc-500">{t('import.fileHint')}</span>
+      <input
+        type="file"
+        accept=".csv,.ofx,.qfx,.qif,.xml,text/csv,application/xml"
+        className="sr-only"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </label>
+  )
+
+  const renderAccountSelect = () =>
+    accounts.length > 0 && (
+      <div className="space-y-2">
+        <Label>{t('transaction.account')}</Label>
+        <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+      </div>
+    )
+
+  const renderStatementStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-zinc-500">
+        {t('import.statementSummary', {
+          name: fileName,
+          format: t(`import.formats.${statementFormat}`),
+          count: statementRows.length,
+        })}
+      </p>
+      {renderAccountSelect()}
+      <p className="text-xs text-zinc-500">{t('import.statementHint')}</p>
+    </div>
+  )
+
+  const renderMapStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-zinc-500">
+        {t('import.fileSummary', { name: fileName, count: dataRows.length })}
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        {MAPPING_FIELDS.map((field) => (
+          <div key={field} className="space-y-2">
+            <Label>{t(`import.fields.${field}`)}</Label>
+            <Select value={String(mapping[field])} onValueChange={(value) => handleMappingChange(field, value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>{t('import.notMapped')}</SelectItem>
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {header || t('import.column', { number: index + 1 })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>{t('import.dateFormat')}</Label>
+          <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as CsvDateFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DATE_FORMATS.map((f) => (
+                <SelectItem key={f} value={f}>
+                  {f.toUpperCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {renderAccountSelect()}
+      </div>
+
+      <p className="text-xs text-zinc-500">{t('import.mappingHint')}</p>
+    </div>
+  )
+
+  const renderReviewStep = () => (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-zinc-500">
+          {t('import.selectedCount', { selected: selected.size, total: importRows.length })}
+        </span>
+        {duplicates.size > 0 && (
+          <span className="flex items-center gap-1 text-amber-600">
+            <AlertTriangle className="w-4 h-4" />
+            {t('import.duplicateCount', { count: duplicates.size })}
+          </span>
+        )}
+      </div>
+
+      <ScrollArea className="h-80 rounded-lg border border-zinc-200">
+        <div className="divide-y divide-zinc-100">
+          {importRows.map((row, index) => {
+            const isDuplicate = duplicates.has(index)
+            return (
+              <label
+                key={index}
+                className={`flex items-center gap-3 px-3 py-2 text-sm ${
+                  row.error ? 'opacity-60' : 'cursor-pointer hover:bg-zinc-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-zinc-900"
+                  checked={selected.has(index)}
+                  disabled={!!row.error}
+                  onChange={() => toggleRow(index)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-zinc-900">{row.memo || '—'}</div>
+                  <div className="text-xs text-zinc-500">
+                    {row.date
+                      ? format(parseLocalDate(row.date), 'PP', { locale: dateLocale })
+                      : t('import.line', { line: row.line })}
+                    {row.error && <span className="text-red-600"> · {t(`import.errors.${row.error}`)}</span>}
+                    {isDuplicate && <span className="text-amber-600"> · {t('import.possibleDuplicate')}</span>}
+                  </div>
+                </div>
+                {!isNaN(row.amount) && (
+                  <div
+                    className={`font-semibold tabular-nums ${
+                      row.amount > 0 ? 'text-emerald-600' : 'text-zinc-900'
+                    }`}
+                  >
+                    {formatCurrency(row.amount, currency, row.amount > 0 ? '+' : '-', locale)}
+                  </div>
+                )}
+              </label>
+            )
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" className="gap-2">
+          <Upload className="h-5 w-5" />
+          {t('import.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('import.title')}</DialogTitle>
+          <DialogDescription>{t(`import.steps.${step}`)}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && renderUploadStep()}
+        {step === 'map' && (statementFormat === 'csv' ? renderMapStep() : renderStatementStep())}
+        {step === 'review' && renderReviewStep()}
+
+        {step !== 'upload' && (
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(step === 'review' ? 'map' : 'upload')}
+              disabled={isWorking}
+            >
+              {t('import.back')}
+            </Button>
+            {step === 'map' ? (
+              <Button onClick={handleReview} disabled={isWorking || !canReview}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('import.next')}
+              </Button>
+            ) : (
+              <Button onClick={handleImport} disabled={isWorking || selected.size === 0}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('import.confirm', { count: selected.size })}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
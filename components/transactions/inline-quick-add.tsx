@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useRef, useEffect, useTransition } from 'react'
+import { useState, useRef, useEffect, useMemo, useTransition } from 'react'
 import { useRouter } from 'next/navigation'
 import { useTranslations } from 'next-intl'
 import { Plus, PlusCircle } from 'lucide-react'
@@ -20,7 +20,10 @@ import { format } from 'date-fns'
 import { getCategoryDisplayName } from '@/lib/i18n-helpers'
 import { getCategoryIcon } from '@/lib/icon-mapper'
 import { CategoryDialog } from '@/components/settings/category-dialog'
-import type { Category as FullCategory } from '@/lib/types'
+import { CategorySuggestions } from '@/components/transactions/category-suggestions'
+import { PayeeInput } from '@/components/transactions/payee-input'
+import { predictCategories, AUTO_SELECT_CONFIDENCE, type CategoryModel } from '@/lib/category-prediction'
+import type { Category as FullCategory, Payee } from '@/lib/types'
 
 interface Category {
   id: string
@@ -34,6 +37,8 @@ interface InlineQuickAddProps {
   categories: Category[]
   currency: string
   locale: string
+  categoryModel?: CategoryModel
+  payees?: Payee[]
   onOptimisticCreate: (transaction: any) => void
 }
 
@@ -41,13 +46,19 @@ export function InlineQuickAdd({
   categories,
   currency,
   locale,
+  categoryModel,
+  payees = [],
   onOptimisticCreate,
 }: InlineQuickAddProps) {
   const t = useTranslations()
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
   const [amount, setAmount] = useState('')
+  const [memo, setMemo] = useState('')
+  const [payeeId, setPayeeId] = useState('')
   const [categoryId, setCategoryId] = useState<string>('')
+  // Once the user picks a category, suggestions no longer pre-select one
+  const [categoryTouched, setCategoryTouched] = useState(false)
   const [showCategoryDialog, setShowCategoryDialog] = useState(false)
   const amountInputRef = useRef<HTMLInputElement>(null)
 
@@ -66,6 +77,23 @@ export function InlineQuickAdd({
   // Find most used category (first non-income category as default)
   const defaultCategory = expenseCategories[0]
 
+  // Rank categories for the memo using the model learned from the user's history
+  const relevantCategoryIds = relevantCategories.map((c) => c.id).join(',')
+  const predictions = useMemo(
+    () =>
+      categoryModel
+        ? predictCategories(categoryModel, memo, { candidateIds: relevantCategoryIds.split(',') })
+        : [],
+    [categoryModel, memo, relevantCategoryIds]
+  )
+
+  // Pre-select a confident suggestion until the user chooses a category
+  useEffect(() => {
+    if (categoryTouched) return
+    const top = predictions[0]
+    setCategoryId(top && top.confidence >= AUTO_SELECT_CONFIDENCE ? top.category_id : '')
+  }, [predictions, categoryTouched])
+
   // Auto-focus amount input on mount
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -93,11 +121,33 @@ export function InlineQuickAdd({
       setShowCategoryDialog(true)
     } else {
       setCategoryId(value)
+      setCategoryTouched(true)
+    }
+  }
+
+  // Take over the payee's name and fill in its defaults where the row is still empty
+  const handlePayeeSelect = (payee: Payee) => {
+    setMemo(payee.name)
+    setPayeeId(payee.id)
+
+    const defaultCategory = categories.find((c) => c.id === payee.default_category_id)
+    const defaultIsIncome = defaultCategory?.type === 'INCOME'
+    let income = isIncome
+    if (payee.default_amount && !amount) {
+      setAmount(`${defaultIsIncome ? '+' : ''}${payee.default_amount}`)
+      income = defaultIsIncome
+    }
+
+    // Only when it fits the income/expense type and the user has not picked one
+    if (defaultCategory && !categoryTouched && defaultIsIncome === income) {
+      setCategoryId(defaultCategory.id)
+      setCategoryTouched(true)
     }
   }
 
   const handleCategoryCreated = (newCategory: FullCategory) => {
     setCategoryId(newCategory.id)
+    setCategoryTouched(true)
     setShowCategoryDialog(false)
     router.refresh()
   }
@@ -122,7 +172,7 @@ export function InlineQuickAdd({
       id: `temp-${Date.now()}`,
       amount: isIncome ? numericAmount.toString() : (-numericAmount).toString(),
       date: format(new Date(), 'yyyy-MM-dd'),
-      memo: null,
+      memo: memo.trim() || null,
       category_id: selectedCategoryId || null,
       category: selectedCategory
         ? {
@@ -140,7 +190,10 @@ export function InlineQuickAdd({
 
     // Clear form immediately for rapid entry
     setAmount('')
+    setMemo('')
+    setPayeeId('')
     setCategoryId('')
+    setCategoryTouched(false)
     amountInputRef.current?.focus()
 
     // Server action
@@ -149,6 +202,8 @@ export function InlineQuickAdd({
         amount: normalizedAmount,
         category_id: selectedCategoryId || undefined,
         date: format(new Date(), 'yyyy-MM-dd'),
+        memo: memo.trim() || undefined,
+        payee_id: payeeId || undefined,
       })
 
       if (!result.success) {
@@ -160,7 +215,7 @@ export function InlineQuickAdd({
   }
 
   return (
-    <div className="flex items-center gap-2 p-3 bg-zinc-50 rounded-lg border border-zinc-200">
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-zinc-50 rounded-lg border border-zinc-200">
       {/* Amount Input */}
       <div className="relative flex-shrink-0 w-32">
         <Input
@@ -178,6 +233,23 @@ export function InlineQuickAdd({
         </span>
       </div>
 
+      {/* Memo Input */}
+      <PayeeInput
+        type="text"
+        value={memo}
+        onValueChange={(value) => {
+          setMemo(value)
+          // Typed text is matched against the payees on save
+          setPayeeId('')
+        }}
+        payees={payees}
+        onSelectPayee={handlePayeeSelect}
+        onKeyDown={handleKeyDown}
+        placeholder={t('transaction.memoPlaceholder')}
+        wrapperClassName="w-40"
+        className="bg-white"
+      />
+
       {/* Category Select */}
       <Select value={categoryId} onValueChange={handleCategoryChange}>
         <SelectTrigger className="w-44 bg-white">
@@ -250,6 +322,15 @@ export function InlineQuickAdd({
         {t('transaction.enterToSave')}
       </span>
 
+      {/* Category suggestions for the memo */}
+      <CategorySuggestions
+        predictions={predictions}
+        categories={relevantCategories}
+        selectedId={categoryId}
+        onSelect={handleCategoryChange}
+        className="w-full"
+      />
+
       {/* Category Dialog */}
       <CategoryDialog
         open={showCategoryDialog}
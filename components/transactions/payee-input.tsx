@@ -0,0 +1,102 @@
+'use client'
+
+import { forwardRef, useMemo, useState } from 'react'
+import { Store } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { searchPayees } from '@/lib/payees'
+import type { Payee } from '@/lib/types'
+
+interface PayeeInputProps extends Omit<React.ComponentProps<'input'>, 'value' | 'onChange'> {
+  value: string
+  onValueChange: (value: string) => void
+  payees: Payee[]
+  onSelectPayee: (payee: Payee) => void
+  wrapperClassName?: string
+}
+
+/**
+ * Memo field that autocompletes the user's payees by name and alias
+ * Arrow keys pick a suggestion and Enter takes it; without a highlighted
+ * suggestion Enter is passed on (e.g. to submit the form)
+ */
+export const PayeeInput = forwardRef<HTMLInputElement, PayeeInputProps>(
+  ({ value, onValueChange, payees, onSelectPayee, wrapperClassName = '', onKeyDown, onBlur, ...props }, ref) => {
+    const [open, setOpen] = useState(false)
+    const [highlighted, setHighlighted] = useState(-1)
+
+    const suggestions = useMemo(() => searchPayees(payees, value), [payees, value])
+    const showSuggestions = open && suggestions.length > 0
+
+    const select = (payee: Payee) => {
+      onSelectPayee(payee)
+      setOpen(false)
+      setHighlighted(-1)
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (showSuggestions) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault()
+          const step = e.key === 'ArrowDown' ? 1 : -1
+          setHighlighted((current) => (current + step + suggestions.length) % suggestions.length)
+          return
+        }
+        if (e.key === 'Enter' && highlighted >= 0) {
+          e.preventDefault()
+          select(suggestions[highlighted])
+          return
+        }
+        if (e.key === 'Escape') {
+          // Close the list, not the surrounding dialog
+          e.preventDefault()
+          e.stopPropagation()
+          setOpen(false)
+          return
+        }
+      }
+      onKeyDown?.(e)
+    }
+
+    return (
+      <div className={`relative ${wrapperClassName}`}>
+        <Input
+          {...props}
+          ref={ref}
+          value={value}
+          autoComplete="off"
+          onChange={(e) => {
+            onValueChange(e.target.value)
+            setOpen(true)
+            setHighlighted(-1)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={(e) => {
+            setOpen(false)
+            onBlur?.(e)
+          }}
+        />
+        {showSuggestions && (
+          <div className="absolute left-0 right-0 top-full z-50 mt-1 overflow-hidden rounded-md border border-zinc-200 bg-white py-1 shadow-md">
+            {suggestions.map((payee, index) => (
+              <button
+                key={payee.id}
+                type="button"
+                // Keep the focus in the input so blur does not close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(payee)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm ${
+                  index === highlighted ? 'bg-zinc-100' : ''
+                }`}
+              >
+                <Store className="w-3.5 h-3.5 flex-shrink-0 text-zinc-400" />
+                <span className="truncate">{payee.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+)
+PayeeInput.displayName = 'PayeeInput'
@@ -1,6 +1,6 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState, useTransition } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, useTransition } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { format } from 'date-fns'
@@ -35,23 +35,32 @@ import {
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { createTransaction } from '@/app/actions/transaction'
-import { insertTransactionSchema, type InsertTransactionInput, type Category } from '@/lib/types'
+import { insertTransactionSchema, type InsertTransactionInput, type Category, type Account, type Payee } from '@/lib/types'
 import { CategoryDialog } from '@/components/settings/category-dialog'
+import { AccountSelect } from '@/components/transactions/account-select'
+import { CategorySuggestions } from '@/components/transactions/category-suggestions'
+import { PayeeInput } from '@/components/transactions/payee-input'
+import { predictCategories, AUTO_SELECT_CONFIDENCE, type CategoryModel } from '@/lib/category-prediction'
 import { formatCurrency } from '@/lib/currency'
 import { toast } from 'sonner'
 
 interface QuickAddDialogProps {
   categories: Category[]
+  accounts?: Account[]
   currency: string
   locale: string
+  categoryModel?: CategoryModel
+  payees?: Payee[]
   onOptimisticCreate?: (transaction: any) => void
 }
 
-export function QuickAddDialog({ categories, currency, locale, onOptimisticCreate }: QuickAddDialogProps) {
+export function QuickAddDialog({ categories, accounts = [], currency, locale, categoryModel, payees = [], onOptimisticCreate }: QuickAddDialogProps) {
   const t = useTranslations()
   const [open, setOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [transactionType, setTransactionType] = useState<'income' | 'expense'>('expense')
+  // Once the user picks a category, suggestions no longer pre-select one
+  const [categoryTouched, setCategoryTouched] = useState(false)
   const amountInputRef = useRef<HTMLInputElement>(null)
 
   // Currency converter state
@@ -94,6 +103,8 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
       amount: '',
       date: format(new Date(), 'yyyy-MM-dd'),
       memo: '',
+      account_id: '',
+      payee_id: '',
     },
   })
 
@@ -125,12 +136,35 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
       setShowCategoryDialog(true)
     } else {
       form.setValue('category_id', value)
+      setCategoryTouched(true)
+    }
+  }
+
+  // Take over the payee's name and fill in its defaults where the form is still empty
+  const handlePayeeSelect = (payee: Payee) => {
+    form.setValue('memo', payee.name)
+    form.setValue('payee_id', payee.id)
+
+    const defaultCategory = categories.find((cat) => cat.id === payee.default_category_id)
+    let type = transactionType
+    if (payee.default_amount && !form.getValues('amount')) {
+      const amount = `${defaultCategory?.type === 'INCOME' ? '+' : ''}${payee.default_amount}`
+      form.setValue('amount', amount)
+      updateTransactionType(amount)
+      type = amount.startsWith('+') ? 'income' : 'expense'
+    }
+
+    // Only when it fits the income/expense type and the user has not picked one
+    if (defaultCategory && !categoryTouched && (defaultCategory.type === 'INCOME') === (type === 'income')) {
+      form.setValue('category_id', defaultCategory.id)
+      setCategoryTouched(true)
     }
   }
 
   // Handle category created - select the new category
   const handleCategoryCreated = (newCategory: Category) => {
     form.setValue('category_id', newCategory.id)
+    setCategoryTouched(true)
     setShowCategoryDialog(false)
   }
 
@@ -304,6 +338,7 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
           memo: data.memo || null,
           category_id: data.category_id || null,
           category: selectedCategory || null,
+          account_id: data.account_id || null,
         }
 
         onOptimisticCreate(optimisticTransaction)
@@ -314,7 +349,10 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
           amount: '',
           date: format(new Date(), 'yyyy-MM-dd'),
           memo: '',
+          account_id: data.account_id, // Keep account for the next entry
+          payee_id: '',
         })
+        setCategoryTouched(false)
 
         // If not keeping open, close the dialog immediately
         if (!keepOpen) {
@@ -368,6 +406,24 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
     transactionType === 'income' ? cat.type === 'INCOME' : cat.type !== 'INCOME'
   )
 
+  // Rank categories for the memo using the model learned from the user's history
+  const memo = form.watch('memo')
+  const filteredCategoryIds = filteredCategories.map((cat) => cat.id).join(',')
+  const predictions = useMemo(
+    () =>
+      categoryModel
+        ? predictCategories(categoryModel, memo, { candidateIds: filteredCategoryIds.split(',') })
+        : [],
+    [categoryModel, memo, filteredCategoryIds]
+  )
+
+  // Pre-select a confident suggestion until the user chooses a category
+  useEffect(() => {
+    if (categoryTouched) return
+    const top = predictions[0]
+    form.setValue('category_id', top && top.confidence >= AUTO_SELECT_CONFIDENCE ? top.category_id : '')
+  }, [predictions, categoryTouched, form])
+
   return (
     <>
     <Dialog open={open} onOpenChange={setOpen}>
@@ -564,6 +620,26 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
               )}
             />
 
+            {/* Account Selector (only when accounts exist) */}
+            {accounts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('transaction.account')}</FormLabel>
+                    <AccountSelect
+                      accounts={accounts}
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={isSubmitting}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Date and Memo in a row */}
             <div className="grid grid-cols-2 gap-3">
               <FormField
@@ -591,8 +667,18 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
                   <FormItem>
                     <FormLabel>{t('transaction.memo')}</FormLabel>
                     <FormControl>
-                      <Input
-                        {...field}
+                      <PayeeInput
+                        ref={field.ref}
+                        name={field.name}
+                        onBlur={field.onBlur}
+                        value={field.value || ''}
+                        onValueChange={(value) => {
+                          field.onChange(value)
+                          // Typed text is matched against the payees on save
+                          form.setValue('payee_id', '')
+                        }}
+                        payees={payees}
+                        onSelectPayee={handlePayeeSelect}
                         type="text"
                         placeholder={t('transaction.memoPlaceholder')}
                         disabled={isSubmitting}
@@ -604,6 +690,14 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
               />
             </div>
 
+            {/* Category suggestions for the memo */}
+            <CategorySuggestions
+              predictions={predictions}
+              categories={filteredCategories}
+              selectedId={form.watch('category_id')}
+              onSelect={handleCategoryChange}
+            />
+
             {/* Submit Button */}
             <div className="flex justify-end gap-2 pt-4">
               <Button
@@ -634,6 +728,7 @@ export function QuickAddDialog({ categories, currency, locale, onOptimisticCreat
     <CategoryDialog
       open={showCategoryDialog}
       onOpenChange={setShowCategoryDialog}
+      categories={categories}
       onSuccess={handleCategoryCreated}
     />
     </>
@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Search, SlidersHorizontal, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getCategoryDisplayName } from '@/lib/i18n-helpers'
+import {
+  TRANSACTION_FILTER_PARAMS,
+  countTransactionFilters,
+  hasTransactionFilters,
+  type TransactionFilters,
+} from '@/lib/transaction-filters'
+import type { Category, Payee } from '@/lib/types'
+
+// Radix Select does not allow an empty string as item value
+const ALL = '__all__'
+
+// Wait for a pause in typing before the search runs
+const SEARCH_DEBOUNCE_MS = 300
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters
+  categories: Category[]
+  payees?: Payee[]
+  onChange: (updates: Record<string, string | null>) => void // URL param -> value (null removes it)
+}
+
+/**
+ * Search field and filters above the transaction list
+ * Every change goes to the URL, so filtered views survive reloads and can be shared
+ */
+export function TransactionFilterBar({ filters, categories, payees = [], onChange }: TransactionFilterBarProps) {
+  const t = useTranslations()
+  const filterCount = countTransactionFilters(filters)
+  const [showFilters, setShowFilters] = useState(filterCount > 0)
+  const [query, setQuery] = useState(filters.query || '')
+  const [minAmount, setMinAmount] = useState(filters.min_amount || '')
+  const [maxAmount, setMaxAmount] = useState(filters.max_amount || '')
+  // Last search text sent to the URL, so its echo does not undo newer typing
+  const pushedQuery = useRef(filters.query || '')
+
+  // Follow URL changes from outside (back button, clearing the filters)
+  useEffect(() => {
+    const urlQuery = filters.query || ''
+    if (urlQuery !== pushedQuery.current) {
+      pushedQuery.current = urlQuery
+      setQuery(urlQuery)
+    }
+  }, [filters.query])
+  useEffect(() => setMinAmount(filters.min_amount || ''), [filters.min_amount])
+  useEffect(() => setMaxAmount(filters.max_amount || ''), [filters.max_amount])
+
+  const setFilter = (key: keyof TransactionFilters, value: string | null | undefined) => {
+    onChange({ [TRANSACTION_FILTER_PARAMS[key]]: value || null })
+  }
+
+  // Search as the user types
+  useEffect(() => {
+    const text = query.trim()
+    if (text === pushedQuery.current) return
+    const timer = setTimeout(() => {
+      pushedQuery.current = text
+      onChange({ [TRANSACTION_FILTER_PARAMS.query]: text || null })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [query, onChange])
+
+  const handleClear = () => {
+    onChange(Object.fromEntries(Object.values(TRANSACTION_FILTER_PARAMS).map((param) => [param, null])))
+  }
+
+  const commitOnEnter = (commit: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commit()
+    }
+  }
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-400 pointer-events-none" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('transaction.filters.search')}
+            className="pl-9 bg-white"
+          />
+        </div>
+        <Button
+          variant={showFilters ? 'secondary' : 'outline'}
+          onClick={() => setShowFilters(!showFilters)}
+          className="gap-2"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {t('transaction.filters.title')}
+          {filterCount > 0 && (
+            <span className="rounded-full bg-zinc-900 px-1.5 text-xs text-white tabular-nums">{filterCount}</span>
+          )}
+        </Button>
+        {hasTransactionFilters(filters) && (
+          <Button variant="ghost" onClick={handleClear} className="gap-1">
+            <X className="w-4 h-4" />
+            {t('transaction.filters.clear')}
+          </Button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 rounded-lg border border-zinc-200 bg-white p-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.filters.type')}</Label>
+            <Select value={filters.type || ALL} onValueChange={(value) => setFilter('type', value === ALL ? null : value)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('transaction.filters.allTypes')}</SelectItem>
+                <SelectItem value="expense">{t('transaction.expense')}</SelectItem>
+                <SelectItem value="income">{t('transaction.income')}</SelectItem>
+                <SelectItem value="transfer">{t('transaction.transfer.button')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.category')}</Label>
+            <Select
+              value={filters.category_id || ALL}
+              onValueChange={(value) => setFilter('category_id', value === ALL ? null : value)}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('transaction.filters.allCategories')}</SelectItem>
+                <SelectItem value="uncategorized">{t('transaction.uncategorized')}</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {getCategoryDisplayName(category, t)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.filters.from')}</Label>
+            <Input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => setFilter('from', e.target.value)}
+              className="h-9"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.filters.to')}</Label>
+            <Input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => setFilter('to', e.target.value)}
+              className="h-9"
+            />
+          </div>
+
+          {payees.length > 0 && (
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">{t('payees.title')}</Label>
+              <Select
+                value={filters.payee_id || ALL}
+                onValueChange={(value) => setFilter('payee_id', value === ALL ? null : value)}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t('transaction.filters.allPayees')}</SelectItem>
+                  {payees.map((payee) => (
+                    <SelectItem key={payee.id} value={payee.id}>
+                      {payee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.filters.minAmount')}</Label>
+            <Input
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              onBlur={() => setFilter('min_amount', minAmount.trim())}
+              onKeyDown={commitOnEnter(() => setFilter('min_amount', minAmount.trim()))}
+              inputMode="decimal"
+              className="h-9 tabular-nums"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('transaction.filters.maxAmount')}</Label>
+            <Input
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              onBlur={() => setFilter('max_amount', maxAmount.trim())}
+              onKeyDown={commitOnEnter(() => setFilter('max_amount', maxAmount.trim()))}
+              inputMode="decimal"
+              className="h-9 tabular-nums"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { format } from 'date-fns'
+import { ArrowLeftRight, Loader2 } from 'lucide-react'
+import { createTransfer } from '@/app/actions/transaction'
+import { parseAmount } from '@/lib/currency'
+import type { Account } from '@/lib/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+
+interface TransferDialogProps {
+  accounts: Account[]
+}
+
+/**
+ * Move money between two accounts (not income, not spending)
+ */
+export function TransferDialog({ accounts }: TransferDialogProps) {
+  const t = useTranslations()
+  const [open, setOpen] = useState(false)
+  const [fromAccountId, setFromAccountId] = useState('')
+  const [toAccountId, setToAccountId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [memo, setMemo] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const parsedAmount = parseAmount(amount)
+  const isValid =
+    !!fromAccountId && !!toAccountId && fromAccountId !== toAccountId && parsedAmount > 0
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) {
+      setFromAccountId(accounts[0]?.id || '')
+      setToAccountId(accounts[1]?.id || '')
+      setAmount('')
+      setDate(format(new Date(), 'yyyy-MM-dd'))
+      setMemo('')
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!isValid) return
+
+    setIsSubmitting(true)
+
+    try {
+      const result = await createTransfer({
+        from_account_id: fromAccountId,
+        to_account_id: toAccountId,
+        amount,
+        date,
+        memo: memo || undefined,
+      })
+
+      if (result.success) {
+        toast.success(t('transaction.transfer.success'))
+        setOpen(false)
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      toast.error(t('common.unexpectedError'))
+      console.error('Transfer error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderAccountSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={t('transaction.selectAccount')} />
+      </SelectTrigger>
+      <SelectContent>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" className="gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          {t('transaction.transfer.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('transaction.transfer.title')}</DialogTitle>
+          <DialogDescription>{t('transaction.transfer.description')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{t('transaction.transfer.from')}</Label>
+              {renderAccountSelect(fromAccountId, setFromAccountId)}
+            </div>
+            <div className="space-y-2">
+              <Label>{t('transaction.transfer.to')}</Label>
+              {renderAccountSelect(toAccountId, setToAccountId)}
+            </div>
+          </div>
+
+          {fromAccountId && fromAccountId === toAccountId && (
+            <p className="text-xs text-red-600">{t('transaction.transfer.sameAccount')}</p>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t('transaction.amount')}</Label>
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+              autoFocus
+              className="bg-white tabular-nums"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('transaction.date')}</Label>
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="bg-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              {t('transaction.memo')} <span className="text-zinc-400">({t('transaction.optional')})</span>
+            </Label>
+            <Input
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              placeholder={t('transaction.memoPlaceholder')}
+              className="bg-white"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+              {t('transaction.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !isValid}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('transaction.transfer.confirm')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
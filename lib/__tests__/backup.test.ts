@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest'
+import { EMPTY_EXISTING_DATA, planRestore } from '@/lib/backup'
+import { BACKUP_FORMAT, BACKUP_VERSION, type ParsedBackup } from '@/lib/types'
+
+type Tables = ParsedBackup['tables']
+
+function backup(tables: Partial<Tables>): ParsedBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: '2026-03-01T00:00:00Z',
+    settings: { currency: 'EUR' },
+    tables: {
+      categories: [],
+      accounts: [],
+      payees: [],
+      recurring_transactions: [],
+      category_rules: [],
+      transactions: [],
+      transaction_splits: [],
+      monthly_budgets: [],
+      budget_moves: [],
+      month_closes: [],
+      net_worth_items: [],
+      net_worth_snapshots: [],
+      debts: [],
+      debt_plans: [],
+      ...tables,
+    },
+  }
+}
+
+function category(id: string, name: string, overrides: Partial<Tables['categories'][number]> = {}) {
+  return {
+    id,
+    name,
+    icon: null,
+    color: null,
+    type: 'VARIABLE' as const,
+    rollover_strategy: 'ACCUMULATE' as const,
+    target_amount: null,
+    due_date: null,
+    sweep_target_category_id: null,
+    sort_order: null,
+    is_active: true,
+    ...overrides,
+  }
+}
+
+function account(id: string, name: string) {
+  return {
+    id,
+    name,
+    type: 'CHECKING' as const,
+    initial_balance: '0.00',
+    last_reconciled_at: null,
+    last_reconciled_balance: null,
+    payment_category_id: null,
+    sort_order: null,
+    is_active: true,
+  }
+}
+
+function transaction(id: string, overrides: Partial<Tables['transactions'][number]> = {}) {
+  return {
+    id,
+    category_id: null,
+    amount: '-10.00',
+    date: '2026-02-01',
+    memo: null,
+    account_id: null,
+    is_starting_balance: false,
+    is_sweep_transaction: false,
+    is_reconciled: false,
+    transfer_id: null,
+    recurring_transaction_id: null,
+    import_id: null,
+    is_split: false,
+    payee_id: null,
+    ...overrides,
+  }
+}
+
+describe('planRestore', () => {
+  it('gives every restored row a new id and remaps references to it', () => {
+    const plan = planRestore(
+      backup({
+        categories: [
+          category('old-food', 'Food', { rollover_strategy: 'SWEEP', sweep_target_category_id: 'old-savings' }),
+          category('old-savings', 'Savings', { type: 'SF2' }),
+        ],
+        accounts: [account('old-checking', 'Checking')],
+        transactions: [
+          transaction('old-tx', { category_id: 'old-food', account_id: 'old-checking', is_split: true }),
+        ],
+        transaction_splits: [
+          { id: 'old-split', transaction_id: 'old-tx', category_id: 'old-savings', amount: '-10.00', memo: null, sort_order: 0 },
+        ],
+      }),
+      EMPTY_EXISTING_DATA,
+      'user-1'
+    )
+
+    const [food, savings] = plan.rows.categories
+    const [checking] = plan.rows.accounts
+    const [tx] = plan.rows.transactions
+    const [split] = plan.rows.transaction_splits
+
+    for (const row of [food, savings, checking, tx, split]) {
+      expect(row.id).toEqual(expect.any(String))
+      expect(row.id).not.toMatch(/^old-/)
+    }
+    // The sweep target comes later in the backup but is remapped as well
+    expect(food.sweep_target_category_id).toBe(savings.id)
+    expect(tx.category_id).toBe(food.id)
+    expect(tx.account_id).toBe(checking.id)
+    expect(split.transaction_id).toBe(tx.id)
+    expect(split.category_id).toBe(savings.id)
+  })
+
+  it('reuses existing categories, accounts and payees with the same name and type', () => {
+    const plan = planRestore(
+      backup({
+        categories: [category('old-food', ' food '), category('old-rent', 'Food', { type: 'FIX' })],
+        accounts: [account('old-checking', 'CHECKING')],
+        payees: [{ id: 'old-rewe', name: 'Rewe', aliases: [], default_category_id: 'old-food', default_amount: null }],
+        transactions: [transaction('old-tx', { category_id: 'old-food', account_id: 'old-checking', payee_id: 'old-rewe' })],
+      }),
+      {
+        ...EMPTY_EXISTING_DATA,
+        categories: [{ id: 'food', name: 'Food', type: 'VARIABLE' }],
+        accounts: [{ id: 'checking', name: 'Checking', type: 'CHECKING' }],
+        payees: [{ id: 'rewe', name: 'REWE' }],
+      },
+      'user-1'
+    )
+
+    expect(plan.tables.categories).toEqual({ added: 1, skipped: 1, removed: 0 })
+    expect(plan.rows.categories[0]).toMatchObject({ name: 'Food', type: 'FIX' })
+    expect(plan.tables.accounts).toEqual({ added: 0, skipped: 1, removed: 0 })
+    expect(plan.tables.payees).toEqual({ added: 0, skipped: 1, removed: 0 })
+    expect(plan.rows.transactions[0]).toMatchObject({ category_id: 'food', account_id: 'checking', payee_id: 'rewe' })
+  })
+
+  it('skips rows whose category is missing and rules that already exist', () => {
+    const rule = {
+      match_type: 'contains' as const,
+      match_value: 'rewe',
+      min_amount: null,
+      max_amount: '100',
+      set_memo: null,
+      sort_order: 0,
+      is_active: true,
+    }
+    const plan = planRestore(
+      backup({
+        categories: [category('old-food', 'Food')],
+        category_rules: [
+          { ...rule, id: 'old-rule-1', category_id: 'old-food' },
+          { ...rule, id: 'old-rule-2', category_id: 'old-missing' },
+          { ...rule, id: 'old-rule-3', category_id: 'old-food', match_value: 'lidl' },
+        ],
+        monthly_budgets: [
+          { id: 'old-b1', category_id: 'old-food', month_iso: '2026-01', assigned_amount: '100', start_balance: '0' },
+          { id: 'old-b2', category_id: 'old-food', month_iso: '2026-02', assigned_amount: '100', start_balance: '0' },
+        ],
+      }),
+      {
+        ...EMPTY_EXISTING_DATA,
+        categories: [{ id: 'food', name: 'Food', type: 'VARIABLE' }],
+        category_rules: [{ match_type: 'contains', match_value: 'rewe', min_amount: null, max_amount: '100.00', category_id: 'food' }],
+        monthly_budgets: [{ category_id: 'food', month_iso: '2026-01' }],
+      },
+      'user-1'
+    )
+
+    expect(plan.tables.category_rules).toEqual({ added: 1, skipped: 2, removed: 0 })
+    expect(plan.rows.category_rules[0]).toMatchObject({ match_value: 'lidl', category_id: 'food' })
+    expect(plan.tables.monthly_budgets).toEqual({ added: 1, skipped: 1, removed: 0 })
+    expect(plan.rows.monthly_budgets[0]).toMatchObject({ month_iso: '2026-02', category_id: 'food' })
+  })
+
+  it('skips duplicate transactions once per existing copy', () => {
+    const plan = planRestore(
+      backup({
+        accounts: [account('old-checking', 'Checking')],
+        transactions: [
+          transaction('old-1', { import_id: 'BANK-1', memo: 'changed memo' }),
+          transaction('old-2', { account_id: 'old-checking', memo: 'Coffee' }),
+          transaction('old-3', { account_id: 'old-checking', memo: 'Coffee' }),
+          transaction('old-4', { is_sweep_transaction: true }),
+        ],
+      }),
+      {
+        ...EMPTY_EXISTING_DATA,
+        accounts: [{ id: 'checking', name: 'Checking', type: 'CHECKING' }],
+        transactions: [
+          { date: '2026-01-15', amount: '-99.00', memo: null, account_id: null, import_id: 'BANK-1', recurring_transaction_id: null },
+          { date: '2026-02-01', amount: -10, memo: 'Coffee', account_id: 'checking', import_id: null, recurring_transaction_id: null },
+        ],
+      },
+      'user-1'
+    )
+
+    // Sweep transfers are neither restored nor counted
+    expect(plan.tables.transactions).toEqual({ added: 1, skipped: 2, removed: 0 })
+    expect(plan.rows.transactions[0]).toMatchObject({ memo: 'Coffee', account_id: 'checking' })
+  })
+
+  it('restores or skips both legs of a transfer together', () => {
+    const legs = [
+      transaction('old-out', { transfer_id: 'old-transfer', memo: 'To savings', amount: '-50.00' }),
+      transaction('old-in', { transfer_id: 'old-transfer', memo: 'From checking', amount: '50.00' }),
+    ]
+
+    const restored = planRestore(backup({ transactions: legs }), EMPTY_EXISTING_DATA, 'user-1')
+    const [out, into] = restored.rows.transactions
+    expect(out.transfer_id).toEqual(expect.any(String))
+    expect(out.transfer_id).not.toBe('old-transfer')
+    expect(into.transfer_id).toBe(out.transfer_id)
+
+    const skipped = planRestore(
+      backup({ transactions: legs }),
+      {
+        ...EMPTY_EXISTING_DATA,
+        transactions: [
+          { date: '2026-02-01', amount: '50.00', memo: 'From checking', account_id: null, import_id: null, recurring_transaction_id: null },
+        ],
+      },
+      'user-1'
+    )
+    expect(skipped.tables.transactions).toEqual({ added: 0, skipped: 2, removed: 0 })
+  })
+
+  it('records the restoring user as author of budget moves', () => {
+    const plan = planRestore(
+      backup({
+        categories: [category('old-food', 'Food')],
+        budget_moves: [
+          {
+            id: 'old-move',
+            month_iso: '2026-02',
+            from_category_id: null,
+            to_category_id: 'old-food',
+            amount: '25.00',
+            created_at: '2026-02-03T10:00:00Z',
+          },
+        ],
+      }),
+      EMPTY_EXISTING_DATA,
+      'user-1'
+    )
+
+    expect(plan.rows.budget_moves).toEqual([
+      {
+        id: expect.any(String),
+        month_iso: '2026-02',
+        from_category_id: null,
+        to_category_id: plan.rows.categories[0].id,
+        amount: '25.00',
+        created_at: '2026-02-03T10:00:00Z',
+        created_by: 'user-1',
+      },
+    ])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AUTO_SELECT_CONFIDENCE,
+  MIN_TRAINING_SAMPLES,
+  buildCategoryModel,
+  predictCategories,
+  tokenizeMemo,
+  type TrainingSample,
+} from '@/lib/category-prediction'
+
+function samples(count: number, memo: string, categoryId: string): TrainingSample[] {
+  return Array.from({ length: count }, (_, i) => ({ memo: `${memo} ${1000 + i}`, category_id: categoryId }))
+}
+
+const training = [
+  ...samples(12, 'REWE Markt', 'groceries'),
+  ...samples(8, 'Shell Tankstelle', 'fuel'),
+  ...samples(3, 'Netflix Abo', 'streaming'),
+  ...samples(2, 'Gehalt ACME', 'salary'),
+]
+
+describe('tokenizeMemo', () => {
+  it('drops numbers and single characters and removes duplicates', () => {
+    expect(tokenizeMemo('REWE Markt 1234 / x REWE')).toEqual(['rewe', 'markt'])
+  })
+
+  it('keeps umlauts and ß inside words', () => {
+    expect(tokenizeMemo('Bäckerei Müller, Straße 5')).toEqual(['bäckerei', 'müller', 'straße'])
+  })
+
+  it('keeps words that contain digits', () => {
+    expect(tokenizeMemo('Vodafone 5G Tarif')).toEqual(['vodafone', '5g', 'tarif'])
+  })
+
+  it('returns no tokens for an empty memo', () => {
+    expect(tokenizeMemo(null)).toEqual([])
+    expect(tokenizeMemo('  ')).toEqual([])
+  })
+})
+
+describe('buildCategoryModel', () => {
+  it('counts tokens per category and skips unusable samples', () => {
+    const model = buildCategoryModel([
+      { memo: 'REWE Markt 1', category_id: 'groceries' },
+      { memo: 'REWE City', category_id: 'groceries' },
+      { memo: 'Shell', category_id: 'fuel' },
+      { memo: 'Uncategorised', category_id: null },
+      { memo: '1234', category_id: 'fuel' },
+    ])
+
+    expect(model).toEqual({
+      sampleCount: 3,
+      categoryCounts: { groceries: 2, fuel: 1 },
+      tokenCounts: { groceries: { rewe: 2, markt: 1, city: 1 }, fuel: { shell: 1 } },
+      tokenTotals: { groceries: 4, fuel: 1 },
+      vocabularySize: 4,
+    })
+  })
+})
+
+describe('predictCategories', () => {
+  const model = buildCategoryModel(training)
+
+  it('needs enough history before predicting', () => {
+    const small = buildCategoryModel(training.slice(0, MIN_TRAINING_SAMPLES - 1))
+    expect(predictCategories(small, 'REWE Markt')).toEqual([])
+  })
+
+  it('ranks the category the memo was seen with first', () => {
+    const [top] = predictCategories(model, 'REWE Markt 9999')
+    expect(top.category_id).toBe('groceries')
+    expect(top.confidence).toBeGreaterThanOrEqual(AUTO_SELECT_CONFIDENCE)
+  })
+
+  it('returns confidences that add up to at most one, most likely first', () => {
+    const predictions = predictCategories(model, 'Shell')
+    expect(predictions[0].category_id).toBe('fuel')
+    const confidences = predictions.map((p) => p.confidence)
+    expect(confidences).toEqual([...confidences].sort((a, b) => b - a))
+    expect(confidences.reduce((sum, c) => sum + c, 0)).toBeLessThanOrEqual(1 + 1e-9)
+  })
+
+  it('ignores tokens it has never seen', () => {
+    expect(predictCategories(model, 'Unbekannter Laden 42')).toEqual([])
+    expect(predictCategories(model, 'Unbekannter Laden Netflix')[0].category_id).toBe('streaming')
+  })
+
+  it('restricts the ranking to the candidate categories', () => {
+    const predictions = predictCategories(model, 'Gehalt', { candidateIds: ['salary', 'unknown'] })
+    expect(predictions).toEqual([{ category_id: 'salary', confidence: 1 }])
+    expect(predictCategories(model, 'REWE', { candidateIds: ['unknown'] })).toEqual([])
+  })
+
+  it('limits the number of predictions', () => {
+    expect(predictCategories(model, 'REWE Shell Netflix', { limit: 1 })).toHaveLength(1)
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { applyCategoryRules, matchesRule } from '@/lib/category-rules'
+import type { CategoryRule } from '@/lib/types'
+
+function rule(overrides: Partial<CategoryRule>): CategoryRule {
+  return {
+    id: 'rule-1',
+    user_id: 'user-1',
+    match_type: 'contains',
+    match_value: null,
+    min_amount: null,
+    max_amount: null,
+    category_id: 'groceries',
+    set_memo: null,
+    sort_order: 0,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('matchesRule', () => {
+  it('matches contains case-insensitively', () => {
+    const contains = rule({ match_value: ' rewe ' })
+    expect(matchesRule(contains, { memo: 'REWE Markt 1234', amount: -20 })).toBe(true)
+    expect(matchesRule(contains, { memo: 'Lidl', amount: -20 })).toBe(false)
+    expect(matchesRule(contains, { memo: null, amount: -20 })).toBe(false)
+  })
+
+  it('matches equals against the whole trimmed memo', () => {
+    const equals = rule({ match_type: 'equals', match_value: 'Netflix' })
+    expect(matchesRule(equals, { memo: '  netflix ', amount: -12.99 })).toBe(true)
+    expect(matchesRule(equals, { memo: 'Netflix.com', amount: -12.99 })).toBe(false)
+  })
+
+  it('matches regular expressions and never matches an invalid one', () => {
+    const regex = rule({ id: 'rule-regex', match_type: 'regex', match_value: '^amzn\\s+mktp' })
+    expect(matchesRule(regex, { memo: 'AMZN Mktp DE', amount: -30 })).toBe(true)
+    expect(matchesRule(regex, { memo: 'Paid AMZN Mktp', amount: -30 })).toBe(false)
+
+    const invalid = rule({ id: 'rule-invalid', match_type: 'regex', match_value: '([' })
+    expect(matchesRule(invalid, { memo: '([', amount: -30 })).toBe(false)
+  })
+
+  it('recompiles a regex after the rule is edited', () => {
+    const before = rule({ id: 'rule-edit', match_type: 'regex', match_value: 'shell' })
+    const after = rule({ id: 'rule-edit', match_type: 'regex', match_value: 'aral', updated_at: '2026-02-01T00:00:00Z' })
+    expect(matchesRule(before, { memo: 'Shell Station', amount: -50 })).toBe(true)
+    expect(matchesRule(after, { memo: 'Shell Station', amount: -50 })).toBe(false)
+    expect(matchesRule(after, { memo: 'ARAL Tankstelle', amount: -50 })).toBe(true)
+  })
+
+  it('compares amount ranges inclusively against the absolute amount', () => {
+    const range = rule({ min_amount: '10.00', max_amount: '20.00' })
+    expect(matchesRule(range, { memo: 'anything', amount: -10 })).toBe(true)
+    expect(matchesRule(range, { memo: 'anything', amount: 20 })).toBe(true)
+    expect(matchesRule(range, { memo: 'anything', amount: -9.99 })).toBe(false)
+    expect(matchesRule(range, { memo: 'anything', amount: -20.01 })).toBe(false)
+  })
+
+  it('requires every condition that is set', () => {
+    const both = rule({ match_value: 'rewe', min_amount: '50' })
+    expect(matchesRule(both, { memo: 'REWE', amount: -60 })).toBe(true)
+    expect(matchesRule(both, { memo: 'REWE', amount: -40 })).toBe(false)
+    expect(matchesRule(both, { memo: 'Lidl', amount: -60 })).toBe(false)
+  })
+
+  it('matches everything without conditions', () => {
+    expect(matchesRule(rule({}), { memo: undefined, amount: 0 })).toBe(true)
+  })
+})
+
+describe('applyCategoryRules', () => {
+  const rules = [
+    rule({ id: 'inactive', match_value: 'rewe', category_id: 'household', is_active: false }),
+    rule({ id: 'first', match_value: 'rewe', category_id: 'groceries', set_memo: ' REWE ' }),
+    rule({ id: 'second', match_value: 'rewe', category_id: 'dining' }),
+    rule({ id: 'fallback', match_value: 'paypal', category_id: 'shopping' }),
+  ]
+
+  it('applies the first active matching rule', () => {
+    expect(applyCategoryRules(rules, { memo: 'REWE SAGT DANKE 4711', amount: -23.5 })).toEqual({
+      rule_id: 'first',
+      category_id: 'groceries',
+      memo: 'REWE',
+    })
+  })
+
+  it('keeps the original memo without set_memo', () => {
+    expect(applyCategoryRules(rules, { memo: 'PayPal *Shop', amount: -10 })).toEqual({
+      rule_id: 'fallback',
+      category_id: 'shopping',
+      memo: 'PayPal *Shop',
+    })
+  })
+
+  it('returns null when no rule matches', () => {
+    expect(applyCategoryRules(rules, { memo: 'Lidl', amount: -10 })).toBeNull()
+    expect(applyCategoryRules([], { memo: 'REWE', amount: -10 })).toBeNull()
+  })
+})
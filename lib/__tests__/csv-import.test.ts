@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildImportRows,
+  detectDateFormat,
+  findHeaderRow,
+  guessColumnMapping,
+  parseCsv,
+  parseCsvDate,
+} from '@/lib/csv-import'
+
+describe('parseCsv', () => {
+  it('detects semicolons and keeps commas inside amounts', () => {
+    expect(parseCsv('Datum;Betrag\n01.02.2026;-12,50\n')).toEqual([
+      ['Datum', 'Betrag'],
+      ['01.02.2026', '-12,50'],
+    ])
+  })
+
+  it('handles quoted fields with escaped quotes and line breaks', () => {
+    expect(parseCsv('date,amount,memo\r\n2026-02-01,"1,234.56","Rent ""Feb""\nflat 3"\r\n')).toEqual([
+      ['date', 'amount', 'memo'],
+      ['2026-02-01', '1,234.56', 'Rent "Feb"\nflat 3'],
+    ])
+  })
+
+  it('strips a BOM and skips empty lines', () => {
+    expect(parseCsv('\uFEFFa\tb\n\n\t\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+})
+
+describe('findHeaderRow', () => {
+  it('skips account details above the table', () => {
+    const rows = parseCsv(
+      'Kontonummer:;123456\nZeitraum:;Februar\nBuchungstag;Verwendungszweck;Betrag\n01.02.2026;Miete;-800,00\n'
+    )
+    expect(findHeaderRow(rows)).toBe(2)
+  })
+
+  it('returns 0 for an empty file', () => {
+    expect(findHeaderRow([])).toBe(0)
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('maps German bank headers', () => {
+    expect(
+      guessColumnMapping(['Buchungstag', 'Valuta', 'Buchungstext', 'Auftraggeber / Begünstigter', 'Verwendungszweck', 'Betrag'])
+    ).toEqual({ date: 0, amount: 5, payee: 3, memo: 4 })
+  })
+
+  it('maps English bank headers', () => {
+    expect(guessColumnMapping(['Date', 'Description', 'Amount', 'Payee'])).toEqual({
+      date: 0,
+      amount: 2,
+      payee: 3,
+      memo: 1,
+    })
+  })
+
+  it('leaves unknown columns unmapped', () => {
+    expect(guessColumnMapping(['Foo', 'Bar'])).toEqual({ date: -1, amount: -1, payee: -1, memo: -1 })
+  })
+})
+
+describe('parseCsvDate', () => {
+  it('parses each supported format', () => {
+    expect(parseCsvDate('31.12.2025', 'dd.MM.yyyy')).toBe('2025-12-31')
+    expect(parseCsvDate('31.12.25', 'dd.MM.yy')).toBe('2025-12-31')
+    expect(parseCsvDate(' 2025-12-31 ', 'yyyy-MM-dd')).toBe('2025-12-31')
+    expect(parseCsvDate('31/12/2025', 'dd/MM/yyyy')).toBe('2025-12-31')
+    expect(parseCsvDate('12/31/2025', 'MM/dd/yyyy')).toBe('2025-12-31')
+  })
+
+  it('rejects invalid dates and two-digit years in four-digit formats', () => {
+    expect(parseCsvDate('2025-13-01', 'yyyy-MM-dd')).toBeNull()
+    expect(parseCsvDate('31.12.25', 'dd.MM.yyyy')).toBeNull()
+    expect(parseCsvDate('', 'dd.MM.yyyy')).toBeNull()
+  })
+})
+
+describe('detectDateFormat', () => {
+  it('picks the first format that parses every value', () => {
+    expect(detectDateFormat(['01.02.2026', '15.02.2026'])).toBe('dd.MM.yyyy')
+    expect(detectDateFormat(['2026-02-01', ''])).toBe('yyyy-MM-dd')
+    expect(detectDateFormat(['02/15/2026', '01/03/2026'])).toBe('MM/dd/yyyy')
+  })
+
+  it('falls back to the first format', () => {
+    expect(detectDateFormat(['not a date'])).toBe('dd.MM.yyyy')
+  })
+})
+
+describe('buildImportRows', () => {
+  const mapping = { date: 0, amount: 3, payee: 1, memo: 2 }
+
+  it('combines payee and memo and flags invalid rows', () => {
+    const rows = [
+      ['01.02.2026', 'REWE  Markt', 'Einkauf\n123', '-45,10'],
+      ['02.02.2026', '', 'Gehalt', '2.500,00'],
+      ['33.02.2026', 'Bäcker', '', '-3,20'],
+      ['03.02.2026', 'Bank', 'Info', '0,00'],
+      ['04.02.2026', 'Bank', '', 'n/a'],
+    ]
+    expect(buildImportRows(rows, mapping, 'dd.MM.yyyy', 2)).toEqual([
+      { line: 2, date: '2026-02-01', amount: -45.1, memo: 'REWE Markt · Einkauf 123', error: undefined },
+      { line: 3, date: '2026-02-02', amount: 2500, memo: 'Gehalt', error: undefined },
+      { line: 4, date: null, amount: -3.2, memo: 'Bäcker', error: 'invalidDate' },
+      { line: 5, date: '2026-02-03', amount: 0, memo: 'Bank · Info', error: 'invalidAmount' },
+      { line: 6, date: '2026-02-04', amount: NaN, memo: 'Bank', error: 'invalidAmount' },
+    ])
+  })
+
+  it('ignores unmapped columns', () => {
+    expect(buildImportRows([['2026-02-01', '5.00']], { date: 0, amount: 1, payee: -1, memo: -1 }, 'yyyy-MM-dd', 1)).toEqual([
+      { line: 1, date: '2026-02-01', amount: 5, memo: '', error: undefined },
+    ])
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { parseAmount } from '@/lib/currency'
+
+describe('parseAmount', () => {
+  it('parses German and English thousands and decimal separators', () => {
+    expect(parseAmount('1.234,56')).toBe(1234.56)
+    expect(parseAmount('1,234.56')).toBe(1234.56)
+    expect(parseAmount('1.234.567')).toBe(1234567)
+    expect(parseAmount('1,234,567')).toBe(1234567)
+    expect(parseAmount('1 234,56')).toBe(1234.56)
+  })
+
+  it('treats a single separator as the decimal separator', () => {
+    expect(parseAmount('12,5')).toBe(12.5)
+    expect(parseAmount('12.5')).toBe(12.5)
+    expect(parseAmount('1.234')).toBe(1.234)
+    expect(parseAmount(',99')).toBe(0.99)
+  })
+
+  it('strips currency symbols and codes', () => {
+    expect(parseAmount('12,50 €')).toBe(12.5)
+    expect(parseAmount('$1,000.00')).toBe(1000)
+    expect(parseAmount('EUR 99,90')).toBe(99.9)
+    expect(parseAmount('99.90 USD')).toBe(99.9)
+  })
+
+  it('reads leading and trailing signs', () => {
+    expect(parseAmount('-12,50')).toBe(-12.5)
+    expect(parseAmount('+12,50')).toBe(12.5)
+    expect(parseAmount('12,50-')).toBe(-12.5)
+    expect(parseAmount('- 12,50 €')).toBe(-12.5)
+  })
+
+  it('reads accounting parentheses as negative', () => {
+    expect(parseAmount('(45.00)')).toBe(-45)
+    expect(parseAmount('(1.234,56 €)')).toBe(-1234.56)
+  })
+
+  it('returns NaN for anything that is not a number', () => {
+    expect(parseAmount('')).toBeNaN()
+    expect(parseAmount('-')).toBeNaN()
+    expect(parseAmount('abc')).toBeNaN()
+    expect(parseAmount('12a')).toBeNaN()
+    expect(parseAmount('1.2.3,4,5')).toBeNaN()
+  })
+})
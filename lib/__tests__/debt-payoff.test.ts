@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { getPayoffOrder, getPlannedCategoryPayments, simulatePayoff } from '@/lib/debt-payoff'
+
+function debt(id: string, principal: string, interestRate: string, minimumPayment: string) {
+  return { id, name: id, principal, interest_rate: interestRate, minimum_payment: minimumPayment }
+}
+
+describe('getPayoffOrder', () => {
+  const debts = [debt('car', '3000', '5', '100'), debt('card', '1500', '22', '50'), debt('phone', '500', '10', '25')]
+
+  it('pays the smallest balance first with SNOWBALL', () => {
+    expect(getPayoffOrder(debts, 'SNOWBALL')).toEqual(['phone', 'card', 'car'])
+  })
+
+  it('pays the highest interest rate first with AVALANCHE', () => {
+    expect(getPayoffOrder(debts, 'AVALANCHE')).toEqual(['card', 'phone', 'car'])
+  })
+
+  it('breaks ties with the other criterion', () => {
+    const tied = [debt('a', '500', '5', '10'), debt('b', '500', '9', '10'), debt('c', '800', '9', '10')]
+    expect(getPayoffOrder(tied, 'SNOWBALL')).toEqual(['b', 'a', 'c'])
+    expect(getPayoffOrder(tied, 'AVALANCHE')).toEqual(['b', 'c', 'a'])
+  })
+})
+
+describe('simulatePayoff', () => {
+  it('rolls the extra payment and freed minimums into the next debt', () => {
+    const schedule = simulatePayoff(
+      [debt('small', '100', '0', '30'), debt('large', '200', '0', '50')],
+      'SNOWBALL',
+      20,
+      '2026-01'
+    )
+
+    expect(schedule.months.map((m) => [m.month_iso, m.total_payment, m.remaining])).toEqual([
+      ['2026-01', 100, 200],
+      ['2026-02', 100, 100],
+      ['2026-03', 100, 0],
+    ])
+    expect(schedule.debts).toEqual({
+      small: { payoff_month: '2026-02', total_interest: 0, total_paid: 100 },
+      large: { payoff_month: '2026-03', total_interest: 0, total_paid: 200 },
+    })
+    expect(schedule.total_paid).toBe(300)
+    expect(schedule.debt_free_month).toBe('2026-03')
+  })
+
+  it('adds a month of interest before paying', () => {
+    const schedule = simulatePayoff([debt('loan', '1200', '12', '100')], 'AVALANCHE', 0, '2026-01')
+
+    expect(schedule.months[0].payments).toEqual([
+      { debt_id: 'loan', payment: 100, interest: 12, principal: 88, balance: 1112 },
+    ])
+    expect(schedule.debts.loan.total_paid).toBeCloseTo(1200 + schedule.total_interest, 2)
+  })
+
+  it('pays less interest with AVALANCHE than with SNOWBALL', () => {
+    const debts = [debt('card', '2000', '24', '60'), debt('phone', '300', '3', '20')]
+    const snowball = simulatePayoff(debts, 'SNOWBALL', 100, '2026-01')
+    const avalanche = simulatePayoff(debts, 'AVALANCHE', 100, '2026-01')
+
+    expect(avalanche.total_interest).toBeLessThan(snowball.total_interest)
+    expect(avalanche.debt_free_month).not.toBeNull()
+  })
+
+  it('stops when the payments do not cover the interest', () => {
+    const schedule = simulatePayoff([debt('card', '1000', '24', '10')], 'SNOWBALL', 0, '2026-01')
+
+    expect(schedule.months).toHaveLength(2)
+    expect(schedule.debts.card.payoff_month).toBeNull()
+    expect(schedule.debt_free_month).toBeNull()
+  })
+
+  it('returns an empty schedule without debts', () => {
+    expect(simulatePayoff([], 'SNOWBALL', 100, '2026-01')).toEqual({
+      strategy: 'SNOWBALL',
+      order: [],
+      months: [],
+      debts: {},
+      total_interest: 0,
+      total_paid: 0,
+      debt_free_month: null,
+    })
+  })
+})
+
+describe('getPlannedCategoryPayments', () => {
+  const schedule = simulatePayoff(
+    [debt('small', '100', '0', '30'), debt('large', '200', '0', '50'), debt('other', '40', '0', '10')],
+    'SNOWBALL',
+    0,
+    '2026-01'
+  )
+
+  it('sums the payments per category and skips debts without one', () => {
+    expect(
+      getPlannedCategoryPayments(
+        schedule,
+        [
+          { id: 'small', category_id: 'loans' },
+          { id: 'large', category_id: 'loans' },
+          { id: 'other', category_id: null },
+        ],
+        '2026-01'
+      )
+    ).toEqual({ loans: '80.00' })
+  })
+
+  it('plans nothing for months outside the schedule', () => {
+    expect(getPlannedCategoryPayments(schedule, [{ id: 'small', category_id: 'loans' }], '2030-01')).toEqual({
+      loans: '0.00',
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCashFlowForecast,
+  getAverageMonths,
+  getAverageVariableSpend,
+  getForecastMonths,
+  isDueInMonth,
+} from '@/lib/forecast'
+import type { Category } from '@/lib/types'
+
+const today = new Date(2026, 9, 19) // 19 October 2026
+
+function category(
+  id: string,
+  type: Category['type'],
+  targetAmount: string | null,
+  dueDate: string | null = null
+): Pick<Category, 'id' | 'name' | 'type' | 'target_amount' | 'due_date'> {
+  return { id, name: id, type, target_amount: targetAmount, due_date: dueDate }
+}
+
+describe('getForecastMonths', () => {
+  it('covers the twelve months after today', () => {
+    const months = getForecastMonths(today)
+    expect(months).toHaveLength(12)
+    expect(months[0]).toBe('2026-11')
+    expect(months[11]).toBe('2027-10')
+  })
+})
+
+describe('getAverageMonths', () => {
+  it('covers the six complete months before today', () => {
+    expect(getAverageMonths(today)).toEqual(['2026-04', '2026-05', '2026-06', '2026-07', '2026-08', '2026-09'])
+  })
+})
+
+describe('getAverageVariableSpend', () => {
+  const months = ['2026-08', '2026-09']
+
+  it('averages only the months that have a summary', () => {
+    expect(
+      getAverageVariableSpend(
+        [
+          { month_iso: '2026-07', expenses_by_type: { VARIABLE: 9999 } },
+          { month_iso: '2026-08', expenses_by_type: { VARIABLE: 410.5, FIX: 800 } },
+          { month_iso: '2026-09', expenses_by_type: { FIX: 800 } },
+        ],
+        months
+      )
+    ).toEqual({ average: 205.25, months: 2 })
+  })
+
+  it('returns zero without history', () => {
+    expect(getAverageVariableSpend([], months)).toEqual({ average: 0, months: 0 })
+  })
+})
+
+describe('isDueInMonth', () => {
+  it('repeats the due date every year from its first month', () => {
+    expect(isDueInMonth('2026-03-15', '2026-03')).toBe(true)
+    expect(isDueInMonth('2026-03-15', '2028-03')).toBe(true)
+    expect(isDueInMonth('2026-03-15', '2025-03')).toBe(false)
+    expect(isDueInMonth('2026-03-15', '2026-04')).toBe(false)
+  })
+})
+
+describe('buildCashFlowForecast', () => {
+  const categories = [
+    category('rent', 'FIX', '800.00'),
+    category('gym', 'FIX', null),
+    category('insurance', 'SF1', '300.00', '2025-12-01'),
+    category('vacation', 'SF2', '1000.00', '2026-11-01'),
+    category('groceries', 'VARIABLE', '500.00'),
+  ]
+  const recurring = [
+    { frequency: 'monthly' as const, start_date: '2026-01-25', end_date: null, amount: '3000.00' },
+    { frequency: 'biweekly' as const, start_date: '2026-11-06', end_date: null, amount: '100.00' },
+    { frequency: 'monthly' as const, start_date: '2026-01-01', end_date: null, amount: '-800.00' },
+  ]
+
+  it('projects income, planned expenses and the running balance', () => {
+    const forecast = buildCashFlowForecast(1000, ['2026-11', '2026-12'], categories, recurring, {
+      average: 400,
+      months: 3,
+    })
+
+    expect(forecast).toEqual({
+      opening_balance: 1000,
+      variable_average: 400,
+      variable_months: 3,
+      months: [
+        {
+          month_iso: '2026-11',
+          income: 3200,
+          fixed: 800,
+          sinking_funds: 0,
+          variable: 400,
+          expenses: 1200,
+          net: 2000,
+          balance: 3000,
+          is_shortfall: false,
+          due: [],
+        },
+        {
+          month_iso: '2026-12',
+          income: 3200,
+          fixed: 800,
+          sinking_funds: 300,
+          variable: 400,
+          expenses: 1500,
+          net: 1700,
+          balance: 4700,
+          is_shortfall: false,
+          due: [{ category_id: 'insurance', name: 'insurance', amount: 300 }],
+        },
+      ],
+    })
+  })
+
+  it('flags months whose planned expenses exceed the income', () => {
+    const ending = [{ frequency: 'monthly' as const, start_date: '2026-01-25', end_date: '2026-11-30', amount: '3000.00' }]
+    const forecast = buildCashFlowForecast(500, ['2026-11', '2026-12'], categories, ending, { average: 0, months: 0 })
+
+    expect(forecast.months.map((m) => [m.income, m.net, m.balance, m.is_shortfall])).toEqual([
+      [3000, 2200, 2700, false],
+      [0, -1100, 1600, true],
+    ])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { getOverspentCategories } from '@/lib/overspending'
+import type { MonthlyBudgetWithActivity, ZBBCategoryType } from '@/lib/types'
+
+function budget(categoryId: string, type: ZBBCategoryType, available: string): MonthlyBudgetWithActivity {
+  return {
+    category_id: categoryId,
+    available,
+    category: { id: categoryId, type },
+  } as MonthlyBudgetWithActivity
+}
+
+describe('getOverspentCategories', () => {
+  it('returns nothing when no category is overspent', () => {
+    expect(getOverspentCategories([budget('rent', 'FIX', '0.00'), budget('food', 'VARIABLE', '12.00')], 100)).toEqual([])
+  })
+
+  it('ignores income categories', () => {
+    expect(getOverspentCategories([budget('salary', 'INCOME', '-500.00')], 100)).toEqual([])
+  })
+
+  it('lists the most overspent category first', () => {
+    const result = getOverspentCategories(
+      [budget('food', 'VARIABLE', '-10.00'), budget('fuel', 'VARIABLE', '-45.50')],
+      0
+    )
+    expect(result.map((r) => [r.budget.category_id, r.overspent])).toEqual([
+      ['fuel', 45.5],
+      ['food', 10],
+    ])
+  })
+
+  it('suggests To Be Budgeted, then categories, then SF2 savings', () => {
+    const [result] = getOverspentCategories(
+      [
+        budget('food', 'VARIABLE', '-30.00'),
+        budget('fun', 'VARIABLE', '20.00'),
+        budget('rent', 'FIX', '50.00'),
+        budget('vacation', 'SF2', '200.00'),
+      ],
+      100
+    )
+    expect(result.suggestions).toEqual([
+      { type: 'TO_BE_BUDGETED', categoryId: null, amount: 30 },
+      { type: 'CATEGORY', categoryId: 'rent', amount: 30 },
+      { type: 'CATEGORY', categoryId: 'fun', amount: 20 },
+    ])
+  })
+
+  it('never suggests SF1 sinking funds', () => {
+    const [result] = getOverspentCategories(
+      [budget('food', 'VARIABLE', '-30.00'), budget('insurance', 'SF1', '500.00'), budget('vacation', 'SF2', '10.00')],
+      0
+    )
+    expect(result.suggestions).toEqual([{ type: 'SAVINGS', categoryId: 'vacation', amount: 10 }])
+  })
+
+  it('puts a single source that covers everything first', () => {
+    const [result] = getOverspentCategories(
+      [budget('food', 'VARIABLE', '-60.00'), budget('vacation', 'SF2', '100.00')],
+      25
+    )
+    expect(result.suggestions).toEqual([
+      { type: 'SAVINGS', categoryId: 'vacation', amount: 60 },
+      { type: 'TO_BE_BUDGETED', categoryId: null, amount: 25 },
+    ])
+  })
+
+  it('does not spend the same money twice across overspent categories', () => {
+    const [fuel, food] = getOverspentCategories(
+      [budget('food', 'VARIABLE', '-20.00'), budget('fuel', 'VARIABLE', '-40.00'), budget('rent', 'FIX', '30.00')],
+      50
+    )
+    expect(fuel.suggestions[0]).toEqual({ type: 'TO_BE_BUDGETED', categoryId: null, amount: 40 })
+    // Only 10 left in To Be Budgeted, so the full cover now comes from rent
+    expect(food.suggestions).toEqual([
+      { type: 'CATEGORY', categoryId: 'rent', amount: 20 },
+      { type: 'TO_BE_BUDGETED', categoryId: null, amount: 10 },
+    ])
+  })
+
+  it('returns no suggestions when there is no money left anywhere', () => {
+    const [result] = getOverspentCategories([budget('food', 'VARIABLE', '-30.00')], 0)
+    expect(result.suggestions).toEqual([])
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getAvailableThrough,
+  getCarryover,
+  getEffectiveSweepTarget,
+  getSweepAmount,
+  type CategoryMonthHistory,
+} from '@/lib/rollover'
+
+describe('getCarryover', () => {
+  it('carries the whole balance for ACCUMULATE', () => {
+    expect(getCarryover('ACCUMULATE', 120.5)).toBe(120.5)
+    expect(getCarryover('ACCUMULATE', -30)).toBe(-30)
+  })
+
+  it('carries nothing for RESET', () => {
+    expect(getCarryover('RESET', 120.5)).toBe(0)
+    expect(getCarryover('RESET', -30)).toBe(0)
+  })
+
+  it('carries only overspending for SWEEP', () => {
+    expect(getCarryover('SWEEP', 120.5)).toBe(0)
+    expect(getCarryover('SWEEP', -30)).toBe(-30)
+  })
+})
+
+describe('getSweepAmount', () => {
+  it('sweeps the positive leftover of SWEEP categories', () => {
+    expect(getSweepAmount('SWEEP', 42.125)).toBe(42.13)
+  })
+
+  it('sweeps nothing from overspent or empty categories', () => {
+    expect(getSweepAmount('SWEEP', -10)).toBe(0)
+    expect(getSweepAmount('SWEEP', 0)).toBe(0)
+  })
+
+  it('sweeps nothing for other strategies', () => {
+    expect(getSweepAmount('ACCUMULATE', 50)).toBe(0)
+    expect(getSweepAmount('RESET', 50)).toBe(0)
+  })
+})
+
+describe('getEffectiveSweepTarget', () => {
+  const active = new Set(['groceries', 'savings'])
+
+  it('returns an active target', () => {
+    expect(getEffectiveSweepTarget({ sweep_target_category_id: 'savings' }, active)).toBe('savings')
+  })
+
+  it('treats a missing target as no target', () => {
+    expect(getEffectiveSweepTarget({ sweep_target_category_id: null }, active)).toBeNull()
+  })
+
+  it('treats an inactive or deleted target as no target', () => {
+    expect(getEffectiveSweepTarget({ sweep_target_category_id: 'archived-vacation' }, active)).toBeNull()
+  })
+})
+
+describe('getAvailableThrough', () => {
+  const history: CategoryMonthHistory = {
+    '2026-01': { assigned: 100, activity: -60 },
+    '2026-02': { assigned: 50, activity: -120 },
+    '2026-04': { assigned: 80, activity: -20.5 },
+  }
+
+  it('carries the full balance through every month for ACCUMULATE', () => {
+    expect(getAvailableThrough('ACCUMULATE', history, '2026-01')).toBe(40)
+    expect(getAvailableThrough('ACCUMULATE', history, '2026-02')).toBe(-30)
+    expect(getAvailableThrough('ACCUMULATE', history, '2026-04')).toBe(29.5)
+  })
+
+  it('starts every month from zero for RESET', () => {
+    expect(getAvailableThrough('RESET', history, '2026-02')).toBe(-70)
+    expect(getAvailableThrough('RESET', history, '2026-04')).toBe(59.5)
+  })
+
+  it('carries only overspending for SWEEP', () => {
+    expect(getAvailableThrough('SWEEP', history, '2026-02')).toBe(-70)
+    expect(getAvailableThrough('SWEEP', history, '2026-04')).toBe(-10.5)
+  })
+
+  it('applies the carryover to months without entries', () => {
+    expect(getAvailableThrough('ACCUMULATE', history, '2026-03')).toBe(-30)
+    expect(getAvailableThrough('SWEEP', history, '2026-03')).toBe(-70)
+    expect(getAvailableThrough('RESET', history, '2026-03')).toBe(0)
+    expect(getAvailableThrough('SWEEP', { '2026-01': { assigned: 100, activity: -60 } }, '2026-02')).toBe(0)
+  })
+
+  it('ignores months after the requested month', () => {
+    expect(getAvailableThrough('ACCUMULATE', history, '2025-12')).toBe(0)
+  })
+})
@@ -0,0 +1,242 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import {
+  detectStatementFormat,
+  parseCamt053,
+  parseOfx,
+  parseQif,
+  parseQifDate,
+  parseStatement,
+} from '@/lib/statement-formats'
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+}
+
+describe('detectStatementFormat', () => {
+  it('detects every fixture format from its content', () => {
+    expect(detectStatementFormat(fixture('statement-sgml.ofx'))).toBe('ofx')
+    expect(detectStatementFormat(fixture('statement-xml.qfx'))).toBe('ofx')
+    expect(detectStatementFormat(fixture('statement-us.qif'))).toBe('qif')
+    expect(detectStatementFormat(fixture('statement-de.qif'))).toBe('qif')
+    expect(detectStatementFormat(fixture('statement-camt053.xml'))).toBe('camt053')
+  })
+
+  it('falls back to CSV', () => {
+    expect(detectStatementFormat('Buchungstag;Betrag;Verwendungszweck\n31.01.2024;-12,50;Bäckerei')).toBe('csv')
+  })
+
+  it('ignores a byte order mark', () => {
+    expect(detectStatementFormat(`﻿${fixture('statement-us.qif')}`)).toBe('qif')
+  })
+})
+
+describe('parseOfx', () => {
+  it('parses OFX 1.x SGML with unclosed elements', () => {
+    expect(parseOfx(fixture('statement-sgml.ofx'))).toEqual([
+      {
+        line: 1,
+        date: '2024-01-15',
+        amount: -42.5,
+        memo: 'AT&T WIRELESS · Monthly bill',
+        import_id: 'ofx:4455667788:202401150001',
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-01-31',
+        amount: 1500,
+        memo: 'ACME PAYROLL',
+        import_id: 'ofx:4455667788:202401310002',
+        error: undefined,
+      },
+    ])
+  })
+
+  it('parses OFX 2.x XML credit card statements', () => {
+    expect(parseOfx(fixture('statement-xml.qfx'))).toEqual([
+      {
+        line: 1,
+        date: '2024-02-03',
+        amount: -12.99,
+        memo: 'NETFLIX.COM · Subscription',
+        import_id: 'ofx:XXXX1234:320240203-1',
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-02-28',
+        amount: 250,
+        memo: 'PAYMENT THANK YOU',
+        import_id: 'ofx:XXXX1234:320240228-7',
+        error: undefined,
+      },
+    ])
+  })
+
+  it('scopes import ids by the account of each statement in the file', () => {
+    expect(parseOfx(fixture('statement-multi.ofx'))).toEqual([
+      {
+        line: 1,
+        date: '2024-03-05',
+        amount: -60,
+        memo: 'CITY WATER',
+        import_id: 'ofx:1111222233:A-1',
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-03-31',
+        amount: 3.12,
+        memo: 'INTEREST',
+        import_id: 'ofx:4444555566:A-1',
+        error: undefined,
+      },
+      {
+        line: 3,
+        date: '2024-03-10',
+        amount: -24.99,
+        memo: 'BOOKSHOP',
+        import_id: 'ofx:XXXX9876:C-77',
+        error: undefined,
+      },
+    ])
+  })
+})
+
+describe('parseQifDate', () => {
+  it('reads US dates', () => {
+    expect(parseQifDate('1/31/2024')).toBe('2024-01-31')
+    expect(parseQifDate("2/1'24")).toBe('2024-02-01')
+    expect(parseQifDate('12/31/99')).toBe('1999-12-31')
+  })
+
+  it('reads German and ISO dates', () => {
+    expect(parseQifDate('31.01.2024')).toBe('2024-01-31')
+    expect(parseQifDate('1.2.24')).toBe('2024-02-01')
+    expect(parseQifDate('2024-02-29')).toBe('2024-02-29')
+  })
+
+  it('rejects dates that do not exist', () => {
+    expect(parseQifDate('30.02.2024')).toBeNull()
+    expect(parseQifDate('13/01/2024')).toBeNull()
+    expect(parseQifDate('yesterday')).toBeNull()
+  })
+})
+
+describe('parseQif', () => {
+  it('parses US dates and amounts and ignores split lines', () => {
+    expect(parseQif(fixture('statement-us.qif'))).toEqual([
+      {
+        line: 1,
+        date: '2024-01-31',
+        amount: -1234.56,
+        memo: 'Rent January · Apartment 4B',
+        import_id: undefined,
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-02-01',
+        amount: 2500,
+        memo: 'ACME Payroll',
+        import_id: undefined,
+        error: undefined,
+      },
+      {
+        line: 3,
+        date: '2024-02-14',
+        amount: -80,
+        memo: 'Grocery Store · Weekly shopping',
+        import_id: undefined,
+        error: undefined,
+      },
+    ])
+  })
+
+  it('parses German dates and amounts and flags invalid dates', () => {
+    expect(parseQif(fixture('statement-de.qif'))).toEqual([
+      {
+        line: 1,
+        date: '2024-01-31',
+        amount: -1234.56,
+        memo: 'Miete Januar',
+        import_id: undefined,
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-02-01',
+        amount: 2500,
+        memo: 'Arbeitgeber GmbH · Gehalt',
+        import_id: undefined,
+        error: undefined,
+      },
+      {
+        line: 3,
+        date: null,
+        amount: -5,
+        memo: 'Ungültiges Datum',
+        import_id: undefined,
+        error: 'invalidDate',
+      },
+    ])
+  })
+})
+
+describe('parseCamt053', () => {
+  it('parses entries with AcctSvcrRef and EndToEndId import ids', () => {
+    expect(parseCamt053(fixture('statement-camt053.xml'))).toEqual([
+      {
+        line: 1,
+        date: '2024-03-04',
+        amount: -45.9,
+        memo: 'Stadtwerke München · Abschlag Strom März 2024',
+        import_id: 'camt:DE89370400440532013000:2024030400123',
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-03-01',
+        amount: 2500,
+        memo: 'Arbeitgeber GmbH · Gehalt März',
+        import_id: 'camt:DE89370400440532013000:GEHALT-2024-03',
+        error: undefined,
+      },
+      {
+        line: 3,
+        date: '2024-03-29',
+        amount: -4.95,
+        memo: 'Kontoführungsgebühr',
+        import_id: undefined,
+        error: undefined,
+      },
+    ])
+  })
+
+  it('flips the sign of reversed entries', () => {
+    expect(parseCamt053(fixture('statement-camt053-reversal.xml'))).toEqual([
+      {
+        line: 1,
+        date: '2024-04-02',
+        amount: -89,
+        memo: 'Fitnessstudio GmbH · Beitrag April',
+        import_id: 'camt:DE89370400440532013000:2024040200077',
+        error: undefined,
+      },
+      {
+        line: 2,
+        date: '2024-04-05',
+        amount: 89,
+        memo: 'Fitnessstudio GmbH · Ruecklastschrift Beitrag April',
+        import_id: 'camt:DE89370400440532013000:2024040500012',
+        error: undefined,
+      },
+    ])
+  })
+
+  it('is used by parseStatement for camt053 files', () => {
+    const text = fixture('statement-camt053.xml')
+    expect(parseStatement(text, 'camt053')).toEqual(parseCamt053(text))
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Loading of accounts on the server
+ * Kept out of the server actions so it is not exposed as an action itself
+ */
+
+import { getServerSupabase } from '@/lib/supabase'
+import type { AccountWithBalance } from '@/lib/types'
+
+/**
+ * Get all active accounts of a user with their balances
+ */
+export async function getUserAccounts(userId: string): Promise<AccountWithBalance[]> {
+  const { data: accounts, error } = await getServerSupabase()
+    .from('accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching accounts:', error)
+    throw new Error('Failed to fetch accounts')
+  }
+
+  const { data: balances, error: balanceError } = await getServerSupabase()
+    .from('account_balances')
+    .select('account_id, total, reconciled_total, unreconciled_count')
+    .eq('user_id', userId)
+
+  if (balanceError) {
+    console.error('Error fetching account balances:', balanceError)
+    throw new Error('Failed to fetch account balances')
+  }
+
+  return (accounts || []).map((account) => {
+    const totals = balances?.find((b) => b.account_id === account.id)
+    const initialBalance = parseFloat(account.initial_balance)
+
+    return {
+      ...account,
+      balance: (initialBalance + parseFloat(totals?.total || '0')).toFixed(2),
+      reconciled_balance: (initialBalance + parseFloat(totals?.reconciled_total || '0')).toFixed(2),
+      unreconciled_count: Number(totals?.unreconciled_count || 0),
+    }
+  })
+}
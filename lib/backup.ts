@@ -0,0 +1,338 @@
+/**
+ * Backup restore
+ * Pure planning helpers: match backup rows with existing data and give
+ * every restored row a new id (no database access)
+ */
+
+import { BACKUP_TABLES, type BackupTable, type ParsedBackup, type RestoreSummary } from '@/lib/types'
+
+type Amount = string | number
+
+/**
+ * Existing rows a merge compares the backup with (all empty for replace)
+ */
+export interface ExistingData {
+  categories: { id: string; name: string | null; type: string }[]
+  accounts: { id: string; name: string; type: string }[]
+  payees: { id: string; name: string }[]
+  recurring_transactions: { id: string; memo: string | null; amount: Amount; frequency: string; start_date: string }[]
+  category_rules: {
+    match_type: string
+    match_value: string | null
+    min_amount: Amount | null
+    max_amount: Amount | null
+    category_id: string
+  }[]
+  transactions: {
+    date: string
+    amount: Amount
+    memo: string | null
+    account_id: string | null
+    import_id: string | null
+    recurring_transaction_id: string | null
+  }[]
+  monthly_budgets: { category_id: string; month_iso: string }[]
+  budget_moves: {
+    month_iso: string
+    from_category_id: string | null
+    to_category_id: string | null
+    amount: Amount
+    created_at: string
+  }[]
+  month_closes: { month_iso: string }[]
+  net_worth_items: { id: string; name: string; kind: string }[]
+  net_worth_snapshots: { item_id: string; date: string }[]
+  debts: { id: string; name: string }[]
+  debt_plans: { id: string }[]
+}
+
+export const EMPTY_EXISTING_DATA: ExistingData = {
+  categories: [],
+  accounts: [],
+  payees: [],
+  recurring_transactions: [],
+  category_rules: [],
+  transactions: [],
+  monthly_budgets: [],
+  budget_moves: [],
+  month_closes: [],
+  net_worth_items: [],
+  net_worth_snapshots: [],
+  debts: [],
+  debt_plans: [],
+}
+
+/**
+ * Rows to insert per table, in BACKUP_TABLES order
+ * Every row of a table has the same keys
+ */
+export interface RestorePlan {
+  rows: Record<BackupTable, Record<string, unknown>[]>
+  tables: RestoreSummary['tables']
+}
+
+function nameKey(name: string | null): string {
+  return (name ?? '').trim().toLowerCase()
+}
+
+function amountKey(amount: Amount | null): string {
+  return amount === null ? '' : Number(amount).toFixed(2)
+}
+
+function transactionKey(date: string, amount: Amount, memo: string | null, accountId: string | null): string {
+  return [date, amountKey(amount), memo ?? '', accountId ?? ''].join('|')
+}
+
+/**
+ * Work out which backup rows a restore writes
+ *
+ * Categories, accounts and payees with the same name (and type) as an
+ * existing one are not restored again; references to them are remapped to
+ * the existing row. Everything else gets a new id, so a backup can be
+ * restored into any account without clashing with rows that still exist.
+ * Sweep transfers are left out; re-closing the months creates them again.
+ *
+ * @param userId - Recorded as the author of restored budget moves
+ */
+export function planRestore(backup: ParsedBackup, existing: ExistingData, userId: string): RestorePlan {
+  const { tables: backupTables } = backup
+  const ids = new Map<string, string>() // backup id -> id in the database
+  const rows = {} as RestorePlan['rows']
+  const tables = {} as RestorePlan['tables']
+  for (const table of BACKUP_TABLES) {
+    rows[table] = []
+    tables[table] = { added: 0, skipped: 0, removed: 0 }
+  }
+
+  const ref = (id: string | null) => (id === null ? null : ids.get(id) ?? null)
+  const newId = (backupId: string) => {
+    const id = crypto.randomUUID()
+    ids.set(backupId, id)
+    return id
+  }
+  const add = (table: BackupTable, row: Record<string, unknown>) => {
+    rows[table].push(row)
+    tables[table].added++
+  }
+  const skip = (table: BackupTable) => {
+    tables[table].skipped++
+  }
+
+  // Categories first; sweep targets may point to any category, so they are remapped in a second pass
+  const existingCategories = new Map(
+    existing.categories.filter((c) => c.name).map((c) => [`${c.type}|${nameKey(c.name)}`, c.id])
+  )
+  const newCategories = backupTables.categories.filter((category) => {
+    const match = category.name ? existingCategories.get(`${category.type}|${nameKey(category.name)}`) : undefined
+    if (match) {
+      ids.set(category.id, match)
+      skip('categories')
+      return false
+    }
+    newId(category.id)
+    return true
+  })
+  for (const category of newCategories) {
+    add('categories', {
+      ...category,
+      id: ids.get(category.id),
+      sweep_target_category_id: ref(category.sweep_target_category_id),
+    })
+  }
+
+  const existingAccounts = new Map(existing.accounts.map((a) => [`${a.type}|${nameKey(a.name)}`, a.id]))
+  for (const account of backupTables.accounts) {
+    const match = existingAccounts.get(`${account.type}|${nameKey(account.name)}`)
+    if (match) {
+      ids.set(account.id, match)
+      skip('accounts')
+      continue
+    }
+    add('accounts', { ...account, id: newId(account.id), payment_category_id: ref(account.payment_category_id) })
+  }
+
+  const existingPayees = new Map(existing.payees.map((p) => [nameKey(p.name), p.id]))
+  for (const payee of backupTables.payees) {
+    const match = existingPayees.get(nameKey(payee.name))
+    if (match) {
+      ids.set(payee.id, match)
+      skip('payees')
+      continue
+    }
+    add('payees', { ...payee, id: newId(payee.id), default_category_id: ref(payee.default_category_id) })
+  }
+
+  const recurringKey = (r: { memo: string | null; amount: Amount; frequency: string; start_date: string }) =>
+    [r.memo ?? '', amountKey(r.amount), r.frequency, r.start_date].join('|')
+  const existingRecurring = new Map(existing.recurring_transactions.map((r) => [recurringKey(r), r.id]))
+  for (const recurring of backupTables.recurring_transactions) {
+    const match = existingRecurring.get(recurringKey(recurring))
+    if (match) {
+      ids.set(recurring.id, match)
+      skip('recurring_transactions')
+      continue
+    }
+    add('recurring_transactions', {
+      ...recurring,
+      id: newId(recurring.id),
+      category_id: ref(recurring.category_id),
+      account_id: ref(recurring.account_id),
+    })
+  }
+
+  const ruleKey = (r: ExistingData['category_rules'][number]) =>
+    [r.match_type, r.match_value ?? '', amountKey(r.min_amount), amountKey(r.max_amount), r.category_id].join('|')
+  const existingRules = new Set(existing.category_rules.map(ruleKey))
+  for (const rule of backupTables.category_rules) {
+    const categoryId = ref(rule.category_id)
+    if (!categoryId || existingRules.has(ruleKey({ ...rule, category_id: categoryId }))) {
+      skip('category_rules')
+      continue
+    }
+    add('category_rules', { ...rule, id: newId(rule.id), category_id: categoryId })
+  }
+
+  // Duplicates: same bank id, same recurring occurrence, or same date, amount, memo and account
+  const importIds = new Set(existing.transactions.map((t) => t.import_id).filter(Boolean))
+  const occurrences = new Set(
+    existing.transactions
+      .filter((t) => t.recurring_transaction_id)
+      .map((t) => `${t.recurring_transaction_id}|${t.date}`)
+  )
+  const contentCounts = new Map<string, number>()
+  for (const t of existing.transactions) {
+    const key = transactionKey(t.date, t.amount, t.memo, t.account_id)
+    contentCounts.set(key, (contentCounts.get(key) || 0) + 1)
+  }
+  const isDuplicate = (t: ParsedBackup['tables']['transactions'][number]) => {
+    if (t.import_id && importIds.has(t.import_id)) return true
+    const recurringId = ref(t.recurring_transaction_id)
+    if (recurringId && occurrences.has(`${recurringId}|${t.date}`)) return true
+    const key = transactionKey(t.date, t.amount, t.memo, ref(t.account_id))
+    const count = contentCounts.get(key) || 0
+    if (count > 0) contentCounts.set(key, count - 1)
+    return count > 0
+  }
+
+  // Both legs of a transfer are restored or skipped together
+  const transactions = backupTables.transactions.filter((t) => !t.is_sweep_transaction)
+  const duplicateTransfers = new Set(
+    transactions.filter((t) => t.transfer_id && isDuplicate(t)).map((t) => t.transfer_id)
+  )
+  const transferIds = new Map<string, string>()
+  for (const transaction of transactions) {
+    const { transfer_id: transferId } = transaction
+    if (transferId ? duplicateTransfers.has(transferId) : isDuplicate(transaction)) {
+      skip('transactions')
+      continue
+    }
+    if (transferId && !transferIds.has(transferId)) {
+      transferIds.set(transferId, crypto.randomUUID())
+    }
+
+    add('transactions', {
+      id: newId(transaction.id),
+      category_id: ref(transaction.category_id),
+      amount: transaction.amount,
+      date: transaction.date,
+      memo: transaction.memo,
+      account_id: ref(transaction.account_id),
+      is_starting_balance: transaction.is_starting_balance,
+      is_reconciled: transaction.is_reconciled,
+      transfer_id: transferId ? transferIds.get(transferId) : null,
+      recurring_transaction_id: ref(transaction.recurring_transaction_id),
+      import_id: transaction.import_id,
+      is_split: transaction.is_split,
+      payee_id: ref(transaction.payee_id),
+    })
+  }
+
+  for (const split of backupTables.transaction_splits) {
+    const transactionId = ref(split.transaction_id)
+    const categoryId = ref(split.category_id)
+    if (!transactionId || !categoryId) {
+      skip('transaction_splits')
+      continue
+    }
+    add('transaction_splits', { ...split, id: newId(split.id), transaction_id: transactionId, category_id: categoryId })
+  }
+
+  // Existing assignments win over the backup
+  const existingBudgets = new Set(existing.monthly_budgets.map((b) => `${b.category_id}|${b.month_iso}`))
+  for (const budget of backupTables.monthly_budgets) {
+    const categoryId = ref(budget.category_id)
+    if (!categoryId || existingBudgets.has(`${categoryId}|${budget.month_iso}`)) {
+      skip('monthly_budgets')
+      continue
+    }
+    add('monthly_budgets', { ...budget, id: newId(budget.id), category_id: categoryId })
+  }
+
+  const moveKey = (m: ExistingData['budget_moves'][number]) => {
+    const createdAt = new Date(m.created_at).getTime()
+    return [m.month_iso, m.from_category_id ?? '', m.to_category_id ?? '', amountKey(m.amount), createdAt].join('|')
+  }
+  const existingMoves = new Set(existing.budget_moves.map(moveKey))
+  for (const move of backupTables.budget_moves) {
+    const remapped = { ...move, from_category_id: ref(move.from_category_id), to_category_id: ref(move.to_category_id) }
+    if (existingMoves.has(moveKey(remapped))) {
+      skip('budget_moves')
+      continue
+    }
+    add('budget_moves', { ...remapped, id: newId(move.id), created_by: userId })
+  }
+
+  const closedMonths = new Set(existing.month_closes.map((c) => c.month_iso))
+  for (const close of backupTables.month_closes) {
+    if (closedMonths.has(close.month_iso)) {
+      skip('month_closes')
+      continue
+    }
+    add('month_closes', { id: newId(close.id), month_iso: close.month_iso })
+  }
+
+  const existingItems = new Map(existing.net_worth_items.map((i) => [`${i.kind}|${nameKey(i.name)}`, i.id]))
+  for (const item of backupTables.net_worth_items) {
+    const match = existingItems.get(`${item.kind}|${nameKey(item.name)}`)
+    if (match) {
+      ids.set(item.id, match)
+      skip('net_worth_items')
+      continue
+    }
+    add('net_worth_items', { ...item, id: newId(item.id) })
+  }
+
+  // One snapshot per item and date; existing balances win
+  const existingSnapshots = new Set(existing.net_worth_snapshots.map((s) => `${s.item_id}|${s.date}`))
+  for (const snapshot of backupTables.net_worth_snapshots) {
+    const itemId = ref(snapshot.item_id)
+    if (!itemId || existingSnapshots.has(`${itemId}|${snapshot.date}`)) {
+      skip('net_worth_snapshots')
+      continue
+    }
+    existingSnapshots.add(`${itemId}|${snapshot.date}`)
+    add('net_worth_snapshots', { ...snapshot, id: newId(snapshot.id), item_id: itemId })
+  }
+
+  const existingDebts = new Map(existing.debts.map((d) => [nameKey(d.name), d.id]))
+  for (const debt of backupTables.debts) {
+    const match = existingDebts.get(nameKey(debt.name))
+    if (match) {
+      ids.set(debt.id, match)
+      skip('debts')
+      continue
+    }
+    add('debts', { ...debt, id: newId(debt.id), category_id: ref(debt.category_id) })
+  }
+
+  // One plan per user; an existing plan wins
+  for (const plan of backupTables.debt_plans) {
+    if (existing.debt_plans.length > 0) {
+      skip('debt_plans')
+      continue
+    }
+    add('debt_plans', { ...plan, id: newId(plan.id) })
+  }
+
+  return { rows, tables }
+}
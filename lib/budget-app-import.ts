@@ -0,0 +1,546 @@
+/**
+ * Import from other budgeting apps
+ * Converts YNAB, Actual Budget and Finanzguru exports into a backup archive,
+ * so switching uses the same dry run and restore as our own backups
+ *
+ * Supported files (detected from the header row):
+ * - YNAB register and plan CSV (new YNAB and YNAB 4)
+ * - Actual Budget transaction CSV export
+ * - Finanzguru CSV export
+ */
+
+import { isValid, parse, format } from 'date-fns'
+import { de, enUS } from 'date-fns/locale'
+import { parseAmount } from '@/lib/currency'
+import { detectDateFormat, findHeaderRow, parseCsv, parseCsvDate } from '@/lib/csv-import'
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  type AccountType,
+  type ParsedBackup,
+  type ZBBCategoryType,
+} from '@/lib/types'
+
+export type BudgetAppFormat = 'ynab' | 'actual' | 'finanzguru'
+
+type FileKind = 'ynabRegister' | 'ynabPlan' | 'actual' | 'finanzguru'
+
+export interface BudgetAppFile {
+  name: string
+  text: string
+}
+
+export interface BudgetAppImport {
+  source: BudgetAppFormat
+  archive: ParsedBackup
+  invalid_rows: number // rows without a valid date or amount
+}
+
+// Category group names per type, checked in order (first match wins)
+const CATEGORY_TYPE_PATTERNS: [ZBBCategoryType, RegExp][] = [
+  ['INCOME', /inflow|income|einnahme|einkommen|gehalt|salary|ready to assign|to be budgeted/],
+  ['CREDIT_CARD', /credit card payment|kreditkartenzahlung/],
+  ['SF1', /true expense|non-monthly|sinking|r(ü|ue)cklage|irregular|annual|j(ä|ae)hrlich|quality of life/],
+  ['SF2', /goal|saving|sparziel|sparen|invest/],
+  ['FIX', /bill|fixed|obligation|monthly|rechnung|fixkosten|vertr(ä|ae)ge|wohnen|housing|insurance|versicherung|subscription|abo/],
+]
+
+const ACCOUNT_TYPE_PATTERNS: [AccountType, RegExp][] = [
+  ['CREDIT_CARD', /credit|kredit|visa|mastercard|amex/],
+  ['CASH', /cash|\bbar\b|bargeld|wallet|geldb(ö|oe)rse|portemonnaie/],
+  ['SAVINGS', /saving|spar|tagesgeld|festgeld/],
+]
+
+const YNAB_SPLIT = /^Split \((\d+)\/(\d+)\)\s*/
+const YNAB_TRANSFER = /^Transfer : /
+const STARTING_BALANCE = /^(starting balance|anfangssaldo|anfangsbestand)$/i
+const MONTH_FORMATS = ['MMM yyyy', 'MMMM yyyy', 'MM/yyyy', 'yyyy-MM'] as const
+
+/**
+ * Guess the category type from a YNAB category group (or category name)
+ */
+export function guessCategoryType(group: string): ZBBCategoryType {
+  const value = group.toLowerCase()
+  return CATEGORY_TYPE_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] ?? 'VARIABLE'
+}
+
+function guessAccountType(name: string): AccountType {
+  const value = name.toLowerCase()
+  return ACCOUNT_TYPE_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] ?? 'CHECKING'
+}
+
+// ============================================
+// CSV tables
+// ============================================
+
+interface Table {
+  headers: string[]
+  rows: string[][]
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue')
+}
+
+function readTable(text: string): Table {
+  const rows = parseCsv(text)
+  const headerRow = rows.length > 0 ? findHeaderRow(rows) : 0
+  return { headers: (rows[headerRow] || []).map(normalizeHeader), rows: rows.slice(headerRow + 1) }
+}
+
+/**
+ * Cell reader for the first of the given columns the table has ('' if none)
+ */
+function column(table: Table, ...names: string[]): (row: string[]) => string {
+  const index = names.map((name) => table.headers.indexOf(name)).find((i) => i >= 0) ?? -1
+  return (row) => (index >= 0 ? (row[index] || '').trim() : '')
+}
+
+function detectFileKind({ headers }: Table): FileKind | null {
+  const has = (header: string) => headers.includes(header)
+
+  if (has('analyse-hauptkategorie')) return 'finanzguru'
+  if (has('outflow') && has('inflow')) return 'ynabRegister'
+  if (has('month') && (has('assigned') || has('budgeted'))) return 'ynabPlan'
+  if (has('account') && has('amount') && (has('notes') || has('category'))) return 'actual'
+  return null
+}
+
+function parseMonth(value: string): string | null {
+  for (const monthFormat of MONTH_FORMATS) {
+    for (const locale of [enUS, de]) {
+      const parsed = parse(value.trim(), monthFormat, new Date(), { locale })
+      if (isValid(parsed) && parsed.getFullYear() >= 1900) return format(parsed, 'yyyy-MM')
+    }
+  }
+  return null
+}
+
+function joinMemo(parts: string[]): string | null {
+  const cleaned = parts.map((part) => part.replace(/\s+/g, ' ').trim()).filter(Boolean)
+  return cleaned.filter((part, i) => cleaned.indexOf(part) === i).join(' · ') || null
+}
+
+// ============================================
+// Archive builder
+// ============================================
+
+/**
+ * One transaction (or split line) read from an export
+ */
+interface DraftTransaction {
+  account: string
+  date: string
+  amount: number
+  payee: string
+  memo: string
+  category: { name: string; group: string } | null
+  is_transfer: boolean
+  transfer_account: string | null // other account, if the export names it
+  is_reconciled: boolean
+  is_contract: boolean // Finanzguru contract (fixed cost)
+  split: { index: number; count: number } | null
+}
+
+interface DraftBudget {
+  month_iso: string
+  category: { name: string; group: string }
+  assigned: number
+}
+
+function categoryKey(category: { name: string; group: string }): string {
+  return `${category.group.toLowerCase()}|${category.name.toLowerCase()}`
+}
+
+/**
+ * Pair transfer legs: same date, opposite amount, different account
+ * @returns Transfer id per paired transaction
+ */
+function pairTransfers(drafts: DraftTransaction[]): Map<DraftTransaction, string> {
+  const pairs = new Map<DraftTransaction, string>()
+  const open = new Map<string, DraftTransaction[]>()
+
+  for (const draft of drafts) {
+    if (!draft.is_transfer) continue
+
+    const key = `${draft.date}|${Math.round(Math.abs(draft.amount) * 100)}`
+    const candidates = open.get(key) || []
+    const match = candidates.find(
+      (other) =>
+        other.account !== draft.account &&
+        Math.sign(other.amount) !== Math.sign(draft.amount) &&
+        (!draft.transfer_account || draft.transfer_account === other.account) &&
+        (!other.transfer_account || other.transfer_account === draft.account)
+    )
+
+    if (match) {
+      const transferId = crypto.randomUUID()
+      pairs.set(draft, transferId)
+      pairs.set(match, transferId)
+      open.set(
+        key,
+        candidates.filter((other) => other !== match)
+      )
+    } else {
+      open.set(key, [...candidates, draft])
+    }
+  }
+
+  return pairs
+}
+
+/**
+ * Build the archive from the rows read from all files
+ *
+ * Category types come from the group names; categories without a matching
+ * group that only ever received money become income, Finanzguru contracts
+ * fixed costs. Split lines with categories and one sign become a split
+ * transaction, other splits are imported line by line.
+ */
+function buildArchive(drafts: DraftTransaction[], budgets: DraftBudget[], currency: string): ParsedBackup {
+  const tables: ParsedBackup['tables'] = {
+    categories: [],
+    accounts: [],
+    payees: [],
+    recurring_transactions: [],
+    category_rules: [],
+    transactions: [],
+    transaction_splits: [],
+    monthly_budgets: [],
+    budget_moves: [],
+    month_closes: [],
+    net_worth_items: [],
+    net_worth_snapshots: [],
+    debts: [],
+    debt_plans: [],
+  }
+
+  // Transfer legs have no category
+  const transferIds = pairTransfers(drafts)
+
+  // Category types
+  const categoryInfo = new Map<string, { name: string; group: string; positive: boolean; contract: boolean }>()
+  const noteCategory = (category: { name: string; group: string }, amount: number, contract: boolean) => {
+    const key = categoryKey(category)
+    const info = categoryInfo.get(key) || { ...category, positive: amount > 0, contract: false }
+    categoryInfo.set(key, { ...info, positive: info.positive && amount > 0, contract: info.contract || contract })
+  }
+  drafts.forEach((d) => d.category && !transferIds.has(d) && noteCategory(d.category, d.amount, d.is_contract))
+  budgets.forEach((b) => noteCategory(b.category, 0, false))
+
+  const categoryIds = new Map<string, string>()
+  Array.from(categoryInfo.entries()).forEach(([key, info], i) => {
+    let type = guessCategoryType(info.group || info.name)
+    if (type === 'VARIABLE' && info.positive) type = 'INCOME'
+    if (type === 'VARIABLE' && info.contract) type = 'FIX'
+
+    const id = crypto.randomUUID()
+    categoryIds.set(key, id)
+    tables.categories.push({
+      id,
+      name: info.name,
+      icon: null,
+      color: null,
+      type,
+      // Money stays in a category until it is spent, like in YNAB
+      rollover_strategy: type === 'INCOME' ? 'RESET' : 'ACCUMULATE',
+      target_amount: null,
+      due_date: null,
+      sweep_target_category_id: null,
+      sort_order: i,
+      is_active: !/hidden|versteckt/.test(info.group.toLowerCase()),
+    })
+  })
+
+  // Accounts; YNAB credit card payment categories carry the card's name
+  const paymentCategories = new Map(
+    tables.categories.filter((c) => c.type === 'CREDIT_CARD').map((c) => [(c.name || '').toLowerCase(), c.id])
+  )
+  const accountIds = new Map<string, string>()
+  Array.from(new Set(drafts.map((d) => d.account))).forEach((name, i) => {
+    const paymentCategoryId = paymentCategories.get(name.toLowerCase()) ?? null
+    const id = crypto.randomUUID()
+    accountIds.set(name, id)
+    tables.accounts.push({
+      id,
+      name,
+      type: paymentCategoryId ? 'CREDIT_CARD' : guessAccountType(name),
+      initial_balance: 0,
+      last_reconciled_at: null,
+      last_reconciled_balance: null,
+      payment_category_id: paymentCategoryId,
+      sort_order: i,
+      is_active: true,
+    })
+  })
+
+  const payeeIds = new Map<string, string>()
+  const getPayeeId = (draft: DraftTransaction) => {
+    if (!draft.payee || transferIds.has(draft) || STARTING_BALANCE.test(draft.payee)) return null
+    const key = draft.payee.toLowerCase()
+    if (!payeeIds.has(key)) {
+      const id = crypto.randomUUID()
+      payeeIds.set(key, id)
+      tables.payees.push({ id, name: draft.payee, aliases: [], default_category_id: null, default_amount: null })
+    }
+    return payeeIds.get(key)!
+  }
+
+  const addTransaction = (draft: DraftTransaction, lines: DraftTransaction[] = []) => {
+    const id = crypto.randomUUID()
+    const isSplit = lines.length > 0
+    const isTransfer = transferIds.has(draft)
+
+    tables.transactions.push({
+      id,
+      category_id: isSplit || isTransfer || !draft.category ? null : categoryIds.get(categoryKey(draft.category))!,
+      amount: (isSplit ? lines.reduce((sum, line) => sum + line.amount, 0) : draft.amount).toFixed(2),
+      date: draft.date,
+      memo: joinMemo([draft.payee.replace(YNAB_TRANSFER, ''), isSplit ? '' : draft.memo]),
+      account_id: accountIds.get(draft.account)!,
+      is_starting_balance: STARTING_BALANCE.test(draft.payee),
+      is_sweep_transaction: false,
+      is_reconciled: draft.is_reconciled,
+      transfer_id: transferIds.get(draft) ?? null,
+      recurring_transaction_id: null,
+      import_id: null,
+      is_split: isSplit,
+      payee_id: getPayeeId(draft),
+    })
+
+    lines.forEach((line, i) => {
+      tables.transaction_splits.push({
+        id: crypto.randomUUID(),
+        transaction_id: id,
+        category_id: categoryIds.get(categoryKey(line.category!))!,
+        amount: line.amount.toFixed(2),
+        memo: line.memo || null,
+        sort_order: i,
+      })
+    })
+  }
+
+  for (let i = 0; i < drafts.length; i++) {
+    const draft = drafts[i]
+    const count = draft.split?.index === 1 ? draft.split.count : 0
+    const lines = drafts.slice(i, i + count)
+    const canSplit =
+      count > 1 &&
+      lines.length === count &&
+      lines.every(
+        (line) =>
+          line.account === draft.account &&
+          line.date === draft.date &&
+          line.category &&
+          !transferIds.has(line) &&
+          Math.sign(line.amount) === Math.sign(draft.amount)
+      )
+
+    if (canSplit) {
+      addTransaction(draft, lines)
+      i += count - 1
+    } else {
+      addTransaction(draft)
+    }
+  }
+
+  for (const budget of budgets) {
+    if (budget.assigned === 0) continue
+    tables.monthly_budgets.push({
+      id: crypto.randomUUID(),
+      category_id: categoryIds.get(categoryKey(budget.category))!,
+      month_iso: budget.month_iso,
+      assigned_amount: budget.assigned.toFixed(2),
+      start_balance: 0,
+    })
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    settings: { currency },
+    tables,
+  }
+}
+
+// ============================================
+// Readers
+// ============================================
+
+interface ReadResult {
+  drafts: DraftTransaction[]
+  invalid: number
+}
+
+/**
+ * Turn table rows into transactions, skipping rows without a valid date or amount
+ */
+function readTransactions(
+  table: Table,
+  dateCell: (row: string[]) => string,
+  toDraft: (row: string[], date: string) => Omit<DraftTransaction, 'date'> | null
+): ReadResult {
+  const dateFormat = detectDateFormat(table.rows.map(dateCell))
+  const drafts: DraftTransaction[] = []
+  let invalid = 0
+
+  for (const row of table.rows) {
+    const date = parseCsvDate(dateCell(row), dateFormat)
+    const draft = date ? toDraft(row, date) : null
+    if (!date || !draft || isNaN(draft.amount)) {
+      invalid++
+      continue
+    }
+    drafts.push({ ...draft, date })
+  }
+
+  return { drafts, invalid }
+}
+
+function readYnabRegister(table: Table): ReadResult {
+  const account = column(table, 'account')
+  const payee = column(table, 'payee')
+  const group = column(table, 'category group', 'master category')
+  const category = column(table, 'sub category', 'category')
+  const memo = column(table, 'memo')
+  const outflow = column(table, 'outflow')
+  const inflow = column(table, 'inflow')
+  const cleared = column(table, 'cleared')
+
+  return readTransactions(table, column(table, 'date'), (row) => {
+    const splitMatch = memo(row).match(YNAB_SPLIT)
+    const payeeName = payee(row)
+    const categoryName = category(row)
+    const isTransfer = YNAB_TRANSFER.test(payeeName)
+
+    return {
+      account: account(row),
+      amount: (parseAmount(inflow(row) || '0') * 100 - parseAmount(outflow(row) || '0') * 100) / 100,
+      payee: payeeName,
+      memo: memo(row).replace(YNAB_SPLIT, ''),
+      category: categoryName && !/uncategori[sz]ed/i.test(categoryName) ? { name: categoryName, group: group(row) } : null,
+      is_transfer: isTransfer,
+      transfer_account: isTransfer ? payeeName.replace(YNAB_TRANSFER, '') : null,
+      is_reconciled: cleared(row).toLowerCase() === 'reconciled',
+      is_contract: false,
+      split: splitMatch ? { index: Number(splitMatch[1]), count: Number(splitMatch[2]) } : null,
+    }
+  })
+}
+
+function readYnabPlan(table: Table): { budgets: DraftBudget[]; invalid: number } {
+  const month = column(table, 'month')
+  const group = column(table, 'category group', 'master category')
+  const category = column(table, 'sub category', 'category')
+  const assigned = column(table, 'assigned', 'budgeted')
+  const budgets: DraftBudget[] = []
+  let invalid = 0
+
+  for (const row of table.rows) {
+    const monthIso = parseMonth(month(row))
+    const amount = parseAmount(assigned(row) || '0')
+    if (!monthIso || isNaN(amount) || !category(row)) {
+      invalid++
+      continue
+    }
+    budgets.push({ month_iso: monthIso, category: { name: category(row), group: group(row) }, assigned: amount })
+  }
+
+  return { budgets, invalid }
+}
+
+function readActual(table: Table): ReadResult {
+  const accountNames = new Set(table.rows.map(column(table, 'account')))
+  const account = column(table, 'account')
+  const payee = column(table, 'payee')
+  const notes = column(table, 'notes')
+  const category = column(table, 'category')
+  const amount = column(table, 'amount')
+  const splitAmount = column(table, 'split_amount')
+  const cleared = column(table, 'cleared')
+  const reconciled = column(table, 'reconciled')
+
+  return readTransactions(table, column(table, 'date'), (row) => {
+    // Transfers use the other account as payee
+    const isTransfer = accountNames.has(payee(row)) && payee(row) !== account(row)
+    const value = parseAmount(splitAmount(row) || amount(row))
+
+    return {
+      account: account(row),
+      amount: value,
+      payee: payee(row),
+      memo: notes(row),
+      category: category(row) ? { name: category(row), group: '' } : null,
+      is_transfer: isTransfer,
+      transfer_account: isTransfer ? payee(row) : null,
+      is_reconciled: /reconciled|true/i.test(reconciled(row)) || /^reconciled$/i.test(cleared(row)),
+      is_contract: false,
+      split: null,
+    }
+  })
+}
+
+function readFinanzguru(table: Table): ReadResult {
+  const account = column(table, 'name referenzkonto', 'referenzkonto')
+  const payee = column(table, 'beguenstigter/auftraggeber')
+  const memo = column(table, 'verwendungszweck')
+  const amount = column(table, 'betrag')
+  const group = column(table, 'analyse-hauptkategorie')
+  const category = column(table, 'analyse-unterkategorie')
+  const contract = column(table, 'analyse-vertrag')
+  const transfer = column(table, 'analyse-umbuchung')
+
+  return readTransactions(table, column(table, 'buchungstag'), (row) => {
+    const categoryName = category(row) || group(row)
+
+    return {
+      account: account(row) || 'Finanzguru',
+      amount: parseAmount(amount(row)),
+      payee: payee(row),
+      memo: memo(row),
+      category: categoryName ? { name: categoryName, group: group(row) } : null,
+      is_transfer: /^(ja|yes|true|1|x)$/i.test(transfer(row)),
+      transfer_account: null,
+      is_reconciled: false,
+      is_contract: contract(row) !== '',
+      split: null,
+    }
+  })
+}
+
+/**
+ * Convert the export files of another budgeting app into a backup archive
+ * YNAB exports consist of two files (register and plan); both may be passed together
+ *
+ * @param currency - Currency of the user (other apps do not export it)
+ * @returns null if no file is in a supported format
+ */
+export function convertBudgetAppExport(files: BudgetAppFile[], currency: string): BudgetAppImport | null {
+  let source: BudgetAppFormat | null = null
+  const drafts: DraftTransaction[] = []
+  const budgets: DraftBudget[] = []
+  let invalid = 0
+
+  for (const file of files) {
+    const table = readTable(file.text)
+    const kind = detectFileKind(table)
+    if (!kind) continue
+
+    if (kind === 'ynabPlan') {
+      const result = readYnabPlan(table)
+      budgets.push(...result.budgets)
+      invalid += result.invalid
+    } else {
+      const result =
+        kind === 'ynabRegister' ? readYnabRegister(table) : kind === 'actual' ? readActual(table) : readFinanzguru(table)
+      drafts.push(...result.drafts)
+      invalid += result.invalid
+    }
+    source = kind === 'ynabRegister' || kind === 'ynabPlan' ? 'ynab' : kind
+  }
+
+  if (!source) return null
+
+  return { source, archive: buildArchive(drafts, budgets, currency), invalid_rows: invalid }
+}
@@ -0,0 +1,217 @@
+/**
+ * Loading of monthly budgets on the server
+ * Kept out of the server actions so it is not exposed as an action itself
+ */
+
+import { cache } from 'react'
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { getAvailableThrough, getCarryover, type CategoryMonthHistory } from '@/lib/rollover'
+import type { Category, MonthlyBudget, MonthlyBudgetWithActivity, RolloverStrategy } from '@/lib/types'
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns'
+
+/**
+ * Get a user's monthly budgets for a month with activity calculations
+ * IMPORTANT: start_balance is calculated dynamically by walking each category's full history
+ * Sweep transfers from the month close are reported separately as `swept`, not as activity
+ */
+export async function getUserMonthlyBudgets(
+  userId: string,
+  monthDate: Date
+): Promise<MonthlyBudgetWithActivity[]> {
+  const monthStart = startOfMonth(monthDate)
+  const monthEnd = endOfMonth(monthDate)
+  const monthIso = format(monthStart, 'yyyy-MM')
+  const startDateStr = format(monthStart, 'yyyy-MM-dd')
+  const endDateStr = format(monthEnd, 'yyyy-MM-dd')
+  const prevMonthIso = format(subMonths(monthStart, 1), 'yyyy-MM')
+
+  // Get all active categories for the user
+  const { data: categories, error: catError } = await getServerSupabase()
+    .from('categories')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (catError) {
+    console.error('Error fetching categories:', catError)
+    throw new Error('Failed to fetch categories')
+  }
+
+  // Get existing monthly budgets for this month
+  const { data: budgets, error: budgetError } = await getServerSupabase()
+    .from('monthly_budgets')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('month_iso', monthIso)
+
+  if (budgetError) {
+    console.error('Error fetching monthly budgets:', budgetError)
+    throw new Error('Failed to fetch monthly budgets')
+  }
+
+  // Get all transactions for this month (split transactions as their category lines)
+  const { data: transactions, error: txError } = await getServerSupabase()
+    .from('transaction_lines')
+    .select('category_id, account_id, transfer_id, amount, is_sweep_transaction')
+    .eq('user_id', userId)
+    .gte('date', startDateStr)
+    .lte('date', endDateStr)
+
+  if (txError) {
+    console.error('Error fetching transactions:', txError)
+    throw new Error('Failed to fetch transactions')
+  }
+
+  // Credit cards and the payment category they fund
+  const { data: cardAccounts, error: cardError } = await getServerSupabase()
+    .from('accounts')
+    .select('id, payment_category_id')
+    .eq('user_id', userId)
+    .eq('type', 'CREDIT_CARD')
+    .not('payment_category_id', 'is', null)
+
+  if (cardError) {
+    console.error('Error fetching credit card accounts:', cardError)
+    throw new Error('Failed to fetch credit card accounts')
+  }
+
+  // Full history of all previous months for the rollover chain
+  const historyByCategory = await getRolloverHistory(userId, monthIso)
+
+  // Calculate activity and sweep transfers per category for current month
+  const activityByCategory: Record<string, number> = {}
+  const sweptByCategory: Record<string, number> = {}
+  const typeByCategory: Record<string, string> = {}
+  for (const category of categories || []) {
+    typeByCategory[category.id] = category.type
+  }
+  const paymentCategoryByCard: Record<string, string> = {}
+  for (const card of cardAccounts || []) {
+    paymentCategoryByCard[card.id] = card.payment_category_id
+  }
+
+  for (const tx of transactions || []) {
+    const amount = parseFloat(tx.amount)
+    if (tx.category_id) {
+      const target = tx.is_sweep_transaction ? sweptByCategory : activityByCategory
+      target[tx.category_id] = (target[tx.category_id] || 0) + amount
+    }
+
+    // Same rules as the category_month_activity view: card spending funds the
+    // payment category, payments (transfers into the card) draw it down
+    const paymentCategoryId = tx.account_id ? paymentCategoryByCard[tx.account_id] : undefined
+    if (!paymentCategoryId || tx.is_sweep_transaction) continue
+
+    const categoryType = tx.category_id ? typeByCategory[tx.category_id] : undefined
+    const isCardSpending = !!tx.category_id && categoryType !== 'INCOME' && categoryType !== 'CREDIT_CARD'
+    const isCardPayment = !!tx.transfer_id && amount > 0
+    if (isCardSpending || isCardPayment) {
+      activityByCategory[paymentCategoryId] = (activityByCategory[paymentCategoryId] || 0) - amount
+    }
+  }
+
+  // Map budgets by category_id
+  const budgetByCategory: Record<string, MonthlyBudget> = {}
+  for (const budget of budgets || []) {
+    budgetByCategory[budget.category_id] = budget
+  }
+
+  // Build result: one entry per category
+  const result: MonthlyBudgetWithActivity[] = []
+
+  for (const category of categories || []) {
+    const budget = budgetByCategory[category.id]
+    const activity = activityByCategory[category.id] || 0
+    const swept = sweptByCategory[category.id] || 0
+    const assignedAmount = budget ? parseFloat(budget.assigned_amount) : 0
+
+    // Calculate start_balance dynamically from the end of the previous month
+    const strategy = (category.rollover_strategy || 'RESET') as RolloverStrategy
+    const startBalance = getCarryover(
+      strategy,
+      getAvailableThrough(strategy, historyByCategory[category.id] || {}, prevMonthIso)
+    )
+
+    const available = startBalance + assignedAmount + activity + swept
+
+    result.push({
+      id: budget?.id || `virtual-${category.id}`,
+      user_id: userId,
+      category_id: category.id,
+      month_iso: monthIso,
+      assigned_amount: assignedAmount.toFixed(2),
+      start_balance: startBalance.toFixed(2),
+      created_at: budget?.created_at || new Date().toISOString(),
+      updated_at: budget?.updated_at || new Date().toISOString(),
+      activity: activity.toFixed(2),
+      swept: swept.toFixed(2),
+      available: available.toFixed(2),
+      category: category as Category,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Load assigned amounts and activity of every month before the given month
+ * Used to chain rollover balances across the full history of each category
+ * Memoized per request: the dashboard's budgets and summary share one load.
+ * The result must not be modified.
+ *
+ * @param beforeMonthIso - First month NOT included (YYYY-MM)
+ * @param categoryIds - Optional filter; omit to load all categories
+ * @returns History per category_id
+ */
+export const getRolloverHistory = cache(async function getRolloverHistory(
+  userId: string,
+  beforeMonthIso: string,
+  categoryIds?: string[]
+): Promise<Record<string, CategoryMonthHistory>> {
+  const historyByCategory: Record<string, CategoryMonthHistory> = {}
+
+  const addEntry = (categoryId: string, monthIso: string, assigned: number, activity: number) => {
+    const history = (historyByCategory[categoryId] ||= {})
+    const entry = (history[monthIso] ||= { assigned: 0, activity: 0 })
+    entry.assigned += assigned
+    entry.activity += activity
+  }
+
+  // Assigned amounts per month
+  const budgets = await fetchAllRows<{ category_id: string; month_iso: string; assigned_amount: string }>(
+    (from, to) => {
+      let query = getServerSupabase()
+        .from('monthly_budgets')
+        .select('category_id, month_iso, assigned_amount')
+        .eq('user_id', userId)
+        .lt('month_iso', beforeMonthIso)
+
+      if (categoryIds) query = query.in('category_id', categoryIds)
+
+      return query.order('month_iso', { ascending: true }).order('category_id', { ascending: true }).range(from, to)
+    }
+  )
+  for (const row of budgets) {
+    addEntry(row.category_id, row.month_iso, parseFloat(row.assigned_amount), 0)
+  }
+
+  // Activity per month (aggregated by the category_month_activity view)
+  const activity = await fetchAllRows<{ category_id: string; month_iso: string; activity: string }>((from, to) => {
+    let query = getServerSupabase()
+      .from('category_month_activity')
+      .select('category_id, month_iso, activity')
+      .eq('user_id', userId)
+      .lt('month_iso', beforeMonthIso)
+
+    if (categoryIds) query = query.in('category_id', categoryIds)
+
+    return query.order('month_iso', { ascending: true }).order('category_id', { ascending: true }).range(from, to)
+  })
+  for (const row of activity) {
+    addEntry(row.category_id, row.month_iso, 0, parseFloat(row.activity))
+  }
+
+  return historyByCategory
+})
@@ -0,0 +1,33 @@
+/**
+ * Loading of categories on the server
+ * Kept out of the server actions so it is not exposed as an action itself
+ */
+
+import { getServerSupabase } from '@/lib/supabase'
+import type { ZBBCategoryType } from '@/lib/types'
+
+/**
+ * Check that a category belongs to the user and can be assigned to transactions
+ * Card payments are transfers to the card account, never a categorized expense,
+ * so CREDIT_CARD payment categories are rejected (manual edits, bulk edits and rules alike)
+ */
+export async function getAssignableCategory(
+  userId: string,
+  categoryId: string
+): Promise<{ type: ZBBCategoryType } | { error: string }> {
+  const { data: category } = await getServerSupabase()
+    .from('categories')
+    .select('type')
+    .eq('id', categoryId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!category) {
+    return { error: 'Category not found' }
+  }
+  if (category.type === 'CREDIT_CARD') {
+    return { error: 'Credit card payment categories cannot be assigned to transactions' }
+  }
+
+  return { type: category.type }
+}
@@ -0,0 +1,132 @@
+/**
+ * Learned category prediction
+ * Naive Bayes over memo tokens, trained on the user's own categorised
+ * transactions. The model is a plain object so the server can build it once
+ * and the quick-add forms can predict locally while the user types.
+ */
+
+export interface CategoryModel {
+  sampleCount: number // transactions the model was trained on
+  categoryCounts: Record<string, number> // category_id -> transactions
+  tokenCounts: Record<string, Record<string, number>> // category_id -> token -> occurrences
+  tokenTotals: Record<string, number> // category_id -> all token occurrences
+  vocabularySize: number
+}
+
+export interface CategoryPrediction {
+  category_id: string
+  confidence: number // 0..1, share of the posterior among the candidates
+}
+
+export interface TrainingSample {
+  memo: string | null
+  category_id: string | null
+}
+
+// Below this many samples the suggestions are mostly noise
+export const MIN_TRAINING_SAMPLES = 20
+
+// Suggestions below this confidence are not worth showing
+const MIN_SUGGESTION_CONFIDENCE = 0.05
+
+// Pre-select the top suggestion only when the model is fairly sure
+export const AUTO_SELECT_CONFIDENCE = 0.6
+
+/**
+ * Split a memo into lowercase word tokens
+ * Numbers (store ids, dates, card digits) and single characters are dropped,
+ * so "REWE Markt 1234" and "REWE Markt 0815" share all their tokens
+ */
+export function tokenizeMemo(memo: string | null | undefined): string[] {
+  if (!memo) return []
+
+  const tokens = memo
+    .toLowerCase()
+    .split(/[^0-9a-zß-öø-ÿ]+/) // Latin-1 letters incl. umlauts
+    .filter((token) => token.length > 1 && !/^\d+$/.test(token))
+
+  return Array.from(new Set(tokens))
+}
+
+/**
+ * Build the token frequency model from categorised transactions
+ */
+export function buildCategoryModel(samples: TrainingSample[]): CategoryModel {
+  const model: CategoryModel = {
+    sampleCount: 0,
+    categoryCounts: {},
+    tokenCounts: {},
+    tokenTotals: {},
+    vocabularySize: 0,
+  }
+  const vocabulary = new Set<string>()
+
+  for (const sample of samples) {
+    if (!sample.category_id) continue
+    const tokens = tokenizeMemo(sample.memo)
+    if (tokens.length === 0) continue
+
+    const categoryId = sample.category_id
+    model.sampleCount++
+    model.categoryCounts[categoryId] = (model.categoryCounts[categoryId] || 0) + 1
+
+    const counts = (model.tokenCounts[categoryId] ||= {})
+    for (const token of tokens) {
+      counts[token] = (counts[token] || 0) + 1
+      vocabulary.add(token)
+    }
+    model.tokenTotals[categoryId] = (model.tokenTotals[categoryId] || 0) + tokens.length
+  }
+
+  model.vocabularySize = vocabulary.size
+  return model
+}
+
+/**
+ * Rank categories for a memo
+ *
+ * @param candidateIds - Restrict the ranking (e.g. to income or expense categories)
+ * @returns Up to `limit` predictions, most likely first; empty when the memo has
+ *          no known token or the model has too little history
+ */
+export function predictCategories(
+  model: CategoryModel,
+  memo: string | null | undefined,
+  options: { candidateIds?: string[]; limit?: number } = {}
+): CategoryPrediction[] {
+  const { candidateIds, limit = 3 } = options
+  if (model.sampleCount < MIN_TRAINING_SAMPLES) return []
+
+  // Tokens the user never used before carry no information
+  const tokens = tokenizeMemo(memo).filter((token) =>
+    Object.values(model.tokenCounts).some((counts) => counts[token])
+  )
+  if (tokens.length === 0) return []
+
+  const categoryIds = (candidateIds || Object.keys(model.categoryCounts)).filter(
+    (id) => model.categoryCounts[id]
+  )
+  if (categoryIds.length === 0) return []
+
+  // Log-probabilities with Laplace smoothing
+  const scores = categoryIds.map((id) => {
+    const counts = model.tokenCounts[id] || {}
+    const denominator = (model.tokenTotals[id] || 0) + model.vocabularySize
+    let score = Math.log(model.categoryCounts[id] / model.sampleCount)
+    for (const token of tokens) {
+      score += Math.log(((counts[token] || 0) + 1) / denominator)
+    }
+    return { id, score }
+  })
+
+  // Normalise into confidences (softmax, shifted for numeric stability)
+  const maxScore = Math.max(...scores.map((s) => s.score))
+  const weights = scores.map((s) => ({ id: s.id, weight: Math.exp(s.score - maxScore) }))
+  const total = weights.reduce((sum, w) => sum + w.weight, 0)
+
+  return weights
+    .map((w) => ({ category_id: w.id, confidence: w.weight / total }))
+    .filter((p) => p.confidence >= MIN_SUGGESTION_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+}
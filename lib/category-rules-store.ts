@@ -0,0 +1,27 @@
+/**
+ * Loading of auto-categorisation rules on the server
+ * Kept out of the server actions so it is not exposed as an action itself
+ */
+
+import { getServerSupabase } from '@/lib/supabase'
+import type { CategoryRule } from '@/lib/types'
+
+/**
+ * Get the active rules of a user in evaluation order
+ */
+export async function getActiveCategoryRules(userId: string): Promise<CategoryRule[]> {
+  const { data, error } = await getServerSupabase()
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching category rules:', error)
+    throw new Error('Failed to fetch category rules')
+  }
+
+  return data || []
+}
@@ -0,0 +1,82 @@
+/**
+ * Auto-categorisation rules
+ * Pure matching logic shared by transaction creation, the statement import
+ * and the retroactive preview (no database access)
+ */
+
+import type { CategoryRule } from '@/lib/types'
+
+export const CATEGORY_RULE_MATCH_TYPES: CategoryRule['match_type'][] = ['contains', 'equals', 'regex']
+
+export interface RuleSubject {
+  memo: string | null | undefined
+  amount: number // signed or absolute; ranges compare the absolute value
+}
+
+export interface RuleResult {
+  rule_id: string
+  category_id: string
+  memo: string | null // memo after the rule (set_memo or the original)
+}
+
+// Compiled regular expressions per rule version (updated_at changes on edit)
+const regexCache = new Map<string, RegExp | null>()
+
+function getRegex(rule: Pick<CategoryRule, 'id' | 'match_value' | 'updated_at'>): RegExp | null {
+  const key = `${rule.id}:${rule.updated_at}`
+  if (!regexCache.has(key)) {
+    try {
+      regexCache.set(key, new RegExp(rule.match_value || '', 'i'))
+    } catch {
+      // Invalid patterns never match instead of breaking transaction creation
+      regexCache.set(key, null)
+    }
+  }
+  return regexCache.get(key) ?? null
+}
+
+/**
+ * Check whether a rule matches a transaction
+ * All conditions that are set must match; memo comparison is case-insensitive
+ */
+export function matchesRule(rule: CategoryRule, subject: RuleSubject): boolean {
+  const memo = (subject.memo || '').trim()
+  const needle = rule.match_value?.trim()
+
+  if (needle) {
+    switch (rule.match_type) {
+      case 'contains':
+        if (!memo.toLowerCase().includes(needle.toLowerCase())) return false
+        break
+      case 'equals':
+        if (memo.toLowerCase() !== needle.toLowerCase()) return false
+        break
+      case 'regex': {
+        const regex = getRegex(rule)
+        if (!regex || !regex.test(memo)) return false
+        break
+      }
+    }
+  }
+
+  const amount = Math.abs(subject.amount)
+  if (rule.min_amount !== null && amount < parseFloat(rule.min_amount)) return false
+  if (rule.max_amount !== null && amount > parseFloat(rule.max_amount)) return false
+
+  return true
+}
+
+/**
+ * Apply the first matching active rule (rules sorted by sort_order)
+ * @returns The category and memo to use, or null if no rule matches
+ */
+export function applyCategoryRules(rules: CategoryRule[], subject: RuleSubject): RuleResult | null {
+  const rule = rules.find((r) => r.is_active && matchesRule(r, subject))
+  if (!rule) return null
+
+  return {
+    rule_id: rule.id,
+    category_id: rule.category_id,
+    memo: rule.set_memo?.trim() || subject.memo || null,
+  }
+}
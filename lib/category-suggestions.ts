@@ -197,6 +197,7 @@ const TYPE_DEFAULTS: Record<ZBBCategoryType, CategorySuggestion> = {
   VARIABLE: { icon: 'ShoppingCart', color: '#f97316' },
   SF1: { icon: 'PiggyBank', color: '#8b5cf6' },
   SF2: { icon: 'Target', color: '#ec4899' },
+  CREDIT_CARD: { icon: 'CreditCard', color: '#64748b' },
 }
 
 /**
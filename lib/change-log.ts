@@ -0,0 +1,43 @@
+/**
+ * Change log context for server actions
+ * Mutations run inside withChangeLog send a change set id with every
+ * Supabase request; a database trigger records the before/after snapshot
+ * of each changed row under that id (see migration-add-change-log.sql)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import type { ChangeAction } from '@/lib/types'
+
+// How long changes can be undone from the history page
+export const CHANGE_HISTORY_DAYS = 30
+
+interface ChangeLogContext {
+  changeSetId: string
+  action: ChangeAction
+}
+
+const changeLogContext = new AsyncLocalStorage<ChangeLogContext>()
+
+/**
+ * Run a mutation so that all rows it changes are recorded as one change set
+ * Nested calls (an action calling another action) join the outer change set
+ */
+export function withChangeLog<T>(action: ChangeAction, run: () => Promise<T>): Promise<T> {
+  if (changeLogContext.getStore()) {
+    return run()
+  }
+  return changeLogContext.run({ changeSetId: crypto.randomUUID(), action }, run)
+}
+
+/**
+ * Request headers that tag Supabase requests with the current change set
+ */
+export function getChangeLogHeaders(): Record<string, string> {
+  const context = changeLogContext.getStore()
+  if (!context) return {}
+
+  return {
+    'x-change-set-id': context.changeSetId,
+    'x-change-action': context.action,
+  }
+}
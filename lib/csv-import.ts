@@ -0,0 +1,209 @@
+/**
+ * Bank statement CSV import
+ * Pure parsing helpers for the import wizard (no database access)
+ */
+
+import { format, isValid, parse } from 'date-fns'
+import { parseAmount } from '@/lib/currency'
+
+export const CSV_DATE_FORMATS = ['dd.MM.yyyy', 'dd.MM.yy', 'yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy'] as const
+
+export type CsvDateFormat = (typeof CSV_DATE_FORMATS)[number]
+
+/**
+ * Column index per field (-1 = not mapped)
+ * Payee and memo are combined into the transaction memo
+ */
+export interface CsvColumnMapping {
+  date: number
+  amount: number
+  payee: number
+  memo: number
+}
+
+/**
+ * A statement row ready for review (shared by all import formats)
+ */
+export interface ImportRow {
+  line: number // 1-based row in the file (for error messages)
+  date: string | null // yyyy-MM-dd
+  amount: number // signed, NaN if invalid
+  memo: string
+  import_id?: string // unique id assigned by the bank (OFX, CAMT.053)
+  error?: 'invalidDate' | 'invalidAmount'
+}
+
+// Header keywords of common German and English bank exports
+const COLUMN_KEYWORDS: Record<keyof CsvColumnMapping, string[]> = {
+  date: ['buchungstag', 'buchungsdatum', 'datum', 'date', 'booking date', 'valuta', 'wertstellung'],
+  amount: ['betrag', 'amount', 'umsatz', 'value', 'summe'],
+  payee: [
+    'empfänger',
+    'zahlungsempfänger',
+    'auftraggeber',
+    'beguenstigter',
+    'begünstigter',
+    'name',
+    'payee',
+    'counterparty',
+  ],
+  memo: ['verwendungszweck', 'buchungstext', 'beschreibung', 'description', 'memo', 'reference', 'details'],
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most columns
+ */
+function detectDelimiter(text: string): string {
+  // Ignore quoted text so commas in amounts or memos do not count
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n').replace(/"[^"]*"/g, '""')
+  let best = ','
+  let bestCount = 0
+
+  for (const delimiter of [';', ',', '\t']) {
+    const count = sample.split(delimiter).length
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted fields (with escaped quotes and line breaks), CRLF and a BOM
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^﻿/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell.trim())
+      if (row.some((c) => c !== '')) rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell.trim())
+  if (row.some((c) => c !== '')) rows.push(row)
+
+  return rows
+}
+
+/**
+ * Find the header row
+ * Many banks put account details above the table, so the header is the
+ * first row with as many columns as the data rows at the end of the file
+ */
+export function findHeaderRow(rows: string[][]): number {
+  if (rows.length === 0) return 0
+  const columnCount = rows[rows.length - 1].length
+  const index = rows.findIndex((row) => row.length === columnCount && columnCount > 1)
+  return Math.max(index, 0)
+}
+
+/**
+ * Guess the column mapping from header names
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((h) => h.toLowerCase().trim())
+  const used = new Set<number>()
+
+  const find = (field: keyof CsvColumnMapping) => {
+    for (const keyword of COLUMN_KEYWORDS[field]) {
+      const index = normalized.findIndex((h, i) => !used.has(i) && h.includes(keyword))
+      if (index !== -1) {
+        used.add(index)
+        return index
+      }
+    }
+    return -1
+  }
+
+  // Order matters: "Buchungstext" must not be taken as the date column
+  const memo = find('memo')
+  const date = find('date')
+  const amount = find('amount')
+  const payee = find('payee')
+
+  return { date, amount, payee, memo }
+}
+
+/**
+ * Parse a date cell with the given format
+ * @returns yyyy-MM-dd or null if the cell does not match
+ */
+export function parseCsvDate(value: string, dateFormat: CsvDateFormat): string | null {
+  const parsed = parse(value.trim(), dateFormat, new Date())
+  if (!isValid(parsed) || parsed.getFullYear() < 1900) return null
+  return format(parsed, 'yyyy-MM-dd')
+}
+
+/**
+ * Pick the first date format that parses every sample value
+ */
+export function detectDateFormat(values: string[]): CsvDateFormat {
+  const samples = values.filter((v) => v.trim() !== '').slice(0, 50)
+  return (
+    CSV_DATE_FORMATS.find((dateFormat) => samples.every((v) => parseCsvDate(v, dateFormat) !== null)) ||
+    CSV_DATE_FORMATS[0]
+  )
+}
+
+/**
+ * Convert data rows into import rows using the column mapping
+ *
+ * @param rows - Data rows (without header)
+ * @param firstLine - Line number of the first data row
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  dateFormat: CsvDateFormat,
+  firstLine: number
+): ImportRow[] {
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] || '' : '')
+
+  return rows.map((row, i) => {
+    const date = parseCsvDate(cell(row, mapping.date), dateFormat)
+    const amount = parseAmount(cell(row, mapping.amount))
+    const memo = [cell(row, mapping.payee), cell(row, mapping.memo)]
+      .map((part) => part.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join(' · ')
+
+    return {
+      line: firstLine + i,
+      date,
+      amount,
+      memo,
+      error: !date ? 'invalidDate' : isNaN(amount) || amount === 0 ? 'invalidAmount' : undefined,
+    }
+  })
+}
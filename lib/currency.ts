@@ -125,3 +125,49 @@ export function formatCurrency(
     return `${prefix}${config.symbol}${formattedAmount}`
   }
 }
+
+/**
+ * Parses a user or bank supplied amount into a number
+ * Accepts German (1.234,56) and English (1,234.56) separators, currency
+ * symbols, leading or trailing signs and accounting parentheses.
+ * A single separator is treated as decimal separator unless it repeats
+ * (1.234.567), so "12,5" and "12.5" both mean twelve and a half.
+ * @returns The signed amount, or NaN if the value is not a number
+ */
+export function parseAmount(value: string): number {
+  let clean = value.trim().replace(/[\s '€$£¥₹]/g, '').replace(/^[A-Z]{3}|[A-Z]{3}$/g, '')
+  let negative = false
+
+  if (/^\(.*\)$/.test(clean)) {
+    negative = true
+    clean = clean.slice(1, -1)
+  }
+  if (/^[+-]/.test(clean)) {
+    negative = negative !== clean.startsWith('-')
+    clean = clean.slice(1)
+  } else if (/[+-]$/.test(clean)) {
+    negative = negative !== clean.endsWith('-')
+    clean = clean.slice(0, -1)
+  }
+
+  const lastComma = clean.lastIndexOf(',')
+  const lastDot = clean.lastIndexOf('.')
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both present: the later one is the decimal separator
+    clean = lastComma > lastDot
+      ? clean.replace(/\./g, '').replace(',', '.')
+      : clean.replace(/,/g, '')
+  } else if (lastComma !== -1) {
+    clean = clean.indexOf(',') === lastComma ? clean.replace(',', '.') : clean.replace(/,/g, '')
+  } else if (lastDot !== -1 && clean.indexOf('.') !== lastDot) {
+    clean = clean.replace(/\./g, '')
+  }
+
+  if (!/^\d*\.?\d+$/.test(clean)) {
+    return NaN
+  }
+
+  const num = parseFloat(clean)
+  return negative ? -num : num
+}
@@ -0,0 +1,153 @@
+/**
+ * Debt payoff
+ * Snowball and avalanche payoff schedules (no database access)
+ */
+
+import { addMonths, format, parse } from 'date-fns'
+import type { Debt, PayoffMonth, PayoffPayment, PayoffSchedule, PayoffStrategy } from '@/lib/types'
+
+// Longest schedule simulated; debts not paid off by then never will be at this rate
+export const MAX_PAYOFF_MONTHS = 600
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['SNOWBALL', 'AVALANCHE']
+
+type PayoffDebt = Pick<Debt, 'id' | 'name' | 'principal' | 'interest_rate' | 'minimum_payment'>
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Order in which debts get the money left after the minimums
+ * - SNOWBALL: smallest balance first (quick wins), then the higher rate
+ * - AVALANCHE: highest interest rate first (least interest), then the smaller balance
+ */
+export function getPayoffOrder(debts: PayoffDebt[], strategy: PayoffStrategy): string[] {
+  const balance = (debt: PayoffDebt) => parseFloat(debt.principal)
+  const rate = (debt: PayoffDebt) => parseFloat(debt.interest_rate)
+
+  return [...debts]
+    .sort((a, b) =>
+      strategy === 'SNOWBALL'
+        ? balance(a) - balance(b) || rate(b) - rate(a) || a.name.localeCompare(b.name)
+        : rate(b) - rate(a) || balance(a) - balance(b) || a.name.localeCompare(b.name)
+    )
+    .map((debt) => debt.id)
+}
+
+/**
+ * Simulate paying off all debts month by month
+ *
+ * Every month the same total is paid: all minimum payments plus the extra
+ * payment. Interest is added monthly (annual rate / 12), then every debt
+ * gets its minimum and the rest goes to the first debt in payoff order that
+ * is still owed. Minimums of paid-off debts roll over to the next one.
+ *
+ * @param extraPayment - Paid on top of the minimums every month
+ * @param startMonth - First month of the schedule (YYYY-MM)
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  strategy: PayoffStrategy,
+  extraPayment: number,
+  startMonth: string
+): PayoffSchedule {
+  const order = getPayoffOrder(debts, strategy)
+  const byId = new Map(debts.map((debt) => [debt.id, debt]))
+  const balances = new Map(debts.map((debt) => [debt.id, Math.max(0, parseFloat(debt.principal) || 0)]))
+  const budget = debts.reduce((sum, debt) => sum + (parseFloat(debt.minimum_payment) || 0), 0) + extraPayment
+  const start = parse(startMonth, 'yyyy-MM', new Date())
+
+  const summary: PayoffSchedule['debts'] = Object.fromEntries(
+    debts.map((debt) => [debt.id, { payoff_month: null, total_interest: 0, total_paid: 0 }])
+  )
+  const months: PayoffMonth[] = []
+  const remaining = () => debts.reduce((sum, debt) => sum + balances.get(debt.id)!, 0)
+
+  for (let i = 0; i < MAX_PAYOFF_MONTHS && remaining() > 0; i++) {
+    const month = format(addMonths(start, i), 'yyyy-MM')
+    const owed = order.filter((id) => balances.get(id)! > 0)
+    const payments = new Map<string, PayoffPayment>()
+
+    for (const id of owed) {
+      const interest = round((balances.get(id)! * parseFloat(byId.get(id)!.interest_rate)) / 100 / 12)
+      balances.set(id, round(balances.get(id)! + interest))
+      payments.set(id, { debt_id: id, payment: 0, interest, principal: 0, balance: 0 })
+    }
+
+    const pay = (id: string, amount: number) => {
+      const paid = round(Math.min(amount, balances.get(id)!))
+      balances.set(id, round(balances.get(id)! - paid))
+      payments.get(id)!.payment = round(payments.get(id)!.payment + paid)
+      return paid
+    }
+
+    let available = budget
+    for (const id of owed) {
+      available -= pay(id, parseFloat(byId.get(id)!.minimum_payment) || 0)
+    }
+    for (const id of owed) {
+      if (available <= 0) break
+      available -= pay(id, available)
+    }
+
+    const monthPayments = owed.map((id) => payments.get(id)!)
+    for (const payment of monthPayments) {
+      payment.principal = round(payment.payment - payment.interest)
+      payment.balance = balances.get(payment.debt_id)!
+      summary[payment.debt_id].total_interest += payment.interest
+      summary[payment.debt_id].total_paid += payment.payment
+      if (payment.balance === 0) summary[payment.debt_id].payoff_month = month
+    }
+
+    months.push({
+      month_iso: month,
+      payments: monthPayments,
+      total_payment: round(monthPayments.reduce((sum, p) => sum + p.payment, 0)),
+      total_interest: round(monthPayments.reduce((sum, p) => sum + p.interest, 0)),
+      remaining: round(remaining()),
+    })
+
+    // Payments that do not even cover the interest never pay anything off
+    if (months.length > 1 && months[months.length - 1].remaining >= months[months.length - 2].remaining) break
+  }
+
+  for (const debt of Object.values(summary)) {
+    debt.total_interest = round(debt.total_interest)
+    debt.total_paid = round(debt.total_paid)
+  }
+  const paidOff = remaining() === 0
+
+  return {
+    strategy,
+    order,
+    months,
+    debts: summary,
+    total_interest: round(months.reduce((sum, month) => sum + month.total_interest, 0)),
+    total_paid: round(months.reduce((sum, month) => sum + month.total_payment, 0)),
+    debt_free_month: paidOff && months.length > 0 ? months[months.length - 1].month_iso : null,
+  }
+}
+
+/**
+ * Planned payment per budget category in a month of the schedule
+ * Debts without a category are left out
+ *
+ * @returns category_id -> amount to assign (two decimals)
+ */
+export function getPlannedCategoryPayments(
+  schedule: PayoffSchedule,
+  debts: Pick<Debt, 'id' | 'category_id'>[],
+  monthIso: string
+): Record<string, string> {
+  const month = schedule.months.find((m) => m.month_iso === monthIso)
+  const totals: Record<string, number> = {}
+
+  for (const debt of debts) {
+    if (!debt.category_id) continue
+    const payment = month?.payments.find((p) => p.debt_id === debt.id)?.payment ?? 0
+    totals[debt.category_id] = (totals[debt.category_id] || 0) + payment
+  }
+
+  return Object.fromEntries(Object.entries(totals).map(([categoryId, amount]) => [categoryId, amount.toFixed(2)]))
+}
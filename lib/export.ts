@@ -0,0 +1,69 @@
+/**
+ * Data export
+ * Serialisation helpers for CSV and JSON files (no database access)
+ */
+
+export type ExportValue = string | number | boolean | null
+
+export type ExportRow = Record<string, ExportValue>
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Quote a CSV cell when needed
+ * Text that would start a formula gets a leading apostrophe; numbers are left alone
+ */
+function toCsvCell(value: ExportValue): string {
+  if (value === null) return ''
+  if (typeof value !== 'string') return String(value)
+
+  const text = FORMULA_PREFIX.test(value) && isNaN(Number(value)) ? `'${value}` : value
+  return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV with a header row, comma separated
+ * Starts with a byte order mark so Excel reads umlauts correctly
+ */
+export function toCsv(rows: ExportRow[], columns: readonly string[]): string {
+  const lines = [columns.join(',')]
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvCell(row[column] ?? null)).join(','))
+  }
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * JSON array of objects holding only the chosen columns
+ */
+export function toJson(rows: ExportRow[], columns: readonly string[]): string {
+  const picked = rows.map((row) => {
+    const result: ExportRow = {}
+    for (const column of columns) result[column] = row[column] ?? null
+    return result
+  })
+  return JSON.stringify(picked, null, 2)
+}
+
+/**
+ * File name like budget-zen-transactions_2026-01-01_2026-03-31.csv
+ */
+export function getExportFilename(name: string, extension: string, from?: string, to?: string): string {
+  const range = [from, to].filter(Boolean).join('_')
+  return `budget-zen-${name}${range ? `_${range}` : ''}.${extension}`
+}
+
+/**
+ * Let the browser download a generated file
+ */
+export function downloadFile(filename: string, mimeType: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,140 @@
+/**
+ * Cash-flow forecast
+ * Projected income, expenses and balance for the coming months (no database access)
+ */
+
+import { addMonths, endOfMonth, format, parse, subMonths } from 'date-fns'
+import { getOccurrencesBetween, type RecurringSchedule } from '@/lib/recurring'
+import type { CashFlowForecast, Category, ForecastItem, ForecastMonth, MonthlySummary } from '@/lib/types'
+
+export const FORECAST_MONTHS = 12
+
+// Complete past months the average VARIABLE spending is based on
+export const VARIABLE_AVERAGE_MONTHS = 6
+
+type ForecastCategory = Pick<Category, 'id' | 'name' | 'type' | 'target_amount' | 'due_date'>
+
+type ForecastRecurring = RecurringSchedule & { amount: string }
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Months of the forecast, starting with the month after today (YYYY-MM)
+ */
+export function getForecastMonths(today: Date): string[] {
+  return Array.from({ length: FORECAST_MONTHS }, (_, i) => format(addMonths(today, i + 1), 'yyyy-MM'))
+}
+
+/**
+ * Complete months before today the VARIABLE average is taken from (YYYY-MM, oldest first)
+ */
+export function getAverageMonths(today: Date): string[] {
+  return Array.from({ length: VARIABLE_AVERAGE_MONTHS }, (_, i) =>
+    format(subMonths(today, VARIABLE_AVERAGE_MONTHS - i), 'yyyy-MM')
+  )
+}
+
+/**
+ * Average VARIABLE spending per month
+ * Only months with a summary count, so new users are not averaged down by empty months
+ */
+export function getAverageVariableSpend(
+  summaries: Pick<MonthlySummary, 'month_iso' | 'expenses_by_type'>[],
+  months: string[]
+): { average: number; months: number } {
+  const counted = summaries.filter((summary) => months.includes(summary.month_iso))
+  if (counted.length === 0) return { average: 0, months: 0 }
+
+  const total = counted.reduce((sum, summary) => sum + (Number(summary.expenses_by_type?.VARIABLE) || 0), 0)
+  return { average: round(total / counted.length), months: counted.length }
+}
+
+/**
+ * Whether an SF1 category falls due in a month
+ * The due date repeats every year (insurance, property tax), starting with
+ * the month of the due date itself
+ */
+export function isDueInMonth(dueDate: string, monthIso: string): boolean {
+  return monthIso.slice(5, 7) === dueDate.slice(5, 7) && monthIso >= dueDate.slice(0, 7)
+}
+
+/**
+ * Project income, expenses and balance month by month
+ *
+ * - Income: occurrences of active recurring transactions with a positive amount
+ * - Expenses: FIX targets every month, SF1 targets in their due month and
+ *   the average VARIABLE spending
+ *
+ * @param openingBalance - Balance the first month starts with
+ * @param months - Forecast months (YYYY-MM), oldest first
+ */
+export function buildCashFlowForecast(
+  openingBalance: number,
+  months: string[],
+  categories: ForecastCategory[],
+  recurring: ForecastRecurring[],
+  variable: { average: number; months: number }
+): CashFlowForecast {
+  const income = recurring.filter((schedule) => parseFloat(schedule.amount) > 0)
+  let fixedTotal = 0
+  const sinkingFunds: { item: ForecastItem; due_date: string }[] = []
+
+  for (const category of categories) {
+    const amount = parseFloat(category.target_amount || '0')
+    if (!(amount > 0)) continue
+
+    if (category.type === 'FIX') {
+      fixedTotal += amount
+    } else if (category.type === 'SF1' && category.due_date) {
+      sinkingFunds.push({
+        item: { category_id: category.id, name: category.name || 'Unnamed', amount },
+        due_date: category.due_date,
+      })
+    }
+  }
+
+  fixedTotal = round(fixedTotal)
+  let balance = openingBalance
+
+  const forecastMonths: ForecastMonth[] = months.map((monthIso) => {
+    const start = parse(monthIso, 'yyyy-MM', new Date())
+    const from = format(start, 'yyyy-MM-dd')
+    const to = format(endOfMonth(start), 'yyyy-MM-dd')
+
+    const monthIncome = round(
+      income.reduce(
+        (sum, schedule) => sum + getOccurrencesBetween(schedule, from, to).length * parseFloat(schedule.amount),
+        0
+      )
+    )
+    const due: ForecastItem[] = sinkingFunds
+      .filter((fund) => isDueInMonth(fund.due_date, monthIso))
+      .map((fund) => fund.item)
+    const dueTotal = round(due.reduce((sum, item) => sum + item.amount, 0))
+    const expenses = round(fixedTotal + dueTotal + variable.average)
+    const net = round(monthIncome - expenses)
+    balance = round(balance + net)
+
+    return {
+      month_iso: monthIso,
+      income: monthIncome,
+      fixed: fixedTotal,
+      sinking_funds: dueTotal,
+      variable: variable.average,
+      expenses,
+      net,
+      balance,
+      is_shortfall: expenses > monthIncome,
+      due,
+    }
+  })
+
+  return {
+    opening_balance: round(openingBalance),
+    variable_average: variable.average,
+    variable_months: variable.months,
+    months: forecastMonths,
+  }
+}
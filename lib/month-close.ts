@@ -0,0 +1,233 @@
+/**
+ * Month close on the server
+ * Kept out of the server actions so it can run for any user (the recurring
+ * cron job) without being exposed as an action itself
+ */
+
+import { revalidatePath } from 'next/cache'
+import { getServerSupabase } from '@/lib/supabase'
+import { getUserMonthlyBudgets } from '@/lib/budgets-store'
+import { getEffectiveSweepTarget, getSweepAmount } from '@/lib/rollover'
+import type { ApiResponse, MonthClose, RolloverStrategy } from '@/lib/types'
+import { addMonths, format, parse, startOfMonth, endOfMonth } from 'date-fns'
+
+const MONTH_ISO_REGEX = /^\d{4}-\d{2}$/
+
+/**
+ * Close a budget month (idempotent)
+ *
+ * 1. Deletes any sweep transfers previously created for the month
+ * 2. Recalculates available balances for the month
+ * 3. Moves the positive leftover of every SWEEP category into its
+ *    sweep_target_category_id as two linked transactions dated on the last day
+ * 4. Records the close in month_closes
+ *
+ * Re-running a close after a past month changed replaces its sweeps.
+ */
+export async function closeUserMonth(userId: string, monthIso: string): Promise<ApiResponse<MonthClose>> {
+  try {
+    if (!MONTH_ISO_REGEX.test(monthIso)) {
+      return { success: false, error: 'Month must be YYYY-MM format' }
+    }
+
+    const monthDate = parse(`${monthIso}-01`, 'yyyy-MM-dd', new Date())
+    const startDateStr = format(startOfMonth(monthDate), 'yyyy-MM-dd')
+    const endDateStr = format(endOfMonth(monthDate), 'yyyy-MM-dd')
+
+    // Remove previous sweep transfers so the month is recalculated from scratch
+    const { error: deleteError } = await getServerSupabase()
+      .from('transactions')
+      .delete()
+      .eq('user_id', userId)
+      .eq('is_sweep_transaction', true)
+      .gte('date', startDateStr)
+      .lte('date', endDateStr)
+
+    if (deleteError) {
+      console.error('Error deleting sweep transactions:', deleteError)
+      return { success: false, error: 'Failed to reset sweep transfers' }
+    }
+
+    const budgets = await getUserMonthlyBudgets(userId, monthDate)
+    const activeCategoryIds = new Set(budgets.map((b) => b.category_id))
+
+    const sweepTransactions: Array<{
+      user_id: string
+      category_id: string
+      amount: string
+      date: string
+      memo: string
+      is_sweep_transaction: boolean
+    }> = []
+    let sweptAmount = 0
+
+    for (const budget of budgets) {
+      const { category } = budget
+      const targetId = getEffectiveSweepTarget(category, activeCategoryIds)
+      const strategy = (category.rollover_strategy || 'RESET') as RolloverStrategy
+
+      // Without an active target the leftover stays with the pool (see getBudgetSummary)
+      if (!targetId) continue
+
+      const amount = getSweepAmount(strategy, parseFloat(budget.available))
+      if (amount <= 0) continue
+
+      const target = budgets.find((b) => b.category_id === targetId)!.category
+
+      sweepTransactions.push(
+        {
+          user_id: userId,
+          category_id: category.id,
+          amount: (-amount).toFixed(2),
+          date: endDateStr,
+          memo: `Sweep to ${target.name || 'Unnamed'}`,
+          is_sweep_transaction: true,
+        },
+        {
+          user_id: userId,
+          category_id: targetId,
+          amount: amount.toFixed(2),
+          date: endDateStr,
+          memo: `Sweep from ${category.name || 'Unnamed'}`,
+          is_sweep_transaction: true,
+        }
+      )
+      sweptAmount += amount
+    }
+
+    if (sweepTransactions.length > 0) {
+      const { error: insertError } = await getServerSupabase()
+        .from('transactions')
+        .insert(sweepTransactions)
+
+      if (insertError) {
+        console.error('Error creating sweep transactions:', insertError)
+        return { success: false, error: 'Failed to create sweep transfers' }
+      }
+    }
+
+    const { data: monthClose, error: closeError } = await getServerSupabase()
+      .from('month_closes')
+      .upsert(
+        {
+          user_id: userId,
+          month_iso: monthIso,
+          swept_amount: sweptAmount.toFixed(2),
+          closed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,month_iso' }
+      )
+      .select()
+      .single()
+
+    if (closeError) {
+      console.error('Error recording month close:', closeError)
+      return { success: false, error: 'Failed to record month close' }
+    }
+
+    revalidatePath('/[locale]', 'layout')
+    return { success: true, data: monthClose }
+  } catch (error) {
+    console.error('Error in closeUserMonth:', error)
+    return { success: false, error: 'Failed to close month' }
+  }
+}
+
+/**
+ * Re-run the close for every closed month from the given month onwards
+ * Called after a change to a past month (transactions, assignments, categories)
+ *
+ * @param fromMonthIso - First affected month (YYYY-MM); omit to re-close all months
+ * @returns Number of months re-closed
+ */
+export async function recloseUserMonthsFrom(
+  userId: string,
+  fromMonthIso?: string
+): Promise<ApiResponse<number>> {
+  try {
+    let query = getServerSupabase()
+      .from('month_closes')
+      .select('month_iso')
+      .eq('user_id', userId)
+      .order('month_iso', { ascending: true })
+
+    if (fromMonthIso) {
+      query = query.gte('month_iso', fromMonthIso)
+    }
+
+    const { data: closes, error } = await query
+
+    if (error) {
+      console.error('Error fetching month closes:', error)
+      return { success: false, error: 'Failed to fetch closed months' }
+    }
+
+    let reclosed = 0
+    for (const close of closes || []) {
+      const result = await closeUserMonth(userId, close.month_iso)
+      if (!result.success) {
+        return { success: false, error: result.error }
+      }
+      reclosed++
+    }
+
+    return { success: true, data: reclosed }
+  } catch (error) {
+    console.error('Error in recloseUserMonthsFrom:', error)
+    return { success: false, error: 'Failed to re-close months' }
+  }
+}
+
+/**
+ * Close all elapsed months of a user that have not been closed yet
+ * Starts at the first month with a budget and stops before the current month
+ *
+ * @returns Number of months closed
+ */
+export async function closeUserElapsedMonths(userId: string): Promise<ApiResponse<number>> {
+  try {
+    const { data: firstBudget } = await getServerSupabase()
+      .from('monthly_budgets')
+      .select('month_iso')
+      .eq('user_id', userId)
+      .order('month_iso', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (!firstBudget) {
+      return { success: true, data: 0 }
+    }
+
+    const currentMonthIso = format(new Date(), 'yyyy-MM')
+
+    const { data: closes } = await getServerSupabase()
+      .from('month_closes')
+      .select('month_iso')
+      .eq('user_id', userId)
+      .gte('month_iso', firstBudget.month_iso)
+
+    const closedMonths = new Set((closes || []).map((c) => c.month_iso))
+
+    let closed = 0
+    let month = parse(`${firstBudget.month_iso}-01`, 'yyyy-MM-dd', new Date())
+
+    // Months must be closed in order: later balances build on earlier sweeps
+    while (format(month, 'yyyy-MM') < currentMonthIso) {
+      const monthIso = format(month, 'yyyy-MM')
+      if (!closedMonths.has(monthIso)) {
+        const result = await closeUserMonth(userId, monthIso)
+        if (!result.success) {
+          return { success: false, error: result.error }
+        }
+        closed++
+      }
+      month = addMonths(month, 1)
+    }
+
+    return { success: true, data: closed }
+  } catch (error) {
+    console.error('Error in closeUserElapsedMonths:', error)
+    return { success: false, error: 'Failed to close elapsed months' }
+  }
+}
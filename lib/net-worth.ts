@@ -0,0 +1,94 @@
+/**
+ * Net worth
+ * Month-end history of assets, liabilities and sinking fund balances (no database access)
+ */
+
+import { endOfMonth, format, parse } from 'date-fns'
+import type { NetWorthItem, NetWorthPoint, NetWorthSnapshot } from '@/lib/types'
+
+interface SinkingFundMonth {
+  category_id: string
+  month_iso: string
+  assigned: number
+  spent: number // outflows, positive
+  swept: number // leftovers swept in at month close, positive
+}
+
+function monthEnd(month: string): string {
+  return format(endOfMonth(parse(month, 'yyyy-MM', new Date())), 'yyyy-MM-dd')
+}
+
+/**
+ * Sinking fund balances at the end of every month
+ * Same formula as getSinkingFunds: assigned + swept in - spent per category, never below zero
+ *
+ * @param entries - Totals per category and month (any order)
+ * @returns Sum of all fund balances per month
+ */
+export function getSinkingFundHistory(months: string[], entries: SinkingFundMonth[]): Record<string, number> {
+  const byCategory = new Map<string, SinkingFundMonth[]>()
+  for (const entry of entries) {
+    byCategory.set(entry.category_id, [...(byCategory.get(entry.category_id) || []), entry])
+  }
+
+  const history: Record<string, number> = Object.fromEntries(months.map((month) => [month, 0]))
+  byCategory.forEach((categoryEntries) => {
+    const sorted = [...categoryEntries].sort((a, b) => a.month_iso.localeCompare(b.month_iso))
+    let balance = 0
+    let next = 0
+    for (const month of months) {
+      while (next < sorted.length && sorted[next].month_iso <= month) {
+        balance += sorted[next].assigned + sorted[next].swept - sorted[next].spent
+        next++
+      }
+      history[month] += Math.max(0, balance)
+    }
+  })
+
+  return history
+}
+
+/**
+ * Net worth at the end of every month
+ * Each item counts with its latest snapshot on or before the month end;
+ * items without a snapshot yet do not count
+ *
+ * @param snapshots - Snapshots of all items (any order)
+ * @param sinkingFunds - Sinking fund balance per month
+ */
+export function buildNetWorthHistory(
+  months: string[],
+  items: Pick<NetWorthItem, 'id' | 'kind'>[],
+  snapshots: Pick<NetWorthSnapshot, 'item_id' | 'date' | 'balance'>[],
+  sinkingFunds: Record<string, number>
+): NetWorthPoint[] {
+  const kindById = new Map(items.map((item) => [item.id, item.kind]))
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date))
+  const latest = new Map<string, number>() // item_id -> balance
+  let next = 0
+
+  return months.map((month) => {
+    const end = monthEnd(month)
+    while (next < sorted.length && sorted[next].date <= end) {
+      latest.set(sorted[next].item_id, parseFloat(sorted[next].balance) || 0)
+      next++
+    }
+
+    let assets = 0
+    let liabilities = 0
+    latest.forEach((balance, itemId) => {
+      const kind = kindById.get(itemId)
+      if (kind === 'ASSET') assets += balance
+      if (kind === 'LIABILITY') liabilities += balance
+    })
+    const sinking = sinkingFunds[month] || 0
+
+    return {
+      month_iso: month,
+      assets: Math.round(assets * 100) / 100,
+      liabilities: Math.round(liabilities * 100) / 100,
+      sinking_funds: Math.round(sinking * 100) / 100,
+      net_worth: Math.round((assets + sinking - liabilities) * 100) / 100,
+    }
+  })
+}
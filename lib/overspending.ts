@@ -0,0 +1,94 @@
+/**
+ * Overspending resolution helpers
+ * Suggests funding sources for categories with a negative available balance
+ */
+
+import type { MonthlyBudgetWithActivity } from '@/lib/types'
+
+export type FundingSourceType = 'TO_BE_BUDGETED' | 'CATEGORY' | 'SAVINGS'
+
+export interface FundingSuggestion {
+  type: FundingSourceType
+  categoryId: string | null // null for TO_BE_BUDGETED
+  amount: number // Amount this source can cover (<= overspent)
+}
+
+export interface OverspentCategory {
+  budget: MonthlyBudgetWithActivity
+  overspent: number // Positive amount missing to get back to zero
+  suggestions: FundingSuggestion[]
+}
+
+// Suggestions shown per overspent category
+const MAX_SUGGESTIONS = 3
+
+/**
+ * List overspent categories with suggested funding sources
+ *
+ * Sources in order of preference:
+ * 1. To Be Budgeted (unassigned money)
+ * 2. FIX/VARIABLE categories with money left (largest first)
+ * 3. SF2 savings goals (largest first)
+ *
+ * SF1 sinking funds are never suggested: they are saving for a known bill.
+ * Suggestions are allocated greedily so accepting all of them never spends
+ * the same money twice.
+ */
+export function getOverspentCategories(
+  budgets: MonthlyBudgetWithActivity[],
+  toBeBudgeted: number
+): OverspentCategory[] {
+  const expenseBudgets = budgets.filter((b) => b.category.type !== 'INCOME')
+
+  const overspentBudgets = expenseBudgets
+    .filter((b) => parseFloat(b.available) < 0)
+    .sort((a, b) => parseFloat(a.available) - parseFloat(b.available))
+
+  // Remaining money per source while allocating
+  const pools: Array<{ type: FundingSourceType; categoryId: string | null; remaining: number }> = []
+  if (toBeBudgeted > 0) {
+    pools.push({ type: 'TO_BE_BUDGETED', categoryId: null, remaining: toBeBudgeted })
+  }
+
+  const bySizeDesc = (a: MonthlyBudgetWithActivity, b: MonthlyBudgetWithActivity) =>
+    parseFloat(b.available) - parseFloat(a.available)
+
+  for (const b of expenseBudgets.filter((b) => b.category.type === 'FIX' || b.category.type === 'VARIABLE').sort(bySizeDesc)) {
+    const available = parseFloat(b.available)
+    if (available > 0) pools.push({ type: 'CATEGORY', categoryId: b.category_id, remaining: available })
+  }
+  for (const b of expenseBudgets.filter((b) => b.category.type === 'SF2').sort(bySizeDesc)) {
+    const available = parseFloat(b.available)
+    if (available > 0) pools.push({ type: 'SAVINGS', categoryId: b.category_id, remaining: available })
+  }
+
+  return overspentBudgets.map((budget) => {
+    const overspent = Math.abs(parseFloat(budget.available))
+    const suggestions: FundingSuggestion[] = []
+
+    // Prefer a single source that covers everything
+    const fullCover = pools.find((p) => p.remaining >= overspent)
+    if (fullCover) {
+      suggestions.push({ type: fullCover.type, categoryId: fullCover.categoryId, amount: overspent })
+    }
+
+    for (const pool of pools) {
+      if (suggestions.length >= MAX_SUGGESTIONS) break
+      if (pool === fullCover || pool.remaining <= 0) continue
+      suggestions.push({
+        type: pool.type,
+        categoryId: pool.categoryId,
+        amount: Math.round(Math.min(overspent, pool.remaining) * 100) / 100,
+      })
+    }
+
+    // Reserve the first suggestion's money for this category
+    const primary = suggestions[0]
+    if (primary) {
+      const pool = pools.find((p) => p.type === primary.type && p.categoryId === primary.categoryId)
+      if (pool) pool.remaining -= primary.amount
+    }
+
+    return { budget, overspent, suggestions }
+  })
+}
@@ -0,0 +1,25 @@
+/**
+ * Loading of payees on the server
+ * Kept out of the server actions so it is not exposed as an action itself
+ */
+
+import { getServerSupabase } from '@/lib/supabase'
+import type { Payee } from '@/lib/types'
+
+/**
+ * Get all payees of a user by name
+ */
+export async function getUserPayees(userId: string): Promise<Payee[]> {
+  const { data, error } = await getServerSupabase()
+    .from('payees')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching payees:', error)
+    throw new Error('Failed to fetch payees')
+  }
+
+  return data || []
+}
@@ -0,0 +1,151 @@
+/**
+ * Payee matching and spending history
+ * Pure logic shared by transaction creation, the statement import, the
+ * quick-add autocomplete and the payee detail view (no database access)
+ */
+
+import { differenceInCalendarDays, format, parseISO, startOfMonth, subMonths } from 'date-fns'
+import type { Payee, PayeeDetails } from '@/lib/types'
+
+// Months shown in the payee detail view
+export const PAYEE_HISTORY_MONTHS = 12
+
+// Transactions listed in the payee detail view
+const RECENT_TRANSACTION_COUNT = 10
+
+/**
+ * Normalise a payee name or memo for comparison
+ * Lowercase, web domains reduced to their name ("NETFLIX.COM" -> "netflix"),
+ * punctuation and repeated spaces removed
+ */
+export function normalizePayeeName(text: string | null | undefined): string {
+  if (!text) return ''
+
+  return text
+    .toLowerCase()
+    .replace(/\bwww\./g, ' ')
+    .replace(/\.(com|net|org|de|at|ch|eu|io|co\.uk|co)\b/g, ' ')
+    .replace(/[^0-9a-zß-öø-ÿ]+/g, ' ') // Latin-1 letters incl. umlauts
+    .trim()
+}
+
+function getPayeeKeys(payee: Pick<Payee, 'name' | 'aliases'>): string[] {
+  return [payee.name, ...payee.aliases].map(normalizePayeeName).filter(Boolean)
+}
+
+/**
+ * Find the payee of a memo
+ * A payee matches when its name or an alias appears in the memo as whole
+ * words; the longest (most specific) match wins, so "Amazon Prime" beats
+ * "Amazon"
+ */
+export function matchPayee<T extends Pick<Payee, 'name' | 'aliases'>>(
+  payees: T[],
+  memo: string | null | undefined
+): T | null {
+  const normalizedMemo = normalizePayeeName(memo)
+  if (!normalizedMemo) return null
+
+  const paddedMemo = ` ${normalizedMemo} `
+  let best: T | null = null
+  let bestLength = 0
+
+  for (const payee of payees) {
+    for (const key of getPayeeKeys(payee)) {
+      if (key.length > bestLength && paddedMemo.includes(` ${key} `)) {
+        best = payee
+        bestLength = key.length
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Payees for the autocomplete, best match first
+ * Names starting with the query rank before aliases starting with it,
+ * which rank before names and aliases containing it
+ */
+export function searchPayees<T extends Pick<Payee, 'name' | 'aliases'>>(
+  payees: T[],
+  query: string,
+  limit: number = 5
+): T[] {
+  const needle = normalizePayeeName(query)
+  if (!needle) return []
+
+  const ranked: { payee: T; rank: number }[] = []
+  for (const payee of payees) {
+    const name = normalizePayeeName(payee.name)
+    const aliases = payee.aliases.map(normalizePayeeName)
+
+    let rank = -1
+    if (name.startsWith(needle)) rank = 0
+    else if (aliases.some((alias) => alias.startsWith(needle))) rank = 1
+    else if (name.includes(needle) || aliases.some((alias) => alias.includes(needle))) rank = 2
+
+    if (rank >= 0) ranked.push({ payee, rank })
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.payee.name.localeCompare(b.payee.name))
+    .slice(0, limit)
+    .map((r) => r.payee)
+}
+
+/**
+ * Aggregate the transactions of a payee into its spending history
+ *
+ * @param transactions - All transactions of the payee (any order)
+ * @param today - End of the monthly history (defaults to now)
+ */
+export function summarizePayeeTransactions(
+  transactions: PayeeDetails['recent'],
+  today: Date = new Date()
+): PayeeDetails {
+  const sorted = [...transactions].sort((a, b) => b.date.localeCompare(a.date))
+
+  // Empty buckets for every month, so gaps show in the history
+  const currentMonth = startOfMonth(today)
+  const buckets = new Map<string, { total: number; count: number }>()
+  for (let i = PAYEE_HISTORY_MONTHS - 1; i >= 0; i--) {
+    buckets.set(format(subMonths(currentMonth, i), 'yyyy-MM'), { total: 0, count: 0 })
+  }
+
+  let totalSpent = 0
+  for (const t of sorted) {
+    // Expenses are negative; refunds reduce the spending
+    const spent = -parseFloat(t.amount)
+    totalSpent += spent
+
+    const bucket = buckets.get(t.date.slice(0, 7))
+    if (bucket) {
+      bucket.total += spent
+      bucket.count++
+    }
+  }
+
+  const count = sorted.length
+  const firstDate = count > 0 ? sorted[count - 1].date : null
+  const lastDate = count > 0 ? sorted[0].date : null
+  const averageInterval =
+    firstDate && lastDate && count > 1
+      ? Math.round(differenceInCalendarDays(parseISO(lastDate), parseISO(firstDate)) / (count - 1))
+      : null
+
+  return {
+    transaction_count: count,
+    total_spent: totalSpent.toFixed(2),
+    average_amount: (count > 0 ? totalSpent / count : 0).toFixed(2),
+    first_date: firstDate,
+    last_date: lastDate,
+    average_interval_days: averageInterval,
+    monthly: Array.from(buckets, ([month_iso, bucket]) => ({
+      month_iso,
+      total: bucket.total.toFixed(2),
+      count: bucket.count,
+    })),
+    recent: sorted.slice(0, RECENT_TRANSACTION_COUNT),
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Recurring transaction job
+ * Creates the due occurrences of all schedules. Used by the nightly cron route
+ * (all users) and after a schedule is created or changed (current user only).
+ */
+
+import { fetchAllRows, getServerSupabase } from '@/lib/supabase'
+import { getNextOccurrence, getOccurrencesBetween } from '@/lib/recurring'
+import type { RecurringTransaction } from '@/lib/types'
+
+/**
+ * Generate all occurrences up to and including `today` (idempotent)
+ *
+ * 1. Loads active schedules whose next_date is due
+ * 2. Inserts one transaction per missed occurrence; the unique index on
+ *    (recurring_transaction_id, date) skips occurrences that already exist
+ * 3. Advances next_date (or deactivates schedules past their end_date),
+ *    guarded by the previous next_date so parallel runs cannot double-advance
+ *
+ * @param today - Last date to generate (yyyy-MM-dd)
+ * @param userId - Only generate for this user; omit to run for everyone
+ * @returns Earliest generated date per user (to re-close affected months)
+ */
+export async function generateDueOccurrences(
+  today: string,
+  userId?: string
+): Promise<Record<string, string>> {
+  const earliestByUser: Record<string, string> = {}
+
+  // Load everything first: advanced schedules drop out of the filter and would shift the pages
+  let schedules: RecurringTransaction[]
+  try {
+    schedules = await fetchAllRows<RecurringTransaction>((from, to) => {
+      let query = getServerSupabase()
+        .from('recurring_transactions')
+        .select('*')
+        .eq('is_active', true)
+        .lte('next_date', today)
+
+      if (userId) query = query.eq('user_id', userId)
+
+      return query.order('next_date', { ascending: true }).order('id', { ascending: true }).range(from, to)
+    })
+  } catch (error) {
+    console.error('Error fetching due recurring transactions:', error)
+    throw new Error('Failed to fetch due recurring transactions')
+  }
+
+  for (const schedule of schedules) {
+    const dates = getOccurrencesBetween(schedule, schedule.next_date, today)
+
+    if (dates.length > 0) {
+      const { error: insertError } = await getServerSupabase()
+        .from('transactions')
+        .upsert(
+          dates.map((date) => ({
+            user_id: schedule.user_id,
+            category_id: schedule.category_id,
+            account_id: schedule.account_id,
+            amount: schedule.amount,
+            date,
+            memo: schedule.memo,
+            recurring_transaction_id: schedule.id,
+          })),
+          { onConflict: 'recurring_transaction_id,date', ignoreDuplicates: true }
+        )
+
+      if (insertError) {
+        console.error('Error creating recurring occurrences:', insertError)
+        continue
+      }
+
+      const earliest = earliestByUser[schedule.user_id]
+      if (!earliest || dates[0] < earliest) {
+        earliestByUser[schedule.user_id] = dates[0]
+      }
+    }
+
+    const nextDate = getNextOccurrence(schedule, today)
+    const { error: updateError } = await getServerSupabase()
+      .from('recurring_transactions')
+      .update({
+        next_date: nextDate ?? schedule.next_date,
+        is_active: nextDate !== null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', schedule.id)
+      .eq('next_date', schedule.next_date)
+
+    if (updateError) {
+      console.error('Error advancing recurring transaction:', updateError)
+    }
+  }
+
+  return earliestByUser
+}
@@ -0,0 +1,85 @@
+/**
+ * Schedule helpers for recurring transactions
+ * Shared by the recurring job, the server actions and the dashboard preview
+ */
+
+import { addMonths, addWeeks, format, parseISO } from 'date-fns'
+import type { RecurringFrequency } from '@/lib/types'
+
+export const RECURRING_FREQUENCIES: RecurringFrequency[] = [
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'semi_annual',
+  'annual',
+]
+
+// Safety net against endless loops for very old start dates
+const MAX_OCCURRENCES = 5000
+
+/**
+ * Schedule fields needed to calculate occurrences (yyyy-MM-dd strings)
+ */
+export interface RecurringSchedule {
+  frequency: RecurringFrequency
+  start_date: string
+  end_date: string | null
+}
+
+/**
+ * Get the n-th occurrence of a schedule (0 = start_date)
+ * Always calculated from start_date, so month-end dates do not drift
+ */
+export function getOccurrence(schedule: RecurringSchedule, n: number): string {
+  const start = parseISO(schedule.start_date)
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      return format(addWeeks(start, n), 'yyyy-MM-dd')
+    case 'biweekly':
+      return format(addWeeks(start, n * 2), 'yyyy-MM-dd')
+    case 'quarterly':
+      return format(addMonths(start, n * 3), 'yyyy-MM-dd')
+    case 'semi_annual':
+      return format(addMonths(start, n * 6), 'yyyy-MM-dd')
+    case 'annual':
+      return format(addMonths(start, n * 12), 'yyyy-MM-dd')
+    default:
+      return format(addMonths(start, n), 'yyyy-MM-dd')
+  }
+}
+
+/**
+ * List all occurrences between two dates (both inclusive)
+ * Stops at the schedule's end_date
+ */
+export function getOccurrencesBetween(
+  schedule: RecurringSchedule,
+  fromDate: string,
+  toDate: string
+): string[] {
+  const dates: string[] = []
+
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = getOccurrence(schedule, n)
+    if (date > toDate || (schedule.end_date && date > schedule.end_date)) break
+    if (date >= fromDate) dates.push(date)
+  }
+
+  return dates
+}
+
+/**
+ * Get the first occurrence after a date
+ * Returns null when the schedule has ended
+ */
+export function getNextOccurrence(schedule: RecurringSchedule, afterDate: string): string | null {
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = getOccurrence(schedule, n)
+    if (schedule.end_date && date > schedule.end_date) return null
+    if (date > afterDate) return date
+  }
+
+  return null
+}
@@ -0,0 +1,246 @@
+/**
+ * Reports
+ * Month range of the reports page (kept in the URL) and helpers for the charts
+ */
+
+import { addMonths, endOfMonth, format, parse, subMonths } from 'date-fns'
+import type { ExportRow } from '@/lib/export'
+import type { TransactionFilters } from '@/lib/transaction-filters'
+import type {
+  BudgetVariance,
+  Category,
+  CategoryVariance,
+  MonthlyTrend,
+  VarianceReport,
+  ZBBCategoryType,
+} from '@/lib/types'
+
+export interface ReportRange {
+  from: string // YYYY-MM
+  to: string // YYYY-MM, inclusive
+}
+
+// Longest range the charts show (bars get too thin beyond that)
+export const MAX_REPORT_MONTHS = 60
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+function toMonth(date: Date): string {
+  return format(date, 'yyyy-MM')
+}
+
+function parseMonth(month: string): Date {
+  return parse(`${month}-01`, 'yyyy-MM-dd', new Date())
+}
+
+/**
+ * The last `months` months up to and including the current one
+ */
+export function getRecentReportRange(months: number, today = new Date()): ReportRange {
+  return { from: toMonth(subMonths(today, months - 1)), to: toMonth(today) }
+}
+
+/**
+ * Read the range from URL search params
+ * Missing or invalid values fall back to the last 12 months; too long ranges
+ * are shortened from the start
+ */
+export function parseReportRange(params: Record<string, string | string[] | undefined>): ReportRange {
+  const value = (key: string) => {
+    const text = params[key]
+    return Array.isArray(text) ? text[0] : text
+  }
+  const from = value('from')
+  const to = value('to')
+
+  if (!from || !to || !MONTH_PATTERN.test(from) || !MONTH_PATTERN.test(to) || from > to) {
+    return getRecentReportRange(12)
+  }
+
+  const earliest = toMonth(subMonths(parseMonth(to), MAX_REPORT_MONTHS - 1))
+  return { from: from < earliest ? earliest : from, to }
+}
+
+/**
+ * All months of the range, oldest first
+ */
+export function getReportMonths({ from, to }: ReportRange): string[] {
+  const months: string[] = []
+  for (let month = parseMonth(from); toMonth(month) <= to; month = addMonths(month, 1)) {
+    months.push(toMonth(month))
+  }
+  return months
+}
+
+/**
+ * One trend per month of the range; months without transactions have no
+ * summary and are filled with zeros
+ */
+export function fillMonthlyTrends(trends: MonthlyTrend[], range: ReportRange): MonthlyTrend[] {
+  const byMonth = new Map(trends.map((trend) => [trend.month_iso, trend]))
+  return getReportMonths(range).map(
+    (month) =>
+      byMonth.get(month) || { month_iso: month, total_income: 0, total_expenses: 0, balance: 0, transaction_count: 0 }
+  )
+}
+
+/**
+ * Transaction filters for the dates of a month range (first to last day)
+ */
+export function getRangeFilters({ from, to }: ReportRange): Required<Pick<TransactionFilters, 'from' | 'to'>> {
+  return {
+    from: `${from}-01`,
+    to: format(endOfMonth(parseMonth(to)), 'yyyy-MM-dd'),
+  }
+}
+
+/**
+ * Round axis ticks covering min..max (always including zero)
+ */
+export function getAxisTicks(min: number, max: number, count = 4): number[] {
+  const low = Math.min(0, min)
+  const high = Math.max(0, max)
+  if (high === low) return [0]
+
+  const rough = (high - low) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((value) => value >= rough)!
+
+  const ticks: number[] = []
+  for (let tick = Math.floor(low / step) * step; tick < high + step; tick += step) {
+    ticks.push(Math.round(tick * 100) / 100)
+    if (tick >= high) break
+  }
+  return ticks
+}
+
+// ============================================
+// Budget vs. actual
+// ============================================
+
+// Income is not budgeted and card payments follow the card spending
+const VARIANCE_EXCLUDED_TYPES: ZBBCategoryType[] = ['INCOME', 'CREDIT_CARD']
+
+// A category is repeatedly over budget when it overspent in at least this
+// many months and in at least half of the months it was used
+export const REPEATED_OVER_MONTHS = 2
+
+export const VARIANCE_COLUMNS = [
+  'category',
+  'category_type',
+  'month',
+  'assigned',
+  'spent',
+  'variance',
+  'variance_percent',
+  'over_budget',
+] as const
+
+interface MonthAmount {
+  category_id: string
+  month_iso: string
+  amount: number
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function getVariance(assigned: number, spent: number): BudgetVariance {
+  const variance = toCents(assigned - spent)
+  return {
+    assigned: toCents(assigned),
+    spent: toCents(spent),
+    variance,
+    variance_percent: assigned !== 0 ? toCents((variance / assigned) * 100) : null,
+    is_over: variance < 0 && spent > 0,
+  }
+}
+
+/**
+ * Set assigned amounts against the spending of every category and month
+ *
+ * @param assigned - Assigned amount per category and month
+ * @param activity - Signed activity per category and month (spending is negative)
+ * @param categories - In display order; archived ones only appear with data in the range
+ */
+export function buildVarianceReport(
+  months: string[],
+  categories: Pick<Category, 'id' | 'name' | 'type' | 'is_active'>[],
+  assigned: MonthAmount[],
+  activity: MonthAmount[]
+): VarianceReport {
+  const inRange = new Set(months)
+  const amounts = new Map<string, { assigned: number; spent: number }>()
+  const add = (row: MonthAmount, field: 'assigned' | 'spent', amount: number) => {
+    if (!inRange.has(row.month_iso)) return
+    const key = `${row.category_id}|${row.month_iso}`
+    const entry = amounts.get(key) || { assigned: 0, spent: 0 }
+    entry[field] += amount
+    amounts.set(key, entry)
+  }
+  assigned.forEach((row) => add(row, 'assigned', row.amount))
+  activity.forEach((row) => add(row, 'spent', -row.amount))
+
+  const report: CategoryVariance[] = []
+  for (const category of categories) {
+    if (VARIANCE_EXCLUDED_TYPES.includes(category.type)) continue
+
+    const byMonth: Record<string, BudgetVariance> = {}
+    let totalAssigned = 0
+    let totalSpent = 0
+    let usedMonths = 0
+    for (const month of months) {
+      const entry = amounts.get(`${category.id}|${month}`) || { assigned: 0, spent: 0 }
+      byMonth[month] = getVariance(entry.assigned, entry.spent)
+      totalAssigned += entry.assigned
+      totalSpent += entry.spent
+      if (toCents(entry.assigned) !== 0 || toCents(entry.spent) !== 0) usedMonths++
+    }
+
+    if (!category.is_active && usedMonths === 0) continue
+
+    const overMonths = months.filter((month) => byMonth[month].is_over).length
+    report.push({
+      category_id: category.id,
+      category_name: category.name || '',
+      category_type: category.type,
+      months: byMonth,
+      total: getVariance(totalAssigned, totalSpent),
+      over_months: overMonths,
+      is_repeatedly_over: overMonths >= REPEATED_OVER_MONTHS && overMonths * 2 >= usedMonths,
+    })
+  }
+
+  return {
+    months,
+    categories: report,
+    total: getVariance(
+      report.reduce((sum, category) => sum + category.total.assigned, 0),
+      report.reduce((sum, category) => sum + category.total.spent, 0)
+    ),
+  }
+}
+
+/**
+ * CSV rows of a variance report: one row per category and month, then the category total
+ *
+ * @param totalLabel - Month column of the total rows
+ */
+export function getVarianceExportRows(report: VarianceReport, totalLabel: string): ExportRow[] {
+  const toRow = (category: CategoryVariance, month: string, variance: BudgetVariance): ExportRow => ({
+    category: category.category_name,
+    category_type: category.category_type,
+    month,
+    assigned: variance.assigned.toFixed(2),
+    spent: variance.spent.toFixed(2),
+    variance: variance.variance.toFixed(2),
+    variance_percent: variance.variance_percent === null ? null : variance.variance_percent.toFixed(1),
+    over_budget: variance.is_over,
+  })
+
+  return report.categories.flatMap((category) => [
+    ...report.months.map((month) => toRow(category, month, category.months[month])),
+    toRow(category, totalLabel, category.total),
+  ])
+}
@@ -0,0 +1,82 @@
+/**
+ * Rollover helpers for the ZBB month transition
+ * Shared by budget calculations and the month-close engine
+ */
+
+import type { Category, RolloverStrategy } from '@/lib/types'
+
+/**
+ * Get the amount a category carries into the next month
+ * - ACCUMULATE: Entire balance (positive or negative)
+ * - RESET: Nothing (leftover goes back to the To Be Budgeted pool)
+ * - SWEEP: Only negative balances (positive leftover is swept at month close)
+ */
+export function getCarryover(strategy: RolloverStrategy, available: number): number {
+  switch (strategy) {
+    case 'ACCUMULATE':
+      return available
+    case 'SWEEP':
+      return available < 0 ? available : 0
+    default:
+      return 0
+  }
+}
+
+/**
+ * Get the positive leftover a SWEEP category hands off at month close
+ * Returns 0 for all other strategies and for overspent categories
+ */
+export function getSweepAmount(strategy: RolloverStrategy, available: number): number {
+  if (strategy !== 'SWEEP') return 0
+  return available > 0 ? Math.round(available * 100) / 100 : 0
+}
+
+/**
+ * Get the category a SWEEP category's leftover actually moves to
+ * A missing or inactive target counts as no target: the leftover returns to
+ * the To Be Budgeted pool instead
+ */
+export function getEffectiveSweepTarget(
+  category: Pick<Category, 'sweep_target_category_id'>,
+  activeCategoryIds: Set<string>
+): string | null {
+  const targetId = category.sweep_target_category_id
+  return targetId && activeCategoryIds.has(targetId) ? targetId : null
+}
+
+/**
+ * Assigned amount and activity of one category, keyed by month_iso (YYYY-MM)
+ * Activity includes sweep transfers: they are part of the month's end balance
+ */
+export type CategoryMonthHistory = Record<string, { assigned: number; activity: number }>
+
+/**
+ * Walk a category's full history and return its available balance at the end of a month
+ *
+ * Every month applies the rollover strategy to the previous balance before adding
+ * assigned + activity. Months without a budget row or transactions still carry the
+ * balance forward (getCarryover is idempotent, so a gap behaves like empty months).
+ */
+export function getAvailableThrough(
+  strategy: RolloverStrategy,
+  history: CategoryMonthHistory,
+  monthIso: string
+): number {
+  const months = Object.keys(history)
+    .filter((m) => m <= monthIso)
+    .sort()
+
+  let available = 0
+  for (const month of months) {
+    const { assigned, activity } = history[month]
+    available = getCarryover(strategy, available) + assigned + activity
+  }
+
+  // Months after the last entry only apply the carryover
+  const lastMonth = months[months.length - 1]
+  if (lastMonth && lastMonth < monthIso) {
+    available = getCarryover(strategy, available)
+  }
+
+  return Math.round(available * 100) / 100
+}
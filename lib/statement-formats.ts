@@ -0,0 +1,261 @@
+/**
+ * Bank statement file formats besides CSV
+ * OFX/QFX (SGML and XML flavour), QIF and ISO 20022 CAMT.053
+ *
+ * The parsers are plain string functions (no DOM), so they run in the
+ * browser and in Node alike. They return the same rows as the CSV import.
+ */
+
+import { format, isValid, parse } from 'date-fns'
+import { parseAmount } from '@/lib/currency'
+import type { ImportRow } from '@/lib/csv-import'
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053'
+
+/**
+ * Detect the format from the file content (extensions are unreliable)
+ */
+export function detectStatementFormat(text: string): StatementFormat {
+  const head = text.replace(/^﻿/, '').slice(0, 2000)
+
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(head)) return 'camt053'
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx'
+  if (/^\s*!(Type|Account|Option)/im.test(head)) return 'qif'
+  return 'csv'
+}
+
+/**
+ * Parse a statement in any supported non-CSV format
+ */
+export function parseStatement(text: string, statementFormat: Exclude<StatementFormat, 'csv'>): ImportRow[] {
+  switch (statementFormat) {
+    case 'ofx':
+      return parseOfx(text)
+    case 'qif':
+      return parseQif(text)
+    case 'camt053':
+      return parseCamt053(text)
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function joinMemo(parts: (string | null | undefined)[]): string {
+  const cleaned = parts.map((part) => (part || '').replace(/\s+/g, ' ').trim()).filter(Boolean)
+  // Banks often repeat the payee in the memo
+  return cleaned.filter((part, i) => cleaned.indexOf(part) === i).join(' · ')
+}
+
+function toRow(
+  line: number,
+  date: string | null,
+  amount: number,
+  memo: string,
+  importId?: string
+): ImportRow {
+  return {
+    line,
+    date,
+    amount,
+    memo,
+    import_id: importId,
+    error: !date ? 'invalidDate' : isNaN(amount) || amount === 0 ? 'invalidAmount' : undefined,
+  }
+}
+
+// ============================================
+// OFX
+// ============================================
+
+/**
+ * Read an OFX element value
+ * OFX 1.x (SGML) leaves leaf elements unclosed, so the value ends at the next tag or line break
+ */
+function getOfxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? decodeXmlEntities(match[1].trim()) : null
+}
+
+/**
+ * Parse OFX/QFX statements (bank and credit card)
+ * FITID is unique per account, so the import id is scoped by the account id
+ * of the statement (STMTRS/CCSTMTRS) the transaction belongs to
+ */
+export function parseOfx(text: string): ImportRow[] {
+  const statements = text.match(/<(?:CC)?STMTRS>[\s\S]*?<\/(?:CC)?STMTRS>/gi) || [text]
+  const rows: ImportRow[] = []
+
+  for (const statement of statements) {
+    const accountId = getOfxValue(statement, 'ACCTID') || 'unknown'
+
+    for (const block of statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || []) {
+      const posted = getOfxValue(block, 'DTPOSTED') || ''
+      const parsed = parse(posted.slice(0, 8), 'yyyyMMdd', new Date())
+      const date = isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null
+      const amount = parseAmount(getOfxValue(block, 'TRNAMT') || '')
+      const fitId = getOfxValue(block, 'FITID')
+
+      rows.push(
+        toRow(
+          rows.length + 1,
+          date,
+          amount,
+          joinMemo([getOfxValue(block, 'NAME'), getOfxValue(block, 'MEMO')]),
+          fitId ? `ofx:${accountId}:${fitId}` : undefined
+        )
+      )
+    }
+  }
+
+  return rows
+}
+
+// ============================================
+// QIF
+// ============================================
+
+/**
+ * Parse a QIF date
+ * Quicken writes US dates (1/31/2024, 1/31'24), German tools 31.01.2024
+ */
+export function parseQifDate(value: string): string | null {
+  const clean = value.trim().replace(/'/g, '/').replace(/\s+/g, '')
+  let year: number
+  let month: number
+  let day: number
+
+  if (/^\d{4}-\d{1,2}-\d{1,2}$/.test(clean)) {
+    ;[year, month, day] = clean.split('-').map(Number)
+  } else if (/^\d{1,2}\.\d{1,2}\.\d{2,4}$/.test(clean)) {
+    ;[day, month, year] = clean.split('.').map(Number)
+  } else if (/^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(clean)) {
+    ;[month, day, year] = clean.split('/').map(Number)
+  } else {
+    return null
+  }
+
+  if (year < 100) year += year < 70 ? 2000 : 1900
+
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null
+  }
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Parse QIF bank and cash statements
+ * QIF has no transaction ids, so re-imports rely on the duplicate check
+ */
+export function parseQif(text: string): ImportRow[] {
+  const rows: ImportRow[] = []
+  let record: Record<string, string> = {}
+
+  for (const rawLine of text.replace(/^﻿/, '').split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('!')) continue
+
+    if (line === '^') {
+      if (record.D || record.T || record.U) {
+        rows.push(
+          toRow(
+            rows.length + 1,
+            parseQifDate(record.D || ''),
+            parseAmount(record.T || record.U || ''),
+            joinMemo([record.P, record.M])
+          )
+        )
+      }
+      record = {}
+      continue
+    }
+
+    // Only the first value per field code (split lines S/E/$ are ignored)
+    const code = line[0]
+    if (!(code in record)) record[code] = line.slice(1)
+  }
+
+  return rows
+}
+
+// ============================================
+// CAMT.053
+// ============================================
+
+/**
+ * All elements with the given name (any namespace prefix)
+ */
+function getXmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g')
+  return Array.from(xml.matchAll(pattern), (match) => match[1])
+}
+
+function getXmlValue(xml: string, path: string[]): string | null {
+  let current: string | undefined = xml
+  for (const tag of path) {
+    current = getXmlElements(current, tag)[0]
+    if (current === undefined) return null
+  }
+  return decodeXmlEntities(current.trim())
+}
+
+/**
+ * Parse ISO 20022 CAMT.053 bank-to-customer statements
+ * One entry (Ntry) becomes one transaction; the bank's AcctSvcrRef (or the
+ * end-to-end id) is kept as import id, scoped by the statement IBAN.
+ * A reversal (RvslInd true) keeps the indicator of the entry it cancels, so
+ * its sign is flipped.
+ */
+export function parseCamt053(text: string): ImportRow[] {
+  const rows: ImportRow[] = []
+
+  for (const statement of getXmlElements(text, 'Stmt')) {
+    const iban =
+      getXmlValue(statement, ['Acct', 'Id', 'IBAN']) || getXmlValue(statement, ['Acct', 'Othr', 'Id']) || 'unknown'
+
+    for (const entry of getXmlElements(statement, 'Ntry')) {
+      const isDebit = getXmlValue(entry, ['CdtDbtInd']) === 'DBIT'
+      const isReversal = getXmlValue(entry, ['RvslInd']) === 'true'
+      const amount = parseAmount(getXmlValue(entry, ['Amt']) || '')
+      const bookingDate =
+        getXmlValue(entry, ['BookgDt', 'Dt']) ||
+        getXmlValue(entry, ['BookgDt', 'DtTm']) ||
+        getXmlValue(entry, ['ValDt', 'Dt'])
+      const date = bookingDate && /^\d{4}-\d{2}-\d{2}/.test(bookingDate) ? bookingDate.slice(0, 10) : null
+
+      // The counterparty is the creditor of a debit and the debtor of a credit
+      const details = getXmlElements(entry, 'TxDtls')[0] || ''
+      const counterparty = isDebit
+        ? getXmlValue(details, ['RltdPties', 'Cdtr', 'Nm'])
+        : getXmlValue(details, ['RltdPties', 'Dbtr', 'Nm'])
+      const remittance = getXmlElements(details, 'Ustrd').map(decodeXmlEntities).join(' ')
+
+      const endToEndId = getXmlValue(details, ['Refs', 'EndToEndId'])
+      const reference =
+        getXmlValue(entry, ['AcctSvcrRef']) ||
+        getXmlValue(details, ['Refs', 'AcctSvcrRef']) ||
+        (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null)
+
+      rows.push(
+        toRow(
+          rows.length + 1,
+          date,
+          isDebit !== isReversal ? -Math.abs(amount) : Math.abs(amount),
+          joinMemo([counterparty, remittance || getXmlValue(entry, ['AddtlNtryInf'])]),
+          reference ? `camt:${iban}:${reference}` : undefined
+        )
+      )
+    }
+  }
+
+  return rows
+}
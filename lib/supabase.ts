@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { getChangeLogHeaders } from '@/lib/change-log'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -18,11 +19,45 @@ export function getServerSupabase() {
       auth: {
         autoRefreshToken: false,
         persistSession: false
-      }
+      },
+      // Tags the request for the change log when it runs inside withChangeLog
+      global: { headers: getChangeLogHeaders() }
     })
   }
 
   // Fallback to anon key (will require RLS policies)
   console.warn('SUPABASE_SERVICE_ROLE_KEY not found. Using anon key. RLS policies required.')
-  return createClient(supabaseUrl, supabaseAnonKey)
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: getChangeLogHeaders() }
+  })
+}
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+// Ids per .in() filter; keeps the request URL well below length limits
+export const IN_FILTER_CHUNK_SIZE = 100
+
+/**
+ * Read every page of a query
+ * The query must have a stable order so pages do not overlap
+ *
+ * @param limit - Stop after this many rows (rounded up to whole pages)
+ */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  limit: number = Infinity
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; from < limit; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(error.message)
+    }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return rows
 }
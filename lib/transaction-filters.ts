@@ -0,0 +1,89 @@
+/**
+ * Transaction filters in URL search params
+ * Shared by the dashboard page (server) and the filter bar (client), so a
+ * filtered transaction list survives reloads and can be shared as a link
+ */
+
+import { transactionSearchSchema, type TransactionSearchInput } from '@/lib/types'
+
+export type TransactionFilters = Omit<TransactionSearchInput, 'account_id' | 'cursor' | 'limit'>
+
+// Filter field -> URL search param (the account filter keeps its own "account" param)
+export const TRANSACTION_FILTER_PARAMS: Record<keyof TransactionFilters, string> = {
+  query: 'q',
+  type: 'type',
+  category_id: 'category',
+  payee_id: 'payee',
+  from: 'from',
+  to: 'to',
+  min_amount: 'min',
+  max_amount: 'max',
+}
+
+const FILTER_KEYS = Object.keys(TRANSACTION_FILTER_PARAMS) as (keyof TransactionFilters)[]
+
+/**
+ * Read the filters from URL search params
+ * Invalid values (hand-edited or outdated links) are dropped instead of
+ * failing the whole page
+ */
+export function parseTransactionFilters(params: Record<string, string | string[] | undefined>): TransactionFilters {
+  const filters: Record<string, string> = {}
+  for (const key of FILTER_KEYS) {
+    const value = params[TRANSACTION_FILTER_PARAMS[key]]
+    const text = Array.isArray(value) ? value[0] : value
+    if (text?.trim()) filters[key] = text.trim()
+  }
+
+  // Drop the offending fields until the rest validates
+  for (let attempt = 0; attempt < FILTER_KEYS.length; attempt++) {
+    const result = transactionSearchSchema.safeParse(filters)
+    if (result.success) break
+    for (const issue of result.error.issues) {
+      delete filters[String(issue.path[0])]
+    }
+  }
+
+  return filters as TransactionFilters
+}
+
+/**
+ * URL search params for the given filters, e.g. to link to matching transactions
+ */
+export function buildTransactionFilterQuery(filters: TransactionFilters): string {
+  const params = new URLSearchParams()
+  for (const key of FILTER_KEYS) {
+    const value = filters[key]
+    if (value) params.set(TRANSACTION_FILTER_PARAMS[key], value)
+  }
+  return params.toString()
+}
+
+/**
+ * Whether any filter is set (otherwise the list shows the selected month)
+ */
+export function hasTransactionFilters(filters: TransactionFilters): boolean {
+  return FILTER_KEYS.some((key) => !!filters[key])
+}
+
+/**
+ * Number of filters set apart from the search text
+ */
+export function countTransactionFilters(filters: TransactionFilters): number {
+  return FILTER_KEYS.filter((key) => key !== 'query' && !!filters[key]).length
+}
+
+/**
+ * Turn a search text into a prefix full-text query ("netf rew" -> "netf:* & rew:*")
+ * Only letters and digits are kept, so user input cannot break the query syntax
+ *
+ * @returns null when the text has no searchable word
+ */
+export function buildMemoSearchQuery(query: string | undefined): string | null {
+  const words = (query || '')
+    .toLowerCase()
+    .split(/[^0-9a-zß-öø-ÿ]+/) // Latin-1 letters incl. umlauts
+    .filter(Boolean)
+
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null
+}
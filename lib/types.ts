@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { parseAmount } from '@/lib/currency'
 
 // ============================================
 // DATABASE TYPES (matching actual Supabase schema)
@@ -11,8 +12,9 @@ import { z } from 'zod'
  * - SF1: Sinking Funds Priority - deterministic savings for known future expenses
  * - SF2: Savings Goals - flexible savings targets
  * - INCOME: Income categories
+ * - CREDIT_CARD: Card payment pot of a credit card account (created automatically)
  */
-export type ZBBCategoryType = 'FIX' | 'VARIABLE' | 'SF1' | 'SF2' | 'INCOME'
+export type ZBBCategoryType = 'FIX' | 'VARIABLE' | 'SF1' | 'SF2' | 'INCOME' | 'CREDIT_CARD'
 
 /**
  * Rollover Strategy - defines month-end behavior
@@ -22,6 +24,25 @@ export type ZBBCategoryType = 'FIX' | 'VARIABLE' | 'SF1' | 'SF2' | 'INCOME'
  */
 export type RolloverStrategy = 'ACCUMULATE' | 'RESET' | 'SWEEP'
 
+/**
+ * Account Types
+ * - CHECKING: Current/Giro account
+ * - SAVINGS: Savings account
+ * - CASH: Wallet / cash box
+ * - CREDIT_CARD: Credit card (balance is usually negative)
+ */
+export type AccountType = 'CHECKING' | 'SAVINGS' | 'CASH' | 'CREDIT_CARD'
+
+/**
+ * Recurring Frequency - same vocabulary as budget_items.frequency plus weekly schedules
+ */
+export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'semi_annual' | 'annual'
+
+/**
+ * Category Rule Match Types (memo comparison, always case-insensitive)
+ */
+export type CategoryRuleMatchType = 'contains' | 'equals' | 'regex'
+
 export type SubscriptionStatus = 'trial' | 'active' | 'expired'
 
 export interface Profile {
@@ -45,7 +66,7 @@ export interface Category {
   name: string | null
   icon: string | null
   color: string | null
-  type: ZBBCategoryType // FIX, VARIABLE, SF1, SF2, INCOME
+  type: ZBBCategoryType // FIX, VARIABLE, SF1, SF2, INCOME, CREDIT_CARD
   rollover_strategy: RolloverStrategy
   target_amount: string | null // numeric
   due_date: string | null // date
@@ -63,12 +84,333 @@ export interface Transaction {
   amount: string // numeric - stored as string to avoid float precision issues
   date: string // date
   memo: string | null // note field
+  account_id: string | null // uuid (null = not assigned to an account)
   is_starting_balance: boolean
   is_sweep_transaction: boolean
+  is_reconciled: boolean // locked after reconciliation
+  transfer_id: string | null // uuid shared by both legs of a transfer between accounts
+  recurring_transaction_id: string | null // uuid of the schedule that generated it
+  import_id: string | null // bank transaction id of imported statements (unique per user)
+  is_split: boolean // category and activity come from transaction_splits
+  payee_id: string | null // uuid of the payee (null = unknown)
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Transaction Split - One category line of a split transaction
+ * Lines carry the sign of the parent and add up to its amount
+ */
+export interface TransactionSplit {
+  id: string // uuid
+  user_id: string
+  transaction_id: string // uuid of the parent transaction
+  category_id: string // uuid
+  amount: string // numeric, signed like the parent
+  memo: string | null
+  sort_order: number
+  created_at: string
+}
+
+/**
+ * Account - Where the money physically is (bank, cash, credit card)
+ */
+export interface Account {
+  id: string // uuid
+  user_id: string
+  name: string
+  type: AccountType
+  initial_balance: string // numeric
+  last_reconciled_at: string | null
+  last_reconciled_balance: string | null // numeric
+  payment_category_id: string | null // uuid - CREDIT_CARD category funded by card spending
+  sort_order: number | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * AccountWithBalance - Computed view for UI
+ */
+export interface AccountWithBalance extends Account {
+  balance: string // initial_balance + all transactions (decimal)
+  reconciled_balance: string // initial_balance + reconciled transactions (decimal)
+  unreconciled_count: number
+}
+
+/**
+ * AccountBalanceAt - Account balance as of a statement date (reconcile preview)
+ */
+export interface AccountBalanceAt {
+  balance: string // initial_balance + transactions up to the date (decimal)
+  unreconciled_count: number // unreconciled transactions up to the date
+}
+
+/**
+ * RecurringTransaction - Schedule that generates transactions (rent, salary, subscriptions)
+ */
+export interface RecurringTransaction {
+  id: string // uuid
+  user_id: string
+  category_id: string | null // uuid
+  account_id: string | null // uuid
+  amount: string // numeric - signed (income positive, expenses negative)
+  memo: string | null
+  frequency: RecurringFrequency
+  start_date: string // date - anchor for all occurrences
+  next_date: string // date - first occurrence not generated yet
+  end_date: string | null // date (null = no end)
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * CategoryRule - Auto-categorisation rule for transaction memos and amounts
+ */
+export interface CategoryRule {
+  id: string // uuid
+  user_id: string
+  match_type: CategoryRuleMatchType
+  match_value: string | null // null = any memo
+  min_amount: string | null // numeric - absolute amount, inclusive
+  max_amount: string | null // numeric - absolute amount, inclusive
+  category_id: string // uuid - category to set
+  set_memo: string | null // cleaned-up memo (null = keep)
+  sort_order: number // first matching rule wins
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * CategoryRuleChange - Preview of what applying the rules would change
+ */
+export interface CategoryRuleChange {
+  transaction_id: string
+  rule_id: string
+  date: string
+  amount: string
+  memo: string | null
+  category_id: string | null // current category
+  new_category_id: string
+  new_memo: string | null
+}
+
+/**
+ * Payee - Merchant or counterparty, matched against memos by name and aliases
+ */
+export interface Payee {
+  id: string // uuid
+  user_id: string
+  name: string
+  aliases: string[] // other spellings found in memos (e.g. "NETFLIX.COM")
+  default_category_id: string | null // uuid - used when a matched transaction has no category
+  default_amount: string | null // numeric - absolute, pre-fills quick-add
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * PayeeDetails - Spending history of a payee
+ */
+export interface PayeeDetails {
+  transaction_count: number
+  total_spent: string // expenses minus refunds (positive = money spent)
+  average_amount: string // total_spent per transaction
+  first_date: string | null
+  last_date: string | null
+  average_interval_days: number | null // between consecutive transactions (null = fewer than 2)
+  monthly: { month_iso: string; total: string; count: number }[] // oldest first, empty months included
+  recent: Pick<Transaction, 'id' | 'date' | 'amount' | 'memo' | 'category_id'>[] // newest first
+}
+
+export type NetWorthItemKind = 'ASSET' | 'LIABILITY'
+
+// Kinds of assets and liabilities (only used for the icon and grouping)
+export const NET_WORTH_ITEM_TYPES = {
+  ASSET: ['SAVINGS', 'INVESTMENT', 'PROPERTY', 'VEHICLE', 'OTHER_ASSET'],
+  LIABILITY: ['LOAN', 'MORTGAGE', 'CREDIT', 'OTHER_LIABILITY'],
+} as const
+
+export type NetWorthItemType = (typeof NET_WORTH_ITEM_TYPES)[NetWorthItemKind][number]
+
+/**
+ * NetWorthItem - Asset or liability held outside the budget (depot, car, loan, ...)
+ */
+export interface NetWorthItem {
+  id: string // uuid
+  user_id: string
+  name: string
+  kind: NetWorthItemKind
+  type: NetWorthItemType
+  sort_order: number
+  is_active: boolean // archived items keep their snapshots in the history
   created_at: string
   updated_at: string
 }
 
+/**
+ * NetWorthSnapshot - Balance of an asset or liability on a date
+ */
+export interface NetWorthSnapshot {
+  id: string // uuid
+  user_id: string
+  item_id: string // uuid
+  date: string // date
+  balance: string // numeric - value of an asset or amount owed on a liability (both positive)
+  created_at: string
+}
+
+/**
+ * NetWorthPoint - Net worth at the end of a month
+ */
+export interface NetWorthPoint {
+  month_iso: string
+  assets: number
+  liabilities: number
+  sinking_funds: number // SF1/SF2 balances
+  net_worth: number // assets + sinking_funds - liabilities
+}
+
+/**
+ * NetWorthOverview - Items with their latest balance and the history
+ */
+export interface NetWorthOverview {
+  items: (NetWorthItem & { snapshots: NetWorthSnapshot[] })[] // snapshots newest first
+  sinking_funds: SinkingFundItem[]
+  history: NetWorthPoint[]
+}
+
+export type PayoffStrategy = 'SNOWBALL' | 'AVALANCHE'
+
+/**
+ * Debt - Loan or credit being paid off, optionally paid from a budget category
+ */
+export interface Debt {
+  id: string // uuid
+  user_id: string
+  name: string
+  principal: string // numeric - amount still owed
+  interest_rate: string // numeric - annual rate in percent
+  minimum_payment: string // numeric - monthly
+  category_id: string | null // uuid - category the payments are budgeted in
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * DebtPlan - How the user pays off their debts (one per user)
+ */
+export interface DebtPlan {
+  id: string // uuid
+  user_id: string
+  strategy: PayoffStrategy
+  extra_payment: string // numeric - paid on top of the minimums every month
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * PayoffPayment - Payment on one debt in one month of a payoff schedule
+ */
+export interface PayoffPayment {
+  debt_id: string
+  payment: number
+  interest: number
+  principal: number
+  balance: number // after the payment
+}
+
+/**
+ * PayoffMonth - One month of a payoff schedule
+ */
+export interface PayoffMonth {
+  month_iso: string
+  payments: PayoffPayment[] // one per debt still owed at the start of the month
+  total_payment: number
+  total_interest: number
+  remaining: number // all debts after the payments
+}
+
+/**
+ * PayoffSchedule - Month-by-month payoff of all debts with one strategy
+ */
+export interface PayoffSchedule {
+  strategy: PayoffStrategy
+  order: string[] // debt ids, the one getting the extra payment first
+  months: PayoffMonth[]
+  debts: Record<string, { payoff_month: string | null; total_interest: number; total_paid: number }>
+  total_interest: number
+  total_paid: number
+  debt_free_month: string | null // null: not paid off within the simulated time
+}
+
+/**
+ * DebtOverview - Debts, the plan and the schedules of both strategies
+ */
+export interface DebtOverview {
+  debts: Debt[]
+  plan: Pick<DebtPlan, 'strategy' | 'extra_payment'>
+  start_month: string // first month of the schedules (the current month)
+  schedules: Record<PayoffStrategy, PayoffSchedule>
+}
+
+/**
+ * TransactionListItem - Transaction with the relations the transaction list shows
+ */
+export interface TransactionListItem extends Transaction {
+  category: Category | null
+  splits: Pick<TransactionSplit, 'id' | 'category_id' | 'amount' | 'memo' | 'sort_order'>[]
+  transfer_account_id?: string | null // account on the other side of a transfer
+}
+
+/**
+ * TransactionSearchResult - One page of searchTransactions
+ */
+export interface TransactionSearchResult {
+  transactions: TransactionListItem[]
+  next_cursor: string | null // null = last page
+}
+
+/**
+ * BulkTransactionFailure - A selected transaction a bulk operation skipped
+ */
+export interface BulkTransactionFailure {
+  id: string
+  error: string
+}
+
+/**
+ * BulkUpdateResult - Result of bulkUpdateTransactions
+ */
+export interface BulkUpdateResult {
+  transactions: Transaction[] // updated rows
+  failed: BulkTransactionFailure[]
+}
+
+/**
+ * BulkDeleteResult - Result of bulkDeleteTransactions
+ */
+export interface BulkDeleteResult {
+  deleted_ids: string[] // includes the other legs of deleted transfers
+  failed: BulkTransactionFailure[]
+}
+
+/**
+ * UpcomingTransaction - A scheduled occurrence that has not been generated yet
+ */
+export interface UpcomingTransaction {
+  recurring_transaction_id: string
+  date: string // yyyy-MM-dd
+  amount: string // signed
+  memo: string | null
+  category_id: string | null
+  account_id: string | null
+}
+
 /**
  * MonthlyBudget - ZBB BudgetMonth entity
  * Represents a category's budget for a specific month
@@ -90,10 +432,40 @@ export interface MonthlyBudget {
  */
 export interface MonthlyBudgetWithActivity extends MonthlyBudget {
   activity: string // Sum of transactions in this month (decimal, usually negative)
-  available: string // start_balance + assigned_amount + activity (decimal)
+  swept: string // Sum of sweep transfers in this month (negative = swept out, positive = swept in)
+  available: string // start_balance + assigned_amount + activity + swept (decimal)
   category: Category
 }
 
+/**
+ * MonthClose - Record of a closed budget month
+ * Closing a month creates the SWEEP transfers for that month
+ */
+export interface MonthClose {
+  id: string // uuid
+  user_id: string
+  month_iso: string // YYYY-MM format
+  swept_amount: string // numeric - total moved by sweep transfers
+  closed_at: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * BudgetMove - Audit record of money moved between two categories
+ * The move itself is applied to assigned_amount of both categories
+ */
+export interface BudgetMove {
+  id: string // uuid
+  user_id: string
+  month_iso: string // YYYY-MM format
+  from_category_id: string | null // uuid (null if category was deleted)
+  to_category_id: string | null // uuid (null if category was deleted)
+  amount: string // numeric - always positive
+  created_by: string // Clerk user id of who moved the money
+  created_at: string
+}
+
 /**
  * BudgetSummary - Summary for budget header
  */
@@ -108,37 +480,619 @@ export interface BudgetSummary {
   overspent: string // Sum of negative available balances (categories in the red)
 }
 
+/**
+ * ChangeAction - User action recorded in the change log
+ */
+export type ChangeAction =
+  | 'transaction.create'
+  | 'transaction.transfer'
+  | 'transaction.import'
+  | 'transaction.update'
+  | 'transaction.delete'
+  | 'transaction.bulkUpdate'
+  | 'transaction.bulkDelete'
+  | 'transaction.markPaid'
+  | 'category.create'
+  | 'category.update'
+  | 'category.delete'
+  | 'account.create'
+  | 'account.update'
+  | 'account.delete'
+  | 'account.reconcile'
+  | 'budget.assign'
+  | 'budget.move'
+  | 'budget.cover'
+  | 'budget.initialize'
+  | 'budget.quickAssign'
+  | 'payee.create'
+  | 'payee.update'
+  | 'payee.delete'
+  | 'recurring.create'
+  | 'recurring.update'
+  | 'recurring.delete'
+  | 'rule.create'
+  | 'rule.update'
+  | 'rule.delete'
+  | 'rule.reorder'
+  | 'rule.apply'
+  | 'backup.restore'
+  | 'netWorth.create'
+  | 'netWorth.update'
+  | 'netWorth.delete'
+  | 'netWorth.snapshot'
+  | 'netWorth.deleteSnapshot'
+  | 'debt.create'
+  | 'debt.update'
+  | 'debt.delete'
+  | 'debt.plan'
+
+/**
+ * ChangeSet - One recorded user action with all rows it changed
+ */
+export interface ChangeSet {
+  id: string // uuid
+  user_id: string
+  action: ChangeAction
+  label: string | null // memo or name of the first changed row that has one
+  row_count: number
+  created_at: string
+  undone_at: string | null // null = applied
+}
+
 // ============================================
 // ZOD VALIDATION SCHEMAS
 // ============================================
 
 // Transaction insert schema for form validation
-export const insertTransactionSchema = z.object({
-  category_id: z.string().optional(),
+// Split line of a transaction (amount without sign, the parent decides it)
+export const transactionSplitSchema = z.object({
+  category_id: z.string().min(1, 'Please select a category for every split'),
   amount: z
     .string()
     .min(1, 'Amount is required')
-    .refine(
-      (val) => {
-        // Normalize: remove +/- prefix and convert comma to period
-        const cleanVal = val.replace(/^[+-]/, '').replace(',', '.')
-        const num = parseFloat(cleanVal)
-        return !isNaN(num) && num > 0
-      },
-      { message: 'Amount must be a positive number' }
-    )
-    .transform((val) => {
-      // Normalize: remove +/- prefix and convert comma to period
-      const cleanVal = val.replace(/^[+-]/, '').replace(',', '.')
-      const num = parseFloat(cleanVal)
-      return num.toFixed(2)
-    }),
-  date: z.string().optional(),
-  memo: z.string().optional(),
+    .refine((val) => parseAmount(val) > 0, { message: 'Split amounts must be positive numbers' })
+    .transform((val) => parseAmount(val).toFixed(2)),
+  memo: z.string().max(200).optional(),
 })
 
+export type TransactionSplitInput = z.infer<typeof transactionSplitSchema>
+
+export const insertTransactionSchema = z
+  .object({
+    category_id: z.string().optional(),
+    amount: z
+      .string()
+      .min(1, 'Amount is required')
+      .refine(
+        (val) => {
+          // Normalize: ignore the +/- prefix, accept comma and period separators
+          const num = parseAmount(val.replace(/^[+-]/, ''))
+          return !isNaN(num) && num > 0
+        },
+        { message: 'Amount must be a positive number' }
+      )
+      .transform((val) => {
+        // Normalize: ignore the +/- prefix, accept comma and period separators
+        const num = parseAmount(val.replace(/^[+-]/, ''))
+        // Keep an explicit + so uncategorized amounts can still be booked as income
+        return val.startsWith('+') ? `+${num.toFixed(2)}` : num.toFixed(2)
+      }),
+    date: z.string().optional(),
+    memo: z.string().optional(),
+    account_id: z.string().optional(),
+    // Empty = match the memo against the payees
+    payee_id: z.string().optional(),
+    // Two or more lines replace the category; empty or missing = not split
+    splits: z.array(transactionSplitSchema).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.splits || data.splits.length === 0) return
+
+    if (data.splits.length < 2) {
+      ctx.addIssue({ code: 'custom', message: 'A split needs at least two lines', path: ['splits'] })
+      return
+    }
+    if (data.amount.startsWith('+')) {
+      ctx.addIssue({ code: 'custom', message: 'Only expenses can be split', path: ['splits'] })
+      return
+    }
+
+    // Compare in cents to avoid float rounding
+    const totalCents = data.splits.reduce((sum, split) => sum + Math.round(parseFloat(split.amount) * 100), 0)
+    if (totalCents !== Math.round(parseFloat(data.amount) * 100)) {
+      ctx.addIssue({ code: 'custom', message: 'Split amounts must add up to the transaction amount', path: ['splits'] })
+    }
+  })
+
 export type InsertTransactionInput = z.infer<typeof insertTransactionSchema>
 
+// Recurring transaction schema (amount sign is derived from the category like transactions)
+export const insertRecurringTransactionSchema = z
+  .object({
+    category_id: z.string().optional(),
+    account_id: z.string().optional(),
+    amount: insertTransactionSchema.shape.amount,
+    memo: z.string().optional(),
+    frequency: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'semi_annual', 'annual']),
+    start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid start date'),
+    end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid end date').optional().or(z.literal('')),
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: 'End date must be after the start date',
+    path: ['end_date'],
+  })
+
+export type InsertRecurringTransactionInput = z.infer<typeof insertRecurringTransactionSchema>
+
+// Category rule schema (at least one condition, valid regular expression)
+const optionalRuleAmount = z
+  .string()
+  .optional()
+  .refine((val) => !val || parseAmount(val) >= 0, 'Amount must be a positive number')
+  .transform((val) => (val ? Math.abs(parseAmount(val)).toFixed(2) : null))
+
+export const insertCategoryRuleSchema = z
+  .object({
+    match_type: z.enum(['contains', 'equals', 'regex']),
+    match_value: z.string().max(200).optional(),
+    min_amount: optionalRuleAmount,
+    max_amount: optionalRuleAmount,
+    category_id: z.string().uuid('Please select a category'),
+    set_memo: z.string().max(200).optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((data) => !!data.match_value?.trim() || data.min_amount !== null || data.max_amount !== null, {
+    message: 'Add a memo text or an amount range',
+    path: ['match_value'],
+  })
+  .refine(
+    (data) => {
+      if (data.match_type !== 'regex' || !data.match_value) return true
+      try {
+        new RegExp(data.match_value, 'i')
+        return true
+      } catch {
+        return false
+      }
+    },
+    { message: 'Invalid regular expression', path: ['match_value'] }
+  )
+  .refine(
+    (data) =>
+      data.min_amount === null || data.max_amount === null || parseFloat(data.max_amount) >= parseFloat(data.min_amount),
+    { message: 'Maximum must not be below the minimum', path: ['max_amount'] }
+  )
+
+export type InsertCategoryRuleInput = z.infer<typeof insertCategoryRuleSchema>
+
+// Retroactive rule application schema
+export const applyCategoryRulesSchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid start date'),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid end date'),
+    only_uncategorized: z.boolean(),
+    transaction_ids: z.array(z.string().uuid()).optional(), // restrict to previewed rows
+  })
+  .refine((data) => data.to >= data.from, {
+    message: 'End date must be after the start date',
+    path: ['to'],
+  })
+
+export type ApplyCategoryRulesInput = z.infer<typeof applyCategoryRulesSchema>
+
+// Payee schema (aliases are trimmed and deduplicated case-insensitively)
+export const insertPayeeSchema = z.object({
+  name: z.string().trim().min(1, 'Payee name is required').max(100),
+  aliases: z
+    .array(z.string().trim().max(100))
+    .max(20, 'A payee can have at most 20 aliases')
+    .optional()
+    .transform((aliases) => {
+      const seen = new Set<string>()
+      return (aliases || []).filter((alias) => {
+        const key = alias.toLowerCase()
+        if (!alias || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }),
+  default_category_id: z.string().optional(),
+  default_amount: z
+    .string()
+    .optional()
+    .refine((val) => !val || parseAmount(val) > 0, 'Amount must be a positive number')
+    .transform((val) => (val ? parseAmount(val).toFixed(2) : null)),
+})
+
+export type InsertPayeeInput = z.infer<typeof insertPayeeSchema>
+
+// Net worth item schema (the type must belong to the kind)
+export const netWorthItemSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    kind: z.enum(['ASSET', 'LIABILITY']),
+    type: z.enum([...NET_WORTH_ITEM_TYPES.ASSET, ...NET_WORTH_ITEM_TYPES.LIABILITY]),
+    is_active: z.boolean().optional(),
+  })
+  .refine((data) => (NET_WORTH_ITEM_TYPES[data.kind] as readonly string[]).includes(data.type), {
+    message: 'Invalid type',
+    path: ['type'],
+  })
+
+export type NetWorthItemInput = z.infer<typeof netWorthItemSchema>
+
+// Balance snapshot schema (one per item and date; a second one replaces the first)
+export const netWorthSnapshotSchema = z.object({
+  item_id: z.string().uuid('Invalid item'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date'),
+  balance: z
+    .string()
+    .min(1, 'Balance is required')
+    .refine((val) => !isNaN(parseAmount(val)) && parseAmount(val) >= 0, 'Balance must not be negative')
+    .transform((val) => parseAmount(val).toFixed(2)),
+})
+
+export type NetWorthSnapshotInput = z.input<typeof netWorthSnapshotSchema>
+
+// Debt schema (amounts as entered, stored with two decimals)
+const debtAmount = (message: string) =>
+  z
+    .string()
+    .min(1, message)
+    .refine((val) => !isNaN(parseAmount(val)) && parseAmount(val) >= 0, 'Amount must not be negative')
+    .transform((val) => parseAmount(val).toFixed(2))
+
+export const debtSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  principal: debtAmount('Balance is required'),
+  interest_rate: z
+    .string()
+    .min(1, 'Interest rate is required')
+    .refine((val) => !isNaN(parseAmount(val)) && parseAmount(val) >= 0 && parseAmount(val) <= 100, 'Invalid interest rate')
+    .transform((val) => parseAmount(val).toFixed(2)),
+  minimum_payment: debtAmount('Minimum payment is required').refine(
+    (val) => parseFloat(val) > 0,
+    'Minimum payment must be greater than 0'
+  ),
+  category_id: z.string().uuid('Invalid category').nullable(),
+})
+
+export type DebtInput = z.input<typeof debtSchema>
+
+export const debtPlanSchema = z.object({
+  strategy: z.enum(['SNOWBALL', 'AVALANCHE']),
+  extra_payment: debtAmount('Extra payment is required'),
+})
+
+export type DebtPlanInput = z.input<typeof debtPlanSchema>
+
+// Transaction search schema (amounts are absolute, dates inclusive)
+export const transactionSearchSchema = z
+  .object({
+    query: z.string().trim().max(200).optional(), // memo words, prefixes match
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    category_id: z.union([z.literal('uncategorized'), z.string().uuid()]).optional(),
+    payee_id: z.string().uuid().optional(),
+    account_id: z.string().uuid().optional(),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid start date').optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid end date').optional(),
+    min_amount: optionalRuleAmount,
+    max_amount: optionalRuleAmount,
+    cursor: z.string().max(200).optional(), // next_cursor of the previous page
+    limit: z.number().int().min(1).max(100).optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: 'End date must be after the start date',
+    path: ['to'],
+  })
+  .refine(
+    (data) =>
+      data.min_amount === null || data.max_amount === null || parseFloat(data.max_amount) >= parseFloat(data.min_amount),
+    { message: 'Maximum must not be below the minimum', path: ['max_amount'] }
+  )
+
+export type TransactionSearchInput = z.input<typeof transactionSearchSchema>
+
+// Most transactions one bulk operation may change
+export const BULK_TRANSACTION_LIMIT = 500
+
+const bulkTransactionIds = z
+  .array(z.string().uuid('Invalid transaction'))
+  .min(1, 'Select at least one transaction')
+  .max(BULK_TRANSACTION_LIMIT, `Select at most ${BULK_TRANSACTION_LIMIT} transactions`)
+  .transform((ids) => Array.from(new Set(ids)))
+
+// Changes applied to every selected transaction (omitted fields stay as they are)
+export const bulkUpdateTransactionsSchema = z
+  .object({
+    ids: bulkTransactionIds,
+    category_id: z.string().uuid('Invalid category').nullable().optional(), // null = uncategorized
+    shift_days: z.number().int().min(-366).max(366).optional(), // move the date by this many days
+    memo_suffix: z.string().trim().max(200).optional(), // appended to the memo
+  })
+  .refine(
+    (data) => data.category_id !== undefined || !!data.shift_days || !!data.memo_suffix,
+    'Choose a change to apply'
+  )
+
+export type BulkUpdateTransactionsInput = z.input<typeof bulkUpdateTransactionsSchema>
+
+export const bulkDeleteTransactionsSchema = z.object({
+  ids: bulkTransactionIds,
+})
+
+// Columns each export dataset offers, in file order
+export const EXPORT_COLUMNS = {
+  transactions: [
+    'date',
+    'amount',
+    'category',
+    'category_type',
+    'account',
+    'payee',
+    'memo',
+    'transfer_account',
+    'splits',
+    'is_reconciled',
+    'id',
+  ],
+  categories: [
+    'name',
+    'type',
+    'rollover_strategy',
+    'target_amount',
+    'due_date',
+    'sweep_target',
+    'sort_order',
+    'is_active',
+    'id',
+  ],
+  monthly_budgets: ['month', 'category', 'category_type', 'assigned', 'start_balance', 'id'],
+  monthly_summaries: [
+    'month',
+    'total_income',
+    'total_expenses',
+    'balance',
+    'transaction_count',
+    'expenses_fix',
+    'expenses_variable',
+    'expenses_sf1',
+    'expenses_sf2',
+    'expenses_credit_card',
+  ],
+} as const
+
+export type ExportDataset = keyof typeof EXPORT_COLUMNS
+
+// Export schema (dates inclusive; budgets and summaries match by month, categories ignore the range)
+export const exportDataSchema = z
+  .object({
+    dataset: z.enum(['transactions', 'categories', 'monthly_budgets', 'monthly_summaries']),
+    format: z.enum(['csv', 'json']),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid start date').optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid end date').optional(),
+    columns: z.array(z.string()).min(1, 'Choose at least one column').optional(), // all columns if omitted
+  })
+  .refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: 'End date must be after the start date',
+    path: ['to'],
+  })
+  .refine(
+    (data) =>
+      !data.columns ||
+      data.columns.every((column) => (EXPORT_COLUMNS[data.dataset] as readonly string[]).includes(column)),
+    { message: 'Unknown column', path: ['columns'] }
+  )
+
+export type ExportDataInput = z.input<typeof exportDataSchema>
+
+export const BACKUP_FORMAT = 'budget-zen-backup'
+
+// Bump when the archive layout changes; older versions must stay restorable
+export const BACKUP_VERSION = 1
+
+// Backed up tables in restore order (referenced rows first)
+export const BACKUP_TABLES = [
+  'categories',
+  'accounts',
+  'payees',
+  'recurring_transactions',
+  'category_rules',
+  'transactions',
+  'transaction_splits',
+  'monthly_budgets',
+  'budget_moves',
+  'month_closes',
+  'net_worth_items',
+  'net_worth_snapshots',
+  'debts',
+  'debt_plans',
+] as const
+
+export type BackupTable = (typeof BACKUP_TABLES)[number]
+
+// Backup rows keep only the columns a restore writes; ids are replaced on restore
+const backupId = z.string().uuid('Invalid id')
+const backupDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date')
+const backupMonth = z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month')
+const backupAmount = z.union([z.number(), z.string().regex(/^-?\d+(\.\d+)?$/, 'Invalid amount')])
+
+const backupCategorySchema = z.object({
+  id: backupId,
+  name: z.string().nullable(),
+  icon: z.string().nullable(),
+  color: z.string().nullable(),
+  type: z.enum(['FIX', 'VARIABLE', 'SF1', 'SF2', 'INCOME', 'CREDIT_CARD']),
+  rollover_strategy: z.enum(['ACCUMULATE', 'RESET', 'SWEEP']),
+  target_amount: backupAmount.nullable(),
+  due_date: backupDate.nullable(),
+  sweep_target_category_id: backupId.nullable(),
+  sort_order: z.number().int().nullable(),
+  is_active: z.boolean(),
+})
+
+const backupAccountSchema = z.object({
+  id: backupId,
+  name: z.string().min(1),
+  type: z.enum(['CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD']),
+  initial_balance: backupAmount,
+  last_reconciled_at: z.string().nullable(),
+  last_reconciled_balance: backupAmount.nullable(),
+  payment_category_id: backupId.nullable(),
+  sort_order: z.number().int().nullable(),
+  is_active: z.boolean(),
+})
+
+const backupPayeeSchema = z.object({
+  id: backupId,
+  name: z.string().min(1),
+  aliases: z.array(z.string()),
+  default_category_id: backupId.nullable(),
+  default_amount: backupAmount.nullable(),
+})
+
+const backupRecurringTransactionSchema = z.object({
+  id: backupId,
+  category_id: backupId.nullable(),
+  account_id: backupId.nullable(),
+  amount: backupAmount,
+  memo: z.string().nullable(),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'semi_annual', 'annual']),
+  start_date: backupDate,
+  next_date: backupDate,
+  end_date: backupDate.nullable(),
+  is_active: z.boolean(),
+})
+
+const backupCategoryRuleSchema = z.object({
+  id: backupId,
+  match_type: z.enum(['contains', 'equals', 'regex']),
+  match_value: z.string().nullable(),
+  min_amount: backupAmount.nullable(),
+  max_amount: backupAmount.nullable(),
+  category_id: backupId,
+  set_memo: z.string().nullable(),
+  sort_order: z.number().int(),
+  is_active: z.boolean(),
+})
+
+const backupTransactionSchema = z.object({
+  id: backupId,
+  category_id: backupId.nullable(),
+  amount: backupAmount,
+  date: backupDate,
+  memo: z.string().nullable(),
+  account_id: backupId.nullable(),
+  is_starting_balance: z.boolean(),
+  is_sweep_transaction: z.boolean(),
+  is_reconciled: z.boolean(),
+  transfer_id: backupId.nullable(),
+  recurring_transaction_id: backupId.nullable(),
+  import_id: z.string().nullable(),
+  is_split: z.boolean(),
+  payee_id: backupId.nullable(),
+})
+
+const backupTransactionSplitSchema = z.object({
+  id: backupId,
+  transaction_id: backupId,
+  category_id: backupId,
+  amount: backupAmount,
+  memo: z.string().nullable(),
+  sort_order: z.number().int(),
+})
+
+const backupMonthlyBudgetSchema = z.object({
+  id: backupId,
+  category_id: backupId,
+  month_iso: backupMonth,
+  assigned_amount: backupAmount,
+  start_balance: backupAmount,
+})
+
+const backupBudgetMoveSchema = z.object({
+  id: backupId,
+  month_iso: backupMonth,
+  from_category_id: backupId.nullable(),
+  to_category_id: backupId.nullable(),
+  amount: backupAmount,
+  created_at: z.string(),
+})
+
+const backupMonthCloseSchema = z.object({
+  id: backupId,
+  month_iso: backupMonth,
+})
+
+const backupNetWorthItemSchema = z.object({
+  id: backupId,
+  name: z.string(),
+  kind: z.enum(['ASSET', 'LIABILITY']),
+  type: z.enum([...NET_WORTH_ITEM_TYPES.ASSET, ...NET_WORTH_ITEM_TYPES.LIABILITY]),
+  sort_order: z.number(),
+  is_active: z.boolean(),
+})
+
+const backupNetWorthSnapshotSchema = z.object({
+  id: backupId,
+  item_id: backupId,
+  date: backupDate,
+  balance: backupAmount,
+})
+
+const backupDebtSchema = z.object({
+  id: backupId,
+  name: z.string(),
+  principal: backupAmount,
+  interest_rate: backupAmount,
+  minimum_payment: backupAmount,
+  category_id: backupId.nullable(),
+  sort_order: z.number(),
+})
+
+const backupDebtPlanSchema = z.object({
+  id: backupId,
+  strategy: z.enum(['SNOWBALL', 'AVALANCHE']),
+  extra_payment: backupAmount,
+})
+
+// Archive schema (validated before anything is restored)
+export const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, 'This file is not a Budget Zen backup'),
+  version: z
+    .number()
+    .int()
+    .min(1, 'Unknown backup version')
+    .max(BACKUP_VERSION, 'This backup was created by a newer version of Budget Zen'),
+  exported_at: z.string(),
+  settings: z.object({
+    currency: z.string().length(3),
+  }),
+  tables: z.object({
+    categories: z.array(backupCategorySchema),
+    accounts: z.array(backupAccountSchema),
+    payees: z.array(backupPayeeSchema),
+    recurring_transactions: z.array(backupRecurringTransactionSchema),
+    category_rules: z.array(backupCategoryRuleSchema),
+    transactions: z.array(backupTransactionSchema),
+    transaction_splits: z.array(backupTransactionSplitSchema),
+    monthly_budgets: z.array(backupMonthlyBudgetSchema),
+    budget_moves: z.array(backupBudgetMoveSchema),
+    month_closes: z.array(backupMonthCloseSchema),
+    // Added after the first backups; older files have none
+    net_worth_items: z.array(backupNetWorthItemSchema).default([]),
+    net_worth_snapshots: z.array(backupNetWorthSnapshotSchema).default([]),
+    debts: z.array(backupDebtSchema).default([]),
+    debt_plans: z.array(backupDebtPlanSchema).max(1).default([]),
+  }),
+})
+
+export type ParsedBackup = z.output<typeof backupArchiveSchema>
+
+export const restoreModeSchema = z.enum(['merge', 'replace'])
+
+export type RestoreMode = z.infer<typeof restoreModeSchema>
+
 // Category insert schema
 export const insertCategorySchema = z.object({
   name: z.string().min(1, 'Category name is required').max(100),
@@ -152,6 +1106,53 @@ export const insertCategorySchema = z.object({
 
 export type InsertCategoryInput = z.infer<typeof insertCategorySchema>
 
+// Account insert schema
+export const insertAccountSchema = z.object({
+  name: z.string().min(1, 'Account name is required').max(100),
+  type: z.enum(['CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD']),
+  initial_balance: z
+    .string()
+    .refine((val) => !isNaN(parseAmount(val)), 'Balance must be a number')
+    .transform((val) => parseAmount(val).toFixed(2)),
+})
+
+export type InsertAccountInput = z.infer<typeof insertAccountSchema>
+
+// Transfer between two accounts
+export const insertTransferSchema = z
+  .object({
+    from_account_id: z.string().uuid('Invalid account'),
+    to_account_id: z.string().uuid('Invalid account'),
+    amount: z
+      .string()
+      .refine((val) => parseAmount(val) > 0, 'Amount must be a positive number')
+      .transform((val) => parseAmount(val).toFixed(2)),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date').optional(),
+    memo: z.string().optional(),
+  })
+  .refine((data) => data.from_account_id !== data.to_account_id, {
+    message: 'Cannot transfer to the same account',
+    path: ['to_account_id'],
+  })
+
+export type InsertTransferInput = z.infer<typeof insertTransferSchema>
+
+// Bank statement import schema (amounts keep the sign of the statement)
+export const importTransactionRowSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date'),
+  amount: z.number().refine((val) => Number.isFinite(val) && val !== 0, 'Amount must not be zero'),
+  memo: z.string().max(500).optional(),
+  import_id: z.string().max(255).optional(),
+})
+
+export const importTransactionsSchema = z.object({
+  account_id: z.string().optional(),
+  rows: z.array(importTransactionRowSchema).min(1, 'Nothing to import').max(2000, 'Too many rows (max. 2000)'),
+})
+
+export type ImportTransactionRow = z.infer<typeof importTransactionRowSchema>
+export type ImportTransactionsInput = z.infer<typeof importTransactionsSchema>
+
 // Monthly Budget insert schema
 export const insertMonthlyBudgetSchema = z.object({
   category_id: z.string().uuid('Invalid category'),
@@ -164,6 +1165,24 @@ export const insertMonthlyBudgetSchema = z.object({
 
 export type InsertMonthlyBudgetInput = z.infer<typeof insertMonthlyBudgetSchema>
 
+// Budget move schema (move money between categories)
+export const insertBudgetMoveSchema = z
+  .object({
+    from_category_id: z.string().uuid('Invalid category'),
+    to_category_id: z.string().uuid('Invalid category'),
+    month_iso: z.string().regex(/^\d{4}-\d{2}$/, 'Month must be YYYY-MM format'),
+    amount: z
+      .string()
+      .refine((val) => parseAmount(val) > 0, 'Amount must be a positive number')
+      .transform((val) => parseAmount(val).toFixed(2)),
+  })
+  .refine((data) => data.from_category_id !== data.to_category_id, {
+    message: 'Cannot move money to the same category',
+    path: ['to_category_id'],
+  })
+
+export type InsertBudgetMoveInput = z.infer<typeof insertBudgetMoveSchema>
+
 // ============================================
 // API RESPONSE TYPES
 // ============================================
@@ -172,6 +1191,48 @@ export type ApiResponse<T = void> =
   | { success: true; data: T }
   | { success: false; error: string }
 
+// ============================================
+// EXPORT TYPES
+// ============================================
+
+/**
+ * ExportFile - Generated file the browser offers as download
+ */
+export interface ExportFile {
+  filename: string
+  mime_type: string
+  content: string
+}
+
+/**
+ * BackupArchive - Complete copy of a user's data
+ * Rows are stored as read from the database; monthly summaries are
+ * derived and rebuilt on restore, so they are not included
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exported_at: string
+  settings: Pick<Profile, 'currency'>
+  tables: Record<BackupTable, Record<string, unknown>[]>
+}
+
+/**
+ * RestoreSummary - What a restore writes (also returned by the dry run)
+ */
+export interface RestoreSummary {
+  mode: RestoreMode
+  exported_at: string
+  tables: Record<
+    BackupTable,
+    {
+      added: number // rows written from the backup
+      skipped: number // already present (merge) or pointing to rows missing from the backup
+      removed: number // existing rows deleted first (replace)
+    }
+  >
+}
+
 // ============================================
 // STATISTICS TYPES
 // ============================================
@@ -263,3 +1324,73 @@ export interface CategorySpending {
   total_amount: number
   percentage: number // of total expenses
 }
+
+/**
+ * BudgetVariance - Assigned vs. spent of one category in one month (or a range)
+ * variance > 0: under budget, variance < 0: over budget
+ */
+export interface BudgetVariance {
+  assigned: number
+  spent: number // outflows minus refunds, positive when money was spent
+  variance: number // assigned - spent
+  variance_percent: number | null // of assigned; null when nothing was assigned
+  is_over: boolean
+}
+
+/**
+ * CategoryVariance - Budget vs. actual of a category across the months of a report
+ */
+export interface CategoryVariance {
+  category_id: string
+  category_name: string
+  category_type: ZBBCategoryType
+  months: Record<string, BudgetVariance> // by month_iso
+  total: BudgetVariance
+  over_months: number // months over budget
+  is_repeatedly_over: boolean
+}
+
+/**
+ * VarianceReport - Budget vs. actual for a range of months
+ */
+export interface VarianceReport {
+  months: string[] // YYYY-MM, oldest first
+  categories: CategoryVariance[]
+  total: BudgetVariance
+}
+
+/**
+ * ForecastItem - SF1 category falling due in a forecast month
+ */
+export interface ForecastItem {
+  category_id: string
+  name: string
+  amount: number // target_amount
+}
+
+/**
+ * ForecastMonth - Expected income, planned expenses and balance of one future month
+ * is_shortfall: planned expenses exceed expected income
+ */
+export interface ForecastMonth {
+  month_iso: string
+  income: number // recurring income
+  fixed: number // FIX targets
+  sinking_funds: number // SF1 targets falling due this month
+  variable: number // average VARIABLE spending
+  expenses: number // fixed + sinking_funds + variable
+  net: number // income - expenses
+  balance: number // projected balance at the end of the month
+  is_shortfall: boolean
+  due: ForecastItem[] // SF1 categories falling due this month
+}
+
+/**
+ * CashFlowForecast - Projected balance for the coming months
+ */
+export interface CashFlowForecast {
+  opening_balance: number // today's account balances
+  variable_average: number
+  variable_months: number // past months the average is based on
+  months: ForecastMonth[]
+}
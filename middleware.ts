@@ -1,6 +1,6 @@
 import createMiddleware from 'next-intl/middleware'
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
-import { NextRequest } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { routing } from './i18n/routing'
 
 const intlMiddleware = createMiddleware(routing)
@@ -14,7 +14,14 @@ const isPublicRoute = createRouteMatcher([
   '/de/sign-up(.*)'
 ])
 
+// Cron jobs authenticate with CRON_SECRET and are not localized
+const isCronRoute = createRouteMatcher(['/api/cron(.*)'])
+
 export default clerkMiddleware((auth, request: NextRequest) => {
+  if (isCronRoute(request)) {
+    return NextResponse.next()
+  }
+
   // Check if the route should be protected
   if (!isPublicRoute(request)) {
     auth.protect()
@@ -0,0 +1,102 @@
+-- ============================================
+-- Budget Zen - Accounts Migration
+-- ============================================
+-- This migration brings back accounts (reverts migration-remove-accounts.sql):
+-- 1. accounts table (checking, savings, cash, credit card)
+-- 2. account_id on transactions (nullable: existing transactions stay unassigned)
+-- 3. Reconciliation: transactions can be locked once matched with a bank statement
+--
+-- Budgeting stays category-based (ZBB); accounts only track where the
+-- money physically is, so balances can be matched with bank statements.
+-- ============================================
+
+-- Step 1: Create accounts table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD')),
+
+  -- Balance before the first transaction tracked in the app
+  initial_balance DECIMAL(12,2) DEFAULT 0.00 NOT NULL,
+
+  -- Last successful reconciliation
+  last_reconciled_at TIMESTAMP WITH TIME ZONE,
+  last_reconciled_balance DECIMAL(12,2),
+
+  sort_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS accounts_user_id_idx ON accounts(user_id);
+
+-- Step 2: Enable RLS for accounts
+-- ============================================
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own accounts" ON accounts;
+DROP POLICY IF EXISTS "Users can insert own accounts" ON accounts;
+DROP POLICY IF EXISTS "Users can update own accounts" ON accounts;
+DROP POLICY IF EXISTS "Users can delete own accounts" ON accounts;
+
+CREATE POLICY "Users can view own accounts"
+  ON accounts FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE accounts IS 'Bank accounts, cash and credit cards holding the budgeted money';
+
+-- Step 3: Link transactions to accounts
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS is_reconciled BOOLEAN DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_user_account_date_idx
+ON transactions(user_id, account_id, date DESC);
+
+COMMENT ON COLUMN transactions.account_id IS 'Account the money moved in/out of (null = unassigned)';
+COMMENT ON COLUMN transactions.is_reconciled IS 'Locked after matching a bank statement (cannot be edited or deleted)';
+
+-- Step 4: Create account_balances view
+-- ============================================
+-- Aggregated per account so balances don't require loading every transaction
+
+CREATE OR REPLACE VIEW account_balances
+WITH (security_invoker = true) AS
+SELECT
+  t.user_id,
+  t.account_id,
+  SUM(t.amount)::DECIMAL(12,2) AS total,
+  COALESCE(SUM(t.amount) FILTER (WHERE t.is_reconciled), 0)::DECIMAL(12,2) AS reconciled_total,
+  COUNT(*) FILTER (WHERE NOT t.is_reconciled) AS unreconciled_count
+FROM transactions t
+WHERE t.account_id IS NOT NULL
+GROUP BY t.user_id, t.account_id;
+
+COMMENT ON VIEW account_balances IS 'Transaction totals per account (all and reconciled)';
+
+-- Step 5: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT * FROM accounts ORDER BY sort_order;
+-- SELECT * FROM account_balances;
@@ -0,0 +1,125 @@
+-- ============================================
+-- Budget Zen - Budget Moves Migration
+-- ============================================
+-- This migration adds the audit trail for "move money" between categories
+-- (Whack-a-Mole rule: cover overspending by moving money between pots).
+--
+-- A move lowers assigned_amount of the source category and raises
+-- assigned_amount of the target category in the same month. Every move
+-- is recorded in budget_moves so the history can be shown per month.
+--
+-- move_budget applies both assignments and the audit row in one database
+-- transaction, so a failed or concurrent move is never half-applied.
+-- ============================================
+
+-- Step 1: Create budget_moves table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS budget_moves (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  month_iso TEXT NOT NULL, -- 'YYYY-MM' format
+
+  -- Categories are kept nullable so history survives category deletion
+  from_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  to_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+
+  -- Amount moved (always positive)
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+
+  -- Who moved the money (Clerk user id)
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS budget_moves_user_month_idx ON budget_moves(user_id, month_iso, created_at DESC);
+
+-- Step 2: Enable RLS for budget_moves
+-- ============================================
+-- Moves are an audit trail: no UPDATE policy
+
+ALTER TABLE budget_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own budget_moves"
+  ON budget_moves FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own budget_moves"
+  ON budget_moves FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own budget_moves"
+  ON budget_moves FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE budget_moves IS 'Audit trail of money moved between categories within a month';
+
+-- Step 3: Atomic move
+-- ============================================
+-- The assigned amounts are changed relative to the stored value, so two
+-- moves at the same time cannot overwrite each other. Months without a
+-- monthly_budgets row yet get one with the start balance the app computed
+-- from the rollover chain.
+
+CREATE OR REPLACE FUNCTION move_budget(
+  p_user_id TEXT,
+  p_month_iso TEXT,
+  p_from_category_id UUID,
+  p_to_category_id UUID,
+  p_amount DECIMAL(12,2),
+  p_from_start_balance DECIMAL(12,2),
+  p_to_start_balance DECIMAL(12,2)
+)
+RETURNS budget_moves AS $$
+DECLARE
+  v_count INTEGER;
+  v_move budget_moves;
+BEGIN
+  SELECT COUNT(*) INTO v_count
+  FROM (
+    SELECT id
+    FROM categories
+    WHERE user_id = p_user_id
+      AND id IN (p_from_category_id, p_to_category_id)
+      AND is_active
+      AND UPPER(type) <> 'INCOME'
+    FOR SHARE
+  ) eligible;
+
+  IF p_from_category_id = p_to_category_id OR v_count <> 2 THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  UPDATE monthly_budgets
+  SET assigned_amount = assigned_amount - p_amount, updated_at = NOW()
+  WHERE user_id = p_user_id AND category_id = p_from_category_id AND month_iso = p_month_iso;
+
+  IF NOT FOUND THEN
+    INSERT INTO monthly_budgets (user_id, category_id, month_iso, assigned_amount, start_balance)
+    VALUES (p_user_id, p_from_category_id, p_month_iso, -p_amount, p_from_start_balance);
+  END IF;
+
+  UPDATE monthly_budgets
+  SET assigned_amount = assigned_amount + p_amount, updated_at = NOW()
+  WHERE user_id = p_user_id AND category_id = p_to_category_id AND month_iso = p_month_iso;
+
+  IF NOT FOUND THEN
+    INSERT INTO monthly_budgets (user_id, category_id, month_iso, assigned_amount, start_balance)
+    VALUES (p_user_id, p_to_category_id, p_month_iso, p_amount, p_to_start_balance);
+  END IF;
+
+  INSERT INTO budget_moves (user_id, month_iso, from_category_id, to_category_id, amount, created_by)
+  VALUES (p_user_id, p_month_iso, p_from_category_id, p_to_category_id, p_amount, p_user_id)
+  RETURNING * INTO v_move;
+
+  RETURN v_move;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION move_budget IS 'Move money between two categories of a month and record the move in one database transaction';
+
+-- Step 4: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT * FROM budget_moves ORDER BY created_at DESC LIMIT 10;
+-- SELECT proname FROM pg_proc WHERE proname = 'move_budget';
@@ -0,0 +1,136 @@
+-- ============================================
+-- Budget Zen - Bulk Transaction Operations Migration
+-- ============================================
+-- This migration adds functions that change many transactions at once:
+-- 1. bulk_update_transactions: category change, date shift, memo append
+-- 2. bulk_delete_transactions: delete (transfers with both legs)
+--
+-- Each call runs as one database transaction: either every selected row
+-- is changed or none is. The app checks the rows first and only sends the
+-- ones that may be changed; the functions check again under a row lock
+-- and raise an error if anything changed in between.
+-- ============================================
+
+-- Step 1: Bulk update
+-- ============================================
+-- p_set_category distinguishes "no category change" from "remove the
+-- category" (p_category_id NULL). A new category also fixes the sign of
+-- the amount (income positive, everything else negative), like a single
+-- edit does.
+
+CREATE OR REPLACE FUNCTION bulk_update_transactions(
+  p_user_id TEXT,
+  p_ids UUID[],
+  p_set_category BOOLEAN,
+  p_category_id UUID,
+  p_shift_days INTEGER,
+  p_memo_suffix TEXT
+)
+RETURNS SETOF transactions AS $$
+DECLARE
+  v_count INTEGER;
+  v_is_income BOOLEAN;
+BEGIN
+  SELECT COUNT(*) INTO v_count
+  FROM (
+    SELECT id
+    FROM transactions
+    WHERE user_id = p_user_id
+      AND id = ANY(p_ids)
+      AND NOT is_reconciled
+      AND transfer_id IS NULL
+      AND NOT (p_set_category AND is_split)
+    FOR UPDATE
+  ) eligible;
+
+  IF v_count <> cardinality(p_ids) THEN
+    RAISE EXCEPTION 'Some of the selected transactions can no longer be changed';
+  END IF;
+
+  IF p_set_category AND p_category_id IS NOT NULL THEN
+    SELECT UPPER(type) = 'INCOME' INTO v_is_income
+    FROM categories
+    WHERE id = p_category_id AND user_id = p_user_id AND type <> 'CREDIT_CARD';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE transactions t
+  SET
+    category_id = CASE WHEN p_set_category THEN p_category_id ELSE t.category_id END,
+    amount = CASE
+      WHEN v_is_income IS NULL THEN t.amount
+      WHEN v_is_income THEN ABS(t.amount)
+      ELSE -ABS(t.amount)
+    END,
+    date = t.date + make_interval(days => COALESCE(p_shift_days, 0)),
+    memo = CASE
+      WHEN COALESCE(p_memo_suffix, '') = '' THEN t.memo
+      WHEN COALESCE(t.memo, '') = '' THEN p_memo_suffix
+      ELSE t.memo || ' ' || p_memo_suffix
+    END
+  WHERE t.user_id = p_user_id
+    AND t.id = ANY(p_ids)
+  RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION bulk_update_transactions IS 'Change category, date and/or memo of several transactions in one database transaction';
+
+-- Step 2: Bulk delete
+-- ============================================
+-- Deleting one leg of a transfer deletes the other leg as well. Returns
+-- the ids of all deleted rows, including those other legs.
+
+CREATE OR REPLACE FUNCTION bulk_delete_transactions(p_user_id TEXT, p_ids UUID[])
+RETURNS TABLE(deleted_id UUID) AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_count
+  FROM (
+    SELECT t.id
+    FROM transactions t
+    WHERE t.user_id = p_user_id
+      AND t.id = ANY(p_ids)
+      AND NOT t.is_reconciled
+      AND NOT EXISTS (
+        SELECT 1 FROM transactions leg
+        WHERE leg.user_id = p_user_id
+          AND leg.transfer_id = t.transfer_id
+          AND leg.is_reconciled
+      )
+    FOR UPDATE OF t
+  ) eligible;
+
+  IF v_count <> cardinality(p_ids) THEN
+    RAISE EXCEPTION 'Some of the selected transactions can no longer be deleted';
+  END IF;
+
+  RETURN QUERY
+  DELETE FROM transactions t
+  WHERE t.user_id = p_user_id
+    AND (
+      t.id = ANY(p_ids)
+      OR t.transfer_id IN (
+        SELECT selected.transfer_id
+        FROM transactions selected
+        WHERE selected.user_id = p_user_id
+          AND selected.id = ANY(p_ids)
+          AND selected.transfer_id IS NOT NULL
+      )
+    )
+  RETURNING t.id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION bulk_delete_transactions IS 'Delete several transactions (and the other legs of transfers) in one database transaction';
+
+-- Step 3: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT proname FROM pg_proc WHERE proname LIKE 'bulk_%_transactions';
+-- SELECT * FROM bulk_update_transactions('<user_id>', ARRAY['<transaction_id>']::UUID[], FALSE, NULL, 0, 'checked');
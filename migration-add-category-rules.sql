@@ -0,0 +1,66 @@
+-- ============================================
+-- Budget Zen - Category Rules Migration
+-- ============================================
+-- This migration adds user-defined auto-categorisation rules:
+-- 1. category_rules table with match conditions and actions
+--
+-- A rule matches a transaction memo (contains / equals / regular
+-- expression, case-insensitive) and/or an amount range on the absolute
+-- amount. The first active rule in sort_order that matches sets the
+-- category and optionally replaces the memo with a cleaned-up text.
+-- Rules are applied when transactions are created or imported and can be
+-- applied retroactively to a date range.
+-- ============================================
+
+-- Step 1: Create category_rules table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS category_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+
+  -- Conditions (all given conditions must match)
+  match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'equals', 'regex')),
+  match_value TEXT, -- NULL = any memo
+  min_amount DECIMAL(12,2) CHECK (min_amount IS NULL OR min_amount >= 0),
+  max_amount DECIMAL(12,2) CHECK (max_amount IS NULL OR max_amount >= 0),
+
+  -- Actions
+  category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  set_memo TEXT, -- NULL = keep the memo
+
+  sort_order INTEGER DEFAULT 0 NOT NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CHECK (match_value IS NOT NULL OR min_amount IS NOT NULL OR max_amount IS NOT NULL),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR max_amount >= min_amount)
+);
+
+CREATE INDEX IF NOT EXISTS category_rules_user_idx ON category_rules(user_id, sort_order);
+
+-- Step 2: Enable RLS for category_rules
+-- ============================================
+
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own category_rules"
+  ON category_rules FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own category_rules"
+  ON category_rules FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own category_rules"
+  ON category_rules FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own category_rules"
+  ON category_rules FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE category_rules IS 'User-defined rules that categorise transactions by memo and amount';
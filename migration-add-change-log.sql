@@ -0,0 +1,290 @@
+-- ============================================
+-- Budget Zen - Change Log Migration
+-- ============================================
+-- This migration records changes so they can be undone and redone:
+-- 1. change_sets table: one entry per user action (e.g. deleting a category)
+-- 2. change_log table: before/after snapshot of every row the action changed
+-- 3. log_row_change trigger on the tables users edit
+-- 4. revert_change_set function that undoes or redoes a change set
+--
+-- Server actions send the headers x-change-set-id and x-change-action with
+-- every request. The trigger reads them from PostgREST's request.headers,
+-- so rows changed by cascades (ON DELETE CASCADE / SET NULL) and by
+-- database functions are recorded as well. Requests without the headers
+-- (month closes, monthly summaries) are not recorded: that data is derived
+-- and rebuilt by the app.
+--
+-- Change sets older than 30 days are pruned when the user's next change
+-- set starts.
+-- ============================================
+
+-- Step 1: Create change_sets table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS change_sets (
+  id UUID PRIMARY KEY, -- generated by the app, sent as x-change-set-id
+  user_id TEXT NOT NULL,
+  action TEXT NOT NULL, -- e.g. 'transaction.delete'
+  label TEXT, -- memo or name of the first changed row that has one
+  row_count INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  undone_at TIMESTAMP WITH TIME ZONE -- NULL = applied
+);
+
+CREATE INDEX IF NOT EXISTS change_sets_user_created_idx ON change_sets(user_id, created_at DESC);
+
+-- Step 2: Create change_log table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS change_log (
+  id BIGSERIAL PRIMARY KEY, -- order in which the rows changed
+  change_set_id UUID NOT NULL REFERENCES change_sets(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  row_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  before JSONB, -- NULL for inserts
+  after JSONB, -- NULL for deletes
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS change_log_change_set_idx ON change_log(change_set_id, id);
+
+-- Step 3: Enable RLS
+-- ============================================
+
+ALTER TABLE change_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE change_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own change_sets"
+  ON change_sets FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own change_sets"
+  ON change_sets FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own change_sets"
+  ON change_sets FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own change_sets"
+  ON change_sets FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can view own change_log"
+  ON change_log FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own change_log"
+  ON change_log FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own change_log"
+  ON change_log FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own change_log"
+  ON change_log FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE change_sets IS 'User actions that can be undone (last 30 days)';
+COMMENT ON TABLE change_log IS 'Row snapshots before and after each change of a change set';
+
+-- Step 4: Record row changes
+-- ============================================
+-- AFTER triggers run after the foreign key cascades of the same row, so a
+-- deleted parent is logged after its children. Undoing in reverse order
+-- therefore restores parents before children.
+
+CREATE OR REPLACE FUNCTION log_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_headers JSON;
+  v_change_set_id UUID;
+  v_row JSONB;
+  v_user_id TEXT;
+BEGIN
+  -- revert_change_set writes snapshots back, which must not be logged again
+  IF current_setting('app.reverting_change', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  v_headers := NULLIF(current_setting('request.headers', true), '')::JSON;
+  v_change_set_id := (v_headers ->> 'x-change-set-id')::UUID;
+  IF v_change_set_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_row := to_jsonb(OLD);
+  ELSE
+    v_row := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND to_jsonb(OLD) = v_row THEN
+    RETURN NULL;
+  END IF;
+
+  -- Sweep transfers are rebuilt by every month close
+  IF TG_TABLE_NAME = 'transactions' AND (v_row ->> 'is_sweep_transaction')::BOOLEAN THEN
+    RETURN NULL;
+  END IF;
+
+  v_user_id := v_row ->> 'user_id';
+
+  IF NOT EXISTS (SELECT 1 FROM change_sets WHERE id = v_change_set_id) THEN
+    DELETE FROM change_sets
+    WHERE user_id = v_user_id
+      AND created_at < timezone('utc'::text, now()) - INTERVAL '30 days';
+
+    INSERT INTO change_sets (id, user_id, action)
+    VALUES (v_change_set_id, v_user_id, COALESCE(v_headers ->> 'x-change-action', 'unknown'));
+  END IF;
+
+  UPDATE change_sets
+  SET
+    row_count = row_count + 1,
+    label = COALESCE(label, NULLIF(v_row ->> 'memo', ''), NULLIF(v_row ->> 'name', ''), NULLIF(v_row ->> 'match_value', ''))
+  WHERE id = v_change_set_id;
+
+  INSERT INTO change_log (change_set_id, user_id, table_name, row_id, operation, before, after)
+  VALUES (
+    v_change_set_id,
+    v_user_id,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    TG_OP,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'accounts',
+    'categories',
+    'transactions',
+    'transaction_splits',
+    'monthly_budgets',
+    'budget_moves',
+    'payees',
+    'recurring_transactions',
+    'category_rules'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_change_log ON %I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER trg_change_log AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION log_row_change()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Step 5: Undo / redo a change set
+-- ============================================
+-- Undo walks the rows backwards and writes the before snapshots, redo
+-- walks them forwards and writes the after snapshots. Every row must still
+-- look like the other snapshot; otherwise a later change touched it and
+-- the whole revert is rolled back.
+
+CREATE OR REPLACE FUNCTION revert_change_set(p_user_id TEXT, p_change_set_id UUID, p_redo BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_set change_sets%ROWTYPE;
+  v_entry change_log%ROWTYPE;
+  v_expected JSONB; -- state the row must be in now
+  v_target JSONB; -- state the row is put into
+  v_current JSONB;
+  v_columns TEXT;
+BEGIN
+  SELECT * INTO v_set
+  FROM change_sets
+  WHERE id = p_change_set_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change not found';
+  END IF;
+
+  IF p_redo AND v_set.undone_at IS NULL THEN
+    RAISE EXCEPTION 'This change has not been undone';
+  END IF;
+
+  IF NOT p_redo AND v_set.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This change has already been undone';
+  END IF;
+
+  PERFORM set_config('app.reverting_change', 'on', true);
+
+  FOR v_entry IN
+    SELECT * FROM change_log
+    WHERE change_set_id = p_change_set_id
+    ORDER BY CASE WHEN p_redo THEN id ELSE -id END
+  LOOP
+    IF p_redo THEN
+      v_expected := v_entry.before;
+      v_target := v_entry.after;
+    ELSE
+      v_expected := v_entry.after;
+      v_target := v_entry.before;
+    END IF;
+
+    EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1 AND user_id = $2 FOR UPDATE', v_entry.table_name)
+    INTO v_current
+    USING v_entry.row_id, p_user_id;
+
+    IF (v_expected IS NULL AND v_current IS NOT NULL)
+      OR (v_expected IS NOT NULL AND (v_current IS NULL OR NOT v_current @> (v_expected - 'updated_at'))) THEN
+      RAISE EXCEPTION 'The data was changed afterwards. Undo the later changes first.';
+    END IF;
+
+    IF v_target IS NULL THEN
+      EXECUTE format('DELETE FROM %I WHERE id = $1 AND user_id = $2', v_entry.table_name)
+      USING v_entry.row_id, p_user_id;
+    ELSE
+      -- Generated columns are computed again; columns added later keep their default
+      SELECT string_agg(quote_ident(column_name::TEXT), ', ') INTO v_columns
+      FROM information_schema.columns
+      WHERE table_schema = 'public'
+        AND table_name = v_entry.table_name
+        AND is_generated = 'NEVER'
+        AND v_target ? column_name::TEXT;
+
+      IF v_current IS NULL THEN
+        EXECUTE format(
+          'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1)',
+          v_entry.table_name, v_columns, v_columns, v_entry.table_name
+        )
+        USING v_target;
+      ELSE
+        EXECUTE format(
+          'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2 AND user_id = $3',
+          v_entry.table_name, v_columns, v_columns, v_entry.table_name
+        )
+        USING v_target, v_entry.row_id, p_user_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE change_sets
+  SET undone_at = CASE WHEN p_redo THEN NULL ELSE timezone('utc'::text, now()) END
+  WHERE id = p_change_set_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION revert_change_set IS 'Undo (p_redo = false) or redo a change set in one database transaction';
+
+-- Step 6: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT tgname, tgrelid::regclass FROM pg_trigger WHERE tgname = 'trg_change_log';
+-- SELECT action, label, row_count, created_at, undone_at FROM change_sets ORDER BY created_at DESC LIMIT 10;
+-- SELECT table_name, operation, row_id FROM change_log ORDER BY id DESC LIMIT 20;
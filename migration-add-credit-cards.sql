@@ -0,0 +1,119 @@
+-- ============================================
+-- Budget Zen - Credit Card Payment Categories Migration
+-- ============================================
+-- This migration adds credit card handling to the ZBB model:
+-- 1. New category type CREDIT_CARD (the "card payment" pot); category types
+--    are stored in upper case so SQL and the app compare them exactly
+-- 2. accounts.payment_category_id linking a card to its payment category
+-- 3. category_month_activity moves card spending into the payment category
+--
+-- A purchase on a CREDIT_CARD account lowers its spending category as usual
+-- and adds the same amount to the card's payment category, so the budgeted
+-- money is set aside for the bill. Paying the bill is a transfer into the
+-- card account: it draws down the payment category and is never an expense.
+-- ============================================
+
+-- Step 1: CREDIT_CARD category type
+-- ============================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'zbb_category_type') THEN
+    ALTER TYPE zbb_category_type ADD VALUE IF NOT EXISTS 'CREDIT_CARD';
+  END IF;
+END $$;
+
+-- Step 2: Upper-case category types
+-- ============================================
+-- Legacy rows may still say 'income'; the views below compare exact values.
+-- Only needed where categories.type is plain text (enums are upper case).
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'categories' AND column_name = 'type' AND data_type = 'text'
+  ) THEN
+    UPDATE categories SET type = UPPER(type) WHERE type <> UPPER(type);
+    ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_type_upper_case;
+    ALTER TABLE categories ADD CONSTRAINT categories_type_upper_case CHECK (type = UPPER(type));
+  END IF;
+END $$;
+
+-- Step 3: Link credit card accounts to their payment category
+-- ============================================
+
+ALTER TABLE accounts
+ADD COLUMN IF NOT EXISTS payment_category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS accounts_payment_category_idx
+ON accounts(payment_category_id)
+WHERE payment_category_id IS NOT NULL;
+
+COMMENT ON COLUMN accounts.payment_category_id IS 'CREDIT_CARD category holding the money set aside to pay this card';
+
+-- Step 4: Card funding in category_month_activity
+-- ============================================
+-- Signed activity per category per month, now with two extra sources for
+-- payment categories:
+--   + card spending (categorized outflows on the card, refunds reduce it)
+--   - card payments (transfer legs into the card account)
+
+CREATE OR REPLACE VIEW category_month_activity
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  category_id,
+  month_iso,
+  SUM(activity)::DECIMAL(12,2) AS activity
+FROM (
+  -- Regular transactions (sweep transfers included)
+  SELECT
+    t.user_id,
+    t.category_id,
+    TO_CHAR(t.date, 'YYYY-MM') AS month_iso,
+    t.amount AS activity
+  FROM transactions t
+  WHERE t.category_id IS NOT NULL
+
+  UNION ALL
+
+  -- Card spending moves budgeted money into the payment category
+  SELECT
+    t.user_id,
+    a.payment_category_id AS category_id,
+    TO_CHAR(t.date, 'YYYY-MM') AS month_iso,
+    -t.amount AS activity
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  JOIN categories c ON c.id = t.category_id
+  WHERE a.type = 'CREDIT_CARD'
+    AND a.payment_category_id IS NOT NULL
+    AND NOT t.is_sweep_transaction
+    AND c.type NOT IN ('INCOME', 'CREDIT_CARD')
+
+  UNION ALL
+
+  -- Card payments draw down the payment category
+  SELECT
+    t.user_id,
+    a.payment_category_id AS category_id,
+    TO_CHAR(t.date, 'YYYY-MM') AS month_iso,
+    -t.amount AS activity
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  WHERE a.type = 'CREDIT_CARD'
+    AND a.payment_category_id IS NOT NULL
+    AND t.transfer_id IS NOT NULL
+    AND t.amount > 0
+) activity_sources
+GROUP BY user_id, category_id, month_iso;
+
+COMMENT ON VIEW category_month_activity IS 'Signed activity per category per month incl. credit card funding (used for the rollover chain)';
+
+-- Step 5: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT id, name, payment_category_id FROM accounts WHERE type = 'CREDIT_CARD';
+-- SELECT DISTINCT type FROM categories ORDER BY type;
+-- SELECT * FROM category_month_activity ORDER BY month_iso DESC LIMIT 10;
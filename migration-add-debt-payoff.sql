@@ -0,0 +1,185 @@
+-- ============================================
+-- Budget Zen - Debt Payoff Migration
+-- ============================================
+-- This migration adds the debt payoff planner:
+-- 1. debts table with balance, interest rate and minimum payment, and the
+--    budget category the payments are assigned to
+-- 2. debt_plans table with the chosen strategy (snowball or avalanche) and
+--    the extra monthly payment (one row per user)
+-- 3. Change log triggers, so changes can be undone in the history
+-- 4. restore_backup writes both tables
+--
+-- The payoff schedule itself is calculated in the app (lib/debt-payoff.ts)
+-- and suggests the assigned amount of the linked categories.
+-- ============================================
+
+-- Step 1: Create debts table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS debts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  principal DECIMAL(12,2) NOT NULL CHECK (principal >= 0), -- amount still owed
+  interest_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0 AND interest_rate <= 100), -- annual, percent
+  minimum_payment DECIMAL(12,2) NOT NULL CHECK (minimum_payment > 0), -- monthly
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL, -- usually a FIX category
+  sort_order INTEGER DEFAULT 0 NOT NULL,
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS debts_user_idx ON debts(user_id, sort_order);
+
+COMMENT ON TABLE debts IS 'Debts being paid off, optionally budgeted in a category';
+
+-- Step 2: Create debt_plans table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS debt_plans (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  strategy TEXT NOT NULL DEFAULT 'AVALANCHE' CHECK (strategy IN ('SNOWBALL', 'AVALANCHE')),
+  extra_payment DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (extra_payment >= 0), -- on top of the minimums
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE debt_plans IS 'Payoff strategy and extra monthly payment of a user';
+
+-- Step 3: Enable RLS
+-- ============================================
+
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own debts"
+  ON debts FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own debts"
+  ON debts FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own debts"
+  ON debts FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own debts"
+  ON debts FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+ALTER TABLE debt_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own debt plans"
+  ON debt_plans FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own debt plans"
+  ON debt_plans FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own debt plans"
+  ON debt_plans FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own debt plans"
+  ON debt_plans FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+-- Step 4: Change log triggers
+-- ============================================
+-- Same trigger as in migration-add-change-log.sql
+
+DROP TRIGGER IF EXISTS trg_change_log ON debts;
+CREATE TRIGGER trg_change_log AFTER INSERT OR UPDATE OR DELETE ON debts
+FOR EACH ROW EXECUTE FUNCTION log_row_change();
+
+DROP TRIGGER IF EXISTS trg_change_log ON debt_plans;
+CREATE TRIGGER trg_change_log AFTER INSERT OR UPDATE OR DELETE ON debt_plans
+FOR EACH ROW EXECUTE FUNCTION log_row_change();
+
+-- Step 5: Debts in restore_backup
+-- ============================================
+-- Same definition as in migration-add-net-worth.sql, with the debt tables
+-- added to both table lists.
+
+CREATE OR REPLACE FUNCTION restore_backup(p_user_id TEXT, p_replace BOOLEAN, p_tables JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_table TEXT;
+  v_rows JSONB;
+  v_columns TEXT;
+BEGIN
+  IF p_replace THEN
+    -- Referencing rows first; sweep transfers go with the transactions
+    FOREACH v_table IN ARRAY ARRAY[
+      'debt_plans',
+      'debts',
+      'net_worth_snapshots',
+      'net_worth_items',
+      'month_closes',
+      'budget_moves',
+      'monthly_budgets',
+      'transaction_splits',
+      'transactions',
+      'category_rules',
+      'recurring_transactions',
+      'payees',
+      'accounts',
+      'categories'
+    ]
+    LOOP
+      EXECUTE format('DELETE FROM %I WHERE user_id = $1', v_table) USING p_user_id;
+    END LOOP;
+  END IF;
+
+  -- Referenced rows first (categories reference each other, which works
+  -- because all rows of a table are inserted in one statement)
+  FOREACH v_table IN ARRAY ARRAY[
+    'categories',
+    'accounts',
+    'payees',
+    'recurring_transactions',
+    'category_rules',
+    'transactions',
+    'transaction_splits',
+    'monthly_budgets',
+    'budget_moves',
+    'month_closes',
+    'net_worth_items',
+    'net_worth_snapshots',
+    'debts',
+    'debt_plans'
+  ]
+  LOOP
+    SELECT jsonb_agg(r || jsonb_build_object('user_id', p_user_id)) INTO v_rows
+    FROM jsonb_array_elements(p_tables -> v_table) AS r;
+
+    CONTINUE WHEN v_rows IS NULL;
+
+    SELECT string_agg(quote_ident(column_name::TEXT), ', ') INTO v_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_table
+      AND is_generated = 'NEVER'
+      AND (v_rows -> 0) ? column_name::TEXT;
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    )
+    USING v_rows;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 6: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT name, principal, interest_rate, minimum_payment, category_id FROM debts ORDER BY sort_order;
+-- SELECT user_id, strategy, extra_payment FROM debt_plans;
+-- SELECT tgname, tgrelid::regclass FROM pg_trigger WHERE tgname = 'trg_change_log';
@@ -0,0 +1,27 @@
+-- ============================================
+-- Budget Zen - Statement Import IDs Migration
+-- ============================================
+-- This migration stores the bank's unique transaction id of imported
+-- statements (OFX FITID, CAMT.053 AcctSvcrRef / EndToEndId):
+-- 1. import_id column on transactions
+-- 2. Unique index per user, so re-importing a file never duplicates rows
+--
+-- import_id is prefixed with the format and the bank account
+-- (e.g. "camt:DE89...:REF-001") because banks only guarantee uniqueness
+-- per account. Manually entered transactions keep import_id NULL.
+-- ============================================
+
+-- Step 1: Import id column
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS import_id TEXT;
+
+COMMENT ON COLUMN transactions.import_id IS 'Unique transaction id from an imported bank statement (NULL for manual entries)';
+
+-- Step 2: One transaction per import id
+-- ============================================
+-- NULLs are distinct, so manual transactions are not affected.
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_user_import_id_idx
+ON transactions(user_id, import_id);
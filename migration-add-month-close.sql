@@ -0,0 +1,203 @@
+-- ============================================
+-- Budget Zen - Month Close (SWEEP) Migration
+-- ============================================
+-- This migration adds the month-close engine for SWEEP categories:
+-- 1. month_closes table recording which months have been closed
+-- 2. Sweep columns on categories/transactions (if not already present)
+-- 3. monthly_summaries aggregates ignore sweep transfers
+--
+-- Closing a month moves the positive leftover of every SWEEP category
+-- into its sweep_target_category_id (SF1/SF2 pot) as a pair of
+-- transactions flagged with is_sweep_transaction = true.
+-- Re-closing a month deletes and recreates its sweep transfers.
+-- ============================================
+
+-- Step 1: Sweep columns
+-- ============================================
+
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS sweep_target_category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS is_sweep_transaction BOOLEAN DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_user_sweep_date_idx
+ON transactions(user_id, date)
+WHERE is_sweep_transaction = true;
+
+COMMENT ON COLUMN categories.sweep_target_category_id IS 'SF1/SF2 category receiving the positive leftover of a SWEEP category at month close';
+COMMENT ON COLUMN transactions.is_sweep_transaction IS 'Transfer created by the month-close engine (excluded from income/expense aggregates)';
+
+-- Step 2: Create month_closes table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS month_closes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  month_iso TEXT NOT NULL, -- 'YYYY-MM' format
+
+  -- Total amount moved by sweep transfers in this month
+  swept_amount DECIMAL(12,2) DEFAULT 0.00 NOT NULL,
+
+  -- Metadata
+  closed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- One close record per user per month
+  UNIQUE(user_id, month_iso)
+);
+
+CREATE INDEX IF NOT EXISTS month_closes_user_month_idx ON month_closes(user_id, month_iso);
+
+-- Step 3: Enable RLS for month_closes
+-- ============================================
+
+ALTER TABLE month_closes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own month_closes"
+  ON month_closes FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own month_closes"
+  ON month_closes FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own month_closes"
+  ON month_closes FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own month_closes"
+  ON month_closes FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE month_closes IS 'Closed budget months (SWEEP transfers have been created)';
+
+-- Step 4: Exclude sweep transfers from monthly_summaries
+-- ============================================
+-- Sweeps only move money between pots, they are neither income nor expense.
+
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary_for_month(p_user_id TEXT, p_month_iso TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_total_income DECIMAL(12,2);
+  v_total_expenses DECIMAL(12,2);
+  v_transaction_count INTEGER;
+  v_expenses_by_type JSONB;
+  v_income_by_category JSONB;
+  v_expenses_by_category JSONB;
+BEGIN
+  -- Calculate totals
+  SELECT
+    COALESCE(SUM(CASE WHEN c.type = 'INCOME' THEN ABS(t.amount) ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN c.type IS NULL OR c.type != 'INCOME' THEN ABS(t.amount) ELSE 0 END), 0),
+    COUNT(*)
+  INTO v_total_income, v_total_expenses, v_transaction_count
+  FROM transactions t
+  LEFT JOIN categories c ON t.category_id = c.id
+  WHERE t.user_id = p_user_id
+    AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+    AND NOT t.is_sweep_transaction;
+
+  -- If no transactions, delete the summary
+  IF v_transaction_count = 0 THEN
+    DELETE FROM monthly_summaries WHERE user_id = p_user_id AND month_iso = p_month_iso;
+    RETURN;
+  END IF;
+
+  -- Calculate breakdowns
+  SELECT COALESCE(jsonb_object_agg(type, amount), '{}'::jsonb)
+  INTO v_expenses_by_type
+  FROM (
+    SELECT
+      COALESCE(c.type, 'UNCATEGORIZED') as type,
+      SUM(ABS(t.amount)) as amount
+    FROM transactions t
+    LEFT JOIN categories c ON t.category_id = c.id
+    WHERE t.user_id = p_user_id
+      AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+      AND NOT t.is_sweep_transaction
+      AND (c.type IS NULL OR c.type != 'INCOME')
+    GROUP BY c.type
+  ) sub;
+
+  SELECT COALESCE(jsonb_object_agg(category_id, amount), '{}'::jsonb)
+  INTO v_income_by_category
+  FROM (
+    SELECT
+      t.category_id::text as category_id,
+      SUM(ABS(t.amount)) as amount
+    FROM transactions t
+    JOIN categories c ON t.category_id = c.id
+    WHERE t.user_id = p_user_id
+      AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+      AND NOT t.is_sweep_transaction
+      AND c.type = 'INCOME'
+    GROUP BY t.category_id
+  ) sub;
+
+  SELECT COALESCE(jsonb_object_agg(category_id, amount), '{}'::jsonb)
+  INTO v_expenses_by_category
+  FROM (
+    SELECT
+      COALESCE(t.category_id::text, 'uncategorized') as category_id,
+      SUM(ABS(t.amount)) as amount
+    FROM transactions t
+    LEFT JOIN categories c ON t.category_id = c.id
+    WHERE t.user_id = p_user_id
+      AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+      AND NOT t.is_sweep_transaction
+      AND (c.type IS NULL OR c.type != 'INCOME')
+    GROUP BY t.category_id
+  ) sub;
+
+  -- Upsert
+  INSERT INTO monthly_summaries (
+    user_id, month_iso, total_income, total_expenses, balance, transaction_count,
+    expenses_by_type, income_by_category, expenses_by_category, calculated_at, updated_at
+  ) VALUES (
+    p_user_id, p_month_iso, v_total_income, v_total_expenses,
+    v_total_income - v_total_expenses, v_transaction_count,
+    v_expenses_by_type, v_income_by_category, v_expenses_by_category, NOW(), NOW()
+  )
+  ON CONFLICT (user_id, month_iso) DO UPDATE SET
+    total_income = EXCLUDED.total_income,
+    total_expenses = EXCLUDED.total_expenses,
+    balance = EXCLUDED.balance,
+    transaction_count = EXCLUDED.transaction_count,
+    expenses_by_type = EXCLUDED.expenses_by_type,
+    income_by_category = EXCLUDED.income_by_category,
+    expenses_by_category = EXCLUDED.expenses_by_category,
+    calculated_at = NOW(),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- The trigger now delegates to the per-month helper so both share one definition
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM recalculate_monthly_summary_for_month(OLD.user_id, TO_CHAR(OLD.date, 'YYYY-MM'));
+    RETURN OLD;
+  END IF;
+
+  PERFORM recalculate_monthly_summary_for_month(NEW.user_id, TO_CHAR(NEW.date, 'YYYY-MM'));
+
+  -- Handle UPDATE where month changes (need to recalculate old month too)
+  IF TG_OP = 'UPDATE' AND TO_CHAR(OLD.date, 'YYYY-MM') != TO_CHAR(NEW.date, 'YYYY-MM') THEN
+    PERFORM recalculate_monthly_summary_for_month(OLD.user_id, TO_CHAR(OLD.date, 'YYYY-MM'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild summaries so existing months drop any sweep transfers
+SELECT backfill_monthly_summaries();
+
+-- Step 5: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT * FROM month_closes ORDER BY month_iso DESC LIMIT 5;
+-- SELECT COUNT(*) FROM transactions WHERE is_sweep_transaction;
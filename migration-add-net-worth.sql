@@ -0,0 +1,189 @@
+-- ============================================
+-- Budget Zen - Net Worth Migration
+-- ============================================
+-- This migration adds net worth tracking:
+-- 1. net_worth_items table for assets (savings, depot, car, ...) and
+--    liabilities (loan, mortgage, ...) held outside the budget
+-- 2. net_worth_snapshots table with dated balances per item
+-- 3. Change log triggers, so changes can be undone in the history
+-- 4. restore_backup writes both tables
+--
+-- Balances are entered by hand and always positive: the value of an asset
+-- or the amount still owed on a liability. Net worth at a date uses the
+-- latest snapshot of every item on or before that date.
+-- ============================================
+
+-- Step 1: Create net_worth_items table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS net_worth_items (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  kind TEXT NOT NULL CHECK (kind IN ('ASSET', 'LIABILITY')),
+  type TEXT NOT NULL CHECK (type IN (
+    'SAVINGS', 'INVESTMENT', 'PROPERTY', 'VEHICLE', 'OTHER_ASSET',
+    'LOAN', 'MORTGAGE', 'CREDIT', 'OTHER_LIABILITY'
+  )),
+  sort_order INTEGER DEFAULT 0 NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE NOT NULL, -- archived items stay in the history
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS net_worth_items_user_idx ON net_worth_items(user_id, sort_order);
+
+COMMENT ON TABLE net_worth_items IS 'Assets and liabilities outside the budget, valued by dated snapshots';
+
+-- Step 2: Create net_worth_snapshots table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS net_worth_snapshots (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  item_id UUID NOT NULL REFERENCES net_worth_items(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  balance DECIMAL(12,2) NOT NULL CHECK (balance >= 0), -- value or amount owed
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- One balance per item and day
+  UNIQUE (item_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS net_worth_snapshots_user_date_idx ON net_worth_snapshots(user_id, date);
+
+COMMENT ON TABLE net_worth_snapshots IS 'Balance of a net worth item on a date';
+
+-- Step 3: Enable RLS
+-- ============================================
+
+ALTER TABLE net_worth_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own net worth items"
+  ON net_worth_items FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own net worth items"
+  ON net_worth_items FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own net worth items"
+  ON net_worth_items FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own net worth items"
+  ON net_worth_items FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+ALTER TABLE net_worth_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own net worth snapshots"
+  ON net_worth_snapshots FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own net worth snapshots"
+  ON net_worth_snapshots FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own net worth snapshots"
+  ON net_worth_snapshots FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own net worth snapshots"
+  ON net_worth_snapshots FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+-- Step 4: Change log triggers
+-- ============================================
+-- Same trigger as in migration-add-change-log.sql
+
+DROP TRIGGER IF EXISTS trg_change_log ON net_worth_items;
+CREATE TRIGGER trg_change_log AFTER INSERT OR UPDATE OR DELETE ON net_worth_items
+FOR EACH ROW EXECUTE FUNCTION log_row_change();
+
+DROP TRIGGER IF EXISTS trg_change_log ON net_worth_snapshots;
+CREATE TRIGGER trg_change_log AFTER INSERT OR UPDATE OR DELETE ON net_worth_snapshots
+FOR EACH ROW EXECUTE FUNCTION log_row_change();
+
+-- Step 5: Net worth in restore_backup
+-- ============================================
+-- Same definition as in migration-add-restore-backup.sql, with the net
+-- worth tables added to both table lists.
+
+CREATE OR REPLACE FUNCTION restore_backup(p_user_id TEXT, p_replace BOOLEAN, p_tables JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_table TEXT;
+  v_rows JSONB;
+  v_columns TEXT;
+BEGIN
+  IF p_replace THEN
+    -- Referencing rows first; sweep transfers go with the transactions
+    FOREACH v_table IN ARRAY ARRAY[
+      'net_worth_snapshots',
+      'net_worth_items',
+      'month_closes',
+      'budget_moves',
+      'monthly_budgets',
+      'transaction_splits',
+      'transactions',
+      'category_rules',
+      'recurring_transactions',
+      'payees',
+      'accounts',
+      'categories'
+    ]
+    LOOP
+      EXECUTE format('DELETE FROM %I WHERE user_id = $1', v_table) USING p_user_id;
+    END LOOP;
+  END IF;
+
+  -- Referenced rows first (categories reference each other, which works
+  -- because all rows of a table are inserted in one statement)
+  FOREACH v_table IN ARRAY ARRAY[
+    'categories',
+    'accounts',
+    'payees',
+    'recurring_transactions',
+    'category_rules',
+    'transactions',
+    'transaction_splits',
+    'monthly_budgets',
+    'budget_moves',
+    'month_closes',
+    'net_worth_items',
+    'net_worth_snapshots'
+  ]
+  LOOP
+    SELECT jsonb_agg(r || jsonb_build_object('user_id', p_user_id)) INTO v_rows
+    FROM jsonb_array_elements(p_tables -> v_table) AS r;
+
+    CONTINUE WHEN v_rows IS NULL;
+
+    SELECT string_agg(quote_ident(column_name::TEXT), ', ') INTO v_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_table
+      AND is_generated = 'NEVER'
+      AND (v_rows -> 0) ? column_name::TEXT;
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    )
+    USING v_rows;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 6: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT kind, type, name, is_active FROM net_worth_items ORDER BY kind, sort_order;
+-- SELECT i.name, s.date, s.balance FROM net_worth_snapshots s
+--   JOIN net_worth_items i ON i.id = s.item_id ORDER BY s.date DESC;
+-- SELECT tgname, tgrelid::regclass FROM pg_trigger WHERE tgname = 'trg_change_log';
@@ -0,0 +1,78 @@
+-- ============================================
+-- Budget Zen - Payees Migration
+-- ============================================
+-- This migration adds payees:
+-- 1. payees table with aliases and a default category and amount
+-- 2. transactions.payee_id linking a transaction to its payee
+--
+-- Bank memos spell the same merchant in many ways ("Netflix",
+-- "NETFLIX.COM", "netflix"). A payee groups them: its name and aliases are
+-- matched against memos case-insensitively (ignoring punctuation and web
+-- domains) when transactions are created or imported. The default category
+-- is used for matched transactions that get no category otherwise; the
+-- default amount only pre-fills the quick-add form.
+-- ============================================
+
+-- Step 1: Create payees table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS payees (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  aliases TEXT[] DEFAULT '{}' NOT NULL, -- other spellings found in memos
+
+  -- Defaults for new transactions
+  default_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  default_amount DECIMAL(12,2) CHECK (default_amount IS NULL OR default_amount > 0), -- absolute
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- One payee per name (case-insensitive)
+CREATE UNIQUE INDEX IF NOT EXISTS payees_user_name_idx ON payees(user_id, lower(name));
+
+-- Step 2: Enable RLS for payees
+-- ============================================
+
+ALTER TABLE payees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payees"
+  ON payees FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own payees"
+  ON payees FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own payees"
+  ON payees FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own payees"
+  ON payees FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE payees IS 'Merchants and other counterparties with memo aliases and transaction defaults';
+
+-- Step 3: Link transactions to payees
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS payee_id UUID REFERENCES payees(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN transactions.payee_id IS 'Payee the transaction was made with (NULL = unknown)';
+
+-- Payee detail view reads a payee's transactions by date
+CREATE INDEX IF NOT EXISTS transactions_payee_idx
+ON transactions(user_id, payee_id, date)
+WHERE payee_id IS NOT NULL;
+
+-- Step 4: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT name, aliases, default_category_id, default_amount FROM payees ORDER BY name;
+-- SELECT p.name, COUNT(t.id), SUM(t.amount) FROM payees p
+--   LEFT JOIN transactions t ON t.payee_id = p.id GROUP BY p.name;
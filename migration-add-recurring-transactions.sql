@@ -0,0 +1,89 @@
+-- ============================================
+-- Budget Zen - Recurring Transactions Migration
+-- ============================================
+-- This migration adds scheduled (recurring) transactions:
+-- 1. recurring_transactions table with the schedule definitions
+-- 2. transactions.recurring_transaction_id linking generated occurrences
+-- 3. Unique index that makes occurrence generation idempotent
+--
+-- The frequency vocabulary matches budget_items.frequency (monthly,
+-- quarterly, semi_annual, annual) plus weekly and biweekly schedules.
+-- Occurrences are calculated from start_date so month-end dates do not
+-- drift (Jan 31 -> Feb 28 -> Mar 31). next_date is the first occurrence
+-- that has not been generated yet.
+-- ============================================
+
+-- Step 1: Create recurring_transactions table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+
+  -- Signed amount of every occurrence (income positive, expenses negative)
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  memo TEXT,
+
+  -- Schedule
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'semi_annual', 'annual')),
+  start_date DATE NOT NULL,
+  next_date DATE NOT NULL,
+  end_date DATE, -- NULL = no end
+
+  is_active BOOLEAN DEFAULT true NOT NULL,
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS recurring_transactions_user_idx ON recurring_transactions(user_id);
+CREATE INDEX IF NOT EXISTS recurring_transactions_due_idx
+ON recurring_transactions(next_date)
+WHERE is_active = true;
+
+-- Step 2: Enable RLS for recurring_transactions
+-- ============================================
+
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring_transactions"
+  ON recurring_transactions FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own recurring_transactions"
+  ON recurring_transactions FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own recurring_transactions"
+  ON recurring_transactions FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own recurring_transactions"
+  ON recurring_transactions FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE recurring_transactions IS 'Scheduled transactions (rent, salary, subscriptions) generated by the recurring job';
+
+-- Step 3: Link generated occurrences
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID REFERENCES recurring_transactions(id) ON DELETE SET NULL;
+
+-- One occurrence per schedule per date: re-running the job never duplicates
+-- (not partial so it can back ON CONFLICT; NULLs of manual transactions never collide)
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_recurring_occurrence_idx
+ON transactions(recurring_transaction_id, date);
+
+COMMENT ON COLUMN transactions.recurring_transaction_id IS 'Schedule that generated this transaction (NULL for manual transactions)';
+
+-- Step 4: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT frequency, next_date, amount, memo FROM recurring_transactions ORDER BY next_date;
+-- SELECT recurring_transaction_id, date, amount FROM transactions WHERE recurring_transaction_id IS NOT NULL ORDER BY date DESC LIMIT 10;
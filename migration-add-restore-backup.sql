@@ -0,0 +1,87 @@
+-- ============================================
+-- Budget Zen - Restore Backup Migration
+-- ============================================
+-- This migration adds restore_backup, which writes the rows of a backup
+-- archive in one database transaction: either the whole backup is
+-- restored or nothing changes.
+--
+-- The app validates the archive, matches it with the existing data and
+-- gives every row a new id before calling the function. In replace mode
+-- the function deletes the user's data first.
+-- ============================================
+
+-- Step 1: Restore function
+-- ============================================
+-- p_tables holds one array of rows per table. Rows are inserted with the
+-- columns they contain, so everything else (timestamps, swept amounts)
+-- gets its default. user_id is always set to p_user_id.
+
+CREATE OR REPLACE FUNCTION restore_backup(p_user_id TEXT, p_replace BOOLEAN, p_tables JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_table TEXT;
+  v_rows JSONB;
+  v_columns TEXT;
+BEGIN
+  IF p_replace THEN
+    -- Referencing rows first; sweep transfers go with the transactions
+    FOREACH v_table IN ARRAY ARRAY[
+      'month_closes',
+      'budget_moves',
+      'monthly_budgets',
+      'transaction_splits',
+      'transactions',
+      'category_rules',
+      'recurring_transactions',
+      'payees',
+      'accounts',
+      'categories'
+    ]
+    LOOP
+      EXECUTE format('DELETE FROM %I WHERE user_id = $1', v_table) USING p_user_id;
+    END LOOP;
+  END IF;
+
+  -- Referenced rows first (categories reference each other, which works
+  -- because all rows of a table are inserted in one statement)
+  FOREACH v_table IN ARRAY ARRAY[
+    'categories',
+    'accounts',
+    'payees',
+    'recurring_transactions',
+    'category_rules',
+    'transactions',
+    'transaction_splits',
+    'monthly_budgets',
+    'budget_moves',
+    'month_closes'
+  ]
+  LOOP
+    SELECT jsonb_agg(r || jsonb_build_object('user_id', p_user_id)) INTO v_rows
+    FROM jsonb_array_elements(p_tables -> v_table) AS r;
+
+    CONTINUE WHEN v_rows IS NULL;
+
+    SELECT string_agg(quote_ident(column_name::TEXT), ', ') INTO v_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_table
+      AND is_generated = 'NEVER'
+      AND (v_rows -> 0) ? column_name::TEXT;
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    )
+    USING v_rows;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION restore_backup IS 'Restore the rows of a backup archive (optionally replacing all data) in one database transaction';
+
+-- Step 2: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT proname FROM pg_proc WHERE proname = 'restore_backup';
+-- SELECT restore_backup('<user_id>', FALSE, '{"month_closes": [{"id": "<uuid>", "month_iso": "2024-01"}]}'::JSONB);
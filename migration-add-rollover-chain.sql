@@ -0,0 +1,40 @@
+-- ============================================
+-- Budget Zen - Rollover Chain Migration
+-- ============================================
+-- Start balances are no longer read from the previous month's
+-- monthly_budgets row only. The app walks the full per-category history,
+-- so skipped months keep ACCUMULATE balances and edits to old months
+-- propagate to every later month.
+--
+-- This migration adds an aggregate view so the history can be loaded
+-- with one row per category per month instead of every transaction.
+-- ============================================
+
+-- Step 1: Index for per-category history lookups
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS transactions_user_category_date_idx
+ON transactions(user_id, category_id, date);
+
+-- Step 2: Create category_month_activity view
+-- ============================================
+-- Signed activity per category per month, sweep transfers included
+-- (they are part of a category's end-of-month balance).
+
+CREATE OR REPLACE VIEW category_month_activity
+WITH (security_invoker = true) AS
+SELECT
+  t.user_id,
+  t.category_id,
+  TO_CHAR(t.date, 'YYYY-MM') AS month_iso,
+  SUM(t.amount)::DECIMAL(12,2) AS activity
+FROM transactions t
+WHERE t.category_id IS NOT NULL
+GROUP BY t.user_id, t.category_id, TO_CHAR(t.date, 'YYYY-MM');
+
+COMMENT ON VIEW category_month_activity IS 'Signed transaction total per category per month (used for the rollover chain)';
+
+-- Step 3: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT * FROM category_month_activity ORDER BY month_iso DESC LIMIT 10;
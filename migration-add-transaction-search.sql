@@ -0,0 +1,36 @@
+-- ============================================
+-- Budget Zen - Transaction Search Migration
+-- ============================================
+-- This migration supports searching and paging transactions:
+-- 1. memo_search full-text column on transactions
+-- 2. Index for cursor pagination by date
+--
+-- memo_search uses the 'simple' text search configuration (lowercase
+-- words, no stemming), which suits merchant names and bank memos in any
+-- language. The app searches it with prefix queries ("netf:*"), so partly
+-- typed words match as well.
+-- ============================================
+
+-- Step 1: Add full-text search column
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS memo_search TSVECTOR
+GENERATED ALWAYS AS (to_tsvector('simple', coalesce(memo, ''))) STORED;
+
+COMMENT ON COLUMN transactions.memo_search IS 'Full-text index of the memo (simple configuration)';
+
+CREATE INDEX IF NOT EXISTS transactions_memo_search_idx
+ON transactions USING GIN (memo_search);
+
+-- Step 2: Index for cursor pagination (date, created_at, id - newest first)
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS transactions_user_cursor_idx
+ON transactions(user_id, date DESC, created_at DESC, id DESC);
+
+-- Step 3: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT memo, memo_search FROM transactions WHERE memo IS NOT NULL LIMIT 10;
+-- SELECT id, memo FROM transactions WHERE memo_search @@ to_tsquery('simple', 'rewe:*') LIMIT 10;
@@ -0,0 +1,391 @@
+-- ============================================
+-- Budget Zen - Split Transactions Migration
+-- ============================================
+-- This migration adds split transactions:
+-- 1. transaction_splits table with the category/amount lines of a split
+-- 2. transactions.is_split marking the parent of a split
+-- 3. transaction_lines view: every transaction once, split parents replaced
+--    by their lines
+-- 4. category_month_activity and monthly_summaries read transaction_lines
+--
+-- A split parent keeps the full amount, date and account but has no
+-- category. Its lines carry the categories and signed amounts (same sign
+-- as the parent) and always add up to the parent amount; edits write parent
+-- and lines in one database transaction (update_split_transaction). Splits are expense-only.
+-- ============================================
+
+-- Step 1: Create transaction_splits table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS transaction_splits (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES categories(id),
+
+  -- Signed like the parent transaction (expenses negative)
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  memo TEXT,
+  sort_order INTEGER DEFAULT 0 NOT NULL,
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS transaction_splits_transaction_idx ON transaction_splits(transaction_id);
+CREATE INDEX IF NOT EXISTS transaction_splits_category_idx ON transaction_splits(category_id);
+
+-- Step 2: Enable RLS for transaction_splits
+-- ============================================
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction_splits"
+  ON transaction_splits FOR SELECT
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can insert own transaction_splits"
+  ON transaction_splits FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can update own transaction_splits"
+  ON transaction_splits FOR UPDATE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+CREATE POLICY "Users can delete own transaction_splits"
+  ON transaction_splits FOR DELETE
+  USING (user_id = (SELECT auth.jwt() ->> 'user_id'));
+
+COMMENT ON TABLE transaction_splits IS 'Category/amount lines of a split transaction (sum equals the parent amount)';
+
+-- Step 3: Mark split parents
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS is_split BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN transactions.is_split IS 'Parent of a split: category and activity come from transaction_splits';
+
+-- Step 4: transaction_lines view
+-- ============================================
+-- One row per category line. id is always the transaction id, split_id is
+-- set for lines of a split.
+
+CREATE OR REPLACE VIEW transaction_lines
+WITH (security_invoker = true) AS
+SELECT
+  t.id,
+  NULL::UUID AS split_id,
+  t.user_id,
+  t.category_id,
+  t.account_id,
+  t.transfer_id,
+  t.date,
+  t.amount,
+  t.memo,
+  t.is_sweep_transaction,
+  t.is_starting_balance
+FROM transactions t
+WHERE NOT t.is_split
+
+UNION ALL
+
+SELECT
+  t.id,
+  s.id AS split_id,
+  t.user_id,
+  s.category_id,
+  t.account_id,
+  t.transfer_id,
+  t.date,
+  s.amount,
+  COALESCE(s.memo, t.memo) AS memo,
+  t.is_sweep_transaction,
+  t.is_starting_balance
+FROM transaction_splits s
+JOIN transactions t ON t.id = s.transaction_id
+WHERE t.is_split;
+
+COMMENT ON VIEW transaction_lines IS 'Transactions with split parents replaced by their category lines (used for activity)';
+
+-- Step 5: Split lines in category_month_activity
+-- ============================================
+-- Same definition as in migration-add-credit-cards.sql, reading lines
+-- instead of transactions for category activity and card spending.
+
+CREATE OR REPLACE VIEW category_month_activity
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  category_id,
+  month_iso,
+  SUM(activity)::DECIMAL(12,2) AS activity
+FROM (
+  -- Regular transactions and split lines (sweep transfers included)
+  SELECT
+    l.user_id,
+    l.category_id,
+    TO_CHAR(l.date, 'YYYY-MM') AS month_iso,
+    l.amount AS activity
+  FROM transaction_lines l
+  WHERE l.category_id IS NOT NULL
+
+  UNION ALL
+
+  -- Card spending moves budgeted money into the payment category
+  SELECT
+    l.user_id,
+    a.payment_category_id AS category_id,
+    TO_CHAR(l.date, 'YYYY-MM') AS month_iso,
+    -l.amount AS activity
+  FROM transaction_lines l
+  JOIN accounts a ON a.id = l.account_id
+  JOIN categories c ON c.id = l.category_id
+  WHERE a.type = 'CREDIT_CARD'
+    AND a.payment_category_id IS NOT NULL
+    AND NOT l.is_sweep_transaction
+    AND c.type NOT IN ('INCOME', 'CREDIT_CARD')
+
+  UNION ALL
+
+  -- Card payments draw down the payment category
+  SELECT
+    t.user_id,
+    a.payment_category_id AS category_id,
+    TO_CHAR(t.date, 'YYYY-MM') AS month_iso,
+    -t.amount AS activity
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  WHERE a.type = 'CREDIT_CARD'
+    AND a.payment_category_id IS NOT NULL
+    AND t.transfer_id IS NOT NULL
+    AND t.amount > 0
+) activity_sources
+GROUP BY user_id, category_id, month_iso;
+
+COMMENT ON VIEW category_month_activity IS 'Signed activity per category per month incl. split lines and credit card funding (used for the rollover chain)';
+
+-- Step 6: Split lines in monthly_summaries
+-- ============================================
+-- Same definition as in migration-add-transfers.sql; amounts come from
+-- transaction_lines, transaction_count still counts transactions.
+
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary_for_month(p_user_id TEXT, p_month_iso TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_total_income DECIMAL(12,2);
+  v_total_expenses DECIMAL(12,2);
+  v_transaction_count INTEGER;
+  v_expenses_by_type JSONB;
+  v_income_by_category JSONB;
+  v_expenses_by_category JSONB;
+BEGIN
+  -- Count transactions (a split counts once)
+  SELECT COUNT(*)
+  INTO v_transaction_count
+  FROM transactions t
+  WHERE t.user_id = p_user_id
+    AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+    AND NOT t.is_sweep_transaction
+    AND t.transfer_id IS NULL;
+
+  -- If no transactions, delete the summary
+  IF v_transaction_count = 0 THEN
+    DELETE FROM monthly_summaries WHERE user_id = p_user_id AND month_iso = p_month_iso;
+    RETURN;
+  END IF;
+
+  -- Calculate totals
+  SELECT
+    COALESCE(SUM(CASE WHEN c.type = 'INCOME' THEN ABS(l.amount) ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN c.type IS NULL OR c.type != 'INCOME' THEN ABS(l.amount) ELSE 0 END), 0)
+  INTO v_total_income, v_total_expenses
+  FROM transaction_lines l
+  LEFT JOIN categories c ON l.category_id = c.id
+  WHERE l.user_id = p_user_id
+    AND TO_CHAR(l.date, 'YYYY-MM') = p_month_iso
+    AND NOT l.is_sweep_transaction
+    AND l.transfer_id IS NULL;
+
+  -- Calculate breakdowns
+  SELECT COALESCE(jsonb_object_agg(type, amount), '{}'::jsonb)
+  INTO v_expenses_by_type
+  FROM (
+    SELECT
+      COALESCE(c.type, 'UNCATEGORIZED') as type,
+      SUM(ABS(l.amount)) as amount
+    FROM transaction_lines l
+    LEFT JOIN categories c ON l.category_id = c.id
+    WHERE l.user_id = p_user_id
+      AND TO_CHAR(l.date, 'YYYY-MM') = p_month_iso
+      AND NOT l.is_sweep_transaction
+      AND l.transfer_id IS NULL
+      AND (c.type IS NULL OR c.type != 'INCOME')
+    GROUP BY c.type
+  ) sub;
+
+  SELECT COALESCE(jsonb_object_agg(category_id, amount), '{}'::jsonb)
+  INTO v_income_by_category
+  FROM (
+    SELECT
+      l.category_id::text as category_id,
+      SUM(ABS(l.amount)) as amount
+    FROM transaction_lines l
+    JOIN categories c ON l.category_id = c.id
+    WHERE l.user_id = p_user_id
+      AND TO_CHAR(l.date, 'YYYY-MM') = p_month_iso
+      AND NOT l.is_sweep_transaction
+      AND l.transfer_id IS NULL
+      AND c.type = 'INCOME'
+    GROUP BY l.category_id
+  ) sub;
+
+  SELECT COALESCE(jsonb_object_agg(category_id, amount), '{}'::jsonb)
+  INTO v_expenses_by_category
+  FROM (
+    SELECT
+      COALESCE(l.category_id::text, 'uncategorized') as category_id,
+      SUM(ABS(l.amount)) as amount
+    FROM transaction_lines l
+    LEFT JOIN categories c ON l.category_id = c.id
+    WHERE l.user_id = p_user_id
+      AND TO_CHAR(l.date, 'YYYY-MM') = p_month_iso
+      AND NOT l.is_sweep_transaction
+      AND l.transfer_id IS NULL
+      AND (c.type IS NULL OR c.type != 'INCOME')
+    GROUP BY l.category_id
+  ) sub;
+
+  -- Upsert
+  INSERT INTO monthly_summaries (
+    user_id, month_iso, total_income, total_expenses, balance, transaction_count,
+    expenses_by_type, income_by_category, expenses_by_category, calculated_at, updated_at
+  ) VALUES (
+    p_user_id, p_month_iso, v_total_income, v_total_expenses,
+    v_total_income - v_total_expenses, v_transaction_count,
+    v_expenses_by_type, v_income_by_category, v_expenses_by_category, NOW(), NOW()
+  )
+  ON CONFLICT (user_id, month_iso) DO UPDATE SET
+    total_income = EXCLUDED.total_income,
+    total_expenses = EXCLUDED.total_expenses,
+    balance = EXCLUDED.balance,
+    transaction_count = EXCLUDED.transaction_count,
+    expenses_by_type = EXCLUDED.expenses_by_type,
+    income_by_category = EXCLUDED.income_by_category,
+    expenses_by_category = EXCLUDED.expenses_by_category,
+    calculated_at = NOW(),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 7: Recalculate summaries when split lines change
+-- ============================================
+-- Lines are replaced after their parent is written, so the parent's own
+-- trigger may have seen the old lines.
+
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary_for_split()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id TEXT;
+  v_month_iso TEXT;
+BEGIN
+  SELECT t.user_id, TO_CHAR(t.date, 'YYYY-MM')
+  INTO v_user_id, v_month_iso
+  FROM transactions t
+  WHERE t.id = COALESCE(NEW.transaction_id, OLD.transaction_id);
+
+  -- Parent already deleted: its own trigger rebuilt the month
+  IF FOUND THEN
+    PERFORM recalculate_monthly_summary_for_month(v_user_id, v_month_iso);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_transaction_split_summary ON transaction_splits;
+
+CREATE TRIGGER trg_transaction_split_summary
+  AFTER INSERT OR UPDATE OR DELETE ON transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_monthly_summary_for_split();
+
+-- Step 8: Atomic split update
+-- ============================================
+-- Writes the parent row and replaces its lines in one database transaction,
+-- so a failing line insert cannot leave a split parent without lines.
+-- p_account_id NULL keeps the current account; p_set_payee = FALSE keeps
+-- the current payee. p_splits is a JSON array of {category_id, amount, memo}
+-- with amounts signed like the parent; an empty array removes the split
+-- and the parent takes p_category_id again.
+
+CREATE OR REPLACE FUNCTION update_split_transaction(
+  p_user_id TEXT,
+  p_transaction_id UUID,
+  p_account_id UUID,
+  p_category_id UUID,
+  p_amount DECIMAL(12,2),
+  p_date DATE,
+  p_memo TEXT,
+  p_set_payee BOOLEAN,
+  p_payee_id UUID,
+  p_splits JSONB
+)
+RETURNS transactions AS $$
+DECLARE
+  v_transaction transactions;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.is_reconciled THEN
+    RAISE EXCEPTION 'Reconciled transactions cannot be changed';
+  END IF;
+
+  IF v_transaction.transfer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transfers cannot be changed';
+  END IF;
+
+  UPDATE transactions
+  SET category_id = CASE WHEN jsonb_array_length(p_splits) > 0 THEN NULL ELSE p_category_id END,
+      account_id = COALESCE(p_account_id, account_id),
+      amount = p_amount,
+      date = p_date,
+      memo = p_memo,
+      is_split = jsonb_array_length(p_splits) > 0,
+      payee_id = CASE WHEN p_set_payee THEN p_payee_id ELSE payee_id END
+  WHERE id = p_transaction_id AND user_id = p_user_id
+  RETURNING * INTO v_transaction;
+
+  DELETE FROM transaction_splits
+  WHERE transaction_id = p_transaction_id AND user_id = p_user_id;
+
+  INSERT INTO transaction_splits (user_id, transaction_id, category_id, amount, memo, sort_order)
+  SELECT
+    p_user_id,
+    p_transaction_id,
+    (line.value ->> 'category_id')::UUID,
+    (line.value ->> 'amount')::DECIMAL(12,2),
+    NULLIF(TRIM(line.value ->> 'memo'), ''),
+    (line.ordinality - 1)::INTEGER
+  FROM jsonb_array_elements(p_splits) WITH ORDINALITY AS line(value, ordinality);
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION update_split_transaction IS 'Update a split transaction and replace its lines in one database transaction';
+
+-- Step 9: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT t.id, t.amount, SUM(s.amount) FROM transactions t JOIN transaction_splits s ON s.transaction_id = t.id
+--   WHERE t.is_split GROUP BY t.id, t.amount HAVING t.amount <> SUM(s.amount);
+-- SELECT * FROM transaction_lines WHERE split_id IS NOT NULL LIMIT 10;
+-- SELECT proname FROM pg_proc WHERE proname = 'update_split_transaction';
@@ -0,0 +1,136 @@
+-- ============================================
+-- Budget Zen - Account Transfers Migration
+-- ============================================
+-- This migration adds transfers between accounts:
+-- 1. transfer_id column on transactions linking the two legs of a transfer
+-- 2. monthly_summaries aggregates ignore transfer legs
+--
+-- A transfer is stored as two uncategorized transactions sharing one
+-- transfer_id: a negative leg on the source account and a positive leg
+-- on the destination account. Transfers only move money between accounts,
+-- so they are neither income nor expense and never count as activity.
+-- ============================================
+
+-- Step 1: Transfer column
+-- ============================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS transfer_id UUID;
+
+CREATE INDEX IF NOT EXISTS transactions_transfer_id_idx
+ON transactions(transfer_id)
+WHERE transfer_id IS NOT NULL;
+
+COMMENT ON COLUMN transactions.transfer_id IS 'Shared by both legs of a transfer between accounts (excluded from income/expense aggregates)';
+
+-- Step 2: Exclude transfers from monthly_summaries
+-- ============================================
+-- Same definition as in migration-add-month-close.sql plus the transfer filter.
+
+CREATE OR REPLACE FUNCTION recalculate_monthly_summary_for_month(p_user_id TEXT, p_month_iso TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_total_income DECIMAL(12,2);
+  v_total_expenses DECIMAL(12,2);
+  v_transaction_count INTEGER;
+  v_expenses_by_type JSONB;
+  v_income_by_category JSONB;
+  v_expenses_by_category JSONB;
+BEGIN
+  -- Calculate totals
+  SELECT
+    COALESCE(SUM(CASE WHEN c.type = 'INCOME' THEN ABS(t.amount) ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN c.type IS NULL OR c.type != 'INCOME' THEN ABS(t.amount) ELSE 0 END), 0),
+    COUNT(*)
+  INTO v_total_income, v_total_expenses, v_transaction_count
+  FROM transactions t
+  LEFT JOIN categories c ON t.category_id = c.id
+  WHERE t.user_id = p_user_id
+    AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+    AND NOT t.is_sweep_transaction
+    AND t.transfer_id IS NULL;
+
+  -- If no transactions, delete the summary
+  IF v_transaction_count = 0 THEN
+    DELETE FROM monthly_summaries WHERE user_id = p_user_id AND month_iso = p_month_iso;
+    RETURN;
+  END IF;
+
+  -- Calculate breakdowns
+  SELECT COALESCE(jsonb_object_agg(type, amount), '{}'::jsonb)
+  INTO v_expenses_by_type
+  FROM (
+    SELECT
+      COALESCE(c.type, 'UNCATEGORIZED') as type,
+      SUM(ABS(t.amount)) as amount
+    FROM transactions t
+    LEFT JOIN categories c ON t.category_id = c.id
+    WHERE t.user_id = p_user_id
+      AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+      AND NOT t.is_sweep_transaction
+      AND t.transfer_id IS NULL
+      AND (c.type IS NULL OR c.type != 'INCOME')
+    GROUP BY c.type
+  ) sub;
+
+  SELECT COALESCE(jsonb_object_agg(category_id, amount), '{}'::jsonb)
+  INTO v_income_by_category
+  FROM (
+    SELECT
+      t.category_id::text as category_id,
+      SUM(ABS(t.amount)) as amount
+    FROM transactions t
+    JOIN categories c ON t.category_id = c.id
+    WHERE t.user_id = p_user_id
+      AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+      AND NOT t.is_sweep_transaction
+      AND t.transfer_id IS NULL
+      AND c.type = 'INCOME'
+    GROUP BY t.category_id
+  ) sub;
+
+  SELECT COALESCE(jsonb_object_agg(category_id, amount), '{}'::jsonb)
+  INTO v_expenses_by_category
+  FROM (
+    SELECT
+      COALESCE(t.category_id::text, 'uncategorized') as category_id,
+      SUM(ABS(t.amount)) as amount
+    FROM transactions t
+    LEFT JOIN categories c ON t.category_id = c.id
+    WHERE t.user_id = p_user_id
+      AND TO_CHAR(t.date, 'YYYY-MM') = p_month_iso
+      AND NOT t.is_sweep_transaction
+      AND t.transfer_id IS NULL
+      AND (c.type IS NULL OR c.type != 'INCOME')
+    GROUP BY t.category_id
+  ) sub;
+
+  -- Upsert
+  INSERT INTO monthly_summaries (
+    user_id, month_iso, total_income, total_expenses, balance, transaction_count,
+    expenses_by_type, income_by_category, expenses_by_category, calculated_at, updated_at
+  ) VALUES (
+    p_user_id, p_month_iso, v_total_income, v_total_expenses,
+    v_total_income - v_total_expenses, v_transaction_count,
+    v_expenses_by_type, v_income_by_category, v_expenses_by_category, NOW(), NOW()
+  )
+  ON CONFLICT (user_id, month_iso) DO UPDATE SET
+    total_income = EXCLUDED.total_income,
+    total_expenses = EXCLUDED.total_expenses,
+    balance = EXCLUDED.balance,
+    transaction_count = EXCLUDED.transaction_count,
+    expenses_by_type = EXCLUDED.expenses_by_type,
+    income_by_category = EXCLUDED.income_by_category,
+    expenses_by_category = EXCLUDED.expenses_by_category,
+    calculated_at = NOW(),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild summaries so existing months drop any transfer legs
+SELECT backfill_monthly_summaries();
+
+-- Step 3: Verification queries (run manually after migration)
+-- ============================================
+
+-- SELECT transfer_id, COUNT(*), SUM(amount) FROM transactions WHERE transfer_id IS NOT NULL GROUP BY transfer_id;
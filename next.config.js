@@ -1,6 +1,13 @@
 const withNextIntl = require('next-intl/plugin')('./i18n/request.ts')
 
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    serverActions: {
+      // Backup archives are sent to the restore actions as a whole
+      bodySizeLimit: '25mb',
+    },
+  },
+}
 
 module.exports = withNextIntl(nextConfig)